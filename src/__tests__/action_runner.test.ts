@@ -0,0 +1,131 @@
+import { ActionRunner } from "../services/action_runner.js";
+import { type CapturedRequest, type PageAction } from "../types.js";
+import { config } from "../config.js";
+import { Logger } from "../logger.js";
+
+describe("ActionRunner", () => {
+  let runner: ActionRunner;
+  let mockLogger: jest.Mocked<Logger>;
+  let mockPage: any;
+  let capturedRequests: CapturedRequest[];
+
+  const capture = (id: string, url = `https://example.com/api/${id}`) => {
+    capturedRequests.push({
+      id,
+      url,
+      method: "GET",
+      headers: {},
+      timestamp: "2024-01-01T12:00:00Z",
+      resourceType: "fetch",
+    });
+  };
+
+  beforeEach(() => {
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    } as unknown as jest.Mocked<Logger>;
+    mockPage = {
+      click: jest.fn().mockResolvedValue(undefined),
+      fill: jest.fn().mockResolvedValue(undefined),
+      press: jest.fn().mockResolvedValue(undefined),
+      hover: jest.fn().mockResolvedValue(undefined),
+      selectOption: jest.fn().mockResolvedValue([]),
+      waitForSelector: jest.fn().mockResolvedValue(null),
+      waitForRequest: jest.fn().mockResolvedValue(undefined),
+      waitForTimeout: jest.fn().mockResolvedValue(undefined),
+      evaluate: jest.fn(),
+      keyboard: { press: jest.fn().mockResolvedValue(undefined) },
+    };
+    capturedRequests = [];
+    runner = new ActionRunner(mockLogger);
+  });
+
+  it("should run each action and attribute the requests it triggered", async () => {
+    mockPage.click.mockImplementation(async () => {
+      capture("req-1");
+      capture("req-2");
+    });
+    const actions: PageAction[] = [
+      { type: "fill", selector: "#q", value: "shoes" },
+      { type: "click", selector: "#search", name: "search" },
+    ];
+
+    const results = await runner.runActions(mockPage, actions, capturedRequests);
+
+    expect(mockPage.fill).toHaveBeenCalledWith("#q", "shoes", { timeout: config.timeouts.action });
+    expect(mockPage.click).toHaveBeenCalledWith("#search", { timeout: config.timeouts.action });
+    expect(mockPage.waitForTimeout).toHaveBeenCalledWith(config.timeouts.actionSettle);
+    expect(results).toEqual([
+      expect.objectContaining({ index: 0, type: "fill", success: true, requestIds: [] }),
+      expect.objectContaining({ index: 1, type: "click", name: "search", success: true, requestIds: ["req-1", "req-2"] }),
+    ]);
+    expect(capturedRequests.map((request) => request.phase)).toEqual(["action:search", "action:search"]);
+  });
+
+  it("should report a failing step and skip the remaining steps", async () => {
+    mockPage.click.mockRejectedValue(new Error("Timeout 10000ms exceeded"));
+    const actions: PageAction[] = [
+      { type: "click", selector: "#missing", timeout: 1000 },
+      { type: "hover", selector: "#menu" },
+    ];
+
+    const results = await runner.runActions(mockPage, actions, capturedRequests);
+
+    expect(mockPage.click).toHaveBeenCalledWith("#missing", { timeout: 1000 });
+    expect(mockPage.hover).not.toHaveBeenCalled();
+    expect(results[0]).toEqual(expect.objectContaining({ success: false, error: "Timeout 10000ms exceeded" }));
+    expect(results[1]).toEqual(expect.objectContaining({ success: false, skipped: true }));
+    expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining("Step 1 (click) failed"));
+  });
+
+  it("should press keys on an element or on the page", async () => {
+    await runner.runActions(mockPage, [
+      { type: "press", selector: "#q", key: "Enter" },
+      { type: "press", key: "Escape" },
+    ], capturedRequests);
+
+    expect(mockPage.press).toHaveBeenCalledWith("#q", "Enter", { timeout: config.timeouts.action });
+    expect(mockPage.keyboard.press).toHaveBeenCalledWith("Escape");
+  });
+
+  it("should scroll until the page height stops growing", async () => {
+    mockPage.evaluate
+      .mockResolvedValueOnce(1000)
+      .mockResolvedValueOnce(2000)
+      .mockResolvedValueOnce(2000);
+
+    const [result] = await runner.runActions(mockPage, [{ type: "scrollToBottom", delay: 100 }], capturedRequests);
+
+    expect(result!.success).toBe(true);
+    expect(mockPage.evaluate).toHaveBeenCalledTimes(3);
+    expect(mockPage.waitForTimeout).toHaveBeenCalledWith(100);
+  });
+
+  it("should accept a matching request already fired by the previous step", async () => {
+    mockPage.click.mockImplementation(async () => capture("req-1", "https://example.com/api/v2/items"));
+
+    const results = await runner.runActions(mockPage, [
+      { type: "click", selector: "#load" },
+      { type: "waitForRequest", urlPattern: "/api\\/v\\d\\/items/" },
+    ], capturedRequests);
+
+    expect(results[1]!.success).toBe(true);
+    expect(mockPage.waitForRequest).not.toHaveBeenCalled();
+    expect(capturedRequests[0]!.phase).toBe("action:1-click");
+  });
+
+  it("should wait for a future request matching a URL substring", async () => {
+    mockPage.waitForRequest.mockImplementation(async (predicate: (request: any) => boolean) => {
+      expect(predicate({ url: () => "https://example.com/graphql" })).toBe(true);
+      expect(predicate({ url: () => "https://example.com/other" })).toBe(false);
+    });
+
+    const [result] = await runner.runActions(mockPage, [{ type: "waitForRequest", urlPattern: "/graphql", timeout: 2000 }], capturedRequests);
+
+    expect(result!.success).toBe(true);
+    expect(mockPage.waitForRequest).toHaveBeenCalledWith(expect.any(Function), { timeout: 2000 });
+  });
+});
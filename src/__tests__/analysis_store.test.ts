@@ -0,0 +1,139 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  MemoryAnalysisStore,
+  FileAnalysisStore,
+} from "../services/analysis_store.js";
+import { Logger } from "../logger.js";
+
+describe("AnalysisStore", () => {
+  let mockLogger: jest.Mocked<Logger>;
+
+  const makeResult = (url: string, analysisId: string): any => ({
+    analysisId,
+    url,
+    title: "Test Website",
+    requests: [],
+    totalRequests: 0,
+    uniqueDomains: [],
+    requestsByType: {},
+    analysisTimestamp: "2024-01-01T12:00:00Z",
+    renderMethod: "unknown",
+    antiBotDetection: { detected: false },
+  });
+
+  beforeEach(() => {
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    } as unknown as jest.Mocked<Logger>;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe("MemoryAnalysisStore", () => {
+    it("should keep insertion order when iterating", () => {
+      const store = new MemoryAnalysisStore(mockLogger);
+      store.set("a", makeResult("https://example.com", "a"));
+      store.set("b", makeResult("https://example.com", "b"));
+      store.get("a");
+
+      expect(Array.from(store.keys())).toEqual(["a", "b"]);
+      expect(store.size).toBe(2);
+    });
+
+    it("should evict the least recently used entry when maxEntries is exceeded", () => {
+      jest.useFakeTimers();
+      jest.setSystemTime(1000);
+      const store = new MemoryAnalysisStore(mockLogger, { maxEntries: 2 });
+      store.set("a", makeResult("https://example.com", "a"));
+      jest.setSystemTime(2000);
+      store.set("b", makeResult("https://example.com", "b"));
+      jest.setSystemTime(3000);
+      store.get("a");
+      jest.setSystemTime(4000);
+      store.set("c", makeResult("https://example.com", "c"));
+
+      expect(Array.from(store.keys())).toEqual(["a", "c"]);
+    });
+
+    it("should evict entries when maxBytes is exceeded but keep the newest", () => {
+      const entryBytes = Buffer.byteLength(
+        JSON.stringify(makeResult("https://example.com", "a"))
+      );
+      const store = new MemoryAnalysisStore(mockLogger, {
+        maxBytes: entryBytes,
+      });
+      store.set("a", makeResult("https://example.com", "a"));
+      store.set("b", makeResult("https://example.com", "b"));
+
+      expect(Array.from(store.keys())).toEqual(["b"]);
+      expect(store.getTotalBytes()).toBe(entryBytes);
+    });
+
+    it("should expire entries older than the TTL", () => {
+      jest.useFakeTimers();
+      jest.setSystemTime(0);
+      const store = new MemoryAnalysisStore(mockLogger, { ttl: 1000 });
+      store.set("a", makeResult("https://example.com", "a"));
+
+      jest.setSystemTime(500);
+      expect(store.get("a")).toBeDefined();
+
+      jest.setSystemTime(1500);
+      expect(store.get("a")).toBeUndefined();
+      expect(store.size).toBe(0);
+    });
+  });
+
+  describe("FileAnalysisStore", () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), "analysis-store-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("should reload persisted analyses on startup", () => {
+      const store = new FileAnalysisStore(mockLogger, directory);
+      store.set("a", makeResult("https://example.com", "a"));
+      store.set("b", makeResult("https://other.example.com", "b"));
+      store.close();
+
+      const reloaded = new FileAnalysisStore(mockLogger, directory);
+      expect(reloaded.size).toBe(2);
+      expect(Array.from(reloaded.keys())).toEqual(["a", "b"]);
+      expect(reloaded.get("b")?.url).toBe("https://other.example.com");
+    });
+
+    it("should remove files for evicted and cleared analyses", () => {
+      const store = new FileAnalysisStore(mockLogger, directory, {
+        maxEntries: 1,
+      });
+      store.set("a", makeResult("https://example.com", "a"));
+      store.set("b", makeResult("https://example.com", "b"));
+      expect(fs.readdirSync(directory)).toEqual(["b.json"]);
+
+      store.clear();
+      expect(fs.readdirSync(directory)).toEqual([]);
+    });
+
+    it("should skip unreadable files", () => {
+      fs.writeFileSync(path.join(directory, "broken.json"), "{not json");
+      const store = new FileAnalysisStore(mockLogger, directory);
+
+      expect(store.size).toBe(0);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.stringContaining("Skipping unreadable analysis file broken.json")
+      );
+    });
+  });
+});
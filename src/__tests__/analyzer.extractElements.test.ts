@@ -1,5 +1,5 @@
 import { WebsiteAnalyzer } from "../analyzer.js";
-import { InvalidUrlError } from "../errors.js";
+import { AnalysisTimeoutError, InvalidSelectorError, InvalidUrlError } from "../errors.js";
 import { config } from "../config.js";
 
 describe('WebsiteAnalyzer.extractHtmlElements', () => {
@@ -79,4 +79,183 @@ describe('WebsiteAnalyzer.extractHtmlElements', () => {
 
     expect(fakePage.close).toHaveBeenCalled();
   });
-});
\ No newline at end of file
+});
+describe('WebsiteAnalyzer.extractTables', () => {
+  let mockLogger: any;
+  let fakePage: any;
+  let analyzer: WebsiteAnalyzer;
+
+  beforeEach(() => {
+    mockLogger = { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() };
+    fakePage = {
+      goto: jest.fn().mockResolvedValue(undefined),
+      waitForLoadState: jest.fn().mockResolvedValue(undefined),
+      close: jest.fn().mockResolvedValue(undefined),
+    };
+    const fakeBrowserManager: any = {
+      initialize: jest.fn().mockResolvedValue(undefined),
+      getContext: jest.fn().mockReturnValue({ newPage: jest.fn().mockResolvedValue(fakePage) }),
+    };
+    analyzer = new WebsiteAnalyzer(fakeBrowserManager, mockLogger);
+  });
+
+  it('waits for the network to settle, delegates extraction and closes the page', async () => {
+    const tables = [{ selector: '#prices', tag: 'table', headers: ['Plan'], headerSource: 'th', rows: [{ Plan: 'Basic' }], rowCount: 1, columnCount: 1 }];
+    (analyzer as any).pageAnalyzer = { extractTables: jest.fn().mockResolvedValue(tables) };
+
+    await expect(analyzer.extractTables('https://example.com')).resolves.toEqual(tables);
+
+    expect(fakePage.waitForLoadState).toHaveBeenCalledWith('networkidle', expect.any(Object));
+    expect(fakePage.close).toHaveBeenCalled();
+  });
+
+  it('throws InvalidUrlError for invalid URL and a generic error when loading fails', async () => {
+    (analyzer as any).pageAnalyzer = { extractTables: jest.fn() };
+    await expect(analyzer.extractTables('not-a-valid-url')).rejects.toBeInstanceOf(InvalidUrlError);
+
+    fakePage.goto.mockRejectedValue(new Error('Network issue'));
+    await expect(analyzer.extractTables('https://example.com')).rejects.toThrow('Failed to extract tables');
+    expect(fakePage.close).toHaveBeenCalled();
+  });
+
+  it('throws AnalysisTimeoutError when the page does not load in time', async () => {
+    (analyzer as any).pageAnalyzer = { extractTables: jest.fn() };
+    const timeout = Object.assign(new Error('page.goto: Timeout 30000ms exceeded'), { name: 'TimeoutError' });
+    fakePage.goto.mockRejectedValue(timeout);
+
+    await expect(analyzer.extractTables('https://example.com')).rejects.toBeInstanceOf(AnalysisTimeoutError);
+    expect(fakePage.close).toHaveBeenCalled();
+  });
+});
+
+describe('WebsiteAnalyzer.extractStructuredData', () => {
+  it('passes the X-Robots-Tag header of the response to the extractor and closes the page', async () => {
+    const fakePage: any = {
+      goto: jest.fn().mockResolvedValue({ headers: () => ({ 'x-robots-tag': 'noindex' }) }),
+      waitForLoadState: jest.fn().mockResolvedValue(undefined),
+      close: jest.fn().mockResolvedValue(undefined),
+    };
+    const fakeBrowserManager: any = {
+      initialize: jest.fn().mockResolvedValue(undefined),
+      getContext: jest.fn().mockReturnValue({ newPage: jest.fn().mockResolvedValue(fakePage) }),
+    };
+    const mockLogger: any = { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() };
+    const analyzer = new WebsiteAnalyzer(fakeBrowserManager, mockLogger);
+    const data = { url: 'https://example.com', items: {}, itemCount: 0, meta: {} };
+    const extract = jest.fn().mockResolvedValue(data);
+    (analyzer as any).structuredDataExtractor = { extract };
+
+    await expect(analyzer.extractStructuredData('https://example.com')).resolves.toBe(data);
+
+    expect(extract).toHaveBeenCalledWith(fakePage, 'noindex');
+    expect(fakePage.close).toHaveBeenCalled();
+  });
+});
+
+describe('WebsiteAnalyzer.extractWithSchema', () => {
+  let mockLogger: any;
+  let fakePage: any;
+  let analyzer: WebsiteAnalyzer;
+
+  beforeEach(() => {
+    mockLogger = { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() };
+    fakePage = {
+      goto: jest.fn().mockResolvedValue(undefined),
+      waitForSelector: jest.fn().mockResolvedValue(undefined),
+      close: jest.fn().mockResolvedValue(undefined),
+    };
+    const fakeBrowserManager: any = {
+      initialize: jest.fn().mockResolvedValue(undefined),
+      getContext: jest.fn().mockReturnValue({ newPage: jest.fn().mockResolvedValue(fakePage) }),
+    };
+    analyzer = new WebsiteAnalyzer(fakeBrowserManager, mockLogger);
+  });
+
+  it('loads the page like extractHtmlElements, waits for the containers and closes the page', async () => {
+    const result = { url: 'https://example.com', records: [{ title: 'Desk' }], errors: [] };
+    const extract = jest.fn().mockResolvedValue(result);
+    (analyzer as any).schemaExtractor = { extract };
+    const schema = { containerXpath: '//li', fields: { title: { selector: 'h2' } } };
+
+    await expect(analyzer.extractWithSchema('https://example.com', schema)).resolves.toBe(result);
+
+    expect(fakePage.goto).toHaveBeenCalledWith('https://example.com', {
+      waitUntil: 'domcontentloaded',
+      timeout: config.timeouts.navigation,
+    });
+    expect(fakePage.waitForSelector).toHaveBeenCalledWith('xpath=//li', expect.objectContaining({ state: 'attached' }));
+    expect(extract).toHaveBeenCalledWith(fakePage, schema);
+    expect(fakePage.close).toHaveBeenCalled();
+  });
+
+  it('still extracts when the containers never appear', async () => {
+    fakePage.waitForSelector.mockRejectedValue(new Error('Timeout'));
+    const extract = jest.fn().mockResolvedValue({ url: 'https://example.com', records: [], errors: [] });
+    (analyzer as any).schemaExtractor = { extract };
+
+    await analyzer.extractWithSchema('https://example.com', { containerSelector: '.card', fields: { title: { selector: 'h2' } } });
+
+    expect(extract).toHaveBeenCalled();
+  });
+
+  it('passes InvalidSelectorError through and wraps other failures', async () => {
+    const schema = { fields: { title: { selector: 'h2[' } } };
+    (analyzer as any).schemaExtractor = { extract: jest.fn().mockRejectedValue(new InvalidSelectorError('bad selector')) };
+    await expect(analyzer.extractWithSchema('https://example.com', schema)).rejects.toBeInstanceOf(InvalidSelectorError);
+
+    fakePage.goto.mockRejectedValue(new Error('Network issue'));
+    await expect(analyzer.extractWithSchema('https://example.com', schema)).rejects.toThrow('Failed to extract records');
+    expect(mockLogger.error).toHaveBeenCalledWith('[Error] Failed to extract records from https://example.com: Network issue');
+    expect(fakePage.close).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('WebsiteAnalyzer.detectLists', () => {
+  it('waits for the network to settle, delegates detection and closes the page', async () => {
+    const fakePage: any = {
+      goto: jest.fn().mockResolvedValue(undefined),
+      waitForLoadState: jest.fn().mockResolvedValue(undefined),
+      close: jest.fn().mockResolvedValue(undefined),
+    };
+    const fakeBrowserManager: any = {
+      initialize: jest.fn().mockResolvedValue(undefined),
+      getContext: jest.fn().mockReturnValue({ newPage: jest.fn().mockResolvedValue(fakePage) }),
+    };
+    const mockLogger: any = { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() };
+    const analyzer = new WebsiteAnalyzer(fakeBrowserManager, mockLogger);
+    const lists = [{ containerSelector: '#grid', itemSelector: '#grid > div.card', itemTag: 'div', itemCount: 12, area: 90000, fields: [] }];
+    (analyzer as any).pageAnalyzer = { detectLists: jest.fn().mockResolvedValue(lists) };
+
+    await expect(analyzer.detectLists('https://example.com')).resolves.toBe(lists);
+    expect(fakePage.waitForLoadState).toHaveBeenCalledWith('networkidle', expect.any(Object));
+    expect(fakePage.close).toHaveBeenCalled();
+
+    fakePage.goto.mockRejectedValue(new Error('Network issue'));
+    await expect(analyzer.detectLists('https://example.com')).rejects.toThrow('Failed to extract lists');
+  });
+});
+describe('WebsiteAnalyzer.testSelectors', () => {
+  it('waits for the network to settle, delegates to the selector tester and closes the page', async () => {
+    const fakePage: any = {
+      goto: jest.fn().mockResolvedValue(undefined),
+      waitForLoadState: jest.fn().mockResolvedValue(undefined),
+      close: jest.fn().mockResolvedValue(undefined),
+    };
+    const fakeBrowserManager: any = {
+      initialize: jest.fn().mockResolvedValue(undefined),
+      getContext: jest.fn().mockReturnValue({ newPage: jest.fn().mockResolvedValue(fakePage) }),
+    };
+    const mockLogger: any = { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() };
+    const analyzer = new WebsiteAnalyzer(fakeBrowserManager, mockLogger);
+    const results = [{ selector: 'h1', kind: 'css', matchCount: 1, matches: [], warnings: [] }];
+    const test = jest.fn().mockResolvedValue(results);
+    (analyzer as any).selectorTester = { test };
+
+    await expect(analyzer.testSelectors('https://example.com', ['h1'], 3)).resolves.toBe(results);
+    expect(test).toHaveBeenCalledWith(fakePage, ['h1'], 3);
+    expect(fakePage.waitForLoadState).toHaveBeenCalledWith('networkidle', expect.any(Object));
+    expect(fakePage.close).toHaveBeenCalled();
+
+    await expect(analyzer.testSelectors('not-a-valid-url', ['h1'], 3)).rejects.toBeInstanceOf(InvalidUrlError);
+  });
+});
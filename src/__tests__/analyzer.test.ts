@@ -1,11 +1,14 @@
 import { WebsiteAnalyzer } from "../analyzer";
 import { BrowserManager } from "../browser";
 import { type CapturedRequest, type SiteAnalysisResult, type AnalysisOptions } from "../types";
-import { InvalidUrlError, AnalysisTimeoutError } from "../errors";
+import { InvalidUrlError, AnalysisTimeoutError, ResourceNotFoundError } from "../errors.js";
 import { RequestMonitor } from "../services/request_monitor";
 import { PageAnalyzer } from "../services/page_analyzer";
 import { StorageCapturer } from "../services/storage_capturer";
 import { ReportGenerator } from "../services/report_generator";
+import { RealtimeMonitor } from "../services/realtime_monitor.js";
+import { ScreenshotCapturer } from "../services/screenshot_capturer.js";
+import { ContentExtractor } from "../services/content_extractor.js";
 
 /**
  * Mock the crypto module
@@ -32,6 +35,34 @@ jest.mock("../browser", () => ({
 jest.mock("../services/request_monitor", () => ({
   RequestMonitor: jest.fn().mockImplementation(() => ({
     setupRequestMonitoring: jest.fn(),
+    trackInitiators: jest.fn().mockResolvedValue(undefined),
+    setPhase: jest.fn(),
+    markIntercepted: jest.fn(),
+    stopMonitoring: jest.fn().mockResolvedValue(undefined),
+  })),
+}));
+
+jest.mock("../services/realtime_monitor", () => ({
+  RealtimeMonitor: jest.fn().mockImplementation(() => ({
+    setupRealtimeMonitoring: jest.fn().mockResolvedValue(undefined),
+  })),
+}));
+
+jest.mock("../services/screenshot_capturer", () => ({
+  ScreenshotCapturer: jest.fn().mockImplementation(() => ({
+    capture: jest.fn().mockResolvedValue({
+      screenshot: { type: "fullPage", path: "/output/screenshots/shot.png", size: 3, capturedAt: "now" },
+      data: Buffer.from("png"),
+    }),
+  })),
+}));
+
+jest.mock("../services/content_extractor", () => ({
+  ContentExtractor: jest.fn().mockImplementation(() => ({
+    captureContent: jest.fn().mockResolvedValue([
+      { tag: "h1", children: ["Title"] },
+      { tag: "p", children: ["Body text"] },
+    ]),
   })),
 }));
 
@@ -257,13 +288,121 @@ describe("WebsiteAnalyzer (Orchestrator)", () => {
       );
     });
 
+    it("should track initiators and advance the request phase through the analysis", async () => {
+      await analyzer.analyzeWebsite(validOptions);
+
+      const instance = (RequestMonitor as jest.Mock).mock.results[0]!.value as any;
+      expect(instance.trackInitiators).toHaveBeenCalledWith(mockPage);
+      expect(instance.setPhase.mock.calls).toEqual([
+        [mockPage, "networkidle"],
+        [mockPage, "post-wait"],
+      ]);
+    });
+
+    it("should attach realtime connections captured during the analysis", async () => {
+      (RealtimeMonitor as jest.Mock).mockImplementationOnce(() => ({
+        setupRealtimeMonitoring: jest.fn(async (_page: any, connections: any[]) => {
+          connections.push({ id: "ws-1", type: "websocket", url: "wss://example.com/live", openedAt: "now", messages: [], droppedMessages: 0 });
+        }),
+      }));
+      analyzer = new WebsiteAnalyzer(mockBrowserManager, mockLogger as any);
+
+      const result = await analyzer.analyzeWebsite(validOptions);
+
+      expect(result.realtimeConnections).toEqual([expect.objectContaining({ id: "ws-1", type: "websocket" })]);
+    });
+
+    it("should run scripted actions after the page loads and attach their results", async () => {
+      mockPage.click = jest.fn().mockResolvedValue(undefined);
+
+      const result = await analyzer.analyzeWebsite({
+        ...validOptions,
+        actions: [{ type: "click", selector: "#load-more" }],
+      });
+
+      expect(mockPage.click).toHaveBeenCalledWith("#load-more", expect.any(Object));
+      expect(result.actionResults).toEqual([
+        expect.objectContaining({ index: 0, type: "click", success: true, requestIds: [] }),
+      ]);
+    });
+
+    it("should not attach action results when no actions are given", async () => {
+      const result = await analyzer.analyzeWebsite(validOptions);
+
+      expect(result.actionResults).toBeUndefined();
+    });
+
+    it("should install interception rules before navigating and mark intercepted requests", async () => {
+      mockPage.route = jest.fn().mockResolvedValue(undefined);
+      mockPage.goto.mockImplementation(async () => {
+        expect(mockPage.route).toHaveBeenCalledWith("**/analytics/**", expect.any(Function));
+      });
+
+      await analyzer.analyzeWebsite({
+        ...validOptions,
+        routes: [{ url: "**/analytics/**", action: "block" }],
+      });
+
+      const request = { url: () => "https://example.com/analytics/collect", method: () => "GET", resourceType: () => "script" };
+      const route = { request: () => request, abort: jest.fn().mockResolvedValue(undefined) };
+      await mockPage.route.mock.calls[0][1](route);
+
+      const monitor = (RequestMonitor as jest.Mock).mock.results[0]!.value as any;
+      expect(route.abort).toHaveBeenCalledWith("blockedbyclient");
+      expect(monitor.markIntercepted).toHaveBeenCalledWith(mockPage, request, {
+        ruleIndex: 0,
+        name: undefined,
+        action: "block",
+        pattern: "**/analytics/**",
+      });
+    });
+
+    it("should take the requested screenshot after the actions and attach it", async () => {
+      const result = await analyzer.analyzeWebsite({
+        ...validOptions,
+        screenshot: { type: "viewport" },
+      });
+
+      const capturer = (ScreenshotCapturer as jest.Mock).mock.results[0]!.value as any;
+      expect(capturer.capture).toHaveBeenCalledWith(mockPage, { type: "viewport" });
+      expect(result.screenshot).toEqual(expect.objectContaining({ path: "/output/screenshots/shot.png" }));
+    });
+
+    it("should record a failed screenshot without failing the analysis", async () => {
+      (ScreenshotCapturer as jest.Mock).mockImplementationOnce(() => ({
+        capture: jest.fn().mockRejectedValue(new ResourceNotFoundError("No element matches selector: #missing")),
+      }));
+      analyzer = new WebsiteAnalyzer(mockBrowserManager, mockLogger as any);
+
+      const result = await analyzer.analyzeWebsite({
+        ...validOptions,
+        screenshot: { selector: "#missing" },
+      });
+
+      expect(result.screenshot).toEqual({
+        type: "element",
+        selector: "#missing",
+        capturedAt: expect.any(String),
+        error: "No element matches selector: #missing",
+      });
+      expect(result.url).toBe(validOptions.url);
+    });
+
+    it("should not take a screenshot unless requested", async () => {
+      const result = await analyzer.analyzeWebsite(validOptions);
+
+      const capturer = (ScreenshotCapturer as jest.Mock).mock.results[0]!.value as any;
+      expect(capturer.capture).not.toHaveBeenCalled();
+      expect(result.screenshot).toBeUndefined();
+    });
+
     it("should set up request monitoring through RequestMonitor service", async () => {
       await analyzer.analyzeWebsite(validOptions);
 
       expect(RequestMonitor).toHaveBeenCalledTimes(1);
       const instance = (RequestMonitor as jest.Mock).mock.results[0]!.value as any;
       expect(instance).toBeDefined();
-      expect(instance.setupRequestMonitoring).toHaveBeenCalledWith(mockPage, expect.any(Array), false);
+      expect(instance.setupRequestMonitoring).toHaveBeenCalledWith(mockPage, expect.any(Array), false, undefined);
     });
 
     it("should handle page creation failure", async () => {
@@ -291,6 +430,123 @@ describe("WebsiteAnalyzer (Orchestrator)", () => {
     });
   });
 
+  describe("open pages", () => {
+    const options: AnalysisOptions = { url: "https://example.com", waitTime: 0, openPageId: "analysis-1" };
+
+    beforeEach(() => {
+      mockPage.once = jest.fn();
+      mockPage.isClosed = jest.fn(() => false);
+      mockPage.url = jest.fn(() => "https://example.com/account");
+    });
+
+    it("should keep the page open with its monitoring stopped and test selectors against it", async () => {
+      const results = [{ selector: "h1", kind: "css", matchCount: 1, matches: [], warnings: [] }];
+      const test = jest.fn().mockResolvedValue(results);
+      (analyzer as any).selectorTester = { test };
+
+      await analyzer.analyzeWebsite(options);
+
+      const monitor = (RequestMonitor as jest.Mock).mock.results[0]!.value as any;
+      expect(monitor.stopMonitoring).toHaveBeenCalledWith(mockPage);
+      expect(mockPage.close).not.toHaveBeenCalled();
+      await expect(analyzer.testSelectorsOnOpenPage("analysis-1", ["h1"], 3)).resolves.toBe(results);
+      expect(test).toHaveBeenCalledWith(mockPage, ["h1"], 3);
+      expect(mockPage.goto).toHaveBeenCalledTimes(1);
+    });
+
+    it("should report pages that are no longer open", async () => {
+      await expect(analyzer.testSelectorsOnOpenPage("analysis-1", ["h1"], 3)).resolves.toBeUndefined();
+
+      await analyzer.analyzeWebsite(options);
+      mockPage.isClosed.mockReturnValue(true);
+      await expect(analyzer.testSelectorsOnOpenPage("analysis-1", ["h1"], 3)).resolves.toBeUndefined();
+    });
+
+    it("should close the oldest open pages beyond the limit", async () => {
+      const pages = Array.from({ length: 4 }, () => ({ ...mockPage, close: jest.fn().mockResolvedValue(undefined) }));
+      for (const [index, page] of pages.entries()) {
+        mockContext.newPage.mockResolvedValueOnce(page);
+        await analyzer.analyzeWebsite({ ...options, openPageId: `analysis-${index}` });
+      }
+
+      expect(pages[0]!.close).toHaveBeenCalled();
+      expect(pages.slice(1).every((page) => !page.close.mock.calls.length)).toBe(true);
+      await expect(analyzer.testSelectorsOnOpenPage("analysis-0", ["h1"], 3)).resolves.toBeUndefined();
+    });
+  });
+
+  describe("takeScreenshot", () => {
+    it("should load the page and return the stored screenshot", async () => {
+      const result = await analyzer.takeScreenshot("https://example.com", { type: "fullPage" });
+
+      const capturer = (ScreenshotCapturer as jest.Mock).mock.results[0]!.value as any;
+      expect(mockPage.goto).toHaveBeenCalledWith("https://example.com", expect.any(Object));
+      expect(capturer.capture).toHaveBeenCalledWith(mockPage, { type: "fullPage" });
+      expect(result.data).toEqual(Buffer.from("png"));
+      expect(mockPage.close).toHaveBeenCalled();
+    });
+
+    it("should throw InvalidUrlError for invalid URL", async () => {
+      await expect(analyzer.takeScreenshot("not-a-url")).rejects.toThrow(InvalidUrlError);
+    });
+
+    it("should pass through missing element errors and close the page", async () => {
+      (ScreenshotCapturer as jest.Mock).mockImplementationOnce(() => ({
+        capture: jest.fn().mockRejectedValue(new ResourceNotFoundError("No element matches selector: #missing")),
+      }));
+      analyzer = new WebsiteAnalyzer(mockBrowserManager, mockLogger as any);
+
+      await expect(analyzer.takeScreenshot("https://example.com", { selector: "#missing" })).rejects.toThrow(ResourceNotFoundError);
+      expect(mockPage.close).toHaveBeenCalled();
+    });
+  });
+
+  describe("getPageContent", () => {
+    beforeEach(() => {
+      mockPage.url = jest.fn(() => "https://example.com/");
+      mockPage.content = jest.fn().mockResolvedValue("<html><body><h1>Title</h1></body></html>");
+    });
+
+    it("should return the main content as Markdown by default", async () => {
+      const result = await analyzer.getPageContent("https://example.com", { quickMode: true });
+
+      const extractor = (ContentExtractor as jest.Mock).mock.results[0]!.value as any;
+      expect(extractor.captureContent).toHaveBeenCalledWith(mockPage, true);
+      expect(result).toEqual({
+        url: "https://example.com",
+        finalUrl: "https://example.com/",
+        title: "Test Page Title",
+        format: "markdown",
+        content: "# Title\n\nBody text",
+        tokens: 5,
+        totalTokens: 5,
+        truncated: false,
+      });
+      expect(mockPage.close).toHaveBeenCalled();
+    });
+
+    it("should return the rendered HTML when asked", async () => {
+      const result = await analyzer.getPageContent("https://example.com", { format: "html", quickMode: true });
+
+      const extractor = (ContentExtractor as jest.Mock).mock.results[0]!.value as any;
+      expect(extractor.captureContent).not.toHaveBeenCalled();
+      expect(result.content).toBe("<html><body><h1>Title</h1></body></html>");
+    });
+
+    it("should throw InvalidUrlError for invalid URL", async () => {
+      await expect(analyzer.getPageContent("not-a-url")).rejects.toThrow(InvalidUrlError);
+    });
+
+    it("should map navigation timeouts and close the page", async () => {
+      const timeout = new Error("Timeout 30000ms exceeded");
+      timeout.name = "TimeoutError";
+      mockPage.goto.mockRejectedValue(timeout);
+
+      await expect(analyzer.getPageContent("https://example.com")).rejects.toThrow(AnalysisTimeoutError);
+      expect(mockPage.close).toHaveBeenCalled();
+    });
+  });
+
   describe("analysis result structure", () => {
     it("should generate correct analysis result structure", async () => {
       const options: AnalysisOptions = {
@@ -358,7 +614,7 @@ describe("WebsiteAnalyzer (Orchestrator)", () => {
       expect(RequestMonitor).toHaveBeenCalledTimes(1);
       const instance = (RequestMonitor as jest.Mock).mock.results[0]!.value as any;
       expect(instance).toBeDefined();
-      expect(instance.setupRequestMonitoring).toHaveBeenCalledWith(mockPage, expect.any(Array), true);
+      expect(instance.setupRequestMonitoring).toHaveBeenCalledWith(mockPage, expect.any(Array), true, undefined);
     });
 
     it("should handle URL with different protocols", async () => {
@@ -0,0 +1,160 @@
+import { ApiDiscovery } from "../services/api_discovery.js";
+import { TRUNCATED_BODY_MARKER } from "../services/request_monitor.js";
+import { type CapturedRequest, type SiteAnalysisResult } from "../types.js";
+
+describe("ApiDiscovery", () => {
+  let discovery: ApiDiscovery;
+
+  const makeRequest = (id: string, url: string, overrides: Partial<CapturedRequest> = {}): CapturedRequest => ({
+    id,
+    url,
+    method: "GET",
+    headers: {},
+    timestamp: "2024-01-01T12:00:00Z",
+    resourceType: "fetch",
+    status: 200,
+    responseHeaders: { "content-type": "application/json; charset=utf-8" },
+    ...overrides,
+  });
+
+  const makeResult = (requests: CapturedRequest[]): SiteAnalysisResult => ({
+    analysisId: "analysis-1",
+    url: "https://example.com",
+    title: "Example",
+    requests,
+    totalRequests: requests.length,
+    uniqueDomains: [],
+    requestsByType: {},
+    analysisTimestamp: "2024-01-01T12:00:05.000Z",
+    renderMethod: "client",
+    antiBotDetection: { detected: false },
+  });
+
+  beforeEach(() => {
+    discovery = new ApiDiscovery();
+  });
+
+  describe("templatePath", () => {
+    it("should replace IDs, UUIDs, hashes and slugs with named parameters", () => {
+      expect(discovery.templatePath("/api/users/42/posts/9f1c2d3e-4b5a-6c7d-8e9f-0a1b2c3d4e5f").pathTemplate)
+        .toBe("/api/users/{userId}/posts/{postId}");
+      expect(discovery.templatePath("/assets/5d41402abc4b2a76b9719d911017c592").pathTemplate)
+        .toBe("/assets/{assetId}");
+      expect(discovery.templatePath("/blog/my-first-post-2024").pathTemplate).toBe("/blog/{blogSlug}");
+      expect(discovery.templatePath("/api/get-user-info").pathTemplate).toBe("/api/get-user-info");
+      expect(discovery.templatePath("/1/2").pathTemplate).toBe("/{id}/{id2}");
+    });
+  });
+
+  describe("discoverEndpoints", () => {
+    it("should group API requests by method and path template", async () => {
+      const endpoints = await discovery.discoverEndpoints(makeResult([
+        makeRequest("r1", "https://example.com/api/users/1?page=1", { responseBody: '{"id":1,"name":"a"}' }),
+        makeRequest("r2", "https://example.com/api/users/2", { responseBody: '{"id":2,"name":"b","email":null}' }),
+        makeRequest("r3", "https://example.com/api/users", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          postData: '{"name":"c"}',
+          status: 201,
+        }),
+        makeRequest("r4", "https://example.com/app.js", { resourceType: "script" }),
+      ]));
+
+      expect(endpoints.map((endpoint) => `${endpoint.method} ${endpoint.pathTemplate}`)).toEqual([
+        "POST /api/users",
+        "GET /api/users/{userId}",
+      ]);
+
+      const getUser = endpoints[1]!;
+      expect(getUser.requestIds).toEqual(["r1", "r2"]);
+      expect(getUser.pathParams).toEqual([{ name: "userId", kind: "integer", examples: ["1", "2"] }]);
+      expect(getUser.querySchema).toEqual({
+        type: "object",
+        properties: { page: { type: "integer" } },
+        required: [],
+      });
+      expect(getUser.responses["200"]).toEqual({
+        count: 2,
+        contentType: "application/json",
+        schema: {
+          type: "object",
+          properties: {
+            id: { type: "integer" },
+            name: { type: "string" },
+            email: { type: "null" },
+          },
+          required: ["id", "name"],
+        },
+      });
+
+      expect(endpoints[0]!.requestBody).toEqual({
+        contentType: "application/json",
+        schema: { type: "object", properties: { name: { type: "string" } }, required: ["name"] },
+      });
+    });
+
+    it("should skip truncated bodies and filter by domain", async () => {
+      const endpoints = await discovery.discoverEndpoints(makeResult([
+        makeRequest("r1", "https://api.example.com/feed", { responseBody: '{"items":[' + TRUNCATED_BODY_MARKER }),
+        makeRequest("r2", "https://cdn.example.com/feed"),
+      ]), "api.example.com");
+
+      expect(endpoints).toHaveLength(1);
+      expect(endpoints[0]!.responses["200"]!.schema).toBeUndefined();
+    });
+
+    it("should infer response schemas from stored bodies in place of truncated inline ones", async () => {
+      const stored = makeRequest("r1", "https://api.example.com/feed", {
+        responseBody: '{"items":[' + TRUNCATED_BODY_MARKER,
+        storedBody: { sha256: "abc", size: 20, encoding: "utf8" },
+      });
+      const readBody = jest.fn(async (request: CapturedRequest) => (request.storedBody ? '{"items":[1,2]}' : undefined));
+
+      const endpoints = await discovery.discoverEndpoints(makeResult([stored]), undefined, readBody);
+
+      expect(readBody).toHaveBeenCalledWith(stored);
+      expect(endpoints[0]!.responses["200"]!.schema).toEqual({
+        type: "object",
+        properties: { items: { type: "array", items: { type: "integer" } } },
+        required: ["items"],
+      });
+    });
+  });
+
+  describe("toOpenApi", () => {
+    it("should emit an OpenAPI 3.1 document with operation-level servers for other origins", async () => {
+      const result = makeResult([
+        makeRequest("r1", "https://example.com/api/items/7?q=shoes", { responseBody: '{"id":7}' }),
+        makeRequest("r2", "https://tracking.example.net/collect", { method: "POST", postData: "a=1&b=x", headers: { "content-type": "application/x-www-form-urlencoded" }, status: 204, responseHeaders: {} }),
+        makeRequest("r3", "https://example.com/api/ping", { status: undefined, failed: true }),
+      ]);
+      const doc = discovery.toOpenApi(result, await discovery.discoverEndpoints(result));
+
+      expect(doc.openapi).toBe("3.1.0");
+      expect(doc.servers).toEqual([{ url: "https://example.com" }]);
+
+      const getItem = doc.paths["/api/items/{itemId}"]!.get as any;
+      expect(getItem.operationId).toBe("get_api_items_itemId");
+      expect(getItem.parameters).toEqual([
+        { name: "itemId", in: "path", required: true, schema: { type: "integer" }, example: "7" },
+        { name: "q", in: "query", required: true, schema: { type: "string" } },
+      ]);
+      expect(getItem.responses["200"].content["application/json"].schema).toEqual({
+        type: "object",
+        properties: { id: { type: "integer" } },
+        required: ["id"],
+      });
+      expect(getItem["x-request-ids"]).toEqual(["r1"]);
+
+      const collect = doc.paths["/collect"]!.post as any;
+      expect(collect.servers).toEqual([{ url: "https://tracking.example.net" }]);
+      expect(collect.requestBody.content["application/x-www-form-urlencoded"].schema.properties).toEqual({
+        a: { type: "string" },
+        b: { type: "string" },
+      });
+      expect(collect.responses).toEqual({ "204": { description: "Observed 1 time" } });
+
+      expect((doc.paths["/api/ping"]!.get as any).responses).toEqual({ default: { description: "No response observed" } });
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createHash } from "crypto";
+import { BodyStore } from "../services/body_store.js";
+import { Logger } from "../logger.js";
+
+describe("BodyStore", () => {
+  let mockLogger: jest.Mocked<Logger>;
+  let directory: string;
+
+  const sha256 = (data: Buffer) => createHash("sha256").update(data).digest("hex");
+
+  beforeEach(() => {
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    } as unknown as jest.Mocked<Logger>;
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "body-store-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should store bodies under their sha256 and read them back", async () => {
+    const store = new BodyStore(mockLogger, path.join(directory, "bodies"));
+    const body = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+
+    const stored = await store.put(body);
+
+    expect(stored).toEqual({ sha256: sha256(body), size: 4 });
+    expect(await store.get(stored.sha256)).toEqual(body);
+    expect(fs.readdirSync(path.join(directory, "bodies"))).toEqual([stored.sha256]);
+  });
+
+  it("should store identical bodies once", async () => {
+    const store = new BodyStore(mockLogger, directory);
+
+    await store.put(Buffer.from("same"));
+    await store.put(Buffer.from("same"));
+
+    expect(fs.readdirSync(directory)).toHaveLength(1);
+  });
+
+  it("should return undefined for unknown or malformed hashes", async () => {
+    const store = new BodyStore(mockLogger, directory);
+
+    expect(await store.get("0".repeat(64))).toBeUndefined();
+    expect(await store.get("../../etc/passwd")).toBeUndefined();
+  });
+
+  it("should evict the oldest bodies beyond the size limit", async () => {
+    const store = new BodyStore(mockLogger, directory, 10);
+    const first = await store.put(Buffer.from("aaaaaa"));
+    // Make the first body clearly older than the second
+    const past = new Date(Date.now() - 60000);
+    fs.utimesSync(path.join(directory, first.sha256), past, past);
+
+    const second = await store.put(Buffer.from("bbbbbb"));
+
+    expect(await store.get(first.sha256)).toBeUndefined();
+    expect(await store.get(second.sha256)).toEqual(Buffer.from("bbbbbb"));
+    expect(mockLogger.info).toHaveBeenCalledWith(expect.stringContaining("Evicted body"));
+  });
+
+  it("should count bodies of earlier runs and list the directory only once", async () => {
+    const earlier = Buffer.from("earlier!");
+    fs.writeFileSync(path.join(directory, sha256(earlier)), earlier);
+    const readdir = jest.spyOn(fs.promises, "readdir");
+    const store = new BodyStore(mockLogger, directory, 10);
+
+    const second = await store.put(Buffer.from("bbbbbb"));
+    const third = await store.put(Buffer.from("cccc"));
+
+    expect(await store.get(sha256(earlier))).toBeUndefined();
+    expect(fs.readdirSync(directory).sort()).toEqual([second.sha256, third.sha256].sort());
+    expect(readdir).toHaveBeenCalledTimes(1);
+    readdir.mockRestore();
+  });
+});
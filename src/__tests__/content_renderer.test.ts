@@ -0,0 +1,131 @@
+import { ContentRenderer, TRUNCATED_CONTENT_MARKER } from "../services/content_renderer.js";
+import { type ContentElement, type ContentNode } from "../types.js";
+
+const el = (tag: string, children: ContentNode[] = [], extra: Partial<ContentElement> = {}): ContentElement => ({
+  tag,
+  children,
+  ...extra,
+});
+
+describe("ContentRenderer", () => {
+  let renderer: ContentRenderer;
+
+  beforeEach(() => {
+    renderer = new ContentRenderer();
+  });
+
+  it("should render headings, paragraphs, inline formatting and links as Markdown", () => {
+    const nodes = [
+      el("h1", ["Title"]),
+      el("p", ["Some ", el("strong", ["bold "]), "and ", el("em", ["italic"]), " text with ", el("code", ["x = 1"])]),
+      el("p", ["Read ", el("a", ["the docs"], { href: "https://example.com/docs" }), "."]),
+      el("p", [el("a", ["Click"], { href: "javascript:void(0)" })]),
+      el("p", [el("img", [], { src: "https://example.com/logo.png", alt: "Logo" })]),
+    ];
+
+    const { content, truncated } = renderer.render(nodes, "markdown");
+
+    expect(truncated).toBe(false);
+    expect(content).toBe(
+      [
+        "# Title",
+        "Some **bold** and *italic* text with `x = 1`",
+        "Read [the docs](https://example.com/docs).",
+        "Click",
+        "![Logo](https://example.com/logo.png)",
+      ].join("\n\n")
+    );
+  });
+
+  it("should render nested lists, tables, code and quotes", () => {
+    const nodes = [
+      el("ul", [el("li", ["One"]), el("li", ["Two", el("ol", [el("li", ["Nested"])])])]),
+      el("table", [
+        el("thead", [el("tr", [el("th", ["Name"]), el("th", ["Value"])])]),
+        el("tbody", [el("tr", [el("td", ["a|b"]), el("td", ["1"])])]),
+      ]),
+      el("pre", [el("code", ["const a = 1;\n  return a;"])]),
+      el("blockquote", [el("p", ["Quoted"])]),
+    ];
+
+    const { content } = renderer.render(nodes, "markdown");
+
+    expect(content).toBe(
+      [
+        "- One\n- Two\n  1. Nested",
+        "| Name | Value |\n| --- | --- |\n| a\\|b | 1 |",
+        "```\nconst a = 1;\n  return a;\n```",
+        "> Quoted",
+      ].join("\n\n")
+    );
+  });
+
+  it("should render plain text without Markdown syntax", () => {
+    const nodes = [
+      el("h2", ["Section"]),
+      el("p", [el("strong", ["Bold"]), " and ", el("a", ["link"], { href: "https://example.com" })]),
+      el("table", [el("tr", [el("td", ["a"]), el("td", ["b"])])]),
+    ];
+
+    expect(renderer.render(nodes, "text").content).toBe("Section\n\nBold and link\n\na\tb");
+  });
+
+  it("should treat elements displayed as blocks as separate blocks", () => {
+    const nodes = [el("span", ["First"], { block: true }), el("span", ["Second"], { block: true })];
+
+    expect(renderer.render(nodes, "markdown").content).toBe("First\n\nSecond");
+  });
+
+  it("should keep whole sections within the token budget and list the omitted ones", () => {
+    const paragraph = "word ".repeat(60).trim();
+    const nodes = [
+      el("h1", ["Intro"]),
+      el("p", [paragraph]),
+      el("h2", ["Details"]),
+      el("p", [paragraph]),
+      el("p", [paragraph]),
+      el("h2", ["More"]),
+      el("p", [paragraph]),
+    ];
+
+    const full = renderer.render(nodes, "markdown");
+    const result = renderer.render(nodes, "markdown", 200);
+
+    expect(result.truncated).toBe(true);
+    expect(result.totalTokens).toBe(full.totalTokens);
+    expect(result.tokens).toBeLessThanOrEqual(200);
+    expect(result.content).toBe(["# Intro", paragraph, "## Details", paragraph, TRUNCATED_CONTENT_MARKER].join("\n\n"));
+    expect(result.omittedSections).toEqual(["More"]);
+  });
+
+  it("should omit a section rather than keep its heading alone", () => {
+    const paragraph = "word ".repeat(60).trim();
+    const nodes = [el("h1", ["Intro"]), el("p", [paragraph]), el("h2", ["Details"]), el("p", [paragraph])];
+
+    const result = renderer.render(nodes, "markdown", 150);
+
+    expect(result.content).toBe(["# Intro", paragraph, TRUNCATED_CONTENT_MARKER].join("\n\n"));
+    expect(result.omittedSections).toEqual(["Details"]);
+  });
+
+  it("should cut a single oversized block at a word boundary", () => {
+    const nodes = [el("p", ["word ".repeat(500).trim()])];
+
+    const result = renderer.render(nodes, "text", 100);
+
+    expect(result.truncated).toBe(true);
+    expect(result.tokens).toBeLessThanOrEqual(100);
+    expect(result.content).toMatch(new RegExp(`^(word )+word\\n\\n${TRUNCATED_CONTENT_MARKER.replace(/[.[\]]/g, "\\$&")}$`));
+  });
+
+  it("should cut HTML at the end of a tag", () => {
+    const html = `<html><body>${"<p>text</p>".repeat(200)}</body></html>`;
+
+    expect(renderer.renderHtml(html).truncated).toBe(false);
+
+    const result = renderer.renderHtml(html, 100);
+    expect(result.truncated).toBe(true);
+    expect(result.tokens).toBeLessThanOrEqual(100);
+    expect(result.content).toMatch(/^<html><body>(<p>text<\/p>)+<p>\n<!-- \[\.\.\. content truncated/);
+  });
+});
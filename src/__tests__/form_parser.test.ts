@@ -0,0 +1,160 @@
+import { FormParser } from "../services/form_parser.js";
+import { type RawForm, type RawFormField } from "../types.js";
+
+const field = (overrides: Partial<RawFormField>): RawFormField => ({
+  tag: "input",
+  type: "text",
+  name: "",
+  required: false,
+  disabled: false,
+  value: "",
+  checked: false,
+  multiple: false,
+  selector: "input",
+  ...overrides,
+});
+
+const form = (overrides: Partial<RawForm>): RawForm => ({
+  action: "https://example.com/search",
+  method: "get",
+  enctype: "application/x-www-form-urlencoded",
+  fields: [],
+  metaTokens: [],
+  ...overrides,
+});
+
+describe("FormParser", () => {
+  let parser: FormParser;
+
+  beforeEach(() => {
+    parser = new FormParser();
+  });
+
+  it("should describe the fields of a login form and build its POST request", () => {
+    const result = parser.parse(
+      form({
+        action: "https://example.com/login",
+        method: "post",
+        submitSelector: "#login button",
+        fields: [
+          field({ type: "hidden", name: "authenticity_token", value: "abc123", selector: "#login input[name='authenticity_token']" }),
+          field({ type: "email", name: "email", required: true, label: "Email", placeholder: "you@example.com", selector: "#email" }),
+          field({ type: "password", name: "password", required: true, label: "Password", selector: "#password" }),
+          field({ type: "checkbox", name: "remember", value: "1", checked: true, label: "Remember me", selector: "#remember" }),
+        ],
+      })
+    );
+
+    expect(result.method).toBe("POST");
+    expect(result.submitSelector).toBe("#login button");
+    expect(result.fields[1]).toEqual({
+      name: "email",
+      type: "email",
+      tag: "input",
+      selector: "#email",
+      label: "Email",
+      placeholder: "you@example.com",
+      required: true,
+      disabled: undefined,
+      value: "",
+    });
+    expect(result.fields[3]).toEqual(expect.objectContaining({ type: "checkbox", checked: true, value: "1" }));
+    expect(result.csrfTokens).toEqual([
+      { name: "authenticity_token", value: "abc123", source: "field", selector: "#login input[name='authenticity_token']" },
+    ]);
+    expect(result.fetch).toEqual({
+      url: "https://example.com/login",
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: "authenticity_token=abc123&email=&password=&remember=1",
+    });
+  });
+
+  it("should put GET submissions in the query of the action URL", () => {
+    const result = parser.parse(
+      form({
+        action: "https://example.com/search?old=1#top",
+        fields: [
+          field({ type: "search", name: "q", value: "shoes & socks" }),
+          field({ type: "checkbox", name: "inStock", value: "on", checked: false }),
+          field({ type: "text", name: "ignored", value: "x", disabled: true }),
+          field({ type: "file", name: "upload" }),
+        ],
+      })
+    );
+
+    expect(result.fetch).toEqual({ url: "https://example.com/search?q=shoes+%26+socks", method: "GET" });
+  });
+
+  it("should group radio buttons and read select options", () => {
+    const result = parser.parse(
+      form({
+        fields: [
+          field({ type: "radio", name: "size", value: "s", label: "Small", selector: "#size-s" }),
+          field({ type: "radio", name: "size", value: "m", label: "Medium", checked: true, required: true, selector: "#size-m" }),
+          field({
+            tag: "select",
+            type: "select-one",
+            name: "color",
+            options: [
+              { value: "red", label: "Red", selected: false },
+              { value: "blue", label: "Blue", selected: false },
+            ],
+            selector: "#color",
+          }),
+          field({
+            tag: "select",
+            type: "select-multiple",
+            name: "tags",
+            multiple: true,
+            options: [
+              { value: "a", label: "A", selected: true },
+              { value: "b", label: "B", selected: false },
+              { value: "c", label: "C", selected: true },
+            ],
+            selector: "#tags",
+          }),
+        ],
+      })
+    );
+
+    expect(result.fields).toHaveLength(3);
+    expect(result.fields[0]).toEqual({
+      name: "size",
+      type: "radio",
+      tag: "input",
+      selector: "#size-s",
+      required: true,
+      value: "m",
+      options: [
+        { value: "s", label: "Small", selected: false, selector: "#size-s" },
+        { value: "m", label: "Medium", selected: true, selector: "#size-m" },
+      ],
+    });
+    expect(result.fields[1]!.value).toBe("red");
+    expect(result.fields[2]).toEqual(expect.objectContaining({ multiple: true, value: ["a", "c"] }));
+    expect(result.fetch!.url).toBe("https://example.com/search?size=m&color=red&tags=a&tags=c");
+  });
+
+  it("should build multipart and text/plain bodies", () => {
+    const fields = [field({ name: "title", value: "Hello" }), field({ tag: "textarea", type: "textarea", name: "body", value: "Hi" })];
+
+    const multipart = parser.parse(form({ method: "post", enctype: "multipart/form-data", fields }));
+    expect(multipart.fetch!.headers).toEqual({ "Content-Type": "multipart/form-data; boundary=----FormBoundaryMcpScraper" });
+    expect(multipart.fetch!.body).toBe(
+      '------FormBoundaryMcpScraper\r\nContent-Disposition: form-data; name="title"\r\n\r\nHello\r\n' +
+        '------FormBoundaryMcpScraper\r\nContent-Disposition: form-data; name="body"\r\n\r\nHi\r\n' +
+        "------FormBoundaryMcpScraper--\r\n"
+    );
+
+    const plain = parser.parse(form({ method: "post", enctype: "text/plain", fields }));
+    expect(plain.fetch!.body).toBe("title=Hello\r\nbody=Hi\r\n");
+  });
+
+  it("should report meta CSRF tokens and leave dialog forms without a request", () => {
+    const result = parser.parse(form({ method: "dialog", metaTokens: [{ name: "csrf-token", value: "xyz" }] }));
+
+    expect(result.csrfTokens).toEqual([{ name: "csrf-token", value: "xyz", source: "meta" }]);
+    expect(result.fetch).toBeUndefined();
+  });
+});
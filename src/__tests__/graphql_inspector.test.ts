@@ -0,0 +1,142 @@
+import { GraphqlInspector } from "../services/graphql_inspector.js";
+import { TRUNCATED_BODY_MARKER } from "../services/request_monitor.js";
+import { type CapturedRequest } from "../types.js";
+
+describe("GraphqlInspector", () => {
+  let inspector: GraphqlInspector;
+
+  const makeRequest = (id: string, body: unknown, overrides: Partial<CapturedRequest> = {}): CapturedRequest => ({
+    id,
+    url: "https://example.com/graphql",
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    postData: JSON.stringify(body),
+    timestamp: "2024-01-01T12:00:00Z",
+    resourceType: "fetch",
+    status: 200,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    inspector = new GraphqlInspector();
+  });
+
+  describe("findOperation", () => {
+    it("should read the type and name of top-level definitions only", () => {
+      expect(inspector.findOperation("query GetUser($id: ID!) { user(id: $id) { name } }")).toEqual({ type: "query", name: "GetUser" });
+      expect(inspector.findOperation("{ search(query: \"mutation X\") { id } }")).toEqual({ type: "query" });
+      expect(inspector.findOperation("mutation @auth { logout }")).toEqual({ type: "mutation" });
+    });
+
+    it("should select the named operation and skip fragments", () => {
+      const document = `
+        # query Commented { x }
+        fragment UserFields on User { id }
+        query First { a }
+        mutation Second { b { ...UserFields } }
+      `;
+      expect(inspector.findOperation(document, "Second")).toEqual({ type: "mutation", name: "Second" });
+      expect(inspector.findOperation(document)).toEqual({ type: "query", name: "First" });
+    });
+  });
+
+  describe("parseRequest", () => {
+    it("should parse a single operation with its variables and response", () => {
+      const [operation] = inspector.parseRequest(makeRequest("r1", {
+        query: "query GetUser($id: ID!) { user(id: $id) { name } }",
+        variables: { id: "1" },
+      }, { responseBody: '{"data":{"user":{"name":"Ann"}}}' }));
+
+      expect(operation).toEqual(expect.objectContaining({
+        requestId: "r1",
+        batched: false,
+        endpoint: "https://example.com/graphql",
+        operationName: "GetUser",
+        operationType: "query",
+        variables: { id: "1" },
+        data: { user: { name: "Ann" } },
+      }));
+    });
+
+    it("should split batched requests and pair them with batched responses", () => {
+      const operations = inspector.parseRequest(makeRequest("r1", [
+        { operationName: "A", query: "query A { a }", variables: {} },
+        { operationName: "B", variables: { x: 1 }, extensions: { persistedQuery: { version: 1, sha256Hash: "abc123" } } },
+      ], { responseBody: '[{"data":{"a":1}},{"errors":[{"message":"PersistedQueryNotFound"}]}]' }));
+
+      expect(operations).toHaveLength(2);
+      expect(operations[0]).toEqual(expect.objectContaining({ batched: true, batchIndex: 0, operationName: "A", data: { a: 1 } }));
+      expect(operations[1]).toEqual(expect.objectContaining({
+        batchIndex: 1,
+        operationName: "B",
+        operationType: "unknown",
+        persistedQueryHash: "abc123",
+        errors: ["PersistedQueryNotFound"],
+      }));
+    });
+
+    it("should read persisted queries sent as GET parameters", () => {
+      const extensions = encodeURIComponent(JSON.stringify({ persistedQuery: { version: 1, sha256Hash: "deadbeefcafe0123" } }));
+      const [operation] = inspector.parseRequest({
+        ...makeRequest("r1", null),
+        method: "GET",
+        postData: undefined,
+        url: `https://example.com/api?variables=%7B%22page%22%3A2%7D&extensions=${extensions}`,
+      });
+
+      expect(inspector.getLabel(operation!)).toBe("persisted:deadbeefcafe");
+      expect(operation!.variables).toEqual({ page: 2 });
+    });
+
+    it("should ignore non-GraphQL requests", () => {
+      expect(inspector.parseRequest(makeRequest("r1", { name: "x" }))).toEqual([]);
+      expect(inspector.parseRequest(makeRequest("r2", null, { postData: "a=1" }))).toEqual([]);
+      expect(inspector.parseRequest({ ...makeRequest("r3", null), method: "GET", postData: undefined, url: "https://example.com/search?query=shoes" })).toEqual([]);
+    });
+  });
+
+  describe("summarizeOperations", () => {
+    it("should group operations by name and merge response shapes", async () => {
+      const summaries = await inspector.summarizeOperations([
+        makeRequest("r1", { query: "query Feed { items { id } }", variables: { page: 1 } }, { responseBody: '{"data":{"items":[{"id":1}]}}' }),
+        makeRequest("r2", { query: "query Feed { items { id } }", variables: { page: 2 } }, { responseBody: '{"data":{"items":[]}}' }),
+        makeRequest("r3", { query: "mutation Like { like }", variables: {} }),
+      ]);
+
+      expect(summaries).toHaveLength(2);
+      expect(summaries[0]).toEqual(expect.objectContaining({
+        label: "Feed",
+        operationType: "query",
+        count: 2,
+        requestIds: ["r1", "r2"],
+        variables: [{ page: 1 }, { page: 2 }],
+        responseShape: {
+          type: "object",
+          properties: {
+            items: {
+              type: "array",
+              items: { type: "object", properties: { id: { type: "integer" } }, required: ["id"] },
+            },
+          },
+          required: ["items"],
+        },
+      }));
+      expect(summaries[1]).toEqual(expect.objectContaining({ label: "Like", operationType: "mutation", count: 1 }));
+    });
+
+    it("should read response shapes from stored bodies of GraphQL requests only", async () => {
+      const graphql = makeRequest("r1", { query: "query Feed { items { id } }" }, {
+        responseBody: '{"data":{"items":[' + TRUNCATED_BODY_MARKER,
+        storedBody: { sha256: "abc", size: 30, encoding: "utf8" },
+      });
+      const other = makeRequest("r2", null, { url: "https://example.com/page", postData: undefined, storedBody: { sha256: "def", size: 30, encoding: "utf8" } });
+      const readBody = jest.fn(async () => '{"data":{"items":[{"id":1}]}}');
+
+      const [summary] = await inspector.summarizeOperations([graphql, other], readBody);
+
+      expect(readBody).toHaveBeenCalledTimes(1);
+      expect(readBody).toHaveBeenCalledWith(graphql);
+      expect(summary!.responseShape).toEqual(expect.objectContaining({ required: ["items"] }));
+    });
+  });
+});
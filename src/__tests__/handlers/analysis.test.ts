@@ -2,6 +2,7 @@ import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import {
   handleAnalyzeWebsite,
   handleGetRequestSummary,
+  handleListAnalyses,
 } from '../../handlers/analysis.js';
 import {
   InvalidUrlError,
@@ -9,6 +10,7 @@ import {
   ResourceNotFoundError,
 } from '../../errors.js';
 import { config } from '../../config.js';
+import { ScreenshotCapturer } from '../../services/screenshot_capturer.js';
 
 describe('analysis handlers', () => {
   let mockAnalyzer: any;
@@ -81,6 +83,18 @@ describe('analysis handlers', () => {
     expect(summary.requestSummary.totalRequests).toBe(1);
   });
 
+  it('should store each run under its own analysisId', async () => {
+    mockAnalyzer.analyzeWebsite.mockResolvedValue(sampleAnalysisResult);
+    const first: any = await handleAnalyzeWebsite(context, { url: sampleUrl });
+    const second: any = await handleAnalyzeWebsite(context, { url: sampleUrl });
+    const firstId = JSON.parse(first.content[0].text).analysisId;
+    const secondId = JSON.parse(second.content[0].text).analysisId;
+    expect(typeof firstId).toBe('string');
+    expect(firstId).not.toBe(secondId);
+    expect(context.analysisResults.size).toBe(2);
+    expect(context.analysisResults.get(firstId).analysisId).toBe(firstId);
+  });
+
   it('should throw McpError for invalid URL', async () => {
     await expect(
       handleAnalyzeWebsite(context, { url: 'invalid-url' })
@@ -154,6 +168,222 @@ describe('analysis handlers', () => {
     });
   });
 
+  it('should pass scripted actions through and report their results', async () => {
+    const actions = [
+      { type: 'fill', selector: '#q', value: 'shoes' },
+      { type: 'press', selector: '#q', key: 'Enter' },
+    ];
+    const actionResults = [
+      { index: 0, type: 'fill', success: true, duration: 5, requestIds: [] },
+      {
+        index: 1,
+        type: 'press',
+        success: true,
+        duration: 510,
+        requestIds: [sampleRequestId],
+      },
+    ];
+    mockAnalyzer.analyzeWebsite.mockResolvedValue({
+      ...sampleAnalysisResult,
+      actionResults,
+    });
+
+    const result: any = await handleAnalyzeWebsite(context, {
+      url: sampleUrl,
+      actions,
+    });
+
+    expect(mockAnalyzer.analyzeWebsite).toHaveBeenCalledWith({
+      url: sampleUrl,
+      waitTime: config.timeouts.defaultWait,
+      includeImages: false,
+      quickMode: false,
+      actions,
+    });
+    const summary = JSON.parse(result.content[0].text);
+    expect(summary.actionResults).toEqual(actionResults);
+  });
+
+  it('should reject invalid actions', async () => {
+    await expect(
+      handleAnalyzeWebsite(context, {
+        url: sampleUrl,
+        actions: [{ type: 'click' }],
+      })
+    ).rejects.toThrow(McpError);
+    await expect(
+      handleAnalyzeWebsite(context, {
+        url: sampleUrl,
+        actions: [{ type: 'drag', selector: '#a' }],
+      })
+    ).rejects.toThrow(McpError);
+    await expect(
+      handleAnalyzeWebsite(context, {
+        url: sampleUrl,
+        actions: [{ type: 'waitForRequest', urlPattern: '/(api/' }],
+      })
+    ).rejects.toThrow('urlPattern is not a valid /regex/');
+    expect(mockAnalyzer.analyzeWebsite).not.toHaveBeenCalled();
+  });
+
+  it('should keep the page open under the new analysis ID when asked', async () => {
+    mockAnalyzer.analyzeWebsite.mockResolvedValue(sampleAnalysisResult);
+
+    const result: any = await handleAnalyzeWebsite(context, {
+      url: sampleUrl,
+      keepPageOpen: true,
+    });
+
+    const { analysisId } = JSON.parse(result.content[0].text);
+    expect(mockAnalyzer.analyzeWebsite).toHaveBeenCalledWith(
+      expect.objectContaining({ openPageId: analysisId })
+    );
+  });
+
+  it('should pass interception rules through', async () => {
+    const routes = [
+      { url: '**/analytics/**', action: 'block' },
+      {
+        url: '/api\\/flags/',
+        action: 'fulfill',
+        contentType: 'application/json',
+        body: '{"beta":true}',
+      },
+    ];
+    mockAnalyzer.analyzeWebsite.mockResolvedValue(sampleAnalysisResult);
+
+    await handleAnalyzeWebsite(context, { url: sampleUrl, routes });
+
+    expect(mockAnalyzer.analyzeWebsite).toHaveBeenCalledWith(
+      expect.objectContaining({ routes })
+    );
+  });
+
+  it('should reject invalid interception rules', async () => {
+    await expect(
+      handleAnalyzeWebsite(context, {
+        url: sampleUrl,
+        routes: [{ url: '**/*', action: 'rewrite' }],
+      })
+    ).rejects.toThrow(McpError);
+    await expect(
+      handleAnalyzeWebsite(context, {
+        url: sampleUrl,
+        routes: [{ url: '**/*', action: 'delay' }],
+      })
+    ).rejects.toThrow(McpError);
+    await expect(
+      handleAnalyzeWebsite(context, {
+        url: sampleUrl,
+        routes: [{ url: '/[unclosed/', action: 'block' }],
+      })
+    ).rejects.toThrow('url is not a valid /regex/');
+    expect(mockAnalyzer.analyzeWebsite).not.toHaveBeenCalled();
+  });
+
+  it('should return the requested screenshot as image content', async () => {
+    const screenshot = {
+      type: 'viewport',
+      path: '/output/screenshots/shot.png',
+      capturedAt: '2024-01-01T12:00:00Z',
+    };
+    mockAnalyzer.analyzeWebsite.mockResolvedValue({
+      ...sampleAnalysisResult,
+      screenshot,
+    });
+    const read = jest
+      .spyOn(ScreenshotCapturer.prototype, 'read')
+      .mockResolvedValue(Buffer.from('png'));
+
+    const result: any = await handleAnalyzeWebsite(context, {
+      url: sampleUrl,
+      screenshot: { type: 'viewport' },
+    });
+
+    expect(mockAnalyzer.analyzeWebsite).toHaveBeenCalledWith(
+      expect.objectContaining({ screenshot: { type: 'viewport' } })
+    );
+    expect(read).toHaveBeenCalledWith(screenshot);
+    expect(JSON.parse(result.content[0].text).screenshot).toEqual(screenshot);
+    expect(result.content[1]).toEqual({
+      type: 'image',
+      data: Buffer.from('png').toString('base64'),
+      mimeType: 'image/png',
+    });
+    read.mockRestore();
+  });
+
+  it('should reject element screenshots without a selector', async () => {
+    await expect(
+      handleAnalyzeWebsite(context, {
+        url: sampleUrl,
+        screenshot: { type: 'element' },
+      })
+    ).rejects.toHaveProperty('code', ErrorCode.InvalidParams);
+    expect(mockAnalyzer.analyzeWebsite).not.toHaveBeenCalled();
+  });
+
+  it('should count requests by phase in the summary', async () => {
+    context.analysisResults.set('a1', {
+      ...sampleAnalysisResult,
+      analysisId: 'a1',
+      requests: [
+        { ...sampleRequest, id: 'r1', phase: 'navigation' },
+        { ...sampleRequest, id: 'r2', phase: 'load' },
+        { ...sampleRequest, id: 'r3', phase: 'action:search' },
+        { ...sampleRequest, id: 'r4', phase: 'load' },
+      ],
+    });
+
+    const result: any = await handleGetRequestSummary(context, {
+      analysisId: 'a1',
+    });
+
+    const summary = JSON.parse(result.content[0].text);
+    expect(summary.requestSummary.requestsByPhase).toEqual({
+      navigation: 1,
+      load: 2,
+      'action:search': 1,
+    });
+    expect(Object.keys(summary.requestSummary.requestsByPhase)).toEqual([
+      'navigation',
+      'load',
+      'action:search',
+    ]);
+  });
+
+  it('should break GraphQL traffic down by operation in the domain summary', async () => {
+    const graphqlRequest = (id: string, operationName: string) => ({
+      ...sampleRequest,
+      id,
+      url: `https://${sampleDomain}/graphql`,
+      method: 'POST',
+      postData: JSON.stringify({
+        operationName,
+        query: `query ${operationName} { x }`,
+      }),
+    });
+    context.analysisResults.set('a1', {
+      ...sampleAnalysisResult,
+      analysisId: 'a1',
+      requests: [
+        graphqlRequest('r1', 'Feed'),
+        graphqlRequest('r2', 'Feed'),
+        graphqlRequest('r3', 'Profile'),
+      ],
+    });
+
+    const result: any = await handleGetRequestSummary(context, {
+      analysisId: 'a1',
+    });
+
+    const summary = JSON.parse(result.content[0].text);
+    expect(summary.domains[0].graphqlOperations).toEqual({
+      Feed: 2,
+      Profile: 1,
+    });
+  });
+
   it('handleGetRequestSummary should return summary for stored analysis', async () => {
     context.analysisResults.set(sampleUrl, sampleAnalysisResult);
     const result: any = await handleGetRequestSummary(context, sampleUrl);
@@ -162,6 +392,128 @@ describe('analysis handlers', () => {
     expect(summary.websiteInfo.url).toBe(sampleUrl);
   });
 
+  it('handleGetRequestSummary should resolve by analysisId or latest url', async () => {
+    context.analysisResults.set('a-1', {
+      ...sampleAnalysisResult,
+      analysisId: 'a-1',
+      title: 'First run',
+    });
+    context.analysisResults.set('a-2', {
+      ...sampleAnalysisResult,
+      analysisId: 'a-2',
+      title: 'Second run',
+    });
+
+    const byId: any = await handleGetRequestSummary(context, {
+      analysisId: 'a-1',
+    });
+    expect(JSON.parse(byId.content[0].text).websiteInfo.title).toBe(
+      'First run'
+    );
+
+    const byUrl: any = await handleGetRequestSummary(context, {
+      url: sampleUrl,
+    });
+    expect(JSON.parse(byUrl.content[0].text).analysisId).toBe('a-2');
+  });
+
+  it('handleGetRequestSummary should page domains and support compact output', async () => {
+    context.analysisResults.set(sampleUrl, {
+      ...sampleAnalysisResult,
+      uniqueDomains: ['a.example.com', 'b.example.com', 'c.example.com'],
+    });
+
+    const first: any = await handleGetRequestSummary(context, {
+      url: sampleUrl,
+      limit: 2,
+      compact: true,
+    });
+    expect(first.content[0].text).not.toContain('\n');
+    const firstPage = JSON.parse(first.content[0].text);
+    expect(firstPage.requestSummary.uniqueDomains).toBe(3);
+    expect(firstPage.domains).toEqual([
+      { domain: 'a.example.com', requestCount: 0 },
+      { domain: 'b.example.com', requestCount: 0 },
+    ]);
+
+    const second: any = await handleGetRequestSummary(context, {
+      url: sampleUrl,
+      limit: 2,
+      cursor: firstPage.nextCursor,
+    });
+    const secondPage = JSON.parse(second.content[0].text);
+    expect(secondPage.domains.map((entry: any) => entry.domain)).toEqual([
+      'c.example.com',
+    ]);
+    expect(secondPage.nextCursor).toBeUndefined();
+  });
+
+  it('handleGetRequestSummary should reject missing analysisId and url', async () => {
+    await expect(handleGetRequestSummary(context, {})).rejects.toHaveProperty(
+      'code',
+      ErrorCode.InvalidParams
+    );
+  });
+
+  it('handleGetRequestSummary should total bytes and time per domain', async () => {
+    context.analysisResults.set(sampleUrl, {
+      ...sampleAnalysisResult,
+      requests: [
+        {
+          ...sampleRequest,
+          timing: {
+            startTime: 0,
+            dns: -1,
+            connect: -1,
+            tls: -1,
+            ttfb: 10,
+            download: 5,
+            total: 40,
+          },
+          sizes: {
+            requestHeaders: 100,
+            requestBody: 0,
+            responseHeaders: 200,
+            responseBody: 800,
+            transferSize: 1000,
+            decodedBodySize: 2400,
+          },
+        },
+        {
+          ...sampleRequest,
+          id: 'req-456',
+          timing: {
+            startTime: 0,
+            dns: -1,
+            connect: -1,
+            tls: -1,
+            ttfb: -1,
+            download: -1,
+            total: -1,
+          },
+          sizes: {
+            requestHeaders: -1,
+            requestBody: -1,
+            responseHeaders: -1,
+            responseBody: -1,
+            transferSize: -1,
+            decodedBodySize: -1,
+          },
+        },
+      ],
+    });
+    const result: any = await handleGetRequestSummary(context, sampleUrl);
+    const summary = JSON.parse(result.content[0].text);
+    expect(summary.domains).toEqual([
+      {
+        domain: sampleDomain,
+        requestCount: 2,
+        totalBytes: 1000,
+        totalTime: 40,
+      },
+    ]);
+  });
+
   it('handleGetRequestSummary should throw when not found', async () => {
     await expect(handleGetRequestSummary(context, sampleUrl)).rejects.toThrow(
       McpError
@@ -204,4 +556,36 @@ describe('analysis handlers', () => {
       handleAnalyzeWebsite(context, { url: sampleUrl, quickMode: 'yes' as any })
     ).rejects.toThrow(McpError);
   });
+
+  it('handleListAnalyses should list stored analyses newest first', async () => {
+    context.analysisResults.set('a-1', {
+      ...sampleAnalysisResult,
+      analysisId: 'a-1',
+    });
+    context.analysisResults.set('a-2', {
+      ...sampleAnalysisResult,
+      analysisId: 'a-2',
+      url: 'https://other.example.com',
+      antiBotDetection: { detected: true, type: 'captcha' },
+    });
+
+    const result: any = await handleListAnalyses(context, {});
+    const data = JSON.parse(result.content[0].text);
+    expect(data.totalAnalyses).toBe(2);
+    expect(data.analyses[0]).toEqual({
+      analysisId: 'a-2',
+      url: 'https://other.example.com',
+      title: 'Test Website',
+      analysisTimestamp: '2024-01-01T12:00:00Z',
+      totalRequests: 1,
+      uniqueDomains: 1,
+      antiBotDetection: { detected: true, type: 'captcha' },
+    });
+
+    const filtered: any = await handleListAnalyses(context, { url: sampleUrl });
+    const filteredData = JSON.parse(filtered.content[0].text);
+    expect(filteredData.analyses.map((a: any) => a.analysisId)).toEqual([
+      'a-1',
+    ]);
+  });
 });
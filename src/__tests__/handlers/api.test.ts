@@ -0,0 +1,218 @@
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import {
+  handleDiscoverApiEndpoints,
+  handleGetGraphqlOperations,
+} from '../../handlers/api.js';
+import { config } from '../../config.js';
+
+describe('api handlers', () => {
+  let mockLogger: any;
+  let context: any;
+
+  const sampleAnalysisResult = {
+    analysisId: 'analysis-1',
+    url: 'https://example.com',
+    title: 'Test Website',
+    requests: [
+      {
+        id: 'req-1',
+        url: 'https://api.example.com/v1/products/123',
+        method: 'GET',
+        headers: {},
+        timestamp: '2024-01-01T12:00:00Z',
+        status: 200,
+        responseHeaders: { 'content-type': 'application/json' },
+        responseBody: '{"id": 123, "title": "Shoe"}',
+        resourceType: 'xhr',
+      },
+      {
+        id: 'req-2',
+        url: 'https://example.com/style.css',
+        method: 'GET',
+        headers: {},
+        timestamp: '2024-01-01T12:00:00Z',
+        status: 200,
+        resourceType: 'stylesheet',
+      },
+    ],
+    totalRequests: 2,
+    uniqueDomains: ['api.example.com', 'example.com'],
+    requestsByType: { xhr: 1, stylesheet: 1 },
+    analysisTimestamp: '2024-01-01T12:00:00Z',
+    renderMethod: 'unknown',
+    antiBotDetection: { detected: false },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+    context = {
+      logger: mockLogger,
+      analysisResults: new Map([['analysis-1', sampleAnalysisResult]]),
+      config,
+    };
+  });
+
+  it('should return an OpenAPI document by default', async () => {
+    const result: any = await handleDiscoverApiEndpoints(context, {
+      analysisId: 'analysis-1',
+    });
+    const doc = JSON.parse(result.content[0].text);
+
+    expect(doc.openapi).toBe('3.1.0');
+    expect(doc.servers).toEqual([{ url: 'https://api.example.com' }]);
+    expect(Object.keys(doc.paths)).toEqual(['/v1/products/{productId}']);
+  });
+
+  it('should return the endpoint list when requested', async () => {
+    const result: any = await handleDiscoverApiEndpoints(context, {
+      url: 'https://example.com',
+      format: 'endpoints',
+    });
+    const output = JSON.parse(result.content[0].text);
+
+    expect(output.analysisId).toBe('analysis-1');
+    expect(output.totalEndpoints).toBe(1);
+    expect(output.endpoints[0]).toEqual(
+      expect.objectContaining({
+        method: 'GET',
+        origin: 'https://api.example.com',
+        pathTemplate: '/v1/products/{productId}',
+        requestIds: ['req-1'],
+      })
+    );
+  });
+
+  it('should infer response schemas from bodies kept in the body store', async () => {
+    const storedRequest = {
+      ...sampleAnalysisResult.requests[0],
+      id: 'req-3',
+      url: 'https://api.example.com/v1/feed',
+      responseBody: undefined,
+      storedBody: { sha256: 'abc', size: 20, encoding: 'utf8' },
+    };
+    context.analysisResults.set('analysis-2', {
+      ...sampleAnalysisResult,
+      analysisId: 'analysis-2',
+      requests: [storedRequest],
+    });
+    context.bodyStore = {
+      get: jest.fn().mockResolvedValue(Buffer.from('{"items":[]}')),
+    };
+
+    const result: any = await handleDiscoverApiEndpoints(context, {
+      analysisId: 'analysis-2',
+      format: 'endpoints',
+    });
+    const output = JSON.parse(result.content[0].text);
+
+    expect(context.bodyStore.get).toHaveBeenCalledWith('abc');
+    expect(output.endpoints[0].responses['200'].schema).toEqual(
+      expect.objectContaining({ required: ['items'] })
+    );
+  });
+
+  it('should reject invalid parameters', async () => {
+    await expect(
+      handleDiscoverApiEndpoints(context, { format: 'openapi' })
+    ).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    await expect(
+      handleDiscoverApiEndpoints(context, {
+        analysisId: 'analysis-1',
+        format: 'yaml',
+      })
+    ).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+  });
+
+  describe('handleGetGraphqlOperations', () => {
+    const graphqlRequest = (id: string, body: unknown) => ({
+      id,
+      url: 'https://api.example.com/graphql',
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      postData: JSON.stringify(body),
+      timestamp: '2024-01-01T12:00:00Z',
+      status: 200,
+      responseBody: '{"data": {"ok": true}}',
+      resourceType: 'fetch',
+    });
+
+    beforeEach(() => {
+      context.analysisResults.set('graphql-1', {
+        ...sampleAnalysisResult,
+        analysisId: 'graphql-1',
+        requests: [
+          graphqlRequest('g1', { query: 'query Cart { cart { id } }' }),
+          graphqlRequest('g2', { query: 'query Cart { cart { id } }' }),
+          graphqlRequest('g3', {
+            query: 'mutation AddItem($id: ID!) { add(id: $id) }',
+            variables: { id: '7' },
+          }),
+        ],
+      });
+    });
+
+    it('should list grouped operations', async () => {
+      const result: any = await handleGetGraphqlOperations(context, {
+        analysisId: 'graphql-1',
+      });
+      const output = JSON.parse(result.content[0].text);
+
+      expect(output.totalOperations).toBe(3);
+      expect(
+        output.operations.map((operation: any) => [
+          operation.label,
+          operation.operationType,
+          operation.count,
+        ])
+      ).toEqual([
+        ['Cart', 'query', 2],
+        ['AddItem', 'mutation', 1],
+      ]);
+    });
+
+    it('should page through operations with compact output', async () => {
+      const result: any = await handleGetGraphqlOperations(context, {
+        analysisId: 'graphql-1',
+        limit: 1,
+        compact: true,
+      });
+      const output = JSON.parse(result.content[0].text);
+
+      expect(output.totalOperations).toBe(3);
+      expect(output.operations).toEqual([
+        {
+          label: 'Cart',
+          endpoint: 'https://api.example.com/graphql',
+          operationType: 'query',
+          count: 2,
+        },
+      ]);
+
+      const next: any = await handleGetGraphqlOperations(context, {
+        analysisId: 'graphql-1',
+        cursor: output.nextCursor,
+        fields: ['label'],
+      });
+      const rest = JSON.parse(next.content[0].text);
+      expect(rest.operations).toEqual([{ label: 'AddItem' }]);
+      expect(rest.nextCursor).toBeUndefined();
+    });
+
+    it('should filter by operation type', async () => {
+      const result: any = await handleGetGraphqlOperations(context, {
+        analysisId: 'graphql-1',
+        operationType: 'mutation',
+      });
+      const output = JSON.parse(result.content[0].text);
+
+      expect(output.operations).toHaveLength(1);
+      expect(output.operations[0].variables).toEqual([{ id: '7' }]);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { handleGetPageContent } from '../../handlers/content.js';
+import { AnalysisTimeoutError, InvalidUrlError } from '../../errors.js';
+
+describe('content handler', () => {
+  let mockLogger: any;
+  let mockAnalyzer: any;
+  let context: any;
+
+  const sampleUrl = 'https://example.com';
+  const pageContent = {
+    url: sampleUrl,
+    finalUrl: 'https://example.com/',
+    title: 'Example',
+    format: 'markdown',
+    content: '# Example\n\nSome text',
+    tokens: 6,
+    totalTokens: 40,
+    truncated: true,
+    omittedSections: ['More'],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockLogger = { info: jest.fn(), debug: jest.fn(), error: jest.fn() };
+    mockAnalyzer = {
+      getPageContent: jest.fn().mockResolvedValue(pageContent),
+    };
+    context = { analyzer: mockAnalyzer, logger: mockLogger };
+  });
+
+  it('returns the content details and the content itself', async () => {
+    const result: any = await handleGetPageContent(context, {
+      url: sampleUrl,
+      format: 'markdown',
+      maxTokens: 500,
+    });
+
+    expect(mockAnalyzer.getPageContent).toHaveBeenCalledWith(sampleUrl, {
+      format: 'markdown',
+      maxTokens: 500,
+    });
+    const { content, ...details } = pageContent;
+    expect(JSON.parse(result.content[0].text)).toEqual(details);
+    expect(result.content[1]).toEqual({ type: 'text', text: content });
+  });
+
+  it('rejects invalid parameters', async () => {
+    await expect(
+      handleGetPageContent(context, { url: sampleUrl, format: 'pdf' })
+    ).rejects.toHaveProperty('code', ErrorCode.InvalidParams);
+    await expect(
+      handleGetPageContent(context, { url: sampleUrl, maxTokens: 10 })
+    ).rejects.toHaveProperty('code', ErrorCode.InvalidParams);
+    expect(mockAnalyzer.getPageContent).not.toHaveBeenCalled();
+  });
+
+  it('maps analyzer errors to MCP error codes', async () => {
+    mockAnalyzer.getPageContent.mockRejectedValueOnce(
+      new InvalidUrlError('Invalid URL provided')
+    );
+    await expect(
+      handleGetPageContent(context, { url: sampleUrl })
+    ).rejects.toHaveProperty('code', ErrorCode.InvalidParams);
+
+    mockAnalyzer.getPageContent.mockRejectedValueOnce(
+      new AnalysisTimeoutError('Loading timed out')
+    );
+    await expect(
+      handleGetPageContent(context, { url: sampleUrl })
+    ).rejects.toHaveProperty('code', ErrorCode.RequestTimeout);
+
+    mockAnalyzer.getPageContent.mockRejectedValueOnce(new Error('boom'));
+    await expect(
+      handleGetPageContent(context, { url: sampleUrl })
+    ).rejects.toHaveProperty('code', ErrorCode.InternalError);
+  });
+});
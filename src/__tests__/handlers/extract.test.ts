@@ -1,5 +1,12 @@
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
-import { handleExtractHtmlElements } from '../../handlers/extract.js';
+import {
+  handleDetectLists,
+  handleExtractHtmlElements,
+  handleExtractStructuredData,
+  handleExtractTables,
+  handleExtractWithSchema,
+  handleTestSelector,
+} from '../../handlers/extract.js';
 
 describe('extract handler', () => {
   let mockLogger: any;
@@ -12,7 +19,15 @@ describe('extract handler', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     mockLogger = { info: jest.fn(), debug: jest.fn(), error: jest.fn() };
-    mockAnalyzer = { extractHtmlElements: jest.fn() };
+    mockAnalyzer = {
+      extractHtmlElements: jest.fn(),
+      extractTables: jest.fn(),
+      extractStructuredData: jest.fn(),
+      extractWithSchema: jest.fn(),
+      detectLists: jest.fn(),
+      testSelectors: jest.fn(),
+      testSelectorsOnOpenPage: jest.fn(),
+    };
     context = { analyzer: mockAnalyzer, logger: mockLogger };
   });
 
@@ -31,16 +46,57 @@ describe('extract handler', () => {
 
     expect(mockAnalyzer.extractHtmlElements).toHaveBeenCalledWith(
       sampleUrl,
-      sampleFilterType
+      sampleFilterType,
+      false
     );
     expect(result).toBeDefined();
     expect(Array.isArray(result.content)).toBe(true);
     expect(result.content[0].type).toBe('text');
-    expect(result.content[0].text).toBe(JSON.stringify(elements, null, 2));
+    expect(JSON.parse(result.content[0].text)).toEqual({
+      url: sampleUrl,
+      filterType: sampleFilterType,
+      totalElements: 2,
+      elements,
+    });
     expect(mockLogger.info).toHaveBeenCalled();
     expect(mockLogger.debug).toHaveBeenCalled();
   });
 
+  it('pages elements and supports compact output', async () => {
+    const elements = ['a', 'b', 'c'].map((content, index) => ({
+      content,
+      selector: `p:nth-of-type(${index + 1})`,
+      type: 'text',
+      tag: 'p',
+      attributes: { class: 'copy' },
+    }));
+    mockAnalyzer.extractHtmlElements.mockResolvedValue(elements);
+
+    const first: any = await handleExtractHtmlElements(context, {
+      url: sampleUrl,
+      filterType: sampleFilterType,
+      limit: 2,
+      compact: true,
+    });
+    expect(first.content[0].text).not.toContain('\n');
+    const firstPage = JSON.parse(first.content[0].text);
+    expect(firstPage.totalElements).toBe(3);
+    expect(firstPage.elements).toEqual([
+      { tag: 'p', selector: 'p:nth-of-type(1)', content: 'a' },
+      { tag: 'p', selector: 'p:nth-of-type(2)', content: 'b' },
+    ]);
+
+    const second: any = await handleExtractHtmlElements(context, {
+      url: sampleUrl,
+      filterType: sampleFilterType,
+      limit: 2,
+      cursor: firstPage.nextCursor,
+    });
+    const secondPage = JSON.parse(second.content[0].text);
+    expect(secondPage.elements).toEqual([elements[2]]);
+    expect(secondPage.nextCursor).toBeUndefined();
+  });
+
   it('rejects with McpError InvalidParams for invalid input', async () => {
     const invalidParams = { url: 'not-a-url', filterType: 'text' };
 
@@ -88,4 +144,506 @@ describe('extract handler', () => {
       })
     ).rejects.toHaveProperty('code', ErrorCode.InternalError);
   });
+
+  describe('extract_tables', () => {
+    const tables = [
+      {
+        selector: '#prices',
+        tag: 'table',
+        caption: 'Prices',
+        headers: ['Plan', 'Cost'],
+        headerSource: 'thead',
+        rows: [
+          { Plan: 'Basic', Cost: '$5' },
+          { Plan: 'Pro', Cost: '$15' },
+        ],
+        rowCount: 2,
+        columnCount: 2,
+      },
+      {
+        selector: '.layout',
+        tag: 'table',
+        headers: ['Column 1'],
+        headerSource: 'none',
+        rows: [],
+        rowCount: 0,
+        columnCount: 1,
+      },
+    ];
+
+    it('returns the tables of the page', async () => {
+      mockAnalyzer.extractTables.mockResolvedValue(tables);
+
+      const result: any = await handleExtractTables(context, {
+        url: sampleUrl,
+      });
+
+      expect(mockAnalyzer.extractTables).toHaveBeenCalledWith(sampleUrl);
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        url: sampleUrl,
+        totalTables: 2,
+        tables,
+      });
+    });
+
+    it('filters by row count and leaves rows out of compact output', async () => {
+      mockAnalyzer.extractTables.mockResolvedValue(tables);
+
+      const result: any = await handleExtractTables(context, {
+        url: sampleUrl,
+        minRows: 1,
+        compact: true,
+      });
+
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        url: sampleUrl,
+        totalTables: 1,
+        tables: [
+          {
+            selector: '#prices',
+            caption: 'Prices',
+            headers: ['Plan', 'Cost'],
+            rowCount: 2,
+          },
+        ],
+      });
+    });
+
+    it('maps analyzer errors to MCP error codes', async () => {
+      const { InvalidUrlError } = await import('../../errors.js');
+      mockAnalyzer.extractTables.mockRejectedValueOnce(
+        new InvalidUrlError('Invalid URL')
+      );
+      await expect(
+        handleExtractTables(context, { url: sampleUrl })
+      ).rejects.toHaveProperty('code', ErrorCode.InvalidParams);
+
+      mockAnalyzer.extractTables.mockRejectedValueOnce(new Error('boom'));
+      await expect(
+        handleExtractTables(context, { url: sampleUrl })
+      ).rejects.toHaveProperty('code', ErrorCode.InternalError);
+    });
+  });
+
+  describe('extract_structured_data', () => {
+    const data = {
+      url: sampleUrl,
+      items: {
+        Product: [{ '@type': 'Product', '@source': 'json-ld', name: 'Desk' }],
+        BreadcrumbList: [{ '@type': 'BreadcrumbList', '@source': 'microdata' }],
+      },
+      itemCount: 2,
+      meta: {
+        title: 'Desk',
+        robots: { meta: [], directives: [] },
+        openGraph: { 'og:title': 'Desk' },
+        twitter: {},
+        hreflang: [],
+      },
+    };
+
+    it('returns the structured data of the page', async () => {
+      mockAnalyzer.extractStructuredData.mockResolvedValue(data);
+
+      const result: any = await handleExtractStructuredData(context, {
+        url: sampleUrl,
+      });
+
+      expect(mockAnalyzer.extractStructuredData).toHaveBeenCalledWith(
+        sampleUrl
+      );
+      expect(JSON.parse(result.content[0].text)).toEqual(data);
+    });
+
+    it('keeps only the requested types', async () => {
+      mockAnalyzer.extractStructuredData.mockResolvedValue(data);
+
+      const result: any = await handleExtractStructuredData(context, {
+        url: sampleUrl,
+        types: ['product'],
+      });
+
+      const parsed = JSON.parse(result.content[0].text);
+      expect(Object.keys(parsed.items)).toEqual(['Product']);
+      expect(parsed.itemCount).toBe(1);
+      expect(parsed.meta).toEqual(data.meta);
+    });
+
+    it('tests the page an analysis kept open', async () => {
+      const results = [
+        {
+          selector: '#account',
+          kind: 'css',
+          matchCount: 1,
+          matches: [],
+          warnings: [],
+        },
+      ];
+      context.analysisResults = new Map([
+        ['analysis-1', { analysisId: 'analysis-1', url: sampleUrl }],
+      ]);
+      mockAnalyzer.testSelectorsOnOpenPage.mockResolvedValue(results);
+
+      const result: any = await handleTestSelector(context, {
+        analysisId: 'analysis-1',
+        selectors: ['#account'],
+      });
+
+      expect(mockAnalyzer.testSelectorsOnOpenPage).toHaveBeenCalledWith(
+        'analysis-1',
+        ['#account'],
+        5
+      );
+      expect(mockAnalyzer.testSelectors).not.toHaveBeenCalled();
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        url: sampleUrl,
+        analysisId: 'analysis-1',
+        openPage: true,
+        results,
+      });
+    });
+
+    it('loads the analyzed URL when the analysis page is no longer open', async () => {
+      context.analysisResults = new Map([
+        ['analysis-1', { analysisId: 'analysis-1', url: sampleUrl }],
+      ]);
+      mockAnalyzer.testSelectorsOnOpenPage.mockResolvedValue(undefined);
+      mockAnalyzer.testSelectors.mockResolvedValue([]);
+
+      const result: any = await handleTestSelector(context, {
+        analysisId: 'analysis-1',
+        selectors: ['h1'],
+      });
+
+      expect(mockAnalyzer.testSelectors).toHaveBeenCalledWith(
+        sampleUrl,
+        ['h1'],
+        5
+      );
+      expect(JSON.parse(result.content[0].text).openPage).toBe(false);
+
+      await expect(
+        handleTestSelector(context, {
+          analysisId: 'unknown',
+          selectors: ['h1'],
+        })
+      ).rejects.toHaveProperty('code', ErrorCode.InvalidParams);
+    });
+
+    it('maps analyzer errors to MCP error codes', async () => {
+      const { AnalysisTimeoutError, InvalidUrlError } =
+        await import('../../errors.js');
+      mockAnalyzer.extractStructuredData.mockRejectedValueOnce(
+        new InvalidUrlError('Invalid URL')
+      );
+      await expect(
+        handleExtractStructuredData(context, { url: sampleUrl })
+      ).rejects.toHaveProperty('code', ErrorCode.InvalidParams);
+
+      mockAnalyzer.extractStructuredData.mockRejectedValueOnce(
+        new AnalysisTimeoutError('timed out')
+      );
+      await expect(
+        handleExtractStructuredData(context, { url: sampleUrl })
+      ).rejects.toHaveProperty('code', ErrorCode.RequestTimeout);
+
+      mockAnalyzer.extractStructuredData.mockRejectedValueOnce(
+        new Error('boom')
+      );
+      await expect(
+        handleExtractStructuredData(context, { url: sampleUrl })
+      ).rejects.toHaveProperty('code', ErrorCode.InternalError);
+    });
+  });
+
+  describe('extract_with_schema', () => {
+    const fields = {
+      title: { selector: 'h2' },
+      price: { selector: '.price', transform: 'number' },
+    };
+    const result = {
+      url: sampleUrl,
+      records: [
+        { title: 'Desk', price: 199 },
+        { title: 'Chair', price: null },
+        { title: null, price: 20 },
+      ],
+      errors: [
+        {
+          record: 1,
+          field: 'price',
+          message: "Transform 'number' failed: no number in 'n/a'",
+        },
+        { record: 2, field: 'title', message: "No match for selector 'h2'" },
+      ],
+      containerCount: 3,
+      truncated: false,
+    };
+
+    it('returns the records with the errors of the returned page', async () => {
+      mockAnalyzer.extractWithSchema.mockResolvedValue(result);
+
+      const first: any = await handleExtractWithSchema(context, {
+        url: sampleUrl,
+        containerSelector: '.card',
+        fields,
+        limit: 2,
+      });
+
+      expect(mockAnalyzer.extractWithSchema).toHaveBeenCalledWith(sampleUrl, {
+        containerSelector: '.card',
+        containerXpath: undefined,
+        fields,
+      });
+      const parsed = JSON.parse(first.content[0].text);
+      expect(parsed.totalRecords).toBe(3);
+      expect(parsed.truncated).toBe(false);
+      expect(parsed.records).toEqual(result.records.slice(0, 2));
+      expect(parsed.errors).toEqual([result.errors[0]]);
+
+      const second: any = await handleExtractWithSchema(context, {
+        url: sampleUrl,
+        containerSelector: '.card',
+        fields,
+        cursor: parsed.nextCursor,
+      });
+      const next = JSON.parse(second.content[0].text);
+      expect(next.records).toEqual([result.records[2]]);
+      expect(next.errors).toEqual([result.errors[1]]);
+      expect(next.nextCursor).toBeUndefined();
+    });
+
+    it.each([
+      [{ url: sampleUrl, fields: {} }],
+      [{ url: sampleUrl, fields: { title: {} } }],
+      [
+        {
+          url: sampleUrl,
+          fields: { title: { selector: 'h2', xpath: '//h2' } },
+        },
+      ],
+      [
+        {
+          url: sampleUrl,
+          fields: { image: { selector: 'img', source: 'attribute' } },
+        },
+      ],
+      [
+        {
+          url: sampleUrl,
+          fields: { id: { selector: 'a', transform: 'regex' } },
+        },
+      ],
+      [
+        {
+          url: sampleUrl,
+          fields: { id: { selector: 'a', transform: ['regex'], pattern: '(' } },
+        },
+      ],
+      [
+        {
+          url: sampleUrl,
+          containerSelector: '.card',
+          containerXpath: '//li',
+          fields,
+        },
+      ],
+    ])('rejects invalid schemas with InvalidParams', async (params) => {
+      await expect(
+        handleExtractWithSchema(context, params)
+      ).rejects.toHaveProperty('code', ErrorCode.InvalidParams);
+      expect(mockAnalyzer.extractWithSchema).not.toHaveBeenCalled();
+    });
+
+    it('maps analyzer errors to MCP error codes', async () => {
+      const { AnalysisTimeoutError, InvalidSelectorError, InvalidUrlError } =
+        await import('../../errors.js');
+      mockAnalyzer.extractWithSchema.mockRejectedValueOnce(
+        new InvalidUrlError('Invalid URL')
+      );
+      await expect(
+        handleExtractWithSchema(context, { url: sampleUrl, fields })
+      ).rejects.toHaveProperty('code', ErrorCode.InvalidParams);
+
+      mockAnalyzer.extractWithSchema.mockRejectedValueOnce(
+        new InvalidSelectorError("field 'title': invalid selector 'h2['")
+      );
+      await expect(
+        handleExtractWithSchema(context, { url: sampleUrl, fields })
+      ).rejects.toHaveProperty('code', ErrorCode.InvalidParams);
+
+      mockAnalyzer.extractWithSchema.mockRejectedValueOnce(
+        new AnalysisTimeoutError('Extracting records timed out')
+      );
+      await expect(
+        handleExtractWithSchema(context, { url: sampleUrl, fields })
+      ).rejects.toHaveProperty('code', ErrorCode.RequestTimeout);
+
+      mockAnalyzer.extractWithSchema.mockRejectedValueOnce(new Error('boom'));
+      await expect(
+        handleExtractWithSchema(context, { url: sampleUrl, fields })
+      ).rejects.toHaveProperty('code', ErrorCode.InternalError);
+    });
+  });
+
+  describe('detect_lists', () => {
+    const list = (itemSelector: string, itemCount: number) => ({
+      containerSelector: itemSelector.split(' > ')[0],
+      itemSelector,
+      itemTag: 'div',
+      itemCount,
+      area: itemCount * 1000,
+      fields: [{ name: 'title', selector: 'h2', samples: ['Desk'] }],
+    });
+
+    it('returns the detected lists', async () => {
+      const lists = [list('#grid > div.card', 24), list('nav > a', 6)];
+      mockAnalyzer.detectLists.mockResolvedValue(lists);
+
+      const result: any = await handleDetectLists(context, { url: sampleUrl });
+
+      expect(mockAnalyzer.detectLists).toHaveBeenCalledWith(sampleUrl);
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        url: sampleUrl,
+        totalLists: 2,
+        lists,
+      });
+    });
+
+    it('filters by item count and leaves fields out of compact output', async () => {
+      mockAnalyzer.detectLists.mockResolvedValue([
+        list('#grid > div.card', 24),
+        list('nav > a', 6),
+      ]);
+
+      const result: any = await handleDetectLists(context, {
+        url: sampleUrl,
+        minItems: 10,
+        compact: true,
+      });
+
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        url: sampleUrl,
+        totalLists: 1,
+        lists: [
+          {
+            containerSelector: '#grid',
+            itemSelector: '#grid > div.card',
+            itemCount: 24,
+          },
+        ],
+      });
+    });
+
+    it('maps analyzer errors to MCP error codes', async () => {
+      const { AnalysisTimeoutError, InvalidUrlError } =
+        await import('../../errors.js');
+      await expect(
+        handleDetectLists(context, { url: sampleUrl, minItems: 2 })
+      ).rejects.toHaveProperty('code', ErrorCode.InvalidParams);
+
+      mockAnalyzer.detectLists.mockRejectedValueOnce(
+        new InvalidUrlError('Invalid URL')
+      );
+      await expect(
+        handleDetectLists(context, { url: sampleUrl })
+      ).rejects.toHaveProperty('code', ErrorCode.InvalidParams);
+
+      mockAnalyzer.detectLists.mockRejectedValueOnce(
+        new AnalysisTimeoutError('Extracting lists timed out')
+      );
+      await expect(
+        handleDetectLists(context, { url: sampleUrl })
+      ).rejects.toHaveProperty('code', ErrorCode.RequestTimeout);
+
+      mockAnalyzer.detectLists.mockRejectedValueOnce(new Error('boom'));
+      await expect(
+        handleDetectLists(context, { url: sampleUrl })
+      ).rejects.toHaveProperty('code', ErrorCode.InternalError);
+    });
+  });
+
+  describe('test_selector', () => {
+    it('returns the results of every selector', async () => {
+      const results = [
+        {
+          selector: 'h1',
+          kind: 'css',
+          matchCount: 1,
+          matches: [
+            {
+              index: 0,
+              tag: 'h1',
+              text: 'Welcome',
+              attributes: {},
+              html: '<h1>Welcome</h1>',
+              boundingBox: { x: 0, y: 0, width: 800, height: 40 },
+              visible: true,
+            },
+          ],
+          warnings: [],
+        },
+        {
+          selector: '//li',
+          kind: 'xpath',
+          matchCount: 0,
+          matches: [],
+          warnings: ['Matches no element'],
+        },
+      ];
+      mockAnalyzer.testSelectors.mockResolvedValue(results);
+
+      const result: any = await handleTestSelector(context, {
+        url: sampleUrl,
+        selectors: [' h1 ', '//li'],
+      });
+
+      expect(mockAnalyzer.testSelectors).toHaveBeenCalledWith(
+        sampleUrl,
+        ['h1', '//li'],
+        5
+      );
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        url: sampleUrl,
+        results,
+      });
+    });
+
+    it.each([
+      [{ url: sampleUrl, selectors: [] }],
+      [{ url: sampleUrl, selectors: ['  '] }],
+      [{ url: sampleUrl, selectors: ['h1'], maxMatches: 0 }],
+      [{ url: 'not-a-url', selectors: ['h1'] }],
+      [{ selectors: ['h1'] }],
+    ])('rejects invalid parameters %j', async (params) => {
+      await expect(handleTestSelector(context, params)).rejects.toHaveProperty(
+        'code',
+        ErrorCode.InvalidParams
+      );
+      expect(mockAnalyzer.testSelectors).not.toHaveBeenCalled();
+    });
+
+    it('maps analyzer errors to MCP error codes', async () => {
+      const { AnalysisTimeoutError, InvalidUrlError } =
+        await import('../../errors.js');
+      mockAnalyzer.testSelectors.mockRejectedValueOnce(
+        new InvalidUrlError('Invalid URL')
+      );
+      await expect(
+        handleTestSelector(context, { url: sampleUrl, selectors: ['h1'] })
+      ).rejects.toHaveProperty('code', ErrorCode.InvalidParams);
+
+      mockAnalyzer.testSelectors.mockRejectedValueOnce(
+        new AnalysisTimeoutError('Timed out')
+      );
+      await expect(
+        handleTestSelector(context, { url: sampleUrl, selectors: ['h1'] })
+      ).rejects.toHaveProperty('code', ErrorCode.RequestTimeout);
+
+      mockAnalyzer.testSelectors.mockRejectedValueOnce(new Error('boom'));
+      await expect(
+        handleTestSelector(context, { url: sampleUrl, selectors: ['h1'] })
+      ).rejects.toHaveProperty('code', ErrorCode.InternalError);
+    });
+  });
 });
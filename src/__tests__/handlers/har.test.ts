@@ -0,0 +1,218 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { handleExportHar, handleImportHar } from '../../handlers/har.js';
+import { config } from '../../config.js';
+
+describe('har handlers', () => {
+  let mockLogger: any;
+  let context: any;
+
+  const sampleUrl = 'https://example.com';
+
+  const sampleAnalysisResult = {
+    analysisId: 'analysis-1',
+    url: sampleUrl,
+    title: 'Test Website',
+    requests: [
+      {
+        id: 'req-123',
+        url: 'https://api.example.com/api/data',
+        method: 'GET',
+        headers: { 'user-agent': 'test-agent' },
+        timestamp: '2024-01-01T12:00:00Z',
+        status: 200,
+        responseHeaders: { 'content-type': 'application/json' },
+        responseBody: '{"data": "test"}',
+        resourceType: 'xhr',
+      },
+    ],
+    totalRequests: 1,
+    uniqueDomains: ['api.example.com'],
+    requestsByType: { xhr: 1 },
+    analysisTimestamp: '2024-01-01T12:00:00Z',
+    renderMethod: 'unknown',
+    antiBotDetection: { detected: false },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+    context = {
+      logger: mockLogger,
+      analysisResults: new Map([['analysis-1', sampleAnalysisResult]]),
+      config,
+    };
+  });
+
+  describe('handleExportHar', () => {
+    it('should return the HAR document inline', async () => {
+      const result: any = await handleExportHar(context, {
+        analysisId: 'analysis-1',
+      });
+      const har = JSON.parse(result.content[0].text);
+      expect(har.log.version).toBe('1.2');
+      expect(har.log.entries).toHaveLength(1);
+      expect(har.log.entries[0].request.url).toBe(
+        'https://api.example.com/api/data'
+      );
+    });
+
+    it('should write the HAR file to the output directory', async () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'har-export-'));
+      context.config = { ...config, output: { directory } };
+      try {
+        const result: any = await handleExportHar(context, {
+          url: sampleUrl,
+          saveToFile: true,
+        });
+        const data = JSON.parse(result.content[0].text);
+        expect(data.filePath).toBe(path.join(directory, 'analysis-1.har'));
+        expect(data.entries).toBe(1);
+        const written = JSON.parse(fs.readFileSync(data.filePath, 'utf8'));
+        expect(written.log.entries).toHaveLength(1);
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    });
+
+    it('should throw InvalidParams when the analysis is unknown', async () => {
+      await expect(
+        handleExportHar(context, { analysisId: 'missing' })
+      ).rejects.toHaveProperty('code', ErrorCode.InvalidParams);
+    });
+  });
+
+  describe('handleImportHar', () => {
+    const har = {
+      log: {
+        version: '1.2',
+        creator: { name: 'WebInspector', version: '537.36' },
+        pages: [
+          {
+            startedDateTime: '2024-01-01T12:00:00.000Z',
+            id: 'page_1',
+            title: 'https://shop.example.com/',
+            pageTimings: {},
+          },
+        ],
+        entries: [
+          {
+            startedDateTime: '2024-01-01T12:00:00.000Z',
+            time: 10,
+            request: {
+              method: 'GET',
+              url: 'https://www.google.com/recaptcha/api.js',
+              headers: [],
+            },
+            response: {
+              status: 200,
+              headers: [],
+              content: { size: 0, mimeType: 'text/javascript' },
+            },
+          },
+        ],
+      },
+    };
+
+    it('should store the imported HAR as a new analysis', async () => {
+      context.analysisResults = new Map();
+      const result: any = await handleImportHar(context, {
+        har: JSON.stringify(har),
+      });
+      const summary = JSON.parse(result.content[0].text);
+
+      expect(summary.websiteInfo.url).toBe('https://shop.example.com/');
+      expect(summary.requestSummary.totalRequests).toBe(1);
+      expect(summary.requestSummary.requestsByType).toEqual({ script: 1 });
+      expect(summary.antiBotDetection.type).toBe('captcha');
+
+      const stored = context.analysisResults.get(summary.analysisId);
+      expect(stored.importedFrom).toBe('inline');
+      expect(stored.requests[0].url).toBe(
+        'https://www.google.com/recaptcha/api.js'
+      );
+    });
+
+    it('should read HAR files from the output directory', async () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'har-import-'));
+      context.config = { ...config, output: { directory } };
+      fs.writeFileSync(
+        path.join(directory, 'capture.har'),
+        JSON.stringify(har)
+      );
+      fs.writeFileSync(
+        path.join(directory, '..backup.har'),
+        JSON.stringify(har)
+      );
+      try {
+        const result: any = await handleImportHar(context, {
+          filePath: 'capture.har',
+          url: 'https://example.com',
+        });
+        const summary = JSON.parse(result.content[0].text);
+        expect(summary.websiteInfo.url).toBe('https://example.com');
+        expect(
+          context.analysisResults.get(summary.analysisId).importedFrom
+        ).toBe('capture.har');
+
+        // Names starting with two dots are still inside the directory
+        const backup: any = await handleImportHar(context, {
+          filePath: '..backup.har',
+        });
+        expect(JSON.parse(backup.content[0].text).analysisId).toBeDefined();
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    });
+
+    it('should refuse files outside the output directory', async () => {
+      const root = fs.mkdtempSync(path.join(os.tmpdir(), 'har-import-'));
+      const directory = path.join(root, 'output');
+      const secret = path.join(root, 'secret.json');
+      fs.mkdirSync(directory);
+      fs.writeFileSync(secret, JSON.stringify(har));
+      fs.symlinkSync(secret, path.join(directory, 'link.har'));
+      context.config = { ...config, output: { directory } };
+      try {
+        for (const filePath of [secret, '../secret.json', 'link.har']) {
+          await expect(
+            handleImportHar(context, { filePath })
+          ).rejects.toMatchObject({
+            code: ErrorCode.InvalidParams,
+            message: expect.stringContaining(
+              'can only be imported from the output directory'
+            ),
+          });
+        }
+        await expect(
+          handleImportHar(context, { filePath: 'missing.har' })
+        ).rejects.toHaveProperty('code', ErrorCode.InvalidParams);
+      } finally {
+        fs.rmSync(root, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject documents that are not HAR', async () => {
+      await expect(
+        handleImportHar(context, { har: '{"log":{}}' })
+      ).rejects.toHaveProperty('code', ErrorCode.InvalidParams);
+      await expect(
+        handleImportHar(context, { har: 'password=hunter2' })
+      ).rejects.toMatchObject({
+        code: ErrorCode.InvalidParams,
+        message: expect.not.stringContaining('hunter2'),
+      });
+      await expect(handleImportHar(context, {})).rejects.toHaveProperty(
+        'code',
+        ErrorCode.InvalidParams
+      );
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { handleGetWebsocketMessages } from '../../handlers/realtime.js';
+import { config } from '../../config.js';
+
+describe('realtime handlers', () => {
+  let mockLogger: any;
+  let context: any;
+
+  const message = (direction: string, data: string) => ({
+    direction,
+    timestamp: '2024-01-01T12:00:00Z',
+    type: 'text',
+    data,
+  });
+
+  const sampleAnalysisResult = {
+    analysisId: 'analysis-1',
+    url: 'https://example.com',
+    title: 'Test Website',
+    requests: [],
+    totalRequests: 0,
+    uniqueDomains: [],
+    requestsByType: {},
+    analysisTimestamp: '2024-01-01T12:00:00Z',
+    renderMethod: 'unknown',
+    antiBotDetection: { detected: false },
+    realtimeConnections: [
+      {
+        id: 'ws-1',
+        type: 'websocket',
+        url: 'wss://example.com/prices',
+        openedAt: '2024-01-01T12:00:00Z',
+        closedAt: '2024-01-01T12:00:05Z',
+        closeCode: 1001,
+        closeReason: 'Going away',
+        messages: [
+          message('sent', '{"subscribe":"BTC"}'),
+          message('received', '{"BTC":100}'),
+          message('received', '{"BTC":101}'),
+        ],
+        droppedMessages: 0,
+      },
+      {
+        id: 'sse-1',
+        type: 'eventsource',
+        url: 'https://example.com/scores',
+        openedAt: '2024-01-01T12:00:01Z',
+        messages: [message('received', 'BTC news')],
+        droppedMessages: 0,
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+    context = {
+      logger: mockLogger,
+      analysisResults: new Map([['analysis-1', sampleAnalysisResult]]),
+      config,
+    };
+  });
+
+  it('should list messages of all connections', async () => {
+    const result: any = await handleGetWebsocketMessages(context, {
+      analysisId: 'analysis-1',
+    });
+    const output = JSON.parse(result.content[0].text);
+
+    expect(output.totalMatches).toBe(4);
+    expect(output.nextCursor).toBeUndefined();
+    expect(output.connections.map((c: any) => c.id)).toEqual(['ws-1', 'sse-1']);
+    expect(output.connections[0]).toEqual(
+      expect.objectContaining({ closeCode: 1001, closeReason: 'Going away' })
+    );
+  });
+
+  it('should filter by connection, direction and substring', async () => {
+    const result: any = await handleGetWebsocketMessages(context, {
+      analysisId: 'analysis-1',
+      connectionId: 'ws-1',
+      direction: 'received',
+      contains: '101',
+    });
+    const output = JSON.parse(result.content[0].text);
+
+    expect(output.connections).toHaveLength(1);
+    expect(output.connections[0].messages).toEqual([
+      message('received', '{"BTC":101}'),
+    ]);
+  });
+
+  it('should page through messages across connections', async () => {
+    const result: any = await handleGetWebsocketMessages(context, {
+      analysisId: 'analysis-1',
+      contains: 'BTC',
+      limit: 3,
+    });
+    const output = JSON.parse(result.content[0].text);
+
+    expect(output.totalMatches).toBe(4);
+    expect(output.connections[0].messages).toHaveLength(3);
+    expect(output.connections[1].messages).toHaveLength(0);
+    expect(output.connections[1].matchingMessages).toBe(1);
+
+    const next: any = await handleGetWebsocketMessages(context, {
+      analysisId: 'analysis-1',
+      contains: 'BTC',
+      limit: 3,
+      cursor: output.nextCursor,
+      compact: true,
+    });
+    expect(next.content[0].text).not.toContain('\n');
+    const rest = JSON.parse(next.content[0].text);
+    expect(rest.connections[0].messages).toHaveLength(0);
+    expect(rest.connections[1].messages).toHaveLength(1);
+    expect(rest.nextCursor).toBeUndefined();
+  });
+
+  it('should page through messages in timestamp order across connections', async () => {
+    const at = (seconds: number, data: string) => ({
+      ...message('received', data),
+      timestamp: `2024-01-01T12:00:0${seconds}Z`,
+    });
+    context.analysisResults.set('analysis-2', {
+      ...sampleAnalysisResult,
+      analysisId: 'analysis-2',
+      realtimeConnections: [
+        {
+          ...sampleAnalysisResult.realtimeConnections[0],
+          messages: [at(1, 'BTC 1'), at(4, 'BTC 4'), at(5, 'BTC 5')],
+        },
+        {
+          ...sampleAnalysisResult.realtimeConnections[1],
+          messages: [at(2, 'BTC 2'), at(3, 'BTC 3')],
+        },
+      ],
+    });
+
+    const result: any = await handleGetWebsocketMessages(context, {
+      analysisId: 'analysis-2',
+      limit: 3,
+    });
+    const output = JSON.parse(result.content[0].text);
+
+    expect(
+      output.connections.map((c: any) => c.messages.map((m: any) => m.data))
+    ).toEqual([['BTC 1'], ['BTC 2', 'BTC 3']]);
+  });
+
+  it('should not match the base64 data of binary frames', async () => {
+    const frame = {
+      ...message('received', Buffer.from('BTC').toString('base64')),
+      type: 'binary',
+    };
+    context.analysisResults.set('analysis-3', {
+      ...sampleAnalysisResult,
+      analysisId: 'analysis-3',
+      realtimeConnections: [
+        {
+          ...sampleAnalysisResult.realtimeConnections[0],
+          messages: [frame, message('received', 'QlRD as text')],
+        },
+      ],
+    });
+
+    const result: any = await handleGetWebsocketMessages(context, {
+      analysisId: 'analysis-3',
+      contains: 'QlRD',
+    });
+    const output = JSON.parse(result.content[0].text);
+
+    expect(output.connections[0].messages).toEqual([
+      message('received', 'QlRD as text'),
+    ]);
+  });
+
+  it('should throw for an unknown connection', async () => {
+    await expect(
+      handleGetWebsocketMessages(context, {
+        analysisId: 'analysis-1',
+        connectionId: 'missing',
+      })
+    ).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+  });
+});
@@ -2,7 +2,12 @@ import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import {
   handleGetRequestsByDomain,
   handleGetRequestDetails,
+  handleGetSlowestRequests,
+  handleSearchRequests,
+  handleQueryResponse,
+  handleGetResponseBody,
 } from '../../handlers/request.js';
+import { config } from '../../config.js';
 
 describe('request handlers', () => {
   let mockLogger: any;
@@ -45,13 +50,12 @@ describe('request handlers', () => {
       warn: jest.fn(),
       debug: jest.fn(),
     };
-    mockAnalyzer = {
-      /* not used directly here */
-    };
+    mockAnalyzer = {/* not used directly here */};
     context = {
       analyzer: mockAnalyzer,
       logger: mockLogger,
       analysisResults: new Map(),
+      bodyStore: { get: jest.fn().mockResolvedValue(undefined) },
     };
   });
 
@@ -70,6 +74,118 @@ describe('request handlers', () => {
       expect(data.domain).toBe(sampleDomain);
     });
 
+    it('should resolve the analysis by analysisId', async () => {
+      context.analysisResults.set('a-1', {
+        ...sampleAnalysisResult,
+        analysisId: 'a-1',
+        requests: [],
+      });
+      const result: any = await handleGetRequestsByDomain(context, {
+        analysisId: 'a-1',
+        domain: sampleDomain,
+      });
+      const data = JSON.parse(result.content[0].text);
+      expect(data.analysisId).toBe('a-1');
+      expect(data.totalRequests).toBe(0);
+    });
+
+    it('should throw when the analysisId is unknown', async () => {
+      await expect(
+        handleGetRequestsByDomain(context, {
+          analysisId: 'missing',
+          domain: sampleDomain,
+        })
+      ).rejects.toHaveProperty('code', ErrorCode.InvalidParams);
+    });
+
+    it('should name the GraphQL operations of each request', async () => {
+      context.analysisResults.set('graphql-1', {
+        ...sampleAnalysisResult,
+        analysisId: 'graphql-1',
+        requests: [
+          {
+            ...sampleRequest,
+            url: `https://${sampleDomain}/graphql`,
+            method: 'POST',
+            postData: JSON.stringify([
+              { operationName: 'Feed', query: 'query Feed { a }' },
+              { operationName: 'Ads', query: 'query Ads { b }' },
+            ]),
+          },
+        ],
+      });
+
+      const result: any = await handleGetRequestsByDomain(context, {
+        analysisId: 'graphql-1',
+        domain: sampleDomain,
+      });
+      const data = JSON.parse(result.content[0].text);
+      expect(data.requests[0].graphqlOperations).toEqual(['Feed', 'Ads']);
+    });
+
+    it('should page through requests with nextCursor', async () => {
+      context.analysisResults.set('paged-1', {
+        ...sampleAnalysisResult,
+        analysisId: 'paged-1',
+        requests: ['a', 'b', 'c'].map((id) => ({ ...sampleRequest, id })),
+      });
+
+      const first: any = await handleGetRequestsByDomain(context, {
+        analysisId: 'paged-1',
+        domain: sampleDomain,
+        limit: 2,
+      });
+      const firstPage = JSON.parse(first.content[0].text);
+      expect(firstPage.totalRequests).toBe(3);
+      expect(firstPage.requests.map((req: any) => req.id)).toEqual(['a', 'b']);
+      expect(firstPage.nextCursor).toEqual(expect.any(String));
+
+      const second: any = await handleGetRequestsByDomain(context, {
+        analysisId: 'paged-1',
+        domain: sampleDomain,
+        limit: 2,
+        cursor: firstPage.nextCursor,
+      });
+      const secondPage = JSON.parse(second.content[0].text);
+      expect(secondPage.requests.map((req: any) => req.id)).toEqual(['c']);
+      expect(secondPage.nextCursor).toBeUndefined();
+    });
+
+    it('should return compact output with selected fields', async () => {
+      const compact: any = await handleGetRequestsByDomain(context, {
+        url: sampleUrl,
+        domain: sampleDomain,
+        compact: true,
+      });
+      expect(compact.content[0].text).not.toContain('\n');
+      expect(JSON.parse(compact.content[0].text).requests[0]).toEqual({
+        id: sampleRequestId,
+        method: 'GET',
+        status: 200,
+        url: sampleRequest.url,
+      });
+
+      const selected: any = await handleGetRequestsByDomain(context, {
+        url: sampleUrl,
+        domain: sampleDomain,
+        fields: ['id', 'resourceType'],
+      });
+      expect(JSON.parse(selected.content[0].text).requests[0]).toEqual({
+        id: sampleRequestId,
+        resourceType: 'xhr',
+      });
+    });
+
+    it('should reject invalid cursors', async () => {
+      await expect(
+        handleGetRequestsByDomain(context, {
+          url: sampleUrl,
+          domain: sampleDomain,
+          cursor: 'not-a-cursor',
+        })
+      ).rejects.toHaveProperty('code', ErrorCode.InvalidParams);
+    });
+
     it('should throw error when domain not provided', async () => {
       await expect(
         handleGetRequestsByDomain(context, { url: sampleUrl } as any)
@@ -104,4 +220,435 @@ describe('request handlers', () => {
       ).rejects.toHaveProperty('code', ErrorCode.InvalidParams);
     });
   });
+
+  describe('handleGetSlowestRequests', () => {
+    const makeTimedRequest = (
+      id: string,
+      total: number,
+      resourceType: string
+    ) => ({
+      ...sampleRequest,
+      id,
+      resourceType,
+      timing: {
+        startTime: 0,
+        dns: -1,
+        connect: -1,
+        tls: -1,
+        ttfb: 5,
+        download: 1,
+        total,
+      },
+    });
+
+    beforeEach(() => {
+      context.analysisResults.set(sampleUrl, {
+        ...sampleAnalysisResult,
+        requests: [
+          makeTimedRequest('fast', 10, 'xhr'),
+          makeTimedRequest('slow', 900, 'script'),
+          makeTimedRequest('medium', 300, 'xhr'),
+          sampleRequest,
+        ],
+      });
+    });
+
+    it('should order timed requests by total time', async () => {
+      const result: any = await handleGetSlowestRequests(context, {
+        url: sampleUrl,
+        limit: 2,
+      });
+      const data = JSON.parse(result.content[0].text);
+      expect(data.timedRequests).toBe(3);
+      expect(data.requests.map((req: any) => req.id)).toEqual([
+        'slow',
+        'medium',
+      ]);
+      expect(data.requests[0]).toEqual(
+        expect.objectContaining({ totalTime: 900, ttfb: 5, transferSize: -1 })
+      );
+
+      const next: any = await handleGetSlowestRequests(context, {
+        url: sampleUrl,
+        limit: 2,
+        cursor: data.nextCursor,
+        compact: true,
+      });
+      expect(JSON.parse(next.content[0].text).requests).toEqual([
+        { id: 'fast', url: sampleRequest.url, totalTime: 10 },
+      ]);
+    });
+
+    it('should filter by resource type', async () => {
+      const result: any = await handleGetSlowestRequests(context, {
+        url: sampleUrl,
+        resourceType: 'xhr',
+      });
+      const data = JSON.parse(result.content[0].text);
+      expect(data.requests.map((req: any) => req.id)).toEqual([
+        'medium',
+        'fast',
+      ]);
+    });
+  });
+
+  describe('handleSearchRequests', () => {
+    const makeRequest = (id: string, overrides: Record<string, any>) => ({
+      ...sampleRequest,
+      id,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      context.analysisResults.set(sampleUrl, {
+        ...sampleAnalysisResult,
+        requests: [
+          makeRequest('price', {
+            url: 'https://api.example.com/products/42',
+            responseBody: '{"name":"Boots","price":129.99}',
+          }),
+          makeRequest('search', {
+            url: 'https://api.example.com/search',
+            method: 'POST',
+            postData: '{"q":"boots"}',
+            status: 201,
+          }),
+          makeRequest('missing', {
+            url: 'https://api.example.com/products/43',
+            status: 404,
+            responseBody: '{"error":"not found"}',
+          }),
+        ],
+      });
+    });
+
+    it('should return matching request IDs with highlighted snippets', async () => {
+      const result: any = await handleSearchRequests(context, {
+        url: sampleUrl,
+        query: '129.99',
+      });
+      const data = JSON.parse(result.content[0].text);
+
+      expect(data.nextCursor).toBeUndefined();
+      expect(data.requests[0]).toEqual(
+        expect.objectContaining({ id: 'price', matchCount: 1 })
+      );
+      expect(data.requests[0].snippets).toEqual([
+        {
+          field: 'responseBody',
+          snippet: '{"name":"Boots","price":**129.99**}',
+          offset: 24,
+        },
+      ]);
+    });
+
+    it('should apply filters with or without a query', async () => {
+      const byQuery: any = await handleSearchRequests(context, {
+        url: sampleUrl,
+        query: 'boots',
+        method: 'post',
+      });
+      expect(
+        JSON.parse(byQuery.content[0].text).requests.map((req: any) => req.id)
+      ).toEqual(['search']);
+
+      const byStatus: any = await handleSearchRequests(context, {
+        url: sampleUrl,
+        statusMin: 400,
+        statusMax: 499,
+      });
+      expect(
+        JSON.parse(byStatus.content[0].text).requests.map((req: any) => req.id)
+      ).toEqual(['missing']);
+    });
+
+    it('should page through matches with nextCursor', async () => {
+      const result: any = await handleSearchRequests(context, {
+        url: sampleUrl,
+        query: '/products\\/\\d+/',
+        limit: 1,
+      });
+      const data = JSON.parse(result.content[0].text);
+
+      expect(data.nextCursor).toBeDefined();
+      expect(data.requests.map((req: any) => req.id)).toEqual(['price']);
+
+      const next: any = await handleSearchRequests(context, {
+        url: sampleUrl,
+        query: '/products\\/\\d+/',
+        fields: ['url'],
+        limit: 1,
+        cursor: data.nextCursor,
+        compact: true,
+      });
+      const rest = JSON.parse(next.content[0].text);
+      expect(rest.requests).toEqual([
+        {
+          id: 'missing',
+          url: 'https://api.example.com/products/43',
+          matchCount: 1,
+        },
+      ]);
+      expect(rest.nextCursor).toBeUndefined();
+    });
+
+    it('should search the complete stored body of a truncated response', async () => {
+      const analysis = context.analysisResults.get(sampleUrl);
+      analysis.requests[0] = {
+        ...analysis.requests[0],
+        responseBody:
+          '{"name":"Boots",\n... [Response body truncated - too large]',
+        storedBody: { sha256: 'c'.repeat(64), size: 60, encoding: 'utf8' },
+      };
+      context.bodyStore.get.mockResolvedValue(
+        Buffer.from('{"name":"Boots","sku":"TB-42"}')
+      );
+
+      const result: any = await handleSearchRequests(context, {
+        url: sampleUrl,
+        query: 'TB-42',
+      });
+
+      expect(
+        JSON.parse(result.content[0].text).requests.map((req: any) => req.id)
+      ).toEqual(['price']);
+      expect(context.bodyStore.get).toHaveBeenCalledWith('c'.repeat(64));
+    });
+
+    it('should stop reading stored bodies once the page is full', async () => {
+      const analysis = context.analysisResults.get(sampleUrl);
+      analysis.requests = analysis.requests.map((req: any, index: number) => ({
+        ...req,
+        storedBody: {
+          sha256: String(index).repeat(64),
+          size: 60,
+          encoding: 'utf8',
+        },
+      }));
+      context.bodyStore.get.mockResolvedValue(Buffer.from('"price":129.99'));
+
+      const result: any = await handleSearchRequests(context, {
+        url: sampleUrl,
+        query: 'price',
+        limit: 1,
+      });
+      const data = JSON.parse(result.content[0].text);
+
+      expect(data.requests.map((req: any) => req.id)).toEqual(['price']);
+      expect(data.nextCursor).toBeDefined();
+      // The first body fills the page and the second shows more matches exist
+      expect(context.bodyStore.get).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject invalid regular expressions', async () => {
+      await expect(
+        handleSearchRequests(context, { url: sampleUrl, query: '/price(/' })
+      ).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    });
+  });
+
+  describe('handleQueryResponse', () => {
+    const catalogBody = JSON.stringify({
+      items: [
+        { name: 'Boots', price: 129.99 },
+        { name: 'Socks', price: 9 },
+      ],
+    });
+
+    beforeEach(() => {
+      context.analysisResults.set(sampleUrl, {
+        ...sampleAnalysisResult,
+        requests: [
+          { ...sampleRequest, id: 'catalog', responseBody: catalogBody },
+          { ...sampleRequest, id: 'html', responseBody: '<html></html>' },
+          {
+            ...sampleRequest,
+            id: 'big',
+            responseBody:
+              '{"items": [' + '\n... [Response body truncated - too large]',
+          },
+        ],
+      });
+    });
+
+    const query = async (params: Record<string, unknown>) => {
+      const result: any = await handleQueryResponse(context, {
+        url: sampleUrl,
+        requestId: 'catalog',
+        ...params,
+      });
+      return JSON.parse(result.content[0].text);
+    };
+
+    it('should detect JSONPath expressions and return matched nodes', async () => {
+      const data = await query({ expression: '$.items[*].name', limit: 1 });
+
+      expect(data.language).toBe('jsonpath');
+      expect(data.matchCount).toBe(2);
+      expect(data.truncated).toBe(true);
+      expect(data.matches).toEqual([
+        { path: "$['items'][0]['name']", value: 'Boots' },
+      ]);
+    });
+
+    it('should evaluate JMESPath expressions', async () => {
+      const data = await query({ expression: 'items[?price > `10`].name' });
+
+      expect(data.language).toBe('jmespath');
+      expect(data.result).toEqual(['Boots']);
+    });
+
+    it('should summarize the structure in schema mode', async () => {
+      const data = await query({ mode: 'schema' });
+
+      expect(data.shape).toEqual({
+        type: 'object',
+        keys: {
+          items: {
+            type: 'array',
+            length: 2,
+            items: {
+              type: 'object',
+              keys: { name: { type: 'string' }, price: { type: 'number' } },
+            },
+          },
+        },
+      });
+      expect(data.result).toBeUndefined();
+    });
+
+    it('should query the complete stored body of a truncated response', async () => {
+      const analysis = context.analysisResults.get(sampleUrl);
+      analysis.requests[2].storedBody = {
+        sha256: 'b'.repeat(64),
+        size: catalogBody.length,
+        encoding: 'utf8',
+      };
+      context.bodyStore.get.mockResolvedValue(Buffer.from(catalogBody));
+
+      const data = await query({
+        requestId: 'big',
+        expression: 'items[0].name',
+      });
+
+      expect(context.bodyStore.get).toHaveBeenCalledWith('b'.repeat(64));
+      expect(data.result).toBe('Boots');
+    });
+
+    it('should require an expression outside schema mode', async () => {
+      await expect(query({})).rejects.toMatchObject({
+        code: ErrorCode.InvalidParams,
+      });
+    });
+
+    it('should reject non-JSON, truncated bodies and invalid expressions', async () => {
+      await expect(
+        query({ requestId: 'html', expression: '$' })
+      ).rejects.toThrow('is not valid JSON');
+      await expect(
+        query({ requestId: 'big', expression: '$' })
+      ).rejects.toThrow('was truncated during capture');
+      await expect(query({ expression: 'items[' })).rejects.toThrow(
+        'Invalid jmespath expression'
+      );
+    });
+  });
+
+  describe('handleGetResponseBody', () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a]);
+
+    beforeEach(() => {
+      context.config = config;
+      context.analysisResults.set(sampleUrl, {
+        ...sampleAnalysisResult,
+        requests: [
+          { ...sampleRequest, id: 'inline', responseBody: 'abcdefghij' },
+          {
+            ...sampleRequest,
+            id: 'truncated',
+            responseBody: 'abcde\n... [Response body truncated - too large]',
+          },
+          {
+            ...sampleRequest,
+            id: 'image',
+            responseHeaders: { 'content-type': 'image/png' },
+            responseBody: undefined,
+            storedBody: { sha256: 'a'.repeat(64), size: 6, encoding: 'base64' },
+          },
+        ],
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    const read = async (params: Record<string, unknown>) => {
+      const result: any = await handleGetResponseBody(context, {
+        url: sampleUrl,
+        ...params,
+      });
+      return JSON.parse(result.content[0].text);
+    };
+
+    it('should page through an inline body', async () => {
+      const data = await read({ requestId: 'inline', offset: 2, length: 5 });
+
+      expect(data).toEqual(
+        expect.objectContaining({
+          encoding: 'utf8',
+          complete: true,
+          totalLength: 10,
+          offset: 2,
+          length: 5,
+          hasMore: true,
+          nextOffset: 7,
+          data: 'cdefg',
+        })
+      );
+    });
+
+    it('should mark truncated inline bodies as incomplete', async () => {
+      const data = await read({ requestId: 'truncated' });
+
+      expect(data.complete).toBe(false);
+      expect(data.data).toBe('abcde');
+      expect(data.hasMore).toBe(false);
+    });
+
+    it('should serve stored binary bodies base64-encoded by byte range', async () => {
+      context.bodyStore.get.mockResolvedValue(png);
+
+      const data = await read({ requestId: 'image', offset: 1, length: 3 });
+
+      expect(context.bodyStore.get).toHaveBeenCalledWith('a'.repeat(64));
+      expect(data).toEqual(
+        expect.objectContaining({
+          contentType: 'image/png',
+          encoding: 'base64',
+          sha256: 'a'.repeat(64),
+          totalLength: 6,
+          data: png.subarray(1, 4).toString('base64'),
+          nextOffset: 4,
+        })
+      );
+    });
+
+    it('should report bodies evicted from the body store', async () => {
+      await expect(read({ requestId: 'image' })).rejects.toThrow(
+        'is no longer available'
+      );
+    });
+
+    it('should throw for requests without a body', async () => {
+      context.analysisResults.set(sampleUrl, {
+        ...sampleAnalysisResult,
+        requests: [{ ...sampleRequest, responseBody: undefined }],
+      });
+
+      await expect(read({ requestId: sampleRequestId })).rejects.toMatchObject({
+        code: ErrorCode.InvalidParams,
+      });
+    });
+  });
 });
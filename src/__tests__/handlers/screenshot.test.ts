@@ -0,0 +1,127 @@
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { handleTakeScreenshot } from '../../handlers/screenshot.js';
+import {
+  AnalysisTimeoutError,
+  InvalidSelectorError,
+  InvalidUrlError,
+  ResourceNotFoundError,
+} from '../../errors.js';
+import { config } from '../../config.js';
+
+describe('screenshot handler', () => {
+  let mockLogger: any;
+  let mockAnalyzer: any;
+  let context: any;
+
+  const sampleUrl = 'https://example.com';
+  const screenshot = {
+    type: 'element',
+    selector: '#hero',
+    path: '/output/screenshots/shot.png',
+    width: 800,
+    height: 600,
+    size: 3,
+    capturedAt: '2024-01-01T12:00:00Z',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockLogger = { info: jest.fn(), debug: jest.fn(), error: jest.fn() };
+    mockAnalyzer = {
+      takeScreenshot: jest
+        .fn()
+        .mockResolvedValue({ screenshot, data: Buffer.from('png') }),
+    };
+    context = { analyzer: mockAnalyzer, logger: mockLogger, config };
+  });
+
+  it('returns the screenshot metadata and image content', async () => {
+    const result: any = await handleTakeScreenshot(context, {
+      url: sampleUrl,
+      selector: '#hero',
+    });
+
+    expect(mockAnalyzer.takeScreenshot).toHaveBeenCalledWith(sampleUrl, {
+      type: undefined,
+      selector: '#hero',
+    });
+    expect(JSON.parse(result.content[0].text)).toEqual({
+      url: sampleUrl,
+      screenshot,
+    });
+    expect(result.content[1]).toEqual({
+      type: 'image',
+      data: Buffer.from('png').toString('base64'),
+      mimeType: 'image/png',
+    });
+  });
+
+  it('points at the stored file instead of inlining oversized images', async () => {
+    mockAnalyzer.takeScreenshot.mockResolvedValueOnce({
+      screenshot: { ...screenshot, type: 'fullPage', height: 24000 },
+      data: Buffer.from('png'),
+    });
+    const tall: any = await handleTakeScreenshot(context, { url: sampleUrl });
+    expect(tall.content[1]).toEqual({
+      type: 'text',
+      text: expect.stringContaining(
+        'The PNG file is at /output/screenshots/shot.png'
+      ),
+    });
+
+    mockAnalyzer.takeScreenshot.mockResolvedValueOnce({
+      screenshot,
+      data: Buffer.alloc(config.output.maxInlineScreenshotBytes + 1),
+    });
+    const heavy: any = await handleTakeScreenshot(context, { url: sampleUrl });
+    expect(heavy.content[1].type).toBe('text');
+  });
+
+  it('rejects element screenshots without a selector', async () => {
+    await expect(
+      handleTakeScreenshot(context, { url: sampleUrl, type: 'element' })
+    ).rejects.toHaveProperty('code', ErrorCode.InvalidParams);
+    expect(mockAnalyzer.takeScreenshot).not.toHaveBeenCalled();
+  });
+
+  it('maps analyzer errors to MCP error codes', async () => {
+    mockAnalyzer.takeScreenshot.mockRejectedValueOnce(
+      new InvalidUrlError('Invalid URL provided')
+    );
+    await expect(
+      handleTakeScreenshot(context, { url: sampleUrl })
+    ).rejects.toHaveProperty('code', ErrorCode.InvalidParams);
+
+    mockAnalyzer.takeScreenshot.mockRejectedValueOnce(
+      new ResourceNotFoundError('No element matches selector: #missing')
+    );
+    await expect(
+      handleTakeScreenshot(context, { url: sampleUrl, selector: '#missing' })
+    ).rejects.toMatchObject({
+      code: ErrorCode.InvalidParams,
+      message: expect.stringContaining('#missing'),
+    });
+
+    mockAnalyzer.takeScreenshot.mockRejectedValueOnce(
+      new InvalidSelectorError("Invalid selector 'div!!'")
+    );
+    await expect(
+      handleTakeScreenshot(context, { url: sampleUrl, selector: 'div!!' })
+    ).rejects.toMatchObject({
+      code: ErrorCode.InvalidParams,
+      message: expect.stringContaining('div!!'),
+    });
+
+    mockAnalyzer.takeScreenshot.mockRejectedValueOnce(
+      new AnalysisTimeoutError('Screenshot timed out')
+    );
+    await expect(
+      handleTakeScreenshot(context, { url: sampleUrl })
+    ).rejects.toHaveProperty('code', ErrorCode.RequestTimeout);
+
+    mockAnalyzer.takeScreenshot.mockRejectedValueOnce(new Error('boom'));
+    await expect(
+      handleTakeScreenshot(context, { url: sampleUrl })
+    ).rejects.toHaveProperty('code', ErrorCode.InternalError);
+  });
+});
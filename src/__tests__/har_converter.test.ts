@@ -0,0 +1,310 @@
+import { HarConverter } from "../services/har_converter.js";
+import { TRUNCATED_BODY_MARKER, FAILED_BODY_MARKER } from "../services/request_monitor.js";
+import { type CapturedRequest, type SiteAnalysisResult } from "../types.js";
+
+describe("HarConverter", () => {
+  let converter: HarConverter;
+
+  const makeResult = (requests: CapturedRequest[]): SiteAnalysisResult => ({
+    analysisId: "analysis-1",
+    url: "https://example.com",
+    title: "Example",
+    requests,
+    totalRequests: requests.length,
+    uniqueDomains: ["example.com"],
+    requestsByType: {},
+    analysisTimestamp: "2024-01-01T12:00:05.000Z",
+    renderMethod: "unknown",
+    antiBotDetection: { detected: false },
+  });
+
+  beforeEach(() => {
+    converter = new HarConverter();
+  });
+
+  describe("toHar", () => {
+    it("should produce a HAR 1.2 log with a single page", () => {
+      const har = converter.toHar(makeResult([]));
+
+      expect(har.log.version).toBe("1.2");
+      expect(har.log.creator.name).toBe("web-scraper-analytics");
+      expect(har.log.pages).toEqual([
+        {
+          startedDateTime: "2024-01-01T12:00:05.000Z",
+          id: "page_1",
+          title: "Example",
+          pageTimings: { onContentLoad: -1, onLoad: -1 },
+        },
+      ]);
+      expect(har.log.entries).toEqual([]);
+    });
+
+    it("should convert request and response data into entries", () => {
+      const har = converter.toHar(makeResult([
+        {
+          id: "1",
+          url: "https://api.example.com/items?page=2&sort=asc",
+          method: "POST",
+          headers: { "Content-Type": "application/json", cookie: "a=1; b=2" },
+          postData: '{"q":"shoes"}',
+          timestamp: "2024-01-01T12:00:00.000Z",
+          status: 200,
+          responseHeaders: { "content-type": "application/json" },
+          responseBody: '{"items":[]}',
+          resourceType: "fetch",
+        },
+      ]));
+
+      const entry = har.log.entries[0]!;
+      expect(entry.pageref).toBe("page_1");
+      expect(entry.startedDateTime).toBe("2024-01-01T12:00:00.000Z");
+      expect(entry.request.queryString).toEqual([
+        { name: "page", value: "2" },
+        { name: "sort", value: "asc" },
+      ]);
+      expect(entry.request.cookies).toEqual([
+        { name: "a", value: "1" },
+        { name: "b", value: "2" },
+      ]);
+      expect(entry.request.postData).toEqual({ mimeType: "application/json", text: '{"q":"shoes"}' });
+      expect(entry.request.bodySize).toBe(13);
+      expect(entry.response.status).toBe(200);
+      expect(entry.response.headers).toEqual([{ name: "content-type", value: "application/json" }]);
+      expect(entry.response.content).toEqual({ size: 12, mimeType: "application/json", text: '{"items":[]}' });
+      expect(entry.timings).toEqual(expect.objectContaining({ send: 0, wait: 0, receive: 0 }));
+      expect(entry._resourceType).toBe("fetch");
+    });
+
+    it("should export timings and transfer sizes", () => {
+      const har = converter.toHar(makeResult([
+        {
+          id: "1",
+          url: "https://example.com/app.js",
+          method: "GET",
+          headers: {},
+          timestamp: "2024-01-01T12:00:00.000Z",
+          status: 200,
+          responseHeaders: {},
+          responseBody: "console.log(1)",
+          resourceType: "script",
+          timing: { startTime: 1704110400000, dns: 3, connect: 10, tls: 6, ttfb: 40, download: 7, total: 62 },
+          sizes: {
+            requestHeaders: 300,
+            requestBody: 0,
+            responseHeaders: 200,
+            responseBody: 90,
+            transferSize: 290,
+            decodedBodySize: 14,
+          },
+        },
+      ]));
+
+      const entry = har.log.entries[0]!;
+      expect(entry.time).toBe(62);
+      expect(entry.timings).toEqual({ blocked: -1, dns: 3, connect: 10, send: 0, wait: 40, receive: 7, ssl: 6 });
+      expect(entry.request.headersSize).toBe(300);
+      expect(entry.response.bodySize).toBe(90);
+      expect(entry.response._transferSize).toBe(290);
+      expect(entry.response.content.size).toBe(14);
+    });
+
+    it("should mark truncated, failed and missing responses", () => {
+      const har = converter.toHar(makeResult([
+        {
+          id: "1",
+          url: "https://example.com/large",
+          method: "GET",
+          headers: {},
+          timestamp: "2024-01-01T12:00:00.000Z",
+          status: 200,
+          responseHeaders: { "content-length": "90000" },
+          responseBody: "abc" + TRUNCATED_BODY_MARKER,
+          resourceType: "xhr",
+        },
+        {
+          id: "2",
+          url: "https://example.com/broken",
+          method: "GET",
+          headers: {},
+          timestamp: "2024-01-01T12:00:00.000Z",
+          status: 200,
+          responseBody: FAILED_BODY_MARKER,
+          resourceType: "xhr",
+        },
+        {
+          id: "3",
+          url: "https://example.com/pending",
+          method: "GET",
+          headers: {},
+          timestamp: "2024-01-01T12:00:00.000Z",
+          resourceType: "xhr",
+        },
+      ]));
+
+      const [truncated, failed, pending] = har.log.entries;
+      expect(truncated!.response.content).toEqual({
+        size: 90000,
+        mimeType: "",
+        text: "abc",
+        comment: "Response body truncated to 3 characters",
+      });
+      expect(failed!.response.content.text).toBeUndefined();
+      expect(failed!.response.content.comment).toBe("Response body could not be captured");
+      expect(pending!.response.status).toBe(0);
+      expect(pending!.response.comment).toBe("No response captured");
+    });
+
+    it("should carry request failures into the response error", () => {
+      const har = converter.toHar(makeResult([
+        {
+          id: "1",
+          url: "https://tracker.example.com/pixel",
+          method: "GET",
+          headers: {},
+          timestamp: "2024-01-01T12:00:00.000Z",
+          resourceType: "xhr",
+          failed: true,
+          failureText: "net::ERR_BLOCKED_BY_CLIENT",
+        },
+      ]));
+
+      const response = har.log.entries[0]!.response;
+      expect(response._error).toBe("net::ERR_BLOCKED_BY_CLIENT");
+      expect(response.comment).toBe("Request failed: net::ERR_BLOCKED_BY_CLIENT");
+      expect(converter.fromHar(har)[0]).toEqual(expect.objectContaining({
+        failed: true,
+        failureText: "net::ERR_BLOCKED_BY_CLIENT",
+      }));
+    });
+  });
+
+  describe("fromHar", () => {
+    const har: any = {
+      log: {
+        version: "1.2",
+        creator: { name: "WebInspector", version: "537.36" },
+        pages: [{ startedDateTime: "2024-01-01T12:00:00.000Z", id: "page_1", title: "https://example.com/", pageTimings: {} }],
+        entries: [
+          {
+            startedDateTime: "2024-01-01T12:00:00.000Z",
+            time: 12,
+            request: {
+              method: "POST",
+              url: "https://api.example.com/graphql",
+              headers: [
+                { name: "content-type", value: "application/json" },
+                { name: "accept", value: "text/html" },
+                { name: "accept", value: "application/json" },
+              ],
+              postData: { mimeType: "application/json", text: '{"query":"{ me }"}' },
+            },
+            response: {
+              status: 200,
+              headers: [{ name: "content-type", value: "application/json" }],
+              content: { size: 14, mimeType: "application/json", text: '{"data":null}' },
+              headersSize: 120,
+              bodySize: 30,
+            },
+            timings: { blocked: 1, dns: 2, connect: 5, ssl: 3, send: 0, wait: 4, receive: 1 },
+            _resourceType: "fetch",
+          },
+          {
+            startedDateTime: "2024-01-01T12:00:01.000Z",
+            time: 0,
+            request: { method: "GET", url: "https://example.com/logo.png", headers: [] },
+            response: {
+              status: 200,
+              headers: [],
+              content: { size: 4, mimeType: "image/png", text: "iVBO", encoding: "base64" },
+            },
+          },
+          {
+            startedDateTime: "2024-01-01T12:00:02.000Z",
+            time: 0,
+            request: { method: "GET", url: "https://example.com/blocked.js", headers: [] },
+            response: { status: 0, headers: [], content: { size: 0, mimeType: "" } },
+          },
+        ],
+      },
+    };
+
+    it("should convert HAR entries into captured requests", () => {
+      const requests = converter.fromHar(har);
+
+      expect(requests).toHaveLength(3);
+      expect(requests[0]).toEqual({
+        id: expect.any(String),
+        url: "https://api.example.com/graphql",
+        method: "POST",
+        headers: { "content-type": "application/json", accept: "text/html, application/json" },
+        postData: '{"query":"{ me }"}',
+        timestamp: "2024-01-01T12:00:00.000Z",
+        status: 200,
+        responseHeaders: { "content-type": "application/json" },
+        responseBody: '{"data":null}',
+        resourceType: "fetch",
+        timing: {
+          startTime: Date.parse("2024-01-01T12:00:00.000Z"),
+          dns: 2,
+          connect: 5,
+          tls: 3,
+          ttfb: 4,
+          download: 1,
+          total: 12,
+        },
+        sizes: {
+          requestHeaders: -1,
+          requestBody: -1,
+          responseHeaders: 120,
+          responseBody: 30,
+          transferSize: 150,
+          decodedBodySize: 14,
+        },
+      });
+    });
+
+    it("should skip base64 bodies, infer resource types and leave unanswered requests without status", () => {
+      const [, image, blocked] = converter.fromHar(har);
+
+      expect(image!.resourceType).toBe("image");
+      expect(image!.responseBody).toBeUndefined();
+      expect(blocked!.status).toBeUndefined();
+      expect(blocked!.responseHeaders).toBeUndefined();
+    });
+
+    it("should round-trip an exported analysis", () => {
+      const exported = converter.toHar(makeResult([
+        {
+          id: "1",
+          url: "https://example.com/api",
+          method: "GET",
+          headers: { accept: "application/json" },
+          timestamp: "2024-01-01T12:00:00.000Z",
+          status: 204,
+          responseHeaders: {},
+          resourceType: "xhr",
+          phase: "action:search",
+          initiator: { type: "script", url: "https://example.com/app.js", lineNumber: 42 },
+        },
+      ]));
+
+      const [request] = converter.fromHar(exported);
+      expect(request).toEqual(expect.objectContaining({
+        url: "https://example.com/api",
+        method: "GET",
+        headers: { accept: "application/json" },
+        status: 204,
+        resourceType: "xhr",
+        phase: "action:search",
+        initiator: { type: "script", url: "https://example.com/app.js", lineNumber: 42 },
+      }));
+    });
+
+    it("should use a URL page title as the page URL", () => {
+      expect(converter.getPageInfo(har)).toEqual({
+        url: "https://example.com/",
+        title: "https://example.com/",
+      });
+    });
+  });
+});
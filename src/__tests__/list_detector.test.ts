@@ -0,0 +1,61 @@
+import { ListDetector } from "../services/list_detector.js";
+import { type DetectedList, type RawList } from "../types.js";
+
+describe("ListDetector", () => {
+  const detector = new ListDetector();
+  const raw = (samples: RawList["samples"]): RawList => ({
+    itemSelector: "#grid > div.card",
+    itemTag: "div",
+    itemCount: samples.length,
+    area: 1000,
+    samples,
+  });
+
+  it("should keep fields found in at least half of the samples and name them after their classes", () => {
+    const list = detector.analyze(
+      "#grid",
+      raw([
+        [
+          { selector: "h2", value: "Desk" },
+          { selector: "img.card__image", attribute: "src", value: "/desk.jpg" },
+          { selector: "span.card__price--sale", value: "€ 199,00" },
+          { selector: "span.badge", value: "New" },
+        ],
+        [
+          { selector: "h2", value: "Chair" },
+          { selector: "img.card__image", attribute: "src", value: "/chair.jpg" },
+          { selector: "span.card__price--sale", value: "€ 89,50" },
+        ],
+        [
+          { selector: "h2", value: "Lamp" },
+          { selector: "span.card__price--sale", value: "Sold out" },
+        ],
+      ])
+    );
+
+    expect(list.containerSelector).toBe("#grid");
+    expect(list.fields).toEqual([
+      { name: "title", selector: "h2", samples: ["Desk", "Chair", "Lamp"] },
+      { name: "image", selector: "img.card__image", attribute: "src", transform: "url-resolve", samples: ["/desk.jpg", "/chair.jpg"] },
+      { name: "price", selector: "span.card__price--sale", samples: ["€ 199,00", "€ 89,50", "Sold out"] },
+    ]);
+  });
+
+  it("should read items holding only text with the xpath of the item itself and detect numbers", () => {
+    const list = detector.analyze(
+      "ol.scores",
+      raw([[{ value: "12" }, { value: "ignored duplicate" }], [{ value: "1,250" }], [{ value: "-3.5%" }]])
+    );
+
+    expect(list.fields).toEqual([{ name: "text", xpath: ".", transform: "number", samples: ["12", "1,250", "-3.5%"] }]);
+  });
+
+  it("should rank lists by area, then by item count", () => {
+    const list = (itemSelector: string, area: number, itemCount: number) =>
+      ({ containerSelector: "body", itemSelector, itemTag: "div", itemCount, area, fields: [] }) as DetectedList;
+
+    const ranked = detector.rank([list("nav > a", 2000, 8), list("#grid > div", 90000, 12), list("footer > a", 2000, 20)]);
+
+    expect(ranked.map((entry) => entry.itemSelector)).toEqual(["#grid > div", "footer > a", "nav > a"]);
+  });
+});
@@ -147,6 +147,192 @@ describe("PageAnalyzer - extractImportantElements", () => {
     expect(mockLogger.error).not.toHaveBeenCalled();
   });
 
+  it("extracts tables with their rows keyed by header and the enclosing table's selector", async () => {
+    const text = (value: string) => ({ nodeType: 3, textContent: value });
+    const cell = (tag: string, value: string, colSpan = 1) => ({ tagName: tag, childNodes: [text(value)], colSpan, rowSpan: 1 });
+    const head = { tagName: 'THEAD' };
+    const body = { tagName: 'TBODY' };
+
+    const outer = {
+      ...makeElement('table', { id: 'prices' }),
+      caption: { childNodes: [text(' Prices ')] },
+      rows: [
+        { parentElement: head, cells: [cell('TH', 'Plan'), cell('TH', 'Cost')] },
+        { parentElement: body, cells: [cell('TD', 'Basic'), cell('TD', '$5')] },
+        { parentElement: body, cells: [cell('TD', 'Contact us', 2)] },
+      ],
+    };
+    const nested = {
+      ...makeElement('table', { class: 'details' }),
+      parentElement: { closest: () => outer },
+      rows: [
+        { parentElement: body, cells: [cell('TD', 'Seats'), cell('TD', 'Storage')] },
+        { parentElement: body, cells: [cell('TD', '1'), cell('TD', '10 GB')] },
+      ],
+    };
+
+    const evaluate = jest.fn().mockImplementation(async (fn: any, type: string) => {
+      (global as any).document = {
+        querySelectorAll: (selector: string) => (selector.startsWith('table') ? [outer, nested] : []),
+      };
+      try {
+        return fn(type);
+      } finally {
+        delete (global as any).document;
+      }
+    });
+
+    const result = await analyzer.extractTables({ evaluate } as any);
+
+    expect(result).toEqual([
+      {
+        selector: '#prices',
+        tag: 'table',
+        caption: 'Prices',
+        headers: ['Plan', 'Cost'],
+        headerSource: 'thead',
+        rows: [
+          { Plan: 'Basic', Cost: '$5' },
+          { Plan: 'Contact us', Cost: 'Contact us' },
+        ],
+        rowCount: 2,
+        columnCount: 2,
+        parentSelector: undefined,
+      },
+      {
+        selector: '.details',
+        tag: 'table',
+        caption: undefined,
+        headers: ['Seats', 'Storage'],
+        headerSource: 'inferred',
+        rows: [{ Seats: '1', Storage: '10 GB' }],
+        rowCount: 1,
+        columnCount: 2,
+        parentSelector: '#prices',
+      },
+    ]);
+    expect(mockLogger.error).not.toHaveBeenCalled();
+  });
+
+  it("extracts forms with their fields, submit button, CSRF tokens and request", async () => {
+    const input = (attributes: Record<string, string>, properties: Record<string, any> = {}) => ({
+      ...makeElement('input', attributes),
+      type: attributes.type,
+      name: attributes.name,
+      value: attributes.value ?? '',
+      ...properties,
+    });
+    const form = {
+      ...makeElement('form', { id: 'login', action: '/session', method: 'POST' }),
+      elements: [
+        input({ type: 'hidden', name: '_csrf', value: 'abc', id: 'csrf' }),
+        input({ type: 'email', name: 'email', id: 'email' }, { required: true, labels: [{ textContent: ' Email ' }] }),
+        { ...makeElement('button', { id: 'go' }), type: 'submit' },
+      ],
+    };
+    const meta = makeElement('meta', { name: 'csrf-token', content: 'meta-token' });
+
+    const evaluate = jest.fn().mockImplementation(async (fn: any, type: string) => {
+      (global as any).document = {
+        baseURI: 'https://example.com/account/',
+        querySelectorAll: (selector: string) => (selector === 'form' ? [form] : selector.startsWith('meta') ? [meta] : []),
+      };
+      try {
+        return fn(type);
+      } finally {
+        delete (global as any).document;
+      }
+    });
+
+    const result = await analyzer.extractImportantElements({ evaluate } as any, 'form');
+
+    expect(result).toHaveLength(1);
+    expect(result[0]).toEqual(expect.objectContaining({
+      content: 'POST https://example.com/session',
+      selector: '#login',
+      type: 'form',
+      tag: 'form',
+    }));
+    expect(result[0]!.form).toEqual({
+      name: undefined,
+      action: 'https://example.com/session',
+      method: 'POST',
+      enctype: 'application/x-www-form-urlencoded',
+      fields: [
+        expect.objectContaining({ name: '_csrf', type: 'hidden', selector: '#csrf', value: 'abc' }),
+        expect.objectContaining({ name: 'email', type: 'email', selector: '#email', label: 'Email', required: true }),
+      ],
+      csrfTokens: [
+        { name: '_csrf', value: 'abc', source: 'field', selector: '#csrf' },
+        { name: 'csrf-token', value: 'meta-token', source: 'meta' },
+      ],
+      submitSelector: '#go',
+      fetch: {
+        url: 'https://example.com/session',
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: '_csrf=abc&email=',
+      },
+    });
+    expect(mockLogger.error).not.toHaveBeenCalled();
+  });
+
+  it("detects repeated siblings as lists with item selectors and inferred fields", async () => {
+    const textNode = (value: string) => ({ nodeType: 3, textContent: value });
+    const descendants = (el: any): any[] => el.children.flatMap((child: any) => [child, ...descendants(child)]);
+    const node = (tag: string, attributes: Record<string, string>, children: any[] = [], text = ''): any => {
+      const el: any = {
+        ...makeElement(tag, attributes),
+        nodeType: 1,
+        children,
+        childNodes: text ? [textNode(text), ...children] : children,
+        textContent: text + children.map((child) => child.textContent).join(' '),
+        getBoundingClientRect: () => ({ width: 200, height: 100 }),
+      };
+      // Enough of querySelector for "tag.class" selectors
+      el.querySelector = (selector: string) =>
+        descendants(el).find((candidate) => [candidate.tagName.toLowerCase(), ...candidate.classList].join('.') === selector) ?? null;
+      el.querySelectorAll = () => descendants(el);
+      return el;
+    };
+    const result = (title: string, price: string) =>
+      node('li', { class: 'result' }, [
+        node('h3', { class: 'result__title' }, [], title),
+        node('a', { href: `/items/${title.toLowerCase()}` }, [], 'View'),
+        node('span', { class: 'price' }, [], price),
+      ]);
+    const list = node('ul', { id: 'results' }, [result('Desk', '$199'), result('Chair', '$89'), { ...result('Lamp', '$25'), classList: ['result', 'is-active'] }]);
+    const body = node('body', {}, [list, node('p', {}, [], 'Footer')]);
+
+    const evaluate = jest.fn().mockImplementation(async (fn: any, type: string) => {
+      (global as any).document = { body, querySelectorAll: () => [] };
+      try {
+        return fn(type);
+      } finally {
+        delete (global as any).document;
+      }
+    });
+
+    const lists = await analyzer.detectLists({ evaluate } as any);
+
+    expect(lists).toEqual([
+      {
+        containerSelector: '#results',
+        itemSelector: '#results > li.result',
+        itemTag: 'li',
+        itemCount: 3,
+        area: 60000,
+        fields: [
+          expect.objectContaining({ name: 'title', selector: 'h3.result__title', samples: ['Desk', 'Chair', 'Lamp'] }),
+          expect.objectContaining({ name: 'link', selector: 'a', attribute: 'href', transform: 'url-resolve', samples: ['/items/desk', '/items/chair', '/items/lamp'] }),
+          expect.objectContaining({ name: 'link_text', selector: 'a', samples: ['View', 'View', 'View'] }),
+          expect.objectContaining({ name: 'price', selector: 'span.price', transform: 'number', samples: ['$199', '$89', '$25'] }),
+        ],
+      },
+    ]);
+    expect(mockLogger.error).not.toHaveBeenCalled();
+  });
+
   it("extracts script elements using src if present otherwise textContent, with attributes and selectors", async () => {
     const els = [
       makeElement('script', { src: 'https://cdn/script.js', id: 's1' }, ''),
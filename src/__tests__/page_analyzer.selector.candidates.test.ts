@@ -0,0 +1,144 @@
+import { PageAnalyzer } from "../services/page_analyzer.js";
+
+describe("PageAnalyzer - selector candidates", () => {
+  let analyzer: PageAnalyzer;
+  let queried: string[];
+  const mockLogger = {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn()
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    analyzer = new PageAnalyzer(mockLogger as any);
+    queried = [];
+  });
+
+  function makeElement(tag: string, attributes: Record<string, string> = {}, text = '', children: any[] = []) {
+    const classAttr = attributes.class ?? '';
+    const element: any = {
+      tagName: tag.toUpperCase(),
+      id: attributes.id ?? '',
+      classList: classAttr ? classAttr.split(/\s+/) : [],
+      getAttribute: (name: string) => attributes[name] ?? null,
+      getAttributeNames: () => Object.keys(attributes),
+      textContent: text,
+      children,
+      parentElement: null as any,
+      parentNode: null as any
+    };
+    children.forEach((child) => {
+      child.parentElement = element;
+      child.parentNode = element;
+    });
+    return element;
+  }
+
+  function makeFakePage(elementsBySelector: Record<string, any[]>, bodyElements: any[] = []) {
+    const evaluate = jest.fn().mockImplementation(async (fn: any, arg: any) => {
+      (global as any).document = {
+        body: { querySelectorAll: () => bodyElements },
+        querySelectorAll: (selector: string) => {
+          queried.push(selector);
+          return elementsBySelector[selector] ?? [];
+        }
+      };
+      try {
+        return (fn as any)(arg);
+      } finally {
+        delete (global as any).document;
+      }
+    });
+    return { evaluate };
+  }
+
+  it("prefers a unique test id, scoring candidates and skipping generated class names", async () => {
+    const title = makeElement('h1', { 'data-testid': 'hero-title', class: 'Hero_title__3xK9a sc-bdfBwQ heading' }, 'Welcome');
+    const fakePage = makeFakePage(
+      {
+        'p, h1, h2, h3, h4, h5, h6, span': [title],
+        '[data-testid="hero-title"]': [title],
+        '.heading': [title]
+      },
+      [title]
+    );
+
+    const [result] = await analyzer.extractImportantElements(fakePage as any, 'text', true);
+
+    expect(result!.selector).toBe('[data-testid="hero-title"]');
+    expect(result!.selectors![0]).toEqual({ selector: '[data-testid="hero-title"]', strategy: 'test-id', unique: true, stability: 0.95 });
+    expect(result!.selectors).toEqual(
+      expect.arrayContaining([
+        { selector: '.heading', strategy: 'css', unique: true, stability: 0.65 },
+        { selector: 'h1:text-is("Welcome")', strategy: 'text', unique: true, stability: 0.5 }
+      ])
+    );
+    expect(result!.selectors!.some((candidate) => /3xK9a|sc-bdfBwQ/.test(candidate.selector))).toBe(false);
+  });
+
+  it("leaves candidates out, and the document unqueried for them, unless asked for", async () => {
+    const title = makeElement('h1', { 'data-testid': 'hero-title', class: 'Hero_title__3xK9a heading' }, 'Welcome');
+    const fakePage = makeFakePage(
+      {
+        'p, h1, h2, h3, h4, h5, h6, span': [title],
+        '[data-testid="hero-title"]': [title],
+        '.heading': [title]
+      },
+      [title]
+    );
+
+    const [result] = await analyzer.extractImportantElements(fakePage as any, 'text');
+
+    expect(result!.selector).toBe('.heading');
+    expect(result).not.toHaveProperty('selectors');
+    expect(queried).toEqual(['p, h1, h2, h3, h4, h5, h6, span', '.heading']);
+  });
+
+  it("builds positional CSS and XPath candidates anchored at the nearest stable id", async () => {
+    const items = ['First', 'Second', 'Third'].map((text) => makeElement('li', {}, text));
+    const list = makeElement('ul', {}, '', items);
+    const main = makeElement('div', { id: 'main' }, '', [list]);
+    const body = makeElement('body', {}, '', [main]);
+    makeElement('html', {}, '', [body]);
+    const fakePage = makeFakePage(
+      {
+        'p, h1, h2, h3, h4, h5, h6, span': [items[1]],
+        '#main': [main],
+        '#main > ul > li:nth-of-type(2)': [items[1]]
+      },
+      [main, list, ...items]
+    );
+
+    const [result] = await analyzer.extractImportantElements(fakePage as any, 'text', true);
+
+    expect(result!.selector).toBe('#main > ul > li:nth-of-type(2)');
+    expect(result!.selectors).toEqual([
+      { selector: 'li:text-is("Second")', strategy: 'text', unique: true, stability: 0.5 },
+      { selector: '#main > ul > li:nth-of-type(2)', strategy: 'nth-of-type', unique: true, stability: 0.35 },
+      { selector: 'xpath=//*[@id="main"]/ul/li[2]', strategy: 'xpath', unique: true, stability: 0.2 },
+      { selector: 'li', strategy: 'css', unique: false, stability: 0.3 }
+    ]);
+  });
+
+  it("scores generated ids low and keeps them out of the class and hierarchy selector", async () => {
+    const para = makeElement('p', { id: ':r1:', class: 'intro', 'aria-label': 'Introduction' }, 'Hello');
+    const fakePage = makeFakePage({
+      'p, h1, h2, h3, h4, h5, h6, span': [para],
+      '.intro': [para, makeElement('p', { class: 'intro' })],
+      'p[aria-label="Introduction"]': [para]
+    });
+
+    const [result] = await analyzer.extractImportantElements(fakePage as any, 'text', true);
+
+    expect(result!.selector).toBe('p[aria-label="Introduction"]');
+    expect(result!.selectors).toEqual(
+      expect.arrayContaining([
+        { selector: 'p[aria-label="Introduction"]', strategy: 'aria', unique: true, stability: 0.8 },
+        { selector: '#\\:r1\\:', strategy: 'id', unique: false, stability: 0.3 },
+        { selector: '.intro', strategy: 'css', unique: false, stability: 0.65 }
+      ])
+    );
+  });
+});
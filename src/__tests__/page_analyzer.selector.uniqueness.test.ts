@@ -29,7 +29,8 @@ describe("PageAnalyzer - selector uniqueness with hierarchical fallback", () =>
       getAttributeNames: () => attrNames,
       textContent: text,
       parentElement: null as any,
-      parentNode: null as any
+      parentNode: null as any,
+      children: [] as any[]
     };
   }
 
@@ -214,6 +215,45 @@ describe("PageAnalyzer - selector uniqueness with hierarchical fallback", () =>
     expect(mockLogger.error).not.toHaveBeenCalled();
   });
 
+  it("numbers the fallback selector with :nth-of-type when no class or hierarchy selector is unique", async () => {
+    // html > body > div.list > (p.dup, p.dup): only position tells the paragraphs apart
+    const html = makeElement('html', {});
+    const body = makeElement('body', {});
+    const list = makeElement('div', { class: 'list' });
+    const firstDup = makeElement('p', { class: 'dup' }, 'First dup');
+    const secondDup = makeElement('p', { class: 'dup' }, 'Second dup');
+
+    secondDup.parentElement = list;
+    firstDup.parentElement = list;
+    list.parentElement = body;
+    body.parentElement = html;
+    html.children = [body];
+    body.children = [list];
+    list.children = [firstDup, secondDup];
+
+    const fakePage = makeFakePage({
+      'p, h1, h2, h3, h4, h5, h6, span': [secondDup],
+      '.dup': [firstDup, secondDup],
+      'p.dup': [firstDup, secondDup],
+      'div.list > p.dup': [firstDup, secondDup],
+      'body > div.list > p.dup': [firstDup, secondDup],
+      'html > body > div.list > p.dup': [firstDup, secondDup],
+      'html > body > div > p:nth-of-type(2)': [secondDup]
+    });
+
+    const result = await analyzer.extractImportantElements(fakePage as any, 'text');
+
+    expect(result).toHaveLength(1);
+    expect(result[0]).toEqual(expect.objectContaining({
+      content: 'Second dup',
+      selector: 'html > body > div > p:nth-of-type(2)',
+      type: 'text',
+      tag: 'p'
+    }));
+
+    expect(mockLogger.error).not.toHaveBeenCalled();
+  });
+
   it("handles DOMTokenList-like classList (browser compatibility)", async () => {
     // Simulate browser DOMTokenList behavior
     const createDOMTokenList = (classes: string[]) => ({
@@ -0,0 +1,146 @@
+import { RealtimeMonitor } from "../services/realtime_monitor.js";
+import { type RealtimeConnection } from "../types.js";
+import { config } from "../config.js";
+import { Logger } from "../logger.js";
+
+describe("RealtimeMonitor", () => {
+  let monitor: RealtimeMonitor;
+  let mockLogger: jest.Mocked<Logger>;
+  let mockPage: any;
+  let connections: RealtimeConnection[];
+  let cdpHandlers: Record<string, Function>;
+
+  // Build a fake WebSocket whose listeners can be triggered by event name
+  const makeWebSocket = (url: string) => {
+    const listeners: Record<string, Function> = {};
+    return {
+      url: () => url,
+      on: jest.fn((event: string, listener: Function) => {
+        listeners[event] = listener;
+      }),
+      emit: (event: string, data?: unknown) => listeners[event]!(data),
+    };
+  };
+
+  const openWebSocket = (url: string) => {
+    const webSocket = makeWebSocket(url);
+    const handler = mockPage.on.mock.calls.find((call: any[]) => call[0] === "websocket")[1];
+    handler(webSocket);
+    return webSocket;
+  };
+
+  beforeEach(() => {
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    } as unknown as jest.Mocked<Logger>;
+    cdpHandlers = {};
+    const session = {
+      on: jest.fn((event: string, handler: Function) => {
+        cdpHandlers[event] = handler;
+      }),
+      send: jest.fn().mockResolvedValue({}),
+    };
+    mockPage = {
+      on: jest.fn(),
+      exposeFunction: jest.fn().mockResolvedValue(undefined),
+      addInitScript: jest.fn().mockResolvedValue(undefined),
+      context: jest.fn(() => ({ newCDPSession: jest.fn().mockResolvedValue(session) })),
+    };
+    connections = [];
+    monitor = new RealtimeMonitor(mockLogger);
+  });
+
+  it("should record sent and received WebSocket frames", async () => {
+    await monitor.setupRealtimeMonitoring(mockPage, connections);
+    const webSocket = openWebSocket("wss://example.com/live");
+
+    webSocket.emit("framesent", { payload: '{"subscribe":"prices"}' });
+    webSocket.emit("framereceived", { payload: Buffer.from([1, 2, 3]) });
+    webSocket.emit("socketerror", "Connection reset");
+    webSocket.emit("close");
+
+    expect(connections).toHaveLength(1);
+    expect(connections[0]).toEqual(expect.objectContaining({
+      type: "websocket",
+      url: "wss://example.com/live",
+      error: "Connection reset",
+      closedAt: expect.any(String),
+      droppedMessages: 0,
+    }));
+    expect(connections[0]!.messages).toEqual([
+      expect.objectContaining({ direction: "sent", type: "text", data: '{"subscribe":"prices"}' }),
+      expect.objectContaining({ direction: "received", type: "binary", data: "AQID" }),
+    ]);
+  });
+
+  it("should record the close code and reason reported by the page", async () => {
+    await monitor.setupRealtimeMonitoring(mockPage, connections);
+    const reportClose = mockPage.exposeFunction.mock.calls[0][1];
+    const first = openWebSocket("wss://example.com/live");
+    openWebSocket("wss://example.com/live");
+
+    first.emit("close");
+    reportClose("wss://example.com/live", 4001, "Session expired");
+    reportClose("wss://example.com/live", 1000, "");
+
+    expect(mockPage.addInitScript).toHaveBeenCalledWith(expect.any(Function), mockPage.exposeFunction.mock.calls[0][0]);
+    expect(connections[0]).toEqual(expect.objectContaining({ closeCode: 4001, closeReason: "Session expired" }));
+    expect(connections[1]).toEqual(expect.objectContaining({ closeCode: 1000, closedAt: expect.any(String) }));
+    expect(connections[1]!.closeReason).toBeUndefined();
+  });
+
+  it("should still record WebSockets when the close hook cannot be installed", async () => {
+    mockPage.exposeFunction.mockRejectedValue(new Error("Function already registered"));
+    await monitor.setupRealtimeMonitoring(mockPage, connections);
+    openWebSocket("wss://example.com/live");
+
+    expect(connections).toHaveLength(1);
+    expect(mockLogger.debug).toHaveBeenCalledWith(expect.stringContaining("Close code capture unavailable"));
+  });
+
+  it("should truncate large frames and count frames past the limit", async () => {
+    await monitor.setupRealtimeMonitoring(mockPage, connections);
+    const webSocket = openWebSocket("wss://example.com/live");
+
+    webSocket.emit("framereceived", { payload: "x".repeat(config.limits.maxRealtimeMessageSize + 5) });
+    for (let i = 0; i < config.limits.maxRealtimeMessages + 2; i++) {
+      webSocket.emit("framereceived", { payload: "tick" });
+    }
+
+    expect(connections[0]!.messages[0]!.data).toHaveLength(config.limits.maxRealtimeMessageSize);
+    expect(connections[0]!.messages[0]!.truncated).toBe(true);
+    expect(connections[0]!.messages).toHaveLength(config.limits.maxRealtimeMessages);
+    expect(connections[0]!.droppedMessages).toBe(3);
+  });
+
+  it("should record EventSource messages reported over CDP", async () => {
+    await monitor.setupRealtimeMonitoring(mockPage, connections);
+
+    cdpHandlers["Network.requestWillBeSent"]!({ requestId: "1", type: "EventSource", request: { url: "https://example.com/stream" } });
+    cdpHandlers["Network.requestWillBeSent"]!({ requestId: "2", type: "Fetch", request: { url: "https://example.com/api" } });
+    cdpHandlers["Network.eventSourceMessageReceived"]!({ requestId: "1", eventName: "score", eventId: "7", data: "2-1" });
+    cdpHandlers["Network.loadingFailed"]!({ requestId: "1", errorText: "net::ERR_ABORTED" });
+
+    expect(connections).toEqual([
+      expect.objectContaining({
+        type: "eventsource",
+        url: "https://example.com/stream",
+        error: "net::ERR_ABORTED",
+        closedAt: expect.any(String),
+        messages: [expect.objectContaining({ direction: "received", type: "event", eventName: "score", eventId: "7", data: "2-1" })],
+      }),
+    ]);
+  });
+
+  it("should still record WebSockets when CDP is unavailable", async () => {
+    mockPage.context = jest.fn(() => ({ newCDPSession: jest.fn().mockRejectedValue(new Error("CDP not supported")) }));
+    await monitor.setupRealtimeMonitoring(mockPage, connections);
+    openWebSocket("wss://example.com/live");
+
+    expect(connections).toHaveLength(1);
+    expect(mockLogger.debug).toHaveBeenCalledWith(expect.stringContaining("Stream capture unavailable"));
+  });
+});
@@ -1,4 +1,5 @@
-import { RequestMonitor } from "../services/request_monitor";
+import { type Request } from "patchright";
+import { RequestMonitor, TRUNCATED_BODY_MARKER } from "../services/request_monitor.js";
 import { Logger } from "../logger";
 import { config } from "../config";
 
@@ -31,18 +32,34 @@ describe("RequestMonitor", () => {
     };
   });
 
+  // Get the most recently registered listener for a page event
+  const getHandler = (event: string): Function =>
+    mockPage.on.mock.calls.filter((call: any[]) => call[0] === event).pop()[1];
+
+  const makeRequest = (url: string, resourceType: string, overrides: Record<string, any> = {}) => ({
+    url: () => url,
+    method: () => "GET",
+    headers: () => ({}),
+    postData: () => null,
+    resourceType: () => resourceType,
+    redirectedFrom: () => null,
+    failure: () => null,
+    ...overrides,
+  });
+
   describe("setupRequestMonitoring", () => {
     it("should set up request and response listeners", () => {
       requestMonitor.setupRequestMonitoring(mockPage, capturedRequests, false);
 
       expect(mockPage.on).toHaveBeenCalledWith("request", expect.any(Function));
       expect(mockPage.on).toHaveBeenCalledWith("response", expect.any(Function));
+      expect(mockPage.on).toHaveBeenCalledWith("requestfailed", expect.any(Function));
     });
 
     it("should filter out image requests when includeImages is false", () => {
       requestMonitor.setupRequestMonitoring(mockPage, capturedRequests, false);
       
-      const requestHandler = mockPage.on.mock.calls[0][1]; // First call, second argument
+      const requestHandler = getHandler("request");
       
       // Test image request
       const imageRequest = {
@@ -51,6 +68,7 @@ describe("RequestMonitor", () => {
         headers: () => ({}),
         postData: () => null,
         resourceType: () => "image",
+        redirectedFrom: () => null,
       };
       
       requestHandler(imageRequest);
@@ -63,6 +81,7 @@ describe("RequestMonitor", () => {
         headers: () => ({}),
         postData: () => null,
         resourceType: () => "document",
+        redirectedFrom: () => null,
       };
       
       requestHandler(documentRequest);
@@ -72,7 +91,7 @@ describe("RequestMonitor", () => {
     it("should include image requests when includeImages is true", () => {
       requestMonitor.setupRequestMonitoring(mockPage, capturedRequests, true);
       
-      const requestHandler = mockPage.on.mock.calls[0][1]; // First call, second argument
+      const requestHandler = getHandler("request");
       
       const imageRequest = {
         url: () => "https://example.com/image.jpg",
@@ -80,6 +99,7 @@ describe("RequestMonitor", () => {
         headers: () => ({}),
         postData: () => null,
         resourceType: () => "image",
+        redirectedFrom: () => null,
       };
       
       requestHandler(imageRequest);
@@ -92,24 +112,26 @@ describe("RequestMonitor", () => {
 
     beforeEach(() => {
       requestMonitor.setupRequestMonitoring(mockPage, capturedRequests, false);
-      responseHandler = mockPage.on.mock.calls[1][1]; // Second call, second argument (response handler)
+      responseHandler = getHandler("response");
     });
 
     it("should capture response body for text-based content", async () => {
       // First add a request
-      const requestHandler = mockPage.on.mock.calls[0][1];
+      const requestHandler = getHandler("request");
       const mockRequest = {
         url: () => "https://example.com/api/data",
         method: () => "GET",
         headers: () => ({}),
         postData: () => null,
         resourceType: () => "xhr",
+        redirectedFrom: () => null,
       };
       
       requestHandler(mockRequest);
       
       // Then handle the response
       const mockResponse = {
+        request: () => mockRequest,
         url: () => "https://example.com/api/data",
         status: () => 200,
         headers: () => ({ "content-type": "application/json" }),
@@ -128,8 +150,8 @@ describe("RequestMonitor", () => {
       requestMonitor.setupRequestMonitoring(mockPage, capturedRequests, true);
       
       // Get the updated request and response handlers
-      const requestHandler = mockPage.on.mock.calls[2][1]; // Third call (after re-setup), second argument
-      const updatedResponseHandler = mockPage.on.mock.calls[3][1]; // Fourth call (after re-setup), second argument
+      const requestHandler = getHandler("request");
+      const updatedResponseHandler = getHandler("response");
       
       const mockRequest = {
         url: () => "https://example.com/image.jpg",
@@ -137,12 +159,14 @@ describe("RequestMonitor", () => {
         headers: () => ({}),
         postData: () => null,
         resourceType: () => "image",
+        redirectedFrom: () => null,
       };
       
       requestHandler(mockRequest);
       
       // Then handle the response
       const mockResponse = {
+        request: () => mockRequest,
         url: () => "https://example.com/image.jpg",
         status: () => 200,
         headers: () => ({ "content-type": "image/jpeg" }),
@@ -158,19 +182,21 @@ describe("RequestMonitor", () => {
 
     it("should handle response body capture errors gracefully", async () => {
       // First add a request
-      const requestHandler = mockPage.on.mock.calls[0][1];
+      const requestHandler = getHandler("request");
       const mockRequest = {
         url: () => "https://example.com/api/data",
         method: () => "GET",
         headers: () => ({}),
         postData: () => null,
         resourceType: () => "xhr",
+        redirectedFrom: () => null,
       };
       
       requestHandler(mockRequest);
       
       // Then handle the response with an error
       const mockResponse = {
+        request: () => mockRequest,
         url: () => "https://example.com/api/data",
         status: () => 200,
         headers: () => ({ "content-type": "application/json" }),
@@ -193,18 +219,19 @@ describe("RequestMonitor", () => {
 
     beforeEach(() => {
       requestMonitor.setupRequestMonitoring(mockPage, capturedRequests, false);
-      responseHandler = mockPage.on.mock.calls[1][1]; // Second call, second argument (response handler)
+      responseHandler = getHandler("response");
     });
 
     it("should truncate response body when it exceeds size limit", async () => {
       // First add a request
-      const requestHandler = mockPage.on.mock.calls[0][1];
+      const requestHandler = getHandler("request");
       const mockRequest = {
         url: () => "https://example.com/large-data",
         method: () => "GET",
         headers: () => ({}),
         postData: () => null,
         resourceType: () => "xhr",
+        redirectedFrom: () => null,
       };
       
       requestHandler(mockRequest);
@@ -214,6 +241,7 @@ describe("RequestMonitor", () => {
       
       // Then handle the response
       const mockResponse = {
+        request: () => mockRequest,
         url: () => "https://example.com/large-data",
         status: () => 200,
         headers: () => ({ "content-type": "application/json" }),
@@ -229,13 +257,14 @@ describe("RequestMonitor", () => {
 
     it("should not truncate response body when it is within size limit", async () => {
       // First add a request
-      const requestHandler = mockPage.on.mock.calls[0][1];
+      const requestHandler = getHandler("request");
       const mockRequest = {
         url: () => "https://example.com/small-data",
         method: () => "GET",
         headers: () => ({}),
         postData: () => null,
         resourceType: () => "xhr",
+        redirectedFrom: () => null,
       };
       
       requestHandler(mockRequest);
@@ -245,6 +274,7 @@ describe("RequestMonitor", () => {
       
       // Then handle the response
       const mockResponse = {
+        request: () => mockRequest,
         url: () => "https://example.com/small-data",
         status: () => 200,
         headers: () => ({ "content-type": "application/json" }),
@@ -257,4 +287,375 @@ describe("RequestMonitor", () => {
       expect(capturedRequests[0].responseBody).not.toContain("... [Response body truncated - too large]");
     });
   });
-});
\ No newline at end of file
+
+  describe("request/response pairing", () => {
+    let requestHandler: Function;
+    let responseHandler: Function;
+    let failedHandler: Function;
+
+    const makeResponse = (request: any, status: number, body: string, headers: Record<string, string> = {}) => ({
+      request: () => request,
+      url: () => request.url(),
+      status: () => status,
+      headers: () => ({ "content-type": "application/json", ...headers }),
+      text: jest.fn().mockResolvedValue(body),
+    });
+
+    beforeEach(() => {
+      requestMonitor.setupRequestMonitoring(mockPage, capturedRequests, false);
+      requestHandler = getHandler("request");
+      responseHandler = getHandler("response");
+      failedHandler = getHandler("requestfailed");
+    });
+
+    it("should pair parallel requests to the same URL with their own responses", async () => {
+      const first = makeRequest("https://example.com/api", "fetch");
+      const second = makeRequest("https://example.com/api", "fetch");
+      requestHandler(first);
+      requestHandler(second);
+
+      // Responses arrive out of order
+      await responseHandler(makeResponse(second, 201, "second"));
+      await responseHandler(makeResponse(first, 200, "first"));
+
+      expect(capturedRequests[0].status).toBe(200);
+      expect(capturedRequests[0].responseBody).toBe("first");
+      expect(capturedRequests[1].status).toBe(201);
+      expect(capturedRequests[1].responseBody).toBe("second");
+    });
+
+    it("should keep responses of repeated POSTs to the same URL separate", async () => {
+      const first = makeRequest("https://example.com/api", "xhr", { method: () => "POST", postData: () => "a=1" });
+      requestHandler(first);
+      await responseHandler(makeResponse(first, 200, "one"));
+
+      const second = makeRequest("https://example.com/api", "xhr", { method: () => "POST", postData: () => "a=2" });
+      requestHandler(second);
+      await responseHandler(makeResponse(second, 500, "two"));
+
+      expect(capturedRequests.map((req) => [req.postData, req.status, req.responseBody])).toEqual([
+        ["a=1", 200, "one"],
+        ["a=2", 500, "two"],
+      ]);
+    });
+
+    it("should record redirect chains and skip redirect bodies", async () => {
+      const original = makeRequest("http://example.com/", "document");
+      requestHandler(original);
+      const redirectResponse = makeResponse(original, 301, "", { location: "https://example.com/" });
+      await responseHandler(redirectResponse);
+
+      const redirected = makeRequest("https://example.com/", "document", { redirectedFrom: () => original });
+      requestHandler(redirected);
+      await responseHandler(makeResponse(redirected, 200, "<html></html>"));
+
+      expect(capturedRequests[0].redirectedTo).toBe(capturedRequests[1].id);
+      expect(capturedRequests[1].redirectedFrom).toBe(capturedRequests[0].id);
+      expect(capturedRequests[0].status).toBe(301);
+      expect(capturedRequests[0].responseBody).toBeUndefined();
+      expect(redirectResponse.text).not.toHaveBeenCalled();
+      expect(capturedRequests[1].responseBody).toBe("<html></html>");
+    });
+
+    it("should mark requests that fail without a response", () => {
+      const request = makeRequest("https://tracker.example.com/pixel", "xhr", {
+        failure: () => ({ errorText: "net::ERR_BLOCKED_BY_CLIENT" }),
+      });
+      requestHandler(request);
+      failedHandler(request);
+
+      expect(capturedRequests[0].failed).toBe(true);
+      expect(capturedRequests[0].failureText).toBe("net::ERR_BLOCKED_BY_CLIENT");
+      expect(capturedRequests[0].status).toBeUndefined();
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        "[RequestFailed] GET https://tracker.example.com/pixel: net::ERR_BLOCKED_BY_CLIENT"
+      );
+    });
+
+    it("should ignore responses for requests that were not captured", async () => {
+      const image = makeRequest("https://example.com/logo.png", "image");
+      requestHandler(image);
+      await responseHandler(makeResponse(image, 200, "binary"));
+
+      expect(capturedRequests).toHaveLength(0);
+    });
+  });
+
+  describe("timing and size capture", () => {
+    it("should record timing phases and transfer sizes when a request finishes", async () => {
+      requestMonitor.setupRequestMonitoring(mockPage, capturedRequests, false);
+      const request = makeRequest("https://example.com/api/data", "fetch", {
+        timing: () => ({
+          startTime: 1704110400000,
+          domainLookupStart: 1,
+          domainLookupEnd: 4,
+          connectStart: 4,
+          secureConnectionStart: 8,
+          connectEnd: 20,
+          requestStart: 21,
+          responseStart: 70,
+          responseEnd: 85,
+        }),
+        sizes: jest.fn().mockResolvedValue({
+          requestBodySize: 0,
+          requestHeadersSize: 310,
+          responseBodySize: 512,
+          responseHeadersSize: 220,
+        }),
+      });
+      getHandler("request")(request);
+      await getHandler("response")({
+        request: () => request,
+        url: () => request.url(),
+        status: () => 200,
+        headers: () => ({ "content-type": "application/json" }),
+        text: jest.fn().mockResolvedValue('{"items":[1,2,3]}'),
+      });
+      await getHandler("requestfinished")(request);
+
+      expect(capturedRequests[0].timing).toEqual({
+        startTime: 1704110400000,
+        dns: 3,
+        connect: 16,
+        tls: 12,
+        ttfb: 49,
+        download: 15,
+        total: 85,
+      });
+      expect(capturedRequests[0].sizes).toEqual({
+        requestHeaders: 310,
+        requestBody: 0,
+        responseHeaders: 220,
+        responseBody: 512,
+        transferSize: 732,
+        decodedBodySize: 17,
+      });
+    });
+
+    it("should report unavailable phases as -1", async () => {
+      requestMonitor.setupRequestMonitoring(mockPage, capturedRequests, false);
+      const request = makeRequest("https://example.com/cached", "script", {
+        timing: () => ({
+          startTime: 1704110400000,
+          domainLookupStart: -1,
+          domainLookupEnd: -1,
+          connectStart: -1,
+          secureConnectionStart: -1,
+          connectEnd: -1,
+          requestStart: 2,
+          responseStart: 5,
+          responseEnd: 6,
+        }),
+        sizes: jest.fn().mockRejectedValue(new Error("Target closed")),
+      });
+      getHandler("request")(request);
+      await getHandler("requestfinished")(request);
+
+      expect(capturedRequests[0].timing).toEqual(expect.objectContaining({ dns: -1, connect: -1, tls: -1, ttfb: 3, total: 6 }));
+      expect(capturedRequests[0].sizes).toBeUndefined();
+    });
+  });
+
+  describe("phase and initiator capture", () => {
+    let cdpHandlers: Record<string, Function>;
+    let mockSession: any;
+
+    const requestWillBeSent = (url: string, initiator: Record<string, any>, extra: Record<string, any> = {}) =>
+      cdpHandlers["Network.requestWillBeSent"]!({ request: { url, method: "GET" }, initiator, ...extra });
+
+    beforeEach(() => {
+      cdpHandlers = {};
+      mockSession = {
+        on: jest.fn((event: string, handler: Function) => {
+          cdpHandlers[event] = handler;
+        }),
+        send: jest.fn().mockResolvedValue({}),
+      };
+      mockPage.context = jest.fn(() => ({
+        newCDPSession: jest.fn().mockResolvedValue(mockSession),
+      }));
+    });
+
+    it("should stamp requests with the current lifecycle phase", () => {
+      requestMonitor.setupRequestMonitoring(mockPage, capturedRequests, false);
+      const requestHandler = getHandler("request");
+
+      requestHandler(makeRequest("https://example.com/", "document"));
+      getHandler("domcontentloaded")();
+      requestHandler(makeRequest("https://example.com/app.js", "script"));
+      getHandler("load")();
+      requestHandler(makeRequest("https://example.com/api/a", "fetch"));
+      requestMonitor.setPhase(mockPage, "post-wait");
+      // Late load events must not move the phase backwards
+      getHandler("load")();
+      requestHandler(makeRequest("https://example.com/api/b", "fetch"));
+
+      expect(capturedRequests.map((req) => req.phase)).toEqual(["navigation", "domcontentloaded", "load", "post-wait"]);
+    });
+
+    it("should pair CDP initiators with requests in either arrival order", async () => {
+      requestMonitor.setupRequestMonitoring(mockPage, capturedRequests, false);
+      await requestMonitor.trackInitiators(mockPage);
+      expect(mockSession.send).toHaveBeenCalledWith("Network.enable");
+      const requestHandler = getHandler("request");
+
+      requestWillBeSent("https://example.com/style.css", { type: "parser", url: "https://example.com/", lineNumber: 4 });
+      requestHandler(makeRequest("https://example.com/style.css", "stylesheet"));
+
+      requestHandler(makeRequest("https://example.com/api/data#top", "fetch"));
+      requestWillBeSent("https://example.com/api/data", {
+        type: "script",
+        stack: {
+          callFrames: [],
+          parent: {
+            callFrames: [{ functionName: "load", url: "https://example.com/app.js", lineNumber: 41, columnNumber: 9 }],
+          },
+        },
+      });
+
+      expect(capturedRequests[0].initiator).toEqual({
+        type: "parser",
+        url: "https://example.com/",
+        lineNumber: 5,
+        columnNumber: undefined,
+      });
+      expect(capturedRequests[1].initiator).toEqual({
+        type: "script",
+        url: "https://example.com/app.js",
+        lineNumber: 42,
+        columnNumber: 10,
+        functionName: "load",
+      });
+    });
+
+    it("should mark redirect hops with a redirect initiator", async () => {
+      requestMonitor.setupRequestMonitoring(mockPage, capturedRequests, false);
+      await requestMonitor.trackInitiators(mockPage);
+      const requestHandler = getHandler("request");
+      const first = makeRequest("http://example.com/", "document");
+
+      requestHandler(first);
+      requestWillBeSent("https://example.com/", { type: "other" }, { redirectResponse: { status: 301 } });
+      requestHandler(makeRequest("https://example.com/", "document", { redirectedFrom: () => first }));
+
+      expect(capturedRequests[1].initiator).toEqual({ type: "redirect", url: "http://example.com/" });
+    });
+
+    it("should remove its listeners and detach the CDP session when monitoring stops", async () => {
+      mockSession.detach = jest.fn().mockResolvedValue(undefined);
+      mockPage.removeAllListeners = jest.fn();
+      requestMonitor.setupRequestMonitoring(mockPage, capturedRequests, false);
+      await requestMonitor.trackInitiators(mockPage);
+
+      await requestMonitor.stopMonitoring(mockPage);
+      requestMonitor.setPhase(mockPage, "post-wait");
+
+      expect(mockPage.removeAllListeners).toHaveBeenCalledWith("request");
+      expect(mockPage.removeAllListeners).toHaveBeenCalledWith("response");
+      expect(mockSession.detach).toHaveBeenCalled();
+      await expect(requestMonitor.trackInitiators(mockPage)).resolves.toBeUndefined();
+    });
+
+    it("should leave initiators unset when CDP is unavailable", async () => {
+      mockPage.context = jest.fn(() => ({
+        newCDPSession: jest.fn().mockRejectedValue(new Error("CDP not supported")),
+      }));
+      requestMonitor.setupRequestMonitoring(mockPage, capturedRequests, false);
+      await requestMonitor.trackInitiators(mockPage);
+      getHandler("request")(makeRequest("https://example.com/", "document"));
+
+      expect(capturedRequests[0].initiator).toBeUndefined();
+      expect(mockLogger.debug).toHaveBeenCalledWith(expect.stringContaining("Initiator tracking unavailable"));
+    });
+  });
+
+  describe("interception markers", () => {
+    const interception = { ruleIndex: 0, action: "block" as const, pattern: "**/analytics/**" };
+
+    it("should mark captured requests handled by an interception rule", () => {
+      requestMonitor.setupRequestMonitoring(mockPage, capturedRequests, false);
+      const request = makeRequest("https://example.com/analytics/collect", "fetch") as unknown as Request;
+      getHandler("request")(request);
+
+      requestMonitor.markIntercepted(mockPage, request, interception);
+
+      expect(capturedRequests[0].intercepted).toEqual(interception);
+    });
+
+    it("should apply interceptions reported before the request event", () => {
+      requestMonitor.setupRequestMonitoring(mockPage, capturedRequests, false);
+      const request = makeRequest("https://example.com/analytics/collect", "fetch") as unknown as Request;
+
+      requestMonitor.markIntercepted(mockPage, request, interception);
+      getHandler("request")(request);
+      getHandler("request")(makeRequest("https://example.com/api/data", "fetch"));
+
+      expect(capturedRequests[0].intercepted).toEqual(interception);
+      expect(capturedRequests[1].intercepted).toBeUndefined();
+    });
+  });
+
+  describe("configurable body capture", () => {
+    let mockBodyStore: any;
+
+    const makeResponse = (request: any, contentType: string, body: string | Buffer) => ({
+      request: () => request,
+      url: () => request.url(),
+      status: () => 200,
+      headers: () => ({ "content-type": contentType }),
+      text: jest.fn().mockResolvedValue(body.toString()),
+      body: jest.fn().mockResolvedValue(Buffer.from(body)),
+    });
+
+    const capture = async (bodyCapture: any, resourceType: string, contentType: string, body: string | Buffer) => {
+      requestMonitor.setupRequestMonitoring(mockPage, capturedRequests, true, bodyCapture);
+      const request = makeRequest("https://example.com/resource", resourceType);
+      getHandler("request")(request);
+      await getHandler("response")(makeResponse(request, contentType, body));
+      return capturedRequests[capturedRequests.length - 1];
+    };
+
+    beforeEach(() => {
+      mockBodyStore = { put: jest.fn(async (data: Buffer) => ({ sha256: "f".repeat(64), size: data.length })) };
+      requestMonitor = new RequestMonitor(mockLogger, mockBodyStore);
+    });
+
+    it("should apply a per-analysis body size cap", async () => {
+      const captured = await capture({ maxBodySize: 1000 }, "fetch", "application/json", "x".repeat(1500));
+
+      expect(captured.responseBody).toBe("x".repeat(1000) + TRUNCATED_BODY_MARKER);
+      expect(captured.storedBody).toBeUndefined();
+      expect(mockBodyStore.put).not.toHaveBeenCalled();
+    });
+
+    it("should retain full text bodies that exceed the cap in the body store", async () => {
+      const captured = await capture({ maxBodySize: 1000, retainFullBodies: true }, "fetch", "application/json", "x".repeat(1500));
+
+      expect(mockBodyStore.put).toHaveBeenCalledWith(Buffer.from("x".repeat(1500)));
+      expect(captured.storedBody).toEqual({ sha256: "f".repeat(64), size: 1500, encoding: "utf8" });
+      expect(captured.responseBody.endsWith(TRUNCATED_BODY_MARKER)).toBe(true);
+    });
+
+    it("should store binary bodies only when full bodies are retained", async () => {
+      const png = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+
+      expect((await capture({}, "image", "image/png", png)).storedBody).toBeUndefined();
+      const captured = await capture({ retainFullBodies: true }, "image", "image/png", png);
+
+      expect(mockBodyStore.put).toHaveBeenCalledWith(png);
+      expect(captured.storedBody).toEqual({ sha256: "f".repeat(64), size: 4, encoding: "base64" });
+      expect(captured.responseBody).toBeUndefined();
+      expect(captured.sizes.decodedBodySize).toBe(4);
+    });
+
+    it("should only capture the configured content types", async () => {
+      const html = await capture({ contentTypes: ["application/json"] }, "document", "text/html", "<html></html>");
+      const json = await capture({ contentTypes: ["application/*"] }, "fetch", "application/json; charset=utf-8", "{}");
+      const image = await capture({ contentTypes: ["image/*"], retainFullBodies: true }, "image", "image/webp", "RIFF");
+
+      expect(html.responseBody).toBeUndefined();
+      expect(json.responseBody).toBe("{}");
+      expect(image.storedBody).toEqual(expect.objectContaining({ encoding: "base64" }));
+    });
+  });
+});
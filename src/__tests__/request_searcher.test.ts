@@ -0,0 +1,94 @@
+import { RequestSearcher } from "../services/request_searcher.js";
+import { type CapturedRequest } from "../types.js";
+
+describe("RequestSearcher", () => {
+  let searcher: RequestSearcher;
+
+  const makeRequest = (id: string, overrides: Partial<CapturedRequest> = {}): CapturedRequest => ({
+    id,
+    url: `https://example.com/${id}`,
+    method: "GET",
+    headers: {},
+    timestamp: "2024-01-01T12:00:00Z",
+    resourceType: "fetch",
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    searcher = new RequestSearcher();
+  });
+
+  it("should search every field case-insensitively by default", () => {
+    const requests = [
+      makeRequest("url", { url: "https://example.com/Token/refresh" }),
+      makeRequest("header", { headers: { authorization: "Bearer token-1" } }),
+      makeRequest("body", { method: "POST", postData: "grant_type=TOKEN" }),
+      makeRequest("none", { responseBody: "nothing here" }),
+    ];
+
+    const matches = searcher.search(requests, { query: "token" });
+
+    expect(matches.map((match) => [match.id, match.snippets[0]!.field])).toEqual([
+      ["url", "url"],
+      ["header", "requestHeaders"],
+      ["body", "postData"],
+    ]);
+    expect(matches[1]!.snippets[0]!.snippet).toBe("authorization: Bearer **token**-1");
+  });
+
+  it("should honor caseSensitive and restricted fields", () => {
+    const requests = [makeRequest("a", { url: "https://example.com/Price", responseBody: '{"price":10}' })];
+
+    expect(searcher.search(requests, { query: "Price", caseSensitive: true })[0]!.snippets).toEqual([
+      { field: "url", snippet: "https://example.com/**Price**", offset: 20 },
+    ]);
+    expect(searcher.search(requests, { query: "Price", fields: ["responseBody"] })[0]!.snippets).toEqual([
+      { field: "responseBody", snippet: '{"**price**":10}', offset: 2 },
+    ]);
+  });
+
+  it("should match regex queries with their own flags and treat other queries literally", () => {
+    const requests = [makeRequest("a", { responseBody: '{"sku":"AB-123","note":"a.b"}' })];
+
+    expect(searcher.search(requests, { query: "/[A-Z]{2}-\\d+/" })[0]!.snippets[0]!.snippet).toContain("**AB-123**");
+    expect(searcher.search(requests, { query: "/ab-\\d+/" })).toEqual([]);
+    expect(searcher.search(requests, { query: "/ab-\\d+/i" })).toHaveLength(1);
+    expect(searcher.search(requests, { query: "a.b" })[0]!.matchCount).toBe(1);
+  });
+
+  it("should count every match but keep a bounded number of clipped snippets", () => {
+    const body = `${"x".repeat(100)}${"id ".repeat(10)}${"y".repeat(100)}`;
+    const [match] = searcher.search([makeRequest("a", { responseBody: body })], { query: "id" });
+
+    expect(match!.matchCount).toBe(10);
+    expect(match!.snippets).toHaveLength(5);
+    expect(match!.snippets[0]!.snippet).toMatch(/^\.\.\.x+\*\*id\*\* id/);
+    expect(match!.snippets[0]!.snippet.endsWith("...")).toBe(true);
+  });
+
+  it("should filter by method, resource type, status range and content type", () => {
+    const requests = [
+      makeRequest("json", { status: 200, responseHeaders: { "Content-Type": "application/json; charset=utf-8" } }),
+      makeRequest("html", { status: 200, resourceType: "document", responseHeaders: { "content-type": "text/html" } }),
+      makeRequest("error", { status: 500, method: "POST" }),
+      makeRequest("pending"),
+    ];
+
+    expect(searcher.search(requests, { contentType: "JSON" }).map((match) => match.id)).toEqual(["json"]);
+    expect(searcher.search(requests, { resourceType: "document" }).map((match) => match.id)).toEqual(["html"]);
+    expect(searcher.search(requests, { statusMin: 500 }).map((match) => match.id)).toEqual(["error"]);
+    expect(searcher.search(requests, { statusMax: 299, method: "get" }).map((match) => match.id)).toEqual(["json", "html"]);
+  });
+
+  it("should read stored bodies only for requests passing the filters", async () => {
+    const readBody = jest.fn(async () => "sku TB-42");
+    const stored = { sha256: "a".repeat(64), size: 9, encoding: "utf8" as const };
+
+    expect(await searcher.matchRequest(makeRequest("post", { method: "POST", storedBody: stored }), { query: "TB-42", method: "GET" }, readBody)).toBeUndefined();
+    expect(readBody).not.toHaveBeenCalled();
+
+    const match = await searcher.matchRequest(makeRequest("get", { storedBody: stored }), { query: "TB-42" }, readBody);
+    expect(match?.snippets[0]).toEqual(expect.objectContaining({ field: "responseBody", snippet: "sku **TB-42**" }));
+    expect(readBody).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,84 @@
+import { ResponseQuery } from "../services/response_query.js";
+
+describe("ResponseQuery", () => {
+  let responseQuery: ResponseQuery;
+
+  const catalog = {
+    total: 3,
+    items: [
+      { id: 1, name: "Boots", price: 129.99, tags: ["outdoor", "leather"] },
+      { id: 2, name: "Socks", price: 9, tags: [] },
+      { id: 3, name: "Hat", price: 25, tags: ["summer"], sale: true },
+    ],
+  };
+
+  beforeEach(() => {
+    responseQuery = new ResponseQuery();
+  });
+
+  describe("evaluateJsonPath", () => {
+    it("should return matched nodes with their paths", () => {
+      expect(responseQuery.evaluateJsonPath(catalog, "$.items[?(@.price > 20)].name")).toEqual([
+        { path: "$['items'][0]['name']", value: "Boots" },
+        { path: "$['items'][2]['name']", value: "Hat" },
+      ]);
+      expect(responseQuery.evaluateJsonPath(catalog, "$..tags[0]").map((match) => match.value)).toEqual(["outdoor", "summer"]);
+    });
+
+    it("should return no matches for missing paths", () => {
+      expect(responseQuery.evaluateJsonPath(catalog, "$.missing.field")).toEqual([]);
+    });
+  });
+
+  describe("evaluateJmesPath", () => {
+    it("should evaluate projections, filters and functions", () => {
+      expect(responseQuery.evaluateJmesPath(catalog, "items[?price > `20`].name")).toEqual(["Boots", "Hat"]);
+      expect(responseQuery.evaluateJmesPath(catalog, "length(items)")).toBe(3);
+      expect(responseQuery.evaluateJmesPath(catalog, "missing")).toBeNull();
+    });
+
+    it("should throw for invalid expressions", () => {
+      expect(() => responseQuery.evaluateJmesPath(catalog, "items[")).toThrow();
+    });
+  });
+
+  describe("summarizeShape", () => {
+    it("should describe keys, types and array lengths without data", () => {
+      expect(responseQuery.summarizeShape(catalog, 5)).toEqual({
+        type: "object",
+        keys: {
+          total: { type: "integer" },
+          items: {
+            type: "array",
+            length: 3,
+            items: {
+              type: "object",
+              keys: {
+                id: { type: "integer" },
+                name: { type: "string" },
+                price: { type: "number" },
+                tags: { type: "array", minLength: 0, maxLength: 2, items: { type: "string" } },
+                sale: { type: "boolean" },
+              },
+            },
+          },
+        },
+      });
+    });
+
+    it("should stop expanding objects at the depth limit", () => {
+      expect(responseQuery.summarizeShape({ data: { user: { id: 1, name: "a" } } }, 2)).toEqual({
+        type: "object",
+        keys: { data: { type: "object", keys: { user: { type: "object", keyCount: 2 } } } },
+      });
+    });
+
+    it("should list every type seen in mixed arrays", () => {
+      expect(responseQuery.summarizeShape([1, "two", null], 5)).toEqual({
+        type: "array",
+        length: 3,
+        items: { type: ["integer", "string", "null"] },
+      });
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { RouteInterceptor } from "../services/route_interceptor.js";
+import { type RouteRule } from "../types.js";
+import { Logger } from "../logger.js";
+
+describe("RouteInterceptor", () => {
+  let interceptor: RouteInterceptor;
+  let mockLogger: jest.Mocked<Logger>;
+  let mockPage: any;
+  let onIntercept: jest.Mock;
+
+  const makeRoute = (url: string, resourceType = "fetch", headers: Record<string, string> = {}) => {
+    const request = {
+      url: () => url,
+      method: () => "GET",
+      resourceType: () => resourceType,
+      headers: () => headers,
+    };
+    return {
+      request: () => request,
+      abort: jest.fn().mockResolvedValue(undefined),
+      fulfill: jest.fn().mockResolvedValue(undefined),
+      continue: jest.fn().mockResolvedValue(undefined),
+      fallback: jest.fn().mockResolvedValue(undefined),
+    };
+  };
+
+  // Registered handlers in registration order, as [matcher, handler]
+  const handlers = () => mockPage.route.mock.calls as Array<[string | RegExp, Function]>;
+
+  beforeEach(() => {
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    } as unknown as jest.Mocked<Logger>;
+    mockPage = { route: jest.fn().mockResolvedValue(undefined) };
+    onIntercept = jest.fn();
+    interceptor = new RouteInterceptor(mockLogger);
+  });
+
+  it("should register rules in reverse so the first rule takes precedence", async () => {
+    const routes: RouteRule[] = [
+      { url: "**/api/flags", action: "fulfill", body: "{}" },
+      { url: "/analytics\\.(js|com)/i", action: "block" },
+    ];
+
+    await interceptor.installRoutes(mockPage, routes, onIntercept);
+
+    expect(handlers().map(([matcher]) => matcher)).toEqual([/analytics\.(js|com)/i, "**/api/flags"]);
+  });
+
+  it("should block requests and report the rule that fired", async () => {
+    await interceptor.installRoutes(mockPage, [{ name: "no-tracking", url: "**/collect", action: "block" }], onIntercept);
+    const route = makeRoute("https://example.com/collect");
+
+    await handlers()[0]![1](route);
+
+    expect(route.abort).toHaveBeenCalledWith("blockedbyclient");
+    expect(onIntercept).toHaveBeenCalledWith(route.request(), {
+      ruleIndex: 0,
+      name: "no-tracking",
+      action: "block",
+      pattern: "**/collect",
+    });
+  });
+
+  it("should fall through for resource types the rule does not cover", async () => {
+    await interceptor.installRoutes(mockPage, [{ url: "**/*", resourceTypes: ["script"], action: "block" }], onIntercept);
+    const route = makeRoute("https://example.com/api/data", "fetch");
+
+    await handlers()[0]![1](route);
+
+    expect(route.fallback).toHaveBeenCalled();
+    expect(route.abort).not.toHaveBeenCalled();
+    expect(onIntercept).not.toHaveBeenCalled();
+  });
+
+  it("should fulfill requests with a mocked response", async () => {
+    await interceptor.installRoutes(mockPage, [
+      { url: "**/api/flags", action: "fulfill", contentType: "application/json", body: '{"newCheckout":true}' },
+    ], onIntercept);
+    const route = makeRoute("https://example.com/api/flags");
+
+    await handlers()[0]![1](route);
+
+    expect(route.fulfill).toHaveBeenCalledWith({
+      status: 200,
+      headers: undefined,
+      contentType: "application/json",
+      body: '{"newCheckout":true}',
+    });
+  });
+
+  it("should set and remove request headers", async () => {
+    await interceptor.installRoutes(mockPage, [
+      { url: "**/*", action: "modifyHeaders", headers: { "X-Debug": "1" }, removeHeaders: ["Referer"] },
+    ], onIntercept);
+    const route = makeRoute("https://example.com/", "document", { accept: "text/html", referer: "https://google.com/" });
+
+    await handlers()[0]![1](route);
+
+    expect(route.continue).toHaveBeenCalledWith({ headers: { accept: "text/html", "x-debug": "1" } });
+  });
+
+  it("should hold delayed requests before continuing them", async () => {
+    await interceptor.installRoutes(mockPage, [{ url: "**/slow", action: "delay", delay: 50 }], onIntercept);
+    const route = makeRoute("https://example.com/slow");
+
+    const handled = handlers()[0]![1](route);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(route.continue).not.toHaveBeenCalled();
+    await handled;
+
+    expect(route.continue).toHaveBeenCalledWith();
+  });
+
+  it("should log instead of throwing when a route cannot be handled", async () => {
+    await interceptor.installRoutes(mockPage, [{ url: "**/*", action: "block" }], onIntercept);
+    const route = makeRoute("https://example.com/");
+    route.abort.mockRejectedValue(new Error("Target page has been closed"));
+
+    await expect(handlers()[0]![1](route)).resolves.toBeUndefined();
+    expect(mockLogger.debug).toHaveBeenCalledWith(expect.stringContaining("Target page has been closed"));
+  });
+});
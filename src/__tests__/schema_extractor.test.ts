@@ -0,0 +1,150 @@
+import { SchemaExtractor } from "../services/schema_extractor.js";
+import { InvalidSelectorError } from "../errors.js";
+import { Logger } from "../logger.js";
+
+describe("SchemaExtractor", () => {
+  let mockLogger: jest.Mocked<Logger>;
+  let extractor: SchemaExtractor;
+
+  const pageReturning = (data: Record<string, unknown>) =>
+    ({ evaluate: jest.fn().mockResolvedValue(data), url: () => "https://shop.example.com/list?page=2" }) as any;
+
+  beforeEach(() => {
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    } as unknown as jest.Mocked<Logger>;
+    extractor = new SchemaExtractor(mockLogger);
+  });
+
+  it("should apply transforms in order and pass the schema to the page", async () => {
+    const page = pageReturning({
+      invalid: [],
+      records: [
+        { title: ["Desk"], price: ["$1,299.99"], link: ["/p/desk"], sku: ["SKU: AB-12 (new)"], tags: ["  oak ", "walnut"] },
+        { title: ["Chair"], price: ["1.299,50 €"], link: ["https://cdn.example.com/chair"], sku: ["SKU: CD-34"], tags: [] },
+      ],
+    });
+    const schema = {
+      containerSelector: ".card",
+      fields: {
+        title: { selector: "h2" },
+        price: { selector: ".price", transform: "number" as const },
+        link: { selector: "a", attribute: "href", transform: "url-resolve" as const },
+        sku: { xpath: ".//span", transform: "regex" as const, pattern: "SKU: ([A-Z]+-\\d+)" },
+        tags: { selector: ".tag", transform: "trim" as const, multiple: true },
+      },
+    };
+
+    const result = await extractor.extract(page, schema);
+
+    expect(page.evaluate).toHaveBeenCalledWith(expect.any(Function), { schema, maxRecords: 5000 });
+    expect(result.url).toBe("https://shop.example.com/list?page=2");
+    expect(result.records).toEqual([
+      { title: "Desk", price: 1299.99, link: "https://shop.example.com/p/desk", sku: "AB-12", tags: ["oak", "walnut"] },
+      { title: "Chair", price: 1299.5, link: "https://cdn.example.com/chair", sku: "CD-34", tags: [] },
+    ]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it("should report misses, missing attributes and failed transforms per field", async () => {
+    const page = pageReturning({
+      invalid: [],
+      records: [
+        { title: [], image: [null], price: ["Call for price"] },
+        { title: ["Lamp"], image: ["lamp.jpg"], price: ["12,5"] },
+      ],
+    });
+
+    const result = await extractor.extract(page, {
+      fields: {
+        title: { selector: "h2" },
+        image: { selector: "img", attribute: "src" },
+        price: { selector: ".price", transform: ["trim", "number"] },
+      },
+    });
+
+    expect(result.records).toEqual([
+      { title: null, image: null, price: null },
+      { title: "Lamp", image: "lamp.jpg", price: 12.5 },
+    ]);
+    expect(result.errors).toEqual([
+      { record: 0, field: "title", message: "No match for selector 'h2'" },
+      { record: 0, field: "image", message: "Attribute 'src' missing on the matched element" },
+      { record: 0, field: "price", message: "Transform 'number' failed: no number in 'Call for price'" },
+    ]);
+  });
+
+  it("should parse thousands and decimal separators of common formats", async () => {
+    const texts = ["1,000", "1 234 567", "-3.5%", "4.5 out of 5", "1.234.567", "Rating: 4"];
+    const page = pageReturning({ invalid: [], records: texts.map((text) => ({ value: [text] })) });
+
+    const result = await extractor.extract(page, { fields: { value: { selector: "span", transform: "number" } } });
+
+    expect(result.records.map((record) => record.value)).toEqual([1000, 1234567, -3.5, 4.5, 1234567, 4]);
+  });
+
+  it("should flag results whose containers were not all read", async () => {
+    const page = pageReturning({ invalid: [], records: [{ title: ["Desk"] }], containerCount: 6200 });
+
+    const result = await extractor.extract(page, { containerSelector: ".card", fields: { title: { selector: "h2" } } });
+
+    expect(result).toEqual(expect.objectContaining({ containerCount: 6200, truncated: true }));
+    expect(mockLogger.warn).toHaveBeenCalledWith("[Schema] Read the first 1 of 6200 containers");
+  });
+
+  it("should anchor field selectors and absolute XPaths at each container", async () => {
+    const queries: string[] = [];
+    const card = {
+      querySelectorAll: (selector: string) => {
+        queries.push(selector);
+        return [{ nodeType: 1, innerText: " Desk ", getAttribute: () => null }];
+      },
+    };
+    const fakeDocument: any = {
+      querySelectorAll: (selector: string) => (selector === ".card" ? [card, card] : []),
+      evaluate: (expression: string, root: unknown) => {
+        queries.push(`${root === fakeDocument ? "document" : "card"}: ${expression}`);
+        return { snapshotLength: 0, snapshotItem: () => null };
+      },
+    };
+    const page = {
+      url: () => "https://shop.example.com/",
+      evaluate: jest.fn(async (fn: any, arg: any) => {
+        Object.assign(global as any, { document: fakeDocument, Node: { ELEMENT_NODE: 1, ATTRIBUTE_NODE: 2 }, XPathResult: { ORDERED_NODE_SNAPSHOT_TYPE: 7 } });
+        try {
+          return fn({ ...arg, maxRecords: 1 });
+        } finally {
+          delete (global as any).document;
+          delete (global as any).Node;
+          delete (global as any).XPathResult;
+        }
+      }),
+    } as any;
+
+    const result = await extractor.extract(page, {
+      containerSelector: ".card",
+      fields: {
+        title: { selector: 'div > h2, a[title="a, b"]' },
+        link: { selector: ":scope > a" },
+        sku: { xpath: "//span[@class='sku']" },
+      },
+    });
+
+    expect(queries.slice(queries.indexOf("document: //span[@class='sku']") + 1)).toEqual([
+      ':scope div > h2, :scope a[title="a, b"]',
+      ":scope > a",
+      "card: .//span[@class='sku']",
+    ]);
+    expect(result.records).toEqual([{ title: "Desk", link: "Desk", sku: null }]);
+    expect(result).toEqual(expect.objectContaining({ containerCount: 2, truncated: true }));
+  });
+
+  it("should throw InvalidSelectorError for selectors the page cannot parse", async () => {
+    const page = pageReturning({ invalid: ["field 'title': invalid selector 'h2[' (not a valid selector)"], records: [] });
+
+    await expect(extractor.extract(page, { fields: { title: { selector: "h2[" } } })).rejects.toThrow(InvalidSelectorError);
+  });
+});
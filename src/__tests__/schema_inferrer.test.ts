@@ -0,0 +1,59 @@
+import { SchemaInferrer } from "../services/schema_inferrer.js";
+
+describe("SchemaInferrer", () => {
+  let inferrer: SchemaInferrer;
+
+  beforeEach(() => {
+    inferrer = new SchemaInferrer();
+  });
+
+  it("should infer primitive types and string formats", () => {
+    expect(inferrer.infer(null)).toEqual({ type: "null" });
+    expect(inferrer.infer(true)).toEqual({ type: "boolean" });
+    expect(inferrer.infer(3)).toEqual({ type: "integer" });
+    expect(inferrer.infer(3.5)).toEqual({ type: "number" });
+    expect(inferrer.infer("hello")).toEqual({ type: "string" });
+    expect(inferrer.infer("2024-01-01T12:00:00Z")).toEqual({ type: "string", format: "date-time" });
+    expect(inferrer.infer("https://example.com/a")).toEqual({ type: "string", format: "uri" });
+  });
+
+  it("should infer nested objects and merge array items", () => {
+    const schema = inferrer.infer({
+      items: [
+        { id: 1, name: "a", price: 10 },
+        { id: 2, price: 9.5, tag: null },
+      ],
+    });
+
+    expect(schema).toEqual({
+      type: "object",
+      properties: {
+        items: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              id: { type: "integer" },
+              name: { type: "string" },
+              price: { type: "number" },
+              tag: { type: "null" },
+            },
+            required: ["id", "price"],
+          },
+        },
+      },
+      required: ["items"],
+    });
+  });
+
+  it("should merge observations with differing types into a type union", () => {
+    const schema = inferrer.inferAll([{ value: "a" }, { value: null }, {}]);
+
+    expect(schema).toEqual({
+      type: "object",
+      properties: { value: { type: ["string", "null"] } },
+      required: [],
+    });
+    expect(inferrer.inferAll([])).toBeUndefined();
+  });
+});
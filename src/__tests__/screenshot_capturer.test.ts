@@ -0,0 +1,117 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ScreenshotCapturer } from "../services/screenshot_capturer.js";
+import { InvalidSelectorError, ResourceNotFoundError } from "../errors.js";
+import { Logger } from "../logger.js";
+
+describe("ScreenshotCapturer", () => {
+  let mockLogger: jest.Mocked<Logger>;
+  let mockPage: any;
+  let mockLocator: any;
+  let directory: string;
+  let capturer: ScreenshotCapturer;
+
+  // PNG signature followed by an IHDR chunk for a 800x600 image
+  const png = Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]),
+    Buffer.from("IHDR", "ascii"),
+    Buffer.from([0, 0, 0x03, 0x20, 0, 0, 0x02, 0x58]),
+  ]);
+
+  beforeEach(() => {
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    } as unknown as jest.Mocked<Logger>;
+    mockLocator = {
+      count: jest.fn().mockResolvedValue(1),
+      screenshot: jest.fn().mockResolvedValue(png),
+    };
+    mockPage = {
+      screenshot: jest.fn().mockResolvedValue(png),
+      locator: jest.fn(() => ({ first: () => mockLocator })),
+    };
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "screenshots-"));
+    capturer = new ScreenshotCapturer(mockLogger, directory);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should take a full-page screenshot by default and store it as a PNG file", async () => {
+    const { screenshot, data } = await capturer.capture(mockPage);
+
+    expect(mockPage.screenshot).toHaveBeenCalledWith(expect.objectContaining({ type: "png", fullPage: true }));
+    expect(data).toEqual(png);
+    expect(screenshot).toEqual({
+      type: "fullPage",
+      selector: undefined,
+      path: expect.stringMatching(/\.png$/),
+      width: 800,
+      height: 600,
+      size: png.length,
+      capturedAt: expect.any(String),
+    });
+    expect(path.dirname(screenshot.path!)).toBe(directory);
+    expect(fs.readFileSync(screenshot.path!)).toEqual(png);
+  });
+
+  it("should capture only the viewport when asked", async () => {
+    const { screenshot } = await capturer.capture(mockPage, { type: "viewport" });
+
+    expect(mockPage.screenshot).toHaveBeenCalledWith(expect.objectContaining({ fullPage: false }));
+    expect(screenshot.type).toBe("viewport");
+  });
+
+  it("should capture the first element matching a selector", async () => {
+    const { screenshot } = await capturer.capture(mockPage, { selector: "#hero" });
+
+    expect(mockPage.locator).toHaveBeenCalledWith("#hero");
+    expect(mockLocator.screenshot).toHaveBeenCalled();
+    expect(mockPage.screenshot).not.toHaveBeenCalled();
+    expect(screenshot).toEqual(expect.objectContaining({ type: "element", selector: "#hero" }));
+  });
+
+  it("should throw ResourceNotFoundError when no element matches", async () => {
+    mockLocator.count.mockResolvedValue(0);
+
+    await expect(capturer.capture(mockPage, { type: "element", selector: "#missing" })).rejects.toThrow(ResourceNotFoundError);
+    expect(fs.readdirSync(directory)).toEqual([]);
+  });
+
+  it("should throw InvalidSelectorError when the selector cannot be parsed", async () => {
+    mockLocator.count.mockRejectedValue(new Error('locator.count: Unexpected token "!" while parsing selector "div!!"\nCall log: ...'));
+
+    await expect(capturer.capture(mockPage, { type: "element", selector: "div!!" })).rejects.toThrow(InvalidSelectorError);
+
+    mockLocator.count.mockRejectedValue(new Error("Target page, context or browser has been closed"));
+    await expect(capturer.capture(mockPage, { type: "element", selector: "#hero" })).rejects.not.toThrow(InvalidSelectorError);
+  });
+
+  it("should remove the oldest screenshots beyond the size limit", async () => {
+    const earlier = path.join(directory, "0e0b5a2c-7f3d-4a44-9d1e-2c6f5b8a9e10.png");
+    fs.writeFileSync(earlier, png);
+    capturer = new ScreenshotCapturer(mockLogger, directory, png.length * 2);
+
+    const { screenshot: first } = await capturer.capture(mockPage);
+    const { screenshot: second } = await capturer.capture(mockPage);
+
+    expect(fs.existsSync(earlier)).toBe(false);
+    expect(fs.readdirSync(directory).sort()).toEqual([path.basename(first.path!), path.basename(second.path!)].sort());
+    expect(mockLogger.info).toHaveBeenCalledWith(expect.stringContaining("Evicted screenshot"));
+  });
+
+  it("should read stored screenshots back and report missing files", async () => {
+    const { screenshot } = await capturer.capture(mockPage);
+
+    expect(await capturer.read(screenshot)).toEqual(png);
+
+    fs.rmSync(screenshot.path!);
+    expect(await capturer.read(screenshot)).toBeUndefined();
+    expect(await capturer.read({ type: "fullPage", capturedAt: "now", error: "failed" })).toBeUndefined();
+  });
+});
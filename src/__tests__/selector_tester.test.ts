@@ -0,0 +1,107 @@
+import { SelectorTester } from "../services/selector_tester.js";
+import { Logger } from "../logger.js";
+
+describe("SelectorTester", () => {
+  let mockLogger: jest.Mocked<Logger>;
+  let tester: SelectorTester;
+
+  const element = (tag: string, attributes: Record<string, string>, text: string, rect = { x: 10, y: 20, width: 100, height: 30 }) => ({
+    tagName: tag.toUpperCase(),
+    attributes: Object.entries(attributes).map(([name, value]) => ({ name, value })),
+    innerText: text,
+    outerHTML: `<${tag}>${text}</${tag}>`,
+    hidden: false,
+    getBoundingClientRect: () => rect,
+  });
+
+  // Runs the in-page function against fake elements, as the browser would
+  const pageWith = (elementsBySelector: Record<string, any[]>) =>
+    ({
+      locator: jest.fn((selector: string) => ({
+        evaluateAll: jest.fn(async (fn: any, arg: any) => {
+          if (!(selector in elementsBySelector)) {
+            throw new Error(`Unexpected token "!" while parsing selector "${selector}"\nCall log: ...`);
+          }
+          return fn(elementsBySelector[selector], arg);
+        }),
+      })),
+    }) as any;
+
+  beforeEach(() => {
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    } as unknown as jest.Mocked<Logger>;
+    tester = new SelectorTester(mockLogger);
+    (global as any).window = { scrollX: 0, scrollY: 500 };
+    (global as any).getComputedStyle = (el: any) => ({ visibility: el.hidden ? "hidden" : "visible" });
+  });
+
+  afterEach(() => {
+    delete (global as any).window;
+    delete (global as any).getComputedStyle;
+  });
+
+  it("should describe the first matches with text, attributes, HTML and page coordinates", async () => {
+    const button = element("button", { class: "primary", type: "submit" }, "  Sign\n  in ");
+    const page = pageWith({ "#login button.primary": [button] });
+
+    const [result] = await tester.test(page, ["#login button.primary"], 5);
+
+    expect(result).toEqual({
+      selector: "#login button.primary",
+      kind: "css",
+      matchCount: 1,
+      matches: [
+        {
+          index: 0,
+          tag: "button",
+          text: "Sign in",
+          attributes: { class: "primary", type: "submit" },
+          html: "<button>  Sign\n  in </button>",
+          boundingBox: { x: 10, y: 520, width: 100, height: 30 },
+          visible: true,
+        },
+      ],
+      warnings: [],
+    });
+  });
+
+  it("should warn about no, many and hidden matches, and tell selector kinds apart", async () => {
+    const items = [1, 2, 3].map((n) => element("li", {}, `Item ${n}`));
+    const hidden = element("div", {}, "Sale", { x: 0, y: 0, width: 0, height: 0 });
+    const page = pageWith({ "//li": items, "text=Sale": [hidden], ".missing": [] });
+
+    const [list, banner, missing] = await tester.test(page, ["//li", "text=Sale", ".missing"], 2);
+
+    expect(list).toEqual(
+      expect.objectContaining({
+        kind: "xpath",
+        matchCount: 3,
+        warnings: ["Matches 3 elements, not a single one; narrow it with an attribute or an ancestor", "Describes the first 2 of 3 matches"],
+      })
+    );
+    expect(list!.matches.map((match) => match.text)).toEqual(["Item 1", "Item 2"]);
+    expect(banner).toEqual(expect.objectContaining({ kind: "playwright", matchCount: 1, warnings: ["The match is not visible"] }));
+    expect(banner!.matches[0]).toEqual(expect.objectContaining({ boundingBox: null, visible: false }));
+    expect(missing).toEqual(expect.objectContaining({ kind: "css", matchCount: 0, matches: [], warnings: ["Matches no element"] }));
+  });
+
+  it("should report invalid selectors without failing the others", async () => {
+    const page = pageWith({ h1: [element("h1", {}, "Welcome")] });
+
+    const [invalid, valid] = await tester.test(page, ["div!!", "h1"], 5);
+
+    expect(invalid).toEqual({
+      selector: "div!!",
+      kind: "css",
+      matchCount: 0,
+      matches: [],
+      warnings: [],
+      error: 'Unexpected token "!" while parsing selector "div!!"',
+    });
+    expect(valid!.matchCount).toBe(1);
+  });
+});
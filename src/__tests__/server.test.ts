@@ -10,6 +10,7 @@ import { WebScraperMCPServer } from '../server.js';
 import { BrowserManager } from '../browser.js';
 import { WebsiteAnalyzer } from '../analyzer.js';
 import { MCPToolHandlers } from '../handlers.js';
+import { BodyStore } from '../services/body_store.js';
 import { type AnalysisOptions, type RequestFilter } from '../types.js';
 
 /**
@@ -80,7 +81,25 @@ describe('WebScraperMCPServer', () => {
       handleGetRequestsByDomain: jest.fn(),
       handleGetRequestDetails: jest.fn(),
       handleGetRequestSummary: jest.fn(),
+      handleListAnalyses: jest.fn(),
+      handleExportHar: jest.fn(),
+      handleImportHar: jest.fn(),
+      handleGetSlowestRequests: jest.fn(),
+      handleDiscoverApiEndpoints: jest.fn(),
+      handleGetGraphqlOperations: jest.fn(),
+      handleGetWebsocketMessages: jest.fn(),
+      handleSearchRequests: jest.fn(),
+      handleQueryResponse: jest.fn(),
+      handleGetResponseBody: jest.fn(),
+      handleTakeScreenshot: jest.fn(),
+      handleGetPageContent: jest.fn(),
+      handleExtractTables: jest.fn(),
+      handleExtractStructuredData: jest.fn(),
+      handleExtractWithSchema: jest.fn(),
+      handleDetectLists: jest.fn(),
+      handleTestSelector: jest.fn(),
       clearAnalysisResults: jest.fn(),
+      closeAnalysisResults: jest.fn(),
       getStoredResultsCount: jest.fn().mockReturnValue(0),
     } as unknown as jest.Mocked<MCPToolHandlers>;
 
@@ -111,11 +130,22 @@ describe('WebScraperMCPServer', () => {
       expect(BrowserManager).toHaveBeenCalledTimes(1);
       expect(WebsiteAnalyzer).toHaveBeenCalledWith(
         mockBrowserManager,
-        expect.anything()
+        expect.anything(),
+        expect.any(BodyStore)
       );
       expect(MCPToolHandlers).toHaveBeenCalledWith(
         mockAnalyzer,
-        expect.anything()
+        expect.anything(),
+        expect.anything(),
+        expect.any(BodyStore)
+      );
+      // The handlers read bodies from the store the analyzer writes to
+      expect(
+        (MCPToolHandlers as jest.MockedClass<typeof MCPToolHandlers>).mock
+          .calls[0]![3]
+      ).toBe(
+        (WebsiteAnalyzer as jest.MockedClass<typeof WebsiteAnalyzer>).mock
+          .calls[0]![2]
       );
       expect(Server).toHaveBeenCalledWith(
         {
@@ -130,6 +160,22 @@ describe('WebScraperMCPServer', () => {
       );
     });
 
+    it('should apply the store limits to the analysis store', () => {
+      new WebScraperMCPServer(mockLogger as any, {
+        storeLimits: { maxEntries: 2 },
+      });
+      const calls = (MCPToolHandlers as jest.MockedClass<typeof MCPToolHandlers>)
+        .mock.calls;
+      const store = calls[calls.length - 1]![2]!;
+
+      for (const id of ['a', 'b', 'c']) {
+        store.set(id, { url: `https://example.com/${id}`, requests: [] } as any);
+      }
+
+      expect(store.size).toBe(2);
+      expect(store.has('a')).toBe(false);
+    });
+
     it('should set up MCP handlers', () => {
       expect(mockMCPServer.setRequestHandler).toHaveBeenCalledTimes(2);
       expect(mockMCPServer.setRequestHandler).toHaveBeenCalledWith(
@@ -189,6 +235,192 @@ describe('WebScraperMCPServer', () => {
                     'Use quick loading mode with minimal waiting (default: false)',
                   default: false,
                 },
+                actions: {
+                  type: 'array',
+                  description:
+                    'Scripted interactions run in order after the page loads, while requests keep being captured. Each step reports success, error and the IDs of the requests it triggered. Steps after a failed step are skipped.',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      type: {
+                        type: 'string',
+                        enum: [
+                          'click',
+                          'fill',
+                          'press',
+                          'select',
+                          'hover',
+                          'scrollToBottom',
+                          'waitForSelector',
+                          'waitForRequest',
+                          'waitForTimeout',
+                        ],
+                        description: 'The interaction to perform',
+                      },
+                      name: {
+                        type: 'string',
+                        description: 'Optional label for the step in the results',
+                      },
+                      selector: {
+                        type: 'string',
+                        description:
+                          'Target element selector (click, fill, select, hover, waitForSelector; optional for press)',
+                      },
+                      value: {
+                        description:
+                          'Text to fill, or option value(s) to select (fill, select)',
+                        oneOf: [
+                          { type: 'string' },
+                          { type: 'array', items: { type: 'string' } },
+                        ],
+                      },
+                      key: {
+                        type: 'string',
+                        description: 'Key to press, e.g. "Enter" (press)',
+                      },
+                      state: {
+                        type: 'string',
+                        enum: ['attached', 'detached', 'visible', 'hidden'],
+                        description:
+                          'Element state to wait for (waitForSelector, default: visible)',
+                      },
+                      urlPattern: {
+                        type: 'string',
+                        description:
+                          'URL substring, or /regex/, of the request to wait for (waitForRequest)',
+                      },
+                      duration: {
+                        type: 'number',
+                        description: 'Milliseconds to wait (waitForTimeout, max: 10000)',
+                      },
+                      maxScrolls: {
+                        type: 'number',
+                        description: 'Maximum scroll steps (scrollToBottom, default: 10)',
+                      },
+                      delay: {
+                        type: 'number',
+                        description:
+                          'Milliseconds to wait between scroll steps (scrollToBottom, default: 500)',
+                      },
+                      timeout: {
+                        type: 'number',
+                        description: 'Step timeout in milliseconds (default: 10000)',
+                      },
+                    },
+                    required: ['type'],
+                  },
+                },
+                routes: {
+                  type: 'array',
+                  description:
+                    'Interception rules installed before navigation. The first rule matching a request\'s URL and resource type blocks it, answers it with a mocked response, rewrites its headers or delays it. Handled requests are still captured and carry an "intercepted" marker naming the rule.',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      url: {
+                        type: 'string',
+                        description:
+                          'URL glob (e.g. "**/analytics/**") or /regex/ to match',
+                      },
+                      action: {
+                        type: 'string',
+                        enum: ['block', 'fulfill', 'modifyHeaders', 'delay'],
+                        description: 'What to do with matching requests',
+                      },
+                      name: {
+                        type: 'string',
+                        description: 'Optional label for the rule in the marker',
+                      },
+                      resourceTypes: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description:
+                          'Only match these resource types, e.g. ["script", "xhr", "fetch"]',
+                      },
+                      errorCode: {
+                        type: 'string',
+                        description:
+                          'Network error reported for blocked requests (block, default: blockedbyclient)',
+                      },
+                      status: {
+                        type: 'number',
+                        description: 'Response status code (fulfill, default: 200)',
+                      },
+                      headers: {
+                        type: 'object',
+                        additionalProperties: { type: 'string' },
+                        description:
+                          'Response headers (fulfill), or request headers to set (modifyHeaders)',
+                      },
+                      contentType: {
+                        type: 'string',
+                        description: 'Response content type (fulfill)',
+                      },
+                      body: {
+                        type: 'string',
+                        description: 'Response body (fulfill, default: empty)',
+                      },
+                      removeHeaders: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description: 'Request headers to remove (modifyHeaders)',
+                      },
+                      delay: {
+                        type: 'number',
+                        description:
+                          'Milliseconds to hold the request before sending it (delay, max: 30000)',
+                      },
+                    },
+                    required: ['url', 'action'],
+                  },
+                },
+                bodyCapture: {
+                  type: 'object',
+                  description:
+                    'Response body capture settings. By default text bodies are kept inline up to 50,000 characters and binary bodies are skipped.',
+                  properties: {
+                    maxBodySize: {
+                      type: 'number',
+                      description:
+                        'Characters of a text body kept inline (default: 50000, min: 1000, max: 10000000)',
+                    },
+                    contentTypes: {
+                      type: 'array',
+                      items: { type: 'string' },
+                      description:
+                        'Content types whose bodies are captured, e.g. ["application/json", "image/*"] (default: text-based content)',
+                    },
+                    retainFullBodies: {
+                      type: 'boolean',
+                      description:
+                        'Keep complete bodies, including binary ones, in the on-disk body store for get_response_body (default: false)',
+                      default: false,
+                    },
+                  },
+                },
+                screenshot: {
+                  type: 'object',
+                  description:
+                    'Take a PNG screenshot once the page has loaded and any actions have run. It is stored with the analysis and returned as image content.',
+                  properties: {
+                    type: {
+                      type: 'string',
+                      enum: ['fullPage', 'viewport', 'element'],
+                      description:
+                        'What to capture (default: element when a selector is given, otherwise fullPage)',
+                    },
+                    selector: {
+                      type: 'string',
+                      description: 'CSS selector of the element to capture',
+                    },
+                  },
+                },
+                keepPageOpen: {
+                  type: 'boolean',
+                  description:
+                    'Keep the browser page open after the analysis, in the state the actions left it, so that test_selector can evaluate selectors against it with the returned analysisId. At most 3 pages are kept open; older ones are closed (default: false)',
+                  default: false,
+                },
               },
               required: ['url'],
             },
@@ -200,17 +432,44 @@ describe('WebScraperMCPServer', () => {
             inputSchema: {
               type: 'object',
               properties: {
+                analysisId: {
+                  type: 'string',
+                  description:
+                    'The ID of a stored analysis (takes precedence over url)',
+                },
                 url: {
                   type: 'string',
-                  description: 'The URL that was previously analyzed',
+                  description:
+                    'The URL that was previously analyzed (uses the latest analysis)',
                 },
                 domain: {
                   type: 'string',
                   description:
                     "The domain to filter requests for (e.g., 'example.com')",
                 },
+                limit: {
+                  type: 'number',
+                  description:
+                    'Maximum requests per page (default: 100, max: 500)',
+                },
+                cursor: {
+                  type: 'string',
+                  description:
+                    'The nextCursor value of a previous response, to fetch the next page',
+                },
+                compact: {
+                  type: 'boolean',
+                  description:
+                    'Return unindented JSON with only the main fields of each item (default: false)',
+                },
+                fields: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description:
+                    'Fields to keep on each item (overrides the compact defaults)',
+                },
               },
-              required: ['url', 'domain'],
+              required: ['domain'],
             },
           },
           {
@@ -220,9 +479,15 @@ describe('WebScraperMCPServer', () => {
             inputSchema: {
               type: 'object',
               properties: {
+                analysisId: {
+                  type: 'string',
+                  description:
+                    'The ID of a stored analysis (takes precedence over url)',
+                },
                 url: {
                   type: 'string',
-                  description: 'The URL that was previously analyzed',
+                  description:
+                    'The URL that was previously analyzed (uses the latest analysis)',
                 },
                 requestId: {
                   type: 'string',
@@ -230,7 +495,7 @@ describe('WebScraperMCPServer', () => {
                     'The unique ID of the request to get details for',
                 },
               },
-              required: ['url', 'requestId'],
+              required: ['requestId'],
             },
           },
           {
@@ -240,18 +505,58 @@ describe('WebScraperMCPServer', () => {
             inputSchema: {
               type: 'object',
               properties: {
+                analysisId: {
+                  type: 'string',
+                  description:
+                    'The ID of a stored analysis (takes precedence over url)',
+                },
                 url: {
                   type: 'string',
-                  description: 'The URL that was previously analyzed',
+                  description:
+                    'The URL that was previously analyzed (uses the latest analysis)',
+                },
+                limit: {
+                  type: 'number',
+                  description:
+                    'Maximum domains per page (default: 100, max: 500)',
+                },
+                cursor: {
+                  type: 'string',
+                  description:
+                    'The nextCursor value of a previous response, to fetch the next page',
+                },
+                compact: {
+                  type: 'boolean',
+                  description:
+                    'Return unindented JSON with only the main fields of each item (default: false)',
+                },
+                fields: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description:
+                    'Fields to keep on each item (overrides the compact defaults)',
+                },
+              },
+            },
+          },
+          {
+            name: 'list_analyses',
+            description:
+              'List stored analyses (newest first) with their IDs, URLs, timestamps, request counts and anti-bot verdicts',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                url: {
+                  type: 'string',
+                  description: 'Only list analyses of this URL',
                 },
               },
-              required: ['url'],
             },
           },
           {
             name: 'extract_html_elements',
             description:
-              'Extract important HTML elements with their CSS selectors, filtered by type (text, image, link, script)',
+              'Extract important HTML elements with their CSS selectors, filtered by type (text, image, link, script, table, form)',
             inputSchema: {
               type: 'object',
               properties: {
@@ -262,9 +567,35 @@ describe('WebScraperMCPServer', () => {
                 },
                 filterType: {
                   type: 'string',
-                  enum: ['text', 'image', 'link', 'script'],
+                  enum: ['text', 'image', 'link', 'script', 'table', 'form'],
                   description: 'Type of elements to extract',
                 },
+                selectorCandidates: {
+                  type: 'boolean',
+                  description:
+                    'Add up to five candidate selectors per element (test ids, aria, data attributes, CSS, nth-of-type, text, XPath), each with a uniqueness flag and a stability score, and pick the most stable unique one as selector. Slower on large pages (default: false)',
+                },
+                limit: {
+                  type: 'number',
+                  description:
+                    'Maximum elements per page (default: 200, max: 500)',
+                },
+                cursor: {
+                  type: 'string',
+                  description:
+                    'The nextCursor value of a previous response, to fetch the next page',
+                },
+                compact: {
+                  type: 'boolean',
+                  description:
+                    'Return unindented JSON with only the main fields of each item (default: false)',
+                },
+                fields: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description:
+                    'Fields to keep on each item (overrides the compact defaults)',
+                },
               },
               required: ['url', 'filterType'],
             },
@@ -306,6 +637,708 @@ describe('WebScraperMCPServer', () => {
               required: ['url'],
             },
           },
+            {
+              name: 'export_har',
+              description:
+                'Export a stored analysis as a HAR 1.2 document, returned inline or written to the configured output directory',
+              inputSchema: {
+                type: 'object',
+                properties: {
+                  analysisId: {
+                    type: 'string',
+                    description:
+                      'The ID of a stored analysis (takes precedence over url)',
+                  },
+                  url: {
+                    type: 'string',
+                    description:
+                      'The URL that was previously analyzed (uses the latest analysis)',
+                  },
+                  saveToFile: {
+                    type: 'boolean',
+                    description:
+                      'Write the HAR file to the output directory and return its path instead of the document (default: false)',
+                    default: false,
+                  },
+                },
+              },
+            },
+            {
+              name: 'import_har',
+              description:
+                'Import a HAR file (e.g. recorded in Chrome devtools) as a stored analysis that can be queried with the request tools, without launching a browser',
+              inputSchema: {
+                type: 'object',
+                properties: {
+                  filePath: {
+                    type: 'string',
+                    description:
+                      'Path of the HAR file to import, relative to the output directory; files outside it are refused',
+                  },
+                  har: {
+                    type: 'string',
+                    description:
+                      'The HAR document as a JSON string (instead of filePath)',
+                  },
+                  url: {
+                    type: 'string',
+                    description:
+                      'The page URL to store the analysis under (default: the page recorded in the HAR)',
+                  },
+                },
+              },
+            },
+            {
+              name: 'get_slowest_requests',
+              description:
+                'List the slowest requests of a previous analysis by total time, with time to first byte, download time and transfer size',
+              inputSchema: {
+                type: 'object',
+                properties: {
+                  analysisId: {
+                    type: 'string',
+                    description:
+                      'The ID of a stored analysis (takes precedence over url)',
+                  },
+                  url: {
+                    type: 'string',
+                    description:
+                      'The URL that was previously analyzed (uses the latest analysis)',
+                  },
+                  limit: {
+                    type: 'number',
+                    description:
+                      'Maximum requests per page (default: 10, max: 500)',
+                    default: 10,
+                  },
+                  cursor: {
+                    type: 'string',
+                    description:
+                      'The nextCursor value of a previous response, to fetch the next page',
+                  },
+                  compact: {
+                    type: 'boolean',
+                    description:
+                      'Return unindented JSON with only the main fields of each item (default: false)',
+                  },
+                  fields: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description:
+                      'Fields to keep on each item (overrides the compact defaults)',
+                  },
+                  resourceType: {
+                    type: 'string',
+                    description:
+                      "Only include requests of this resource type (e.g., 'xhr')",
+                  },
+                },
+              },
+            },
+            {
+              name: 'discover_api_endpoints',
+              description:
+                'Discover the API endpoints of a previous analysis from its xhr/fetch requests: paths are templated (numeric IDs, UUIDs, hashes and slugs become {param}), grouped by method and template, and query, body and response JSON schemas are inferred. Returns an OpenAPI 3.1 document by default.',
+              inputSchema: {
+                type: 'object',
+                properties: {
+                  analysisId: {
+                    type: 'string',
+                    description:
+                      'The ID of a stored analysis (takes precedence over url)',
+                  },
+                  url: {
+                    type: 'string',
+                    description:
+                      'The URL that was previously analyzed (uses the latest analysis)',
+                  },
+                  domain: {
+                    type: 'string',
+                    description:
+                      "Only include requests to this hostname (e.g., 'api.example.com')",
+                  },
+                  format: {
+                    type: 'string',
+                    enum: ['openapi', 'endpoints'],
+                    description:
+                      "Output an OpenAPI 3.1 document or the raw endpoint list (default: 'openapi')",
+                    default: 'openapi',
+                  },
+                },
+              },
+            },
+            {
+              name: 'get_graphql_operations',
+              description:
+                'List the GraphQL operations of a previous analysis, detected in request bodies (including batched arrays and persisted-query hashes) and GET query strings. Operations are grouped by endpoint, type and name, with sample variables, the inferred response data shape and error messages.',
+              inputSchema: {
+                type: 'object',
+                properties: {
+                  analysisId: {
+                    type: 'string',
+                    description:
+                      'The ID of a stored analysis (takes precedence over url)',
+                  },
+                  url: {
+                    type: 'string',
+                    description:
+                      'The URL that was previously analyzed (uses the latest analysis)',
+                  },
+                  operationName: {
+                    type: 'string',
+                    description: 'Only include operations with this name',
+                  },
+                  operationType: {
+                    type: 'string',
+                    enum: ['query', 'mutation', 'subscription'],
+                    description: 'Only include operations of this type',
+                  },
+                  limit: {
+                    type: 'number',
+                    description:
+                      'Maximum operations per page (default: 100, max: 500)',
+                  },
+                  cursor: {
+                    type: 'string',
+                    description:
+                      'The nextCursor value of a previous response, to fetch the next page',
+                  },
+                  compact: {
+                    type: 'boolean',
+                    description:
+                      'Return unindented JSON with only the main fields of each item (default: false)',
+                  },
+                  fields: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description:
+                      'Fields to keep on each item (overrides the compact defaults)',
+                  },
+                },
+              },
+            },
+            {
+              name: 'get_websocket_messages',
+              description:
+                'List the WebSocket frames and EventSource (Server-Sent Events) messages captured during a previous analysis, per connection, with optional filtering by connection, direction and substring',
+              inputSchema: {
+                type: 'object',
+                properties: {
+                  analysisId: {
+                    type: 'string',
+                    description:
+                      'The ID of a stored analysis (takes precedence over url)',
+                  },
+                  url: {
+                    type: 'string',
+                    description:
+                      'The URL that was previously analyzed (uses the latest analysis)',
+                  },
+                  connectionId: {
+                    type: 'string',
+                    description:
+                      'Only include this connection (IDs are listed in the analysis summary)',
+                  },
+                  contains: {
+                    type: 'string',
+                    description:
+                      'Only include text messages whose data contains this text (binary frames never match)',
+                  },
+                  direction: {
+                    type: 'string',
+                    enum: ['sent', 'received'],
+                    description: 'Only include sent or received messages',
+                  },
+                  limit: {
+                    type: 'number',
+                    description:
+                      'Maximum messages per page, across connections (default: 100, max: 1000)',
+                    default: 100,
+                  },
+                  cursor: {
+                    type: 'string',
+                    description:
+                      'The nextCursor value of a previous response, to fetch the next page',
+                  },
+                  compact: {
+                    type: 'boolean',
+                    description: 'Return unindented JSON (default: false)',
+                  },
+                },
+              },
+            },
+            {
+              name: 'search_requests',
+              description:
+                'Search the captured requests of a previous analysis by substring or /regex/ in the URL, request headers, post data and response body, with filters on status range, method, resource type and content type. Returns matching request IDs with highlighted snippets.',
+              inputSchema: {
+                type: 'object',
+                properties: {
+                  analysisId: {
+                    type: 'string',
+                    description:
+                      'The ID of a stored analysis (takes precedence over url)',
+                  },
+                  url: {
+                    type: 'string',
+                    description:
+                      'The URL that was previously analyzed (uses the latest analysis)',
+                  },
+                  query: {
+                    type: 'string',
+                    description:
+                      'Text to find, or a /regex/ with optional flags. Without a query only the filters apply.',
+                  },
+                  caseSensitive: {
+                    type: 'boolean',
+                    description:
+                      'Match text queries case-sensitively (default: false; regex queries use their own flags)',
+                    default: false,
+                  },
+                  fields: {
+                    type: 'array',
+                    items: {
+                      type: 'string',
+                      enum: ['url', 'requestHeaders', 'postData', 'responseBody'],
+                    },
+                    description: 'Fields to search (default: all)',
+                  },
+                  method: {
+                    type: 'string',
+                    description: "Only include requests with this method (e.g., 'POST')",
+                  },
+                  resourceType: {
+                    type: 'string',
+                    description:
+                      "Only include requests of this resource type (e.g., 'xhr')",
+                  },
+                  contentType: {
+                    type: 'string',
+                    description:
+                      "Only include responses whose content type contains this text (e.g., 'json')",
+                  },
+                  statusMin: {
+                    type: 'number',
+                    description: 'Only include responses with at least this status',
+                  },
+                  statusMax: {
+                    type: 'number',
+                    description: 'Only include responses with at most this status',
+                  },
+                  limit: {
+                    type: 'number',
+                    description:
+                      'Maximum requests per page (default: 20, max: 500)',
+                    default: 20,
+                  },
+                  cursor: {
+                    type: 'string',
+                    description:
+                      'The nextCursor value of a previous response, to fetch the next page',
+                  },
+                  compact: {
+                    type: 'boolean',
+                    description:
+                      'Return unindented JSON with only the main fields of each item (default: false)',
+                  },
+                },
+              },
+            },
+            {
+              name: 'query_response',
+              description:
+                'Query the JSON response body of a captured request with a JSONPath ($.items[*].price) or JMESPath (items[?price > `10`].name) expression and return only the matched nodes, or summarize its structure (keys, types and array lengths) without the data',
+              inputSchema: {
+                type: 'object',
+                properties: {
+                  analysisId: {
+                    type: 'string',
+                    description:
+                      'The ID of a stored analysis (takes precedence over url)',
+                  },
+                  url: {
+                    type: 'string',
+                    description:
+                      'The URL that was previously analyzed (uses the latest analysis)',
+                  },
+                  requestId: {
+                    type: 'string',
+                    description: 'The ID of the request whose response to query',
+                  },
+                  expression: {
+                    type: 'string',
+                    description:
+                      'JSONPath or JMESPath expression (required in query mode; in schema mode the matched nodes are summarized)',
+                  },
+                  language: {
+                    type: 'string',
+                    enum: ['jsonpath', 'jmespath'],
+                    description:
+                      'Expression language (default: jsonpath when the expression starts with $, otherwise jmespath)',
+                  },
+                  mode: {
+                    type: 'string',
+                    enum: ['query', 'schema'],
+                    description:
+                      "Return matched data, or a summary of keys, types and array lengths (default: 'query')",
+                    default: 'query',
+                  },
+                  maxDepth: {
+                    type: 'number',
+                    description:
+                      'Nesting levels expanded in schema mode (default: 5, max: 20)',
+                    default: 5,
+                  },
+                  limit: {
+                    type: 'number',
+                    description:
+                      'Maximum number of matches or result items to return (default: 100, max: 500)',
+                    default: 100,
+                  },
+                },
+                required: ['requestId'],
+              },
+            },
+            {
+              name: 'get_response_body',
+              description:
+                'Read the response body of a captured request by range. Complete bodies kept with bodyCapture.retainFullBodies are served from the body store; otherwise the inline body is served and marked incomplete when it was truncated. Text bodies are paged by characters, binary bodies by bytes and returned base64-encoded.',
+              inputSchema: {
+                type: 'object',
+                properties: {
+                  analysisId: {
+                    type: 'string',
+                    description:
+                      'The ID of a stored analysis (takes precedence over url)',
+                  },
+                  url: {
+                    type: 'string',
+                    description:
+                      'The URL that was previously analyzed (uses the latest analysis)',
+                  },
+                  requestId: {
+                    type: 'string',
+                    description: 'The ID of the request whose response body to read',
+                  },
+                  offset: {
+                    type: 'number',
+                    description:
+                      'Start of the range in characters (text) or bytes (binary) (default: 0)',
+                    default: 0,
+                  },
+                  length: {
+                    type: 'number',
+                    description:
+                      'Size of the range in characters (text) or bytes (binary) (default: 50000, max: 1000000)',
+                    default: 50000,
+                  },
+                },
+                required: ['requestId'],
+              },
+            },
+            {
+              name: 'take_screenshot',
+              description:
+                'Load a URL and take a PNG screenshot of the full page, the viewport, or an element, returned as image content and stored in the screenshot output directory',
+              inputSchema: {
+                type: 'object',
+                properties: {
+                  url: {
+                    type: 'string',
+                    description:
+                      'The URL to capture (must include http:// or https://)',
+                  },
+                  type: {
+                    type: 'string',
+                    enum: ['fullPage', 'viewport', 'element'],
+                    description:
+                      'What to capture (default: element when a selector is given, otherwise fullPage)',
+                  },
+                  selector: {
+                    type: 'string',
+                    description:
+                      'CSS selector of the element to capture, e.g. one returned by extract_html_elements',
+                  },
+                },
+                required: ['url'],
+              },
+            },
+            {
+              name: 'get_page_content',
+              description:
+                "Load a URL in the browser and return the page's readable content as Markdown (links and tables preserved), plain text, or the rendered HTML, optionally cut to a token budget by section",
+              inputSchema: {
+                type: 'object',
+                properties: {
+                  url: {
+                    type: 'string',
+                    description:
+                      'The URL to load (must include http:// or https://)',
+                  },
+                  format: {
+                    type: 'string',
+                    enum: ['markdown', 'text', 'html'],
+                    description: 'Output format (default: markdown)',
+                    default: 'markdown',
+                  },
+                  mainContentOnly: {
+                    type: 'boolean',
+                    description:
+                      'Keep only the main content, without navigation, headers, footers, sidebars and ads; applies to markdown and text (default: true)',
+                    default: true,
+                  },
+                  maxTokens: {
+                    type: 'number',
+                    description:
+                      'Approximate token budget; longer content is cut by section and the omitted section headings are listed (min: 100)',
+                  },
+                  waitTime: {
+                    type: 'number',
+                    description:
+                      'Additional wait time in milliseconds for dynamic content (default: 3000, max: 10000)',
+                    default: 3000,
+                  },
+                  quickMode: {
+                    type: 'boolean',
+                    description:
+                      'Use quick loading mode with minimal waiting (default: false)',
+                    default: false,
+                  },
+                },
+                required: ['url'],
+              },
+            },
+            {
+              name: 'extract_tables',
+              description:
+                "Extract the tables of a page, including ARIA table and grid layouts, as arrays of header-keyed row objects with each table's CSS selector. Row and column spans are expanded and nested tables are returned separately",
+              inputSchema: {
+                type: 'object',
+                properties: {
+                  url: {
+                    type: 'string',
+                    description:
+                      'The URL to analyze (must include http:// or https://)',
+                  },
+                  minRows: {
+                    type: 'number',
+                    description:
+                      'Leave out tables with fewer body rows (default: 0)',
+                  },
+                  limit: {
+                    type: 'number',
+                    description: 'Maximum tables per page (default: 50, max: 500)',
+                  },
+                  cursor: {
+                    type: 'string',
+                    description:
+                      'The nextCursor value of a previous response, to fetch the next page',
+                  },
+                  compact: {
+                    type: 'boolean',
+                    description:
+                      'Return unindented JSON with only the selector, caption, headers and row count of each table (default: false)',
+                  },
+                  fields: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description:
+                      'Fields to keep on each table (overrides the compact defaults)',
+                  },
+                },
+                required: ['url'],
+              },
+            },
+            {
+              name: 'extract_structured_data',
+              description:
+                'Extract the JSON-LD (including @graph), microdata and RDFa items of a page as JSON-LD-shaped objects grouped by schema.org type (Product, Article, BreadcrumbList, ...), plus page metadata: canonical URL, OpenGraph and Twitter card tags, hreflang alternates and robots directives',
+              inputSchema: {
+                type: 'object',
+                properties: {
+                  url: {
+                    type: 'string',
+                    description:
+                      'The URL to analyze (must include http:// or https://)',
+                  },
+                  types: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description:
+                      'Only return items of these schema.org types, e.g. ["Product", "Offer"] (case-insensitive)',
+                  },
+                },
+                required: ['url'],
+              },
+            },
+            {
+              name: 'extract_with_schema',
+              description:
+                'Extract typed records from a rendered page: one record per element matching a container selector, with each field read by a CSS selector or XPath relative to its container. Fields read text, inner HTML or an attribute and can be trimmed, parsed as numbers, resolved to absolute URLs or matched with a regex. Fields that cannot be read are null and listed in errors with the record index',
+              inputSchema: {
+                type: 'object',
+                properties: {
+                  url: {
+                    type: 'string',
+                    description:
+                      'The URL to analyze (must include http:// or https://)',
+                  },
+                  containerSelector: {
+                    type: 'string',
+                    description:
+                      'CSS selector of the record containers, e.g. ".product-card". The whole page is one record when no container is given',
+                  },
+                  containerXpath: {
+                    type: 'string',
+                    description:
+                      'XPath of the record containers, instead of containerSelector',
+                  },
+                  fields: {
+                    type: 'object',
+                    description:
+                      'Field name -> how to read it, e.g. {"title": {"selector": "h2"}, "price": {"selector": ".price", "transform": "number"}, "link": {"selector": "a", "attribute": "href", "transform": "url-resolve"}}',
+                    additionalProperties: {
+                      type: 'object',
+                      properties: {
+                        selector: {
+                          type: 'string',
+                          description: 'CSS selector matched inside the container, as if prefixed with :scope',
+                        },
+                        xpath: {
+                          type: 'string',
+                          description:
+                            'XPath relative to the container, e.g. .//span[@itemprop="sku"], instead of selector; an absolute path such as //span is read as .//span',
+                        },
+                        source: {
+                          type: 'string',
+                          enum: ['text', 'html', 'attribute'],
+                          description:
+                            'What to read: whitespace-collapsed text (default), inner HTML, or the named attribute',
+                        },
+                        attribute: {
+                          type: 'string',
+                          description: 'Attribute to read, e.g. "href" or "src"',
+                        },
+                        transform: {
+                          oneOf: [
+                            {
+                              type: 'string',
+                              enum: ['trim', 'number', 'url-resolve', 'regex'],
+                            },
+                            {
+                              type: 'array',
+                              items: {
+                                type: 'string',
+                                enum: ['trim', 'number', 'url-resolve', 'regex'],
+                              },
+                            },
+                          ],
+                          description:
+                            'Transforms applied in order: trim whitespace, parse the first number ("$1,299.99" -> 1299.99), resolve against the page URL, or keep the first group of pattern',
+                        },
+                        pattern: {
+                          type: 'string',
+                          description:
+                            'Regular expression of the regex transform; its first group, else the whole match, is kept',
+                        },
+                        multiple: {
+                          type: 'boolean',
+                          description:
+                            'Return all matches as an array instead of the first one',
+                        },
+                      },
+                    },
+                  },
+                  limit: {
+                    type: 'number',
+                    description: 'Maximum records per page (default: 100, max: 500)',
+                  },
+                  cursor: {
+                    type: 'string',
+                    description:
+                      'The nextCursor value of a previous response, to fetch the next page',
+                  },
+                  compact: {
+                    type: 'boolean',
+                    description: 'Return unindented JSON (default: false)',
+                  },
+                },
+                required: ['url', 'fields'],
+              },
+            },
+            {
+              name: 'detect_lists',
+              description:
+                'Detect the repeated structures of a rendered page (product grids, search results, comments, ...): groups of at least three sibling elements sharing a tag and class signature, ranked by the area they cover, then by item count. Each list has a container selector, an item selector, its item count and fields inferred from sample items, ready to use with extract_with_schema',
+              inputSchema: {
+                type: 'object',
+                properties: {
+                  url: {
+                    type: 'string',
+                    description:
+                      'The URL to analyze (must include http:// or https://)',
+                  },
+                  minItems: {
+                    type: 'number',
+                    description:
+                      'Leave out lists with fewer items (default: 3, min: 3)',
+                  },
+                  limit: {
+                    type: 'number',
+                    description: 'Maximum lists per page (default: 20, max: 500)',
+                  },
+                  cursor: {
+                    type: 'string',
+                    description:
+                      'The nextCursor value of a previous response, to fetch the next page',
+                  },
+                  compact: {
+                    type: 'boolean',
+                    description:
+                      'Return unindented JSON with only the container selector, item selector and item count of each list (default: false)',
+                  },
+                  fields: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description:
+                      'Fields to keep on each list (overrides the compact defaults)',
+                  },
+                },
+                required: ['url'],
+              },
+            },
+            {
+              name: 'test_selector',
+              description:
+                'Evaluate CSS, XPath or Playwright selectors (text=, role=, :has-text(), ...) against a rendered page, to verify a proposed selector before using it. With an analysisId, the page that analysis kept open (keepPageOpen) is used as its actions left it, without reloading; if it is no longer open, the analyzed URL is loaded in a new page. With a url, that URL is loaded in a new page. Returns the match count of each selector, the tag, text, attributes, outer HTML snippet, bounding box and visibility of its first matches, warnings when it matches no element or more than one, the parse error of invalid selectors, and with an analysisId whether the open page was used (openPage)',
+              inputSchema: {
+                type: 'object',
+                properties: {
+                  analysisId: {
+                    type: 'string',
+                    description:
+                      'The ID of an analysis run with keepPageOpen, whose open page is tested (takes precedence over url)',
+                  },
+                  url: {
+                    type: 'string',
+                    description:
+                      'The URL to load in a new page (must include http:// or https://)',
+                  },
+                  selectors: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description:
+                      'Selectors to evaluate (1 to 20), e.g. "#login button.primary", "//h1" or "text=Sign in"',
+                  },
+                  maxMatches: {
+                    type: 'number',
+                    description:
+                      'Matches described per selector (default: 5, max: 20)',
+                  },
+                },
+                required: ['selectors'],
+              },
+            },
         ],
       });
     });
@@ -400,9 +1433,30 @@ describe('WebScraperMCPServer', () => {
 
       const result = await callToolHandler(request);
 
-      expect(mockHandlers.handleGetRequestSummary).toHaveBeenCalledWith(
-        'https://example.com'
-      );
+      expect(mockHandlers.handleGetRequestSummary).toHaveBeenCalledWith({
+        url: 'https://example.com',
+      });
+      expect(result).toEqual(mockResult);
+    });
+
+    it('should handle list_analyses tool', async () => {
+      const mockResult = {
+        content: [{ type: 'text', text: 'analyses' }],
+      };
+      mockHandlers.handleListAnalyses.mockResolvedValue(mockResult);
+
+      const request = {
+        params: {
+          name: 'list_analyses',
+          arguments: { url: 'https://example.com' },
+        },
+      };
+
+      const result = await callToolHandler(request);
+
+      expect(mockHandlers.handleListAnalyses).toHaveBeenCalledWith({
+        url: 'https://example.com',
+      });
       expect(result).toEqual(mockResult);
     });
 
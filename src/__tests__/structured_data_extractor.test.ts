@@ -0,0 +1,164 @@
+import { StructuredDataExtractor } from "../services/structured_data_extractor.js";
+import { Logger } from "../logger.js";
+
+describe("StructuredDataExtractor", () => {
+  let mockLogger: jest.Mocked<Logger>;
+  let extractor: StructuredDataExtractor;
+
+  const raw = (overrides: Record<string, unknown> = {}) => ({
+    jsonLd: [],
+    microdata: [],
+    rdfa: [],
+    title: "Page",
+    robots: [],
+    openGraph: [],
+    twitter: [],
+    hreflang: [],
+    ...overrides,
+  });
+  const pageReturning = (data: Record<string, unknown>) =>
+    ({ evaluate: jest.fn().mockResolvedValue(data), url: () => "https://shop.example.com/p/1" }) as any;
+
+  beforeEach(() => {
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    } as unknown as jest.Mocked<Logger>;
+    extractor = new StructuredDataExtractor(mockLogger);
+  });
+
+  it("should parse JSON-LD blocks, arrays and @graph lists and group items by type", async () => {
+    const page = pageReturning(
+      raw({
+        jsonLd: [
+          JSON.stringify({
+            "@context": "https://schema.org",
+            "@type": "Product",
+            name: "Desk",
+            offers: { "@type": "https://schema.org/Offer", price: "199.00", priceCurrency: "EUR" },
+          }),
+          JSON.stringify({
+            "@context": "https://schema.org",
+            "@graph": [
+              { "@type": "WebSite", name: "Shop" },
+              { "@type": ["schema:Organization", "Brand"], name: "Acme" },
+            ],
+          }),
+          JSON.stringify([{ "@type": "BreadcrumbList", itemListElement: [] }, { name: "untyped" }]),
+        ],
+      })
+    );
+
+    const result = await extractor.extract(page);
+
+    expect(result.url).toBe("https://shop.example.com/p/1");
+    expect(result.itemCount).toBe(5);
+    expect(result.items.Product).toEqual([
+      {
+        "@type": "Product",
+        "@source": "json-ld",
+        name: "Desk",
+        offers: { "@type": "Offer", price: "199.00", priceCurrency: "EUR" },
+      },
+    ]);
+    expect(result.items.WebSite).toEqual([{ "@type": "WebSite", "@source": "json-ld", name: "Shop" }]);
+    expect(result.items.Organization![0]!["@type"]).toEqual(["Organization", "Brand"]);
+    expect(result.items.BreadcrumbList).toHaveLength(1);
+    expect(result.items.Thing).toEqual([{ "@source": "json-ld", name: "untyped" }]);
+    expect(result.errors).toBeUndefined();
+  });
+
+  it("should report JSON-LD blocks that cannot be parsed and keep the others", async () => {
+    const page = pageReturning(raw({ jsonLd: ["{ not json", JSON.stringify({ "@type": "Article", headline: "Hi" })] }));
+
+    const result = await extractor.extract(page);
+
+    expect(result.errors).toEqual([expect.stringMatching(/^JSON-LD block 1: /)]);
+    expect(result.items.Article).toHaveLength(1);
+  });
+
+  it("should convert microdata and RDFa items, nesting items and collecting repeated properties", async () => {
+    const page = pageReturning(
+      raw({
+        microdata: [
+          {
+            types: ["https://schema.org/Product"],
+            id: "urn:sku:42",
+            properties: [
+              { name: "name", value: "Lamp" },
+              { name: "image", value: "https://shop.example.com/a.jpg" },
+              { name: "image", value: "https://shop.example.com/b.jpg" },
+              {
+                name: "offers",
+                value: { types: ["http://schema.org/Offer"], properties: [{ name: "price", value: "25" }] },
+              },
+            ],
+          },
+        ],
+        rdfa: [
+          {
+            types: ["http://schema.org/Person"],
+            properties: [
+              { name: "schema:name", value: "Ada" },
+              { name: "jobTitle", value: "Engineer" },
+            ],
+          },
+        ],
+      })
+    );
+
+    const result = await extractor.extract(page);
+
+    expect(result.items.Product).toEqual([
+      {
+        "@source": "microdata",
+        "@type": "Product",
+        "@id": "urn:sku:42",
+        name: "Lamp",
+        image: ["https://shop.example.com/a.jpg", "https://shop.example.com/b.jpg"],
+        offers: { "@source": "microdata", "@type": "Offer", price: "25" },
+      },
+    ]);
+    expect(result.items.Person).toEqual([{ "@source": "rdfa", "@type": "Person", name: "Ada", jobTitle: "Engineer" }]);
+  });
+
+  it("should collect head metadata and robots directives from meta tags and the X-Robots-Tag header", async () => {
+    const page = pageReturning(
+      raw({
+        description: "A desk",
+        canonical: "https://shop.example.com/p/1",
+        robots: ["noindex, follow", "NOINDEX"],
+        openGraph: [
+          ["og:title", "Desk"],
+          ["og:image", "https://shop.example.com/1.jpg"],
+          ["og:image", "https://shop.example.com/2.jpg"],
+        ],
+        twitter: [["twitter:card", "summary_large_image"]],
+        hreflang: [{ hreflang: "de", href: "https://shop.example.com/de/p/1" }],
+      })
+    );
+
+    const result = await extractor.extract(page, "noarchive");
+
+    expect(result.meta).toEqual({
+      title: "Page",
+      description: "A desk",
+      canonical: "https://shop.example.com/p/1",
+      robots: {
+        meta: ["noindex, follow", "NOINDEX"],
+        header: "noarchive",
+        directives: ["noindex", "follow", "noarchive"],
+      },
+      openGraph: {
+        "og:title": "Desk",
+        "og:image": ["https://shop.example.com/1.jpg", "https://shop.example.com/2.jpg"],
+      },
+      twitter: { "twitter:card": "summary_large_image" },
+      hreflang: [{ hreflang: "de", href: "https://shop.example.com/de/p/1" }],
+    });
+    expect(result.itemCount).toBe(0);
+    expect(result.items).toEqual({});
+  });
+});
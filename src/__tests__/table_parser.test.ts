@@ -0,0 +1,130 @@
+import { TableParser } from "../services/table_parser.js";
+import { type RawTable, type RawTableCell } from "../types.js";
+
+const td = (text: string, colSpan = 1, rowSpan = 1): RawTableCell => ({ text, header: false, colSpan, rowSpan });
+const th = (text: string, colSpan = 1, rowSpan = 1): RawTableCell => ({ text, header: true, colSpan, rowSpan });
+const table = (rows: RawTableCell[][], headRows = 0, caption?: string): RawTable => ({
+  caption,
+  rows: rows.map((cells, index) => ({ cells, head: index < headRows })),
+});
+
+describe("TableParser", () => {
+  let parser: TableParser;
+
+  beforeEach(() => {
+    parser = new TableParser();
+  });
+
+  it("should key body rows by the thead headers", () => {
+    const result = parser.parse(table([[th("Name"), th("Age")], [td("Ada"), td("36")], [td("Alan"), td("41")]], 1, "People"));
+
+    expect(result).toEqual({
+      caption: "People",
+      headers: ["Name", "Age"],
+      headerSource: "thead",
+      rows: [
+        { Name: "Ada", Age: "36" },
+        { Name: "Alan", Age: "41" },
+      ],
+      rowCount: 2,
+      columnCount: 2,
+    });
+  });
+
+  it("should expand column and row spans", () => {
+    const result = parser.parse(
+      table([
+        [th("Region"), th("Product"), th("Sales")],
+        [td("North", 1, 2), td("A"), td("10")],
+        [td("B"), td("20")],
+        [td("Total", 2), td("30")],
+      ])
+    );
+
+    expect(result.headerSource).toBe("th");
+    expect(result.rows).toEqual([
+      { Region: "North", Product: "A", Sales: "10" },
+      { Region: "North", Product: "B", Sales: "20" },
+      { Region: "Total", Product: "Total", Sales: "30" },
+    ]);
+  });
+
+  it("should treat a rowspan of 0 as spanning the rest of the table", () => {
+    const result = parser.parse(table([[th("Group"), th("Item")], [td("All", 1, 0), td("x")], [td("y")]]));
+
+    expect(result.rows).toEqual([
+      { Group: "All", Item: "x" },
+      { Group: "All", Item: "y" },
+    ]);
+  });
+
+  it("should join stacked header rows into one key per column", () => {
+    const result = parser.parse(
+      table(
+        [
+          [th("Country", 1, 2), th("2023", 2)],
+          [th("Revenue"), th("Profit")],
+          [td("France"), td("100"), td("12")],
+        ],
+        2
+      )
+    );
+
+    expect(result.headers).toEqual(["Country", "2023 / Revenue", "2023 / Profit"]);
+    expect(result.rows).toEqual([{ Country: "France", "2023 / Revenue": "100", "2023 / Profit": "12" }]);
+  });
+
+  it("should infer headers from a first row of distinct labels", () => {
+    const result = parser.parse(table([[td("City"), td("Population")], [td("Paris"), td("2,100,000")]]));
+
+    expect(result.headerSource).toBe("inferred");
+    expect(result.rows).toEqual([{ City: "Paris", Population: "2,100,000" }]);
+  });
+
+  it("should number the columns when no header row can be found", () => {
+    const result = parser.parse(table([[td("1"), td("2")], [td("3"), td("4")]]));
+
+    expect(result.headerSource).toBe("none");
+    expect(result.headers).toEqual(["Column 1", "Column 2"]);
+    expect(result.rows).toEqual([
+      { "Column 1": "1", "Column 2": "2" },
+      { "Column 1": "3", "Column 2": "4" },
+    ]);
+  });
+
+  it("should make duplicate headers unique and name empty ones by position", () => {
+    const result = parser.parse(table([[th("Score"), th("Score"), th("")], [td("1"), td("2"), td("3")]]));
+
+    expect(result.headers).toEqual(["Score", "Score (2)", "Column 3"]);
+  });
+
+  it("should skip empty rows and header rows repeated in the body", () => {
+    const result = parser.parse(
+      table([[th("Name"), th("Team")], [td("Ada"), td("Red")], [td(""), td("")], [th("Name"), th("Team")], [td("Alan"), td("Blue")]])
+    );
+
+    expect(result.rows).toEqual([
+      { Name: "Ada", Team: "Red" },
+      { Name: "Alan", Team: "Blue" },
+    ]);
+    expect(result.rowCount).toBe(2);
+  });
+
+  it("should fill missing cells of short rows with empty strings", () => {
+    const result = parser.parse(table([[th("A"), th("B"), th("C")], [td("1")]]));
+
+    expect(result.rows).toEqual([{ A: "1", B: "", C: "" }]);
+    expect(result.columnCount).toBe(3);
+  });
+
+  it("should handle tables without rows", () => {
+    expect(parser.parse(table([]))).toEqual({
+      caption: undefined,
+      headers: [],
+      headerSource: "none",
+      rows: [],
+      rowCount: 0,
+      columnCount: 0,
+    });
+  });
+});
@@ -1,13 +1,23 @@
-import { type Page } from "patchright";
+import { type Page, type Response } from "patchright";
 import { BrowserManager } from "./browser.js";
-import { type CapturedRequest, type SiteAnalysisResult, type AnalysisOptions } from "./types.js";
+import { type CapturedRequest, type SiteAnalysisResult, type AnalysisOptions, type RealtimeConnection, type ScreenshotInfo, type ScreenshotOptions, type PageContent, type PageContentOptions, type ExtractedTable, type TableData, type FormInfo, type StructuredData, type ExtractionSchema, type SchemaExtractionResult, type DetectedList, type SelectorCandidate, type SelectorTestResult } from "./types.js";
 import { Logger } from "./logger.js";
 import { RequestMonitor } from "./services/request_monitor.js";
+import { BodyStore } from "./services/body_store.js";
 import { PageAnalyzer } from "./services/page_analyzer.js";
 import { StorageCapturer } from "./services/storage_capturer.js";
 import { ReportGenerator } from "./services/report_generator.js";
+import { ActionRunner } from "./services/action_runner.js";
+import { RealtimeMonitor } from "./services/realtime_monitor.js";
+import { RouteInterceptor } from "./services/route_interceptor.js";
+import { ScreenshotCapturer } from "./services/screenshot_capturer.js";
+import { ContentExtractor } from "./services/content_extractor.js";
+import { ContentRenderer } from "./services/content_renderer.js";
+import { StructuredDataExtractor } from "./services/structured_data_extractor.js";
+import { SchemaExtractor } from "./services/schema_extractor.js";
+import { SelectorTester } from "./services/selector_tester.js";
 import { config } from "./config.js";
-import { InvalidUrlError, AnalysisTimeoutError } from "./errors.js";
+import { InvalidUrlError, AnalysisTimeoutError, ResourceNotFoundError, InvalidSelectorError } from "./errors.js";
 
 /**
  * Website analyzer class responsible for capturing and analyzing HTTP requests
@@ -19,14 +29,34 @@ export class WebsiteAnalyzer {
   private pageAnalyzer: PageAnalyzer;
   private storageCapturer: StorageCapturer;
   private reportGenerator: ReportGenerator;
+  private actionRunner: ActionRunner;
+  private realtimeMonitor: RealtimeMonitor;
+  private routeInterceptor: RouteInterceptor;
+  private screenshotCapturer: ScreenshotCapturer;
+  private contentExtractor: ContentExtractor;
+  private contentRenderer: ContentRenderer;
+  private structuredDataExtractor: StructuredDataExtractor;
+  private schemaExtractor: SchemaExtractor;
+  private selectorTester: SelectorTester;
+  /** Pages kept open after their analysis, oldest first */
+  private openPages = new Map<string, Page>();
 
-  constructor(browserManager: BrowserManager, logger: Logger) {
+  constructor(browserManager: BrowserManager, logger: Logger, bodyStore: BodyStore = new BodyStore(logger)) {
     this.browserManager = browserManager;
     this.logger = logger;
-    this.requestMonitor = new RequestMonitor(logger);
+    this.requestMonitor = new RequestMonitor(logger, bodyStore);
     this.pageAnalyzer = new PageAnalyzer(logger);
     this.storageCapturer = new StorageCapturer(logger);
     this.reportGenerator = new ReportGenerator();
+    this.actionRunner = new ActionRunner(logger);
+    this.realtimeMonitor = new RealtimeMonitor(logger);
+    this.routeInterceptor = new RouteInterceptor(logger);
+    this.screenshotCapturer = new ScreenshotCapturer(logger);
+    this.contentExtractor = new ContentExtractor(logger);
+    this.contentRenderer = new ContentRenderer();
+    this.structuredDataExtractor = new StructuredDataExtractor(logger);
+    this.schemaExtractor = new SchemaExtractor(logger);
+    this.selectorTester = new SelectorTester(logger);
   }
 
   /**
@@ -36,7 +66,7 @@ export class WebsiteAnalyzer {
    * @throws {Error} If analysis fails or URL is invalid
    */
   async analyzeWebsite(options: AnalysisOptions): Promise<SiteAnalysisResult> {
-    const { url, waitTime = config.timeouts.defaultWait, includeImages = false, quickMode = false } = options;
+    const { url, waitTime = config.timeouts.defaultWait, includeImages = false, quickMode = false, actions = [], routes = [], bodyCapture, screenshot, openPageId } = options;
 
     // Validate URL format
     try {
@@ -49,12 +79,20 @@ export class WebsiteAnalyzer {
     const context = this.browserManager.getContext();
     const page = await context.newPage();
     const capturedRequests: CapturedRequest[] = [];
+    const realtimeConnections: RealtimeConnection[] = [];
 
     try {
       this.logger.info(`[Setup] Setting up request monitoring for ${url}`);
 
       // Set up request monitoring
-      this.requestMonitor.setupRequestMonitoring(page, capturedRequests, includeImages);
+      this.requestMonitor.setupRequestMonitoring(page, capturedRequests, includeImages, bodyCapture);
+      await this.requestMonitor.trackInitiators(page);
+      await this.realtimeMonitor.setupRealtimeMonitoring(page, realtimeConnections);
+      if (routes.length > 0) {
+        await this.routeInterceptor.installRoutes(page, routes, (request, interception) =>
+          this.requestMonitor.markIntercepted(page, request, interception)
+        );
+      }
 
       this.logger.info(`[Navigation] Loading ${url}...`);
 
@@ -66,23 +104,45 @@ export class WebsiteAnalyzer {
 
       // Wait for network stability
       await this.waitForNetworkStability(page);
+      this.requestMonitor.setPhase(page, "networkidle");
 
-      // Wait for additional dynamic content if specified
-      const actualWaitTime = quickMode ? config.timeouts.quickModeWait : Math.min(waitTime, 10000);
-      if (actualWaitTime > 0) {
-        this.logger.info(`[Wait] Waiting ${actualWaitTime}ms for additional requests...`);
-        await page.waitForTimeout(actualWaitTime);
-      }
+      await this.waitForDynamicContent(page, waitTime, quickMode);
+      this.requestMonitor.setPhase(page, "post-wait");
+
+      // Run scripted interactions while monitoring keeps recording
+      const actionResults = actions.length > 0
+        ? await this.actionRunner.runActions(page, actions, capturedRequests)
+        : undefined;
+
+      // Capture the page as left by the actions, e.g. to spot a captcha wall
+      const screenshotInfo = screenshot ? await this.captureScreenshot(page, screenshot) : undefined;
 
       // Extract page information and analyze requests
       const title = await page.title();
       const renderMethod = await this.pageAnalyzer.detectRenderMethod(page);
       const browserStorage = await this.storageCapturer.captureBrowserStorage(page);
       const analysisResult = this.reportGenerator.generateAnalysisResult(url, title, capturedRequests, renderMethod, browserStorage);
+      if (actionResults) {
+        analysisResult.actionResults = actionResults;
+      }
+      if (screenshotInfo) {
+        analysisResult.screenshot = screenshotInfo;
+      }
+      if (realtimeConnections.length > 0) {
+        // Copy so frames arriving while the page closes do not alter the result
+        analysisResult.realtimeConnections = realtimeConnections.map((connection) => ({
+          ...connection,
+          messages: [...connection.messages],
+        }));
+      }
 
       this.logger.info(`[Complete] Captured ${capturedRequests.length} requests from ${analysisResult.uniqueDomains.length} domains`);
 
-      await page.close();
+      if (openPageId) {
+        await this.keepPageOpen(openPageId, page);
+      } else {
+        await page.close();
+      }
       return analysisResult;
 
     } catch (error) {
@@ -103,12 +163,130 @@ export class WebsiteAnalyzer {
    * Extract HTML elements from a URL by delegating to PageAnalyzer
    * @param url The URL to analyze
    * @param filterType The type of elements to extract
+   * @param selectorCandidates Whether to add selector candidates to each element
    * @returns Array of extracted elements
    */
   async extractHtmlElements(
     url: string,
-    filterType: 'text' | 'image' | 'link' | 'script'
-  ): Promise<Array<{ content: string, selector: string, type: string, tag: string, attributes: Record<string, string> }>> {
+    filterType: 'text' | 'image' | 'link' | 'script' | 'table' | 'form',
+    selectorCandidates = false
+  ): Promise<Array<{ content: string, selector: string, type: string, tag: string, attributes: Record<string, string>, table?: TableData, form?: FormInfo, selectors?: SelectorCandidate[] }>> {
+    return this.extractFromPage(url, "elements", (page) => {
+      this.logger.info(`[Extraction] Extracting elements from ${url} with filter '${filterType}'`);
+      return this.pageAnalyzer.extractImportantElements(page, filterType, selectorCandidates);
+    });
+  }
+
+  /**
+   * Extract one typed record per container of a URL, reading each field of
+   * the schema relative to its container
+   * @param {string} url - The URL to load
+   * @param {ExtractionSchema} schema - The containers and fields to read
+   * @returns {Promise<SchemaExtractionResult>} The records and the fields that could not be read
+   * @throws {InvalidUrlError} If the URL is invalid
+   * @throws {InvalidSelectorError} If a selector or XPath of the schema cannot be parsed
+   * @throws {AnalysisTimeoutError} If the page does not load in time
+   */
+  async extractWithSchema(url: string, schema: ExtractionSchema): Promise<SchemaExtractionResult> {
+    return this.extractFromPage(url, "records", async (page) => {
+      const container = schema.containerXpath ? `xpath=${schema.containerXpath}` : schema.containerSelector;
+      if (container) {
+        // Containers rendered by scripts may appear after DOMContentLoaded
+        await page.waitForSelector(container, { state: "attached", timeout: config.timeouts.defaultWait }).catch(() => undefined);
+      }
+      const result = await this.schemaExtractor.extract(page, schema);
+      this.logger.info(`[Extraction] Extracted ${result.records.length} records from ${url}`);
+      return result;
+    });
+  }
+
+  /**
+   * Detect the repeated structures of a URL, such as product grids and
+   * result lists, once the network is idle so that items loaded from API
+   * responses are included
+   * @param {string} url - The URL to load
+   * @returns {Promise<DetectedList[]>} The lists with their selectors and inferred fields, largest first
+   * @throws {InvalidUrlError} If the URL is invalid
+   * @throws {AnalysisTimeoutError} If the page does not load in time
+   */
+  async detectLists(url: string): Promise<DetectedList[]> {
+    return this.extractFromPage(url, "lists", async (page) => {
+      await this.waitForNetworkStability(page);
+      const lists = await this.pageAnalyzer.detectLists(page);
+      this.logger.info(`[Extraction] Detected ${lists.length} lists on ${url}`);
+      return lists;
+    });
+  }
+
+  /**
+   * Evaluate selectors against a URL once the network is idle, describing
+   * their first matches. The URL is loaded in a new page; see
+   * testSelectorsOnOpenPage for the page an analysis kept open.
+   * @param {string} url - The URL to load
+   * @param {string[]} selectors - CSS, XPath or Playwright selectors
+   * @param {number} maxMatches - Matches described per selector
+   * @returns {Promise<SelectorTestResult[]>} One result per selector
+   * @throws {InvalidUrlError} If the URL is invalid
+   * @throws {AnalysisTimeoutError} If the page does not load in time
+   */
+  async testSelectors(url: string, selectors: string[], maxMatches: number): Promise<SelectorTestResult[]> {
+    return this.extractFromPage(url, "selector matches", async (page) => {
+      await this.waitForNetworkStability(page);
+      this.logger.info(`[Extraction] Testing ${selectors.length} selectors on ${url}`);
+      return this.selectorTester.test(page, selectors, maxMatches);
+    });
+  }
+
+  /**
+   * Evaluate selectors against the page an analysis kept open, in the state
+   * its actions left it, without reloading it
+   * @param {string} openPageId - The ID the page was kept open under
+   * @param {string[]} selectors - CSS, XPath or Playwright selectors
+   * @param {number} maxMatches - Matches described per selector
+   * @returns {Promise<SelectorTestResult[] | undefined>} One result per selector, or undefined when the page is no longer open
+   */
+  async testSelectorsOnOpenPage(openPageId: string, selectors: string[], maxMatches: number): Promise<SelectorTestResult[] | undefined> {
+    const page = this.openPages.get(openPageId);
+    if (!page || page.isClosed()) {
+      return undefined;
+    }
+    this.logger.info(`[Extraction] Testing ${selectors.length} selectors on the open page of ${page.url()}`);
+    return this.selectorTester.test(page, selectors, maxMatches);
+  }
+
+  /**
+   * Keep the page of a finished analysis open once its monitoring stops,
+   * closing the oldest open pages beyond config.limits.maxOpenPages
+   * @param {string} openPageId - The ID to keep the page under
+   * @param {Page} page - The analyzed page
+   */
+  private async keepPageOpen(openPageId: string, page: Page): Promise<void> {
+    await this.requestMonitor.stopMonitoring(page);
+    this.openPages.set(openPageId, page);
+    page.once("close", () => this.openPages.delete(openPageId));
+
+    for (const [id, openPage] of this.openPages) {
+      if (this.openPages.size <= config.limits.maxOpenPages) {
+        break;
+      }
+      this.openPages.delete(id);
+      await openPage.close().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Load a URL in a new page once its DOM is ready, run an extraction on it
+   * and close the page. Browser timeouts become AnalysisTimeoutError, and
+   * other failures a generic error, except for the errors the caller reports
+   * to the client.
+   * @param {string} url - The URL to load
+   * @param {string} what - What is extracted, used in log and error messages
+   * @param {(page: Page, response: Response | null) => Promise<T>} extract - The extraction to run on the loaded page, with the navigation response
+   * @returns {Promise<T>} The result of the extraction
+   * @throws {InvalidUrlError} If the URL is invalid
+   * @throws {AnalysisTimeoutError} If the page or the extraction times out
+   */
+  private async extractFromPage<T>(url: string, what: string, extract: (page: Page, response: Response | null) => Promise<T>): Promise<T> {
     // Validate URL format
     try {
       new URL(url);
@@ -121,25 +299,108 @@ export class WebsiteAnalyzer {
     const page = await context.newPage();
 
     try {
-      this.logger.info(`[Extraction] Extracting elements from ${url} with filter '${filterType}'`);
       this.logger.info(`[Navigation] Loading ${url}...`);
-      await page.goto(url, {
+      const response = await page.goto(url, {
         waitUntil: "domcontentloaded",
         timeout: config.timeouts.navigation
       });
 
-      const elements = await this.pageAnalyzer.extractImportantElements(page, filterType);
+      const result = await extract(page, response);
       await page.close();
-      return elements;
+      return result;
     } catch (error) {
-      this.logger.error(`[Error] Failed to extract elements from ${url}: ${error instanceof Error ? error.message : String(error)}`);
+      this.logger.error(`[Error] Failed to extract ${what} from ${url}: ${error instanceof Error ? error.message : String(error)}`);
       await page.close();
 
+      if (error instanceof InvalidSelectorError || error instanceof ResourceNotFoundError) {
+        throw error;
+      }
+      if (error instanceof Error && error.name === "TimeoutError") {
+        throw new AnalysisTimeoutError(`Extracting ${what} from ${url} timed out. The site may be slow to load or have blocking resources.`);
+      }
       // For non-invalid URLs, throw generic
-      throw new Error("Failed to extract elements");
+      throw new Error(`Failed to extract ${what}`);
     }
   }
 
+  /**
+   * Extract the tables of a URL once the network is idle, so that tables
+   * filled from API responses are included
+   * @param {string} url - The URL to load
+   * @returns {Promise<ExtractedTable[]>} The tables with their header-keyed rows
+   * @throws {InvalidUrlError} If the URL is invalid
+   * @throws {AnalysisTimeoutError} If the page does not load in time
+   */
+  async extractTables(url: string): Promise<ExtractedTable[]> {
+    return this.extractFromPage(url, "tables", async (page) => {
+      await this.waitForNetworkStability(page);
+      const tables = await this.pageAnalyzer.extractTables(page);
+      this.logger.info(`[Extraction] Extracted ${tables.length} tables from ${url}`);
+      return tables;
+    });
+  }
+
+  /**
+   * Extract the JSON-LD, microdata and RDFa items of a URL and its head
+   * metadata once the network is idle, so that injected JSON-LD is included
+   * @param {string} url - The URL to load
+   * @returns {Promise<StructuredData>} The items grouped by schema.org type and the page metadata
+   * @throws {InvalidUrlError} If the URL is invalid
+   * @throws {AnalysisTimeoutError} If the page does not load in time
+   */
+  async extractStructuredData(url: string): Promise<StructuredData> {
+    return this.extractFromPage(url, "structured data", async (page, response) => {
+      await this.waitForNetworkStability(page);
+      const data = await this.structuredDataExtractor.extract(page, response?.headers()["x-robots-tag"]);
+      this.logger.info(`[Extraction] Extracted ${data.itemCount} structured data items from ${url}`);
+      return data;
+    });
+  }
+
+  /**
+   * Load a URL, wait for it like analyzeWebsite does, and return its
+   * rendered HTML or its content converted to Markdown or plain text
+   * @param {string} url - The URL to load
+   * @param {PageContentOptions} options - Output format, main content extraction, token budget and wait settings
+   * @returns {Promise<PageContent>} The page content
+   * @throws {InvalidUrlError} If the URL is invalid
+   * @throws {AnalysisTimeoutError} If the page does not load in time
+   */
+  async getPageContent(url: string, options: PageContentOptions = {}): Promise<PageContent> {
+    const { format = "markdown", mainContentOnly = true, maxTokens, waitTime = config.timeouts.defaultWait, quickMode = false } = options;
+
+    return this.extractFromPage(url, "content", async (page) => {
+      await this.waitForNetworkStability(page);
+      await this.waitForDynamicContent(page, waitTime, quickMode);
+
+      const title = await page.title();
+      const rendered = format === "html"
+        ? this.contentRenderer.renderHtml(await page.content(), maxTokens)
+        : this.contentRenderer.render(await this.contentExtractor.captureContent(page, mainContentOnly), format, maxTokens);
+      const content: PageContent = { url, finalUrl: page.url(), title, format, ...rendered };
+
+      this.logger.info(`[Content] Extracted ~${content.tokens} tokens of ${format} from ${url}${content.truncated ? " (truncated)" : ""}`);
+      return content;
+    });
+  }
+
+  /**
+   * Load a URL and take a screenshot of it once the network is idle
+   * @param {string} url - The URL to capture
+   * @param {ScreenshotOptions} options - What to capture
+   * @returns {Promise<{ screenshot: ScreenshotInfo; data: Buffer }>} The stored screenshot and its PNG bytes
+   * @throws {InvalidUrlError} If the URL is invalid
+   * @throws {InvalidSelectorError} If the selector cannot be parsed
+   * @throws {ResourceNotFoundError} If no element matches the selector
+   * @throws {AnalysisTimeoutError} If the page or the screenshot times out
+   */
+  async takeScreenshot(url: string, options: ScreenshotOptions = {}): Promise<{ screenshot: ScreenshotInfo; data: Buffer }> {
+    return this.extractFromPage(url, "screenshot", async (page) => {
+      await this.waitForNetworkStability(page);
+      return this.screenshotCapturer.capture(page, options);
+    });
+  }
+
   /**
    * Set up request and response monitoring for the page
    * @param {Page} page - The browser page to monitor
@@ -206,6 +467,39 @@ export class WebsiteAnalyzer {
     }
   }
 
+  /**
+   * Take the screenshot requested for an analysis. A failed capture is
+   * recorded with its error rather than failing the analysis.
+   */
+  private async captureScreenshot(page: Page, options: ScreenshotOptions): Promise<ScreenshotInfo> {
+    try {
+      return (await this.screenshotCapturer.capture(page, options)).screenshot;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`[Screenshot] Capture failed: ${message}`);
+      return {
+        type: options.type ?? (options.selector ? "element" : "fullPage"),
+        selector: options.selector,
+        capturedAt: new Date().toISOString(),
+        error: message,
+      };
+    }
+  }
+
+  /**
+   * Wait for additional dynamic content after the network settled
+   * @param {Page} page - The browser page to wait on
+   * @param {number} waitTime - Requested wait in milliseconds, capped at 10 seconds
+   * @param {boolean} quickMode - Whether to use the short quick mode wait instead
+   */
+  private async waitForDynamicContent(page: Page, waitTime: number, quickMode: boolean): Promise<void> {
+    const actualWaitTime = quickMode ? config.timeouts.quickModeWait : Math.min(waitTime, 10000);
+    if (actualWaitTime > 0) {
+      this.logger.info(`[Wait] Waiting ${actualWaitTime}ms for additional requests...`);
+      await page.waitForTimeout(actualWaitTime);
+    }
+  }
+
   /**
    * Wait for network stability with timeout protection
    * @param {Page} page - The browser page to wait for
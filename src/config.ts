@@ -1,12 +1,39 @@
+import { type SelectorStrategy } from "./types.js";
+
 export const config = {
   timeouts: {
     navigation: 30000,
     networkIdle: 10000,
     defaultWait: 3000,
     quickModeWait: 1000,
+    action: 10000,
+    actionSettle: 500,
+    screenshot: 10000,
   },
   limits: {
     maxResponseBodySize: 50000,
+    maxRealtimeMessages: 1000,
+    maxRealtimeMessageSize: 10000,
+    maxOpenPages: 3,
+  },
+  output: {
+    directory: "output",
+    screenshotDirectory: "output/screenshots",
+    maxScreenshotBytes: 200 * 1024 * 1024,
+    maxInlineScreenshotBytes: 1024 * 1024,
+    maxInlineScreenshotDimension: 8000,
+  },
+  storage: {
+    maxEntries: 100,
+    maxBytes: 200 * 1024 * 1024,
+    ttl: 24 * 60 * 60 * 1000,
+    bodyDirectory: "output/bodies",
+    maxBodyBytes: 500 * 1024 * 1024,
+  },
+  selectors: {
+    strategies: ["test-id", "id", "aria", "data-attribute", "css", "nth-of-type", "text", "xpath"] as SelectorStrategy[],
+    testIdAttributes: ["data-testid", "data-test-id", "data-test", "data-qa", "data-cy"],
+    maxCandidates: 5,
   },
   detection: {
     antiBotDomains: [
@@ -26,4 +26,14 @@ export class ResourceNotFoundError extends Error {
     super(message);
     this.name = "ResourceNotFoundError";
   }
+}
+
+/**
+ * Custom error class for CSS selectors or XPath expressions that cannot be parsed
+ */
+export class InvalidSelectorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidSelectorError";
+  }
 }
\ No newline at end of file
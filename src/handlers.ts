@@ -1,17 +1,29 @@
 import { WebsiteAnalyzer } from './analyzer.js';
 import { Logger } from './logger.js';
 import { config } from './config.js';
+import {
+  MemoryAnalysisStore,
+  type AnalysisStore,
+} from './services/analysis_store.js';
+import { BodyStore } from './services/body_store.js';
 
 import * as analysisHandlers from './handlers/analysis.js';
 import * as requestHandlers from './handlers/request.js';
 import * as fetchHandlers from './handlers/fetch.js';
 import * as extractHandlers from './handlers/extract.js';
+import * as harHandlers from './handlers/har.js';
+import * as apiHandlers from './handlers/api.js';
+import * as realtimeHandlers from './handlers/realtime.js';
+import * as screenshotHandlers from './handlers/screenshot.js';
+import * as contentHandlers from './handlers/content.js';
 
 export type HandlerContext = {
   analyzer: WebsiteAnalyzer;
-  analysisResults: Map<string, any>;
+  analysisResults: AnalysisStore;
   logger: Logger;
   config: typeof config;
+  /** Complete response bodies, shared with the analyzer that stores them */
+  bodyStore: BodyStore;
 };
 
 /**
@@ -20,18 +32,26 @@ export type HandlerContext = {
  */
 export class MCPToolHandlers {
   private analyzer: WebsiteAnalyzer;
-  private analysisResults: Map<string, any> = new Map();
+  private analysisResults: AnalysisStore;
   private logger: Logger;
   public context: HandlerContext;
 
-  constructor(analyzer: WebsiteAnalyzer, logger: Logger) {
+  constructor(
+    analyzer: WebsiteAnalyzer,
+    logger: Logger,
+    analysisResults?: AnalysisStore,
+    bodyStore?: BodyStore
+  ) {
     this.analyzer = analyzer;
     this.logger = logger;
+    this.analysisResults =
+      analysisResults ?? new MemoryAnalysisStore(this.logger);
     this.context = {
       analyzer: this.analyzer,
       analysisResults: this.analysisResults,
       logger: this.logger,
       config,
+      bodyStore: bodyStore ?? new BodyStore(this.logger),
     };
   }
 
@@ -47,8 +67,28 @@ export class MCPToolHandlers {
     return requestHandlers.handleGetRequestDetails(this.context, filter);
   }
 
-  async handleGetRequestSummary(url: unknown): Promise<object> {
-    return analysisHandlers.handleGetRequestSummary(this.context, url);
+  async handleGetSlowestRequests(params: unknown): Promise<object> {
+    return requestHandlers.handleGetSlowestRequests(this.context, params);
+  }
+
+  async handleSearchRequests(params: unknown): Promise<object> {
+    return requestHandlers.handleSearchRequests(this.context, params);
+  }
+
+  async handleQueryResponse(params: unknown): Promise<object> {
+    return requestHandlers.handleQueryResponse(this.context, params);
+  }
+
+  async handleGetResponseBody(params: unknown): Promise<object> {
+    return requestHandlers.handleGetResponseBody(this.context, params);
+  }
+
+  async handleGetRequestSummary(params: unknown): Promise<object> {
+    return analysisHandlers.handleGetRequestSummary(this.context, params);
+  }
+
+  async handleListAnalyses(params: unknown): Promise<object> {
+    return analysisHandlers.handleListAnalyses(this.context, params);
   }
 
   async handleFetch(options: unknown): Promise<object> {
@@ -59,11 +99,64 @@ export class MCPToolHandlers {
     return extractHandlers.handleExtractHtmlElements(this.context, params);
   }
 
+  async handleExtractTables(params: unknown): Promise<object> {
+    return extractHandlers.handleExtractTables(this.context, params);
+  }
+
+  async handleExtractStructuredData(params: unknown): Promise<object> {
+    return extractHandlers.handleExtractStructuredData(this.context, params);
+  }
+
+  async handleExtractWithSchema(params: unknown): Promise<object> {
+    return extractHandlers.handleExtractWithSchema(this.context, params);
+  }
+
+  async handleDetectLists(params: unknown): Promise<object> {
+    return extractHandlers.handleDetectLists(this.context, params);
+  }
+
+  async handleTestSelector(params: unknown): Promise<object> {
+    return extractHandlers.handleTestSelector(this.context, params);
+  }
+
+  async handleTakeScreenshot(params: unknown): Promise<object> {
+    return screenshotHandlers.handleTakeScreenshot(this.context, params);
+  }
+
+  async handleGetPageContent(params: unknown): Promise<object> {
+    return contentHandlers.handleGetPageContent(this.context, params);
+  }
+
+  async handleExportHar(params: unknown): Promise<object> {
+    return harHandlers.handleExportHar(this.context, params);
+  }
+
+  async handleImportHar(params: unknown): Promise<object> {
+    return harHandlers.handleImportHar(this.context, params);
+  }
+
+  async handleDiscoverApiEndpoints(params: unknown): Promise<object> {
+    return apiHandlers.handleDiscoverApiEndpoints(this.context, params);
+  }
+
+  async handleGetGraphqlOperations(params: unknown): Promise<object> {
+    return apiHandlers.handleGetGraphqlOperations(this.context, params);
+  }
+
+  async handleGetWebsocketMessages(params: unknown): Promise<object> {
+    return realtimeHandlers.handleGetWebsocketMessages(this.context, params);
+  }
+
   /** Clear stored analysis results (for testing or memory management) */
   clearAnalysisResults(): void {
     this.analysisResults.clear();
   }
 
+  /** Release the result store on shutdown; persistent stores keep their data */
+  closeAnalysisResults(): void {
+    this.analysisResults.close();
+  }
+
   /** Get number of stored analysis results (for testing) */
   getStoredResultsCount(): number {
     return this.analysisResults.size;
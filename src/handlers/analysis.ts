@@ -1,28 +1,79 @@
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { randomUUID } from 'node:crypto';
 import { HandlerContext } from './../handlers.js';
 import {
   InvalidUrlError,
   AnalysisTimeoutError,
   ResourceNotFoundError,
 } from '../errors.js';
-import { AnalysisOptionsSchema, UrlSchema } from './schemas.js';
+import {
+  AnalysisOptionsSchema,
+  ListAnalysesSchema,
+  RequestSummarySchema,
+} from './schemas.js';
+import { resolveAnalysis } from './lookup.js';
+import { formatResult, paginate, selectFields } from './pagination.js';
+import { type AnalysisListEntry } from '../types.js';
+import { GraphqlInspector } from '../services/graphql_inspector.js';
+import { ScreenshotCapturer } from '../services/screenshot_capturer.js';
+import { screenshotContent } from './screenshot.js';
+
+/** Domain fields kept by compact output when no fields are selected */
+const COMPACT_DOMAIN_FIELDS = ['domain', 'requestCount'];
 
 /**
  * Generate analysis summary from site analysis result
  */
-function generateAnalysisSummary(result: any) {
-  const domains = result.uniqueDomains.map((domain: string) => ({
-    domain,
-    requestCount: result.requests.filter((req: any) => {
+export function generateAnalysisSummary(result: any) {
+  const graphqlInspector = new GraphqlInspector();
+
+  const domains = result.uniqueDomains.map((domain: string) => {
+    const domainRequests = result.requests.filter((req: any) => {
       try {
         return new URL(req.url).hostname === domain;
       } catch {
         return false;
       }
-    }).length,
-  }));
+    });
+
+    // Break GraphQL traffic down by operation
+    let graphqlOperations: Record<string, number> | undefined;
+    for (const req of domainRequests) {
+      for (const operation of graphqlInspector.parseRequest(req)) {
+        const label = graphqlInspector.getLabel(operation);
+        graphqlOperations ??= {};
+        graphqlOperations[label] = (graphqlOperations[label] ?? 0) + 1;
+      }
+    }
+
+    // Unknown (-1) sizes and timings are left out of the totals
+    return {
+      domain,
+      requestCount: domainRequests.length,
+      totalBytes: domainRequests.reduce(
+        (sum: number, req: any) =>
+          sum + Math.max(req.sizes?.transferSize ?? 0, 0),
+        0
+      ),
+      totalTime: domainRequests.reduce(
+        (sum: number, req: any) => sum + Math.max(req.timing?.total ?? 0, 0),
+        0
+      ),
+      graphqlOperations,
+    };
+  });
+
+  // Object keys keep insertion order, so phases appear in the order they occurred
+  let requestsByPhase: Record<string, number> | undefined;
+  for (const req of result.requests) {
+    if (req.phase) {
+      requestsByPhase ??= {};
+      requestsByPhase[req.phase] = (requestsByPhase[req.phase] ?? 0) + 1;
+    }
+  }
 
   return {
+    analysisId: result.analysisId,
     websiteInfo: {
       url: result.url,
       title: result.title,
@@ -33,10 +84,19 @@ function generateAnalysisSummary(result: any) {
       totalRequests: result.totalRequests,
       uniqueDomains: result.uniqueDomains.length,
       requestsByType: result.requestsByType,
+      requestsByPhase,
     },
     domains,
     antiBotDetection: result.antiBotDetection,
     browserStorage: result.browserStorage,
+    actionResults: result.actionResults,
+    screenshot: result.screenshot,
+    realtimeConnections: result.realtimeConnections?.map((connection: any) => ({
+      id: connection.id,
+      type: connection.type,
+      url: connection.url,
+      messageCount: connection.messages.length + connection.droppedMessages,
+    })),
   };
 }
 
@@ -61,32 +121,53 @@ export async function handleAnalyzeWebsite(
     waitTime = context.config.timeouts.defaultWait,
     includeImages = false,
     quickMode = false,
+    actions,
+    routes,
+    bodyCapture,
+    screenshot,
+    keepPageOpen,
   } = validatedOptions as any;
 
   context.logger.info(`[Analysis] Starting analysis of ${url}`);
 
+  // Store the analysis result under a fresh ID so re-runs never overwrite
+  const analysisId = randomUUID();
+
   try {
     const result = await context.analyzer.analyzeWebsite({
       url,
       waitTime: quickMode ? context.config.timeouts.quickModeWait : waitTime,
       includeImages,
       quickMode,
+      ...(actions ? { actions } : {}),
+      ...(routes ? { routes } : {}),
+      ...(bodyCapture ? { bodyCapture } : {}),
+      ...(screenshot ? { screenshot } : {}),
+      ...(keepPageOpen ? { openPageId: analysisId } : {}),
     });
 
-    // Store the analysis result for later retrieval
-    context.analysisResults.set(url, result);
+    const storedResult = { ...result, analysisId };
+    context.analysisResults.set(analysisId, storedResult);
 
     // Generate and return domain summary
-    const summary = generateAnalysisSummary(result);
+    const summary = generateAnalysisSummary(storedResult);
+    const content: object[] = [
+      {
+        type: 'text',
+        text: JSON.stringify(summary, null, 2),
+      },
+    ];
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(summary, null, 2),
-        },
-      ],
-    };
+    if (storedResult.screenshot?.path) {
+      const png = await new ScreenshotCapturer(context.logger).read(
+        storedResult.screenshot
+      );
+      if (png) {
+        content.push(screenshotContent(context, storedResult.screenshot, png));
+      }
+    }
+
+    return { content };
   } catch (error) {
     if (error instanceof InvalidUrlError) {
       throw new McpError(ErrorCode.InvalidParams, error.message);
@@ -105,13 +186,20 @@ export async function handleAnalyzeWebsite(
   }
 }
 
+/**
+ * Handle getting the summary of a stored analysis.
+ * Accepts a bare URL string for backward compatibility, or an
+ * `{ analysisId?, url? }` lookup object.
+ */
 export async function handleGetRequestSummary(
   context: HandlerContext,
-  url: unknown
+  params: unknown
 ): Promise<object> {
-  let validatedUrl;
+  let validatedParams;
   try {
-    validatedUrl = UrlSchema.parse(url);
+    validatedParams = RequestSummarySchema.parse(
+      typeof params === 'string' ? { url: params } : params
+    );
   } catch (error) {
     throw new McpError(
       ErrorCode.InvalidParams,
@@ -121,21 +209,67 @@ export async function handleGetRequestSummary(
     );
   }
 
-  const result = context.analysisResults.get(validatedUrl);
-  if (!result) {
+  const { analysisId, url } = validatedParams;
+  const result = resolveAnalysis(context, { analysisId, url });
+  const summary = generateAnalysisSummary(result);
+  const page = paginate(summary.domains, validatedParams, 100);
+
+  return formatResult(
+    {
+      ...summary,
+      domains: selectFields(page.items, validatedParams, COMPACT_DOMAIN_FIELDS),
+      nextCursor: page.nextCursor,
+    },
+    validatedParams.compact
+  );
+}
+
+/**
+ * Handle listing stored analyses, newest first
+ */
+export async function handleListAnalyses(
+  context: HandlerContext,
+  params: unknown
+): Promise<object> {
+  let validatedParams;
+  try {
+    validatedParams = ListAnalysesSchema.parse(params ?? {});
+  } catch (error) {
     throw new McpError(
       ErrorCode.InvalidParams,
-      `No analysis found for URL: ${validatedUrl}. Please run analyze_website_requests first.`
+      `Invalid parameters: ${
+        error instanceof Error ? error.message : 'Unknown validation error'
+      }`
     );
   }
 
-  const summary = generateAnalysisSummary(result);
+  const { url } = validatedParams;
+  const analyses: AnalysisListEntry[] = [];
+  for (const [analysisId, result] of context.analysisResults.entries()) {
+    if (url && result.url !== url) {
+      continue;
+    }
+    analyses.push({
+      analysisId: result.analysisId ?? analysisId,
+      url: result.url,
+      title: result.title,
+      analysisTimestamp: result.analysisTimestamp,
+      totalRequests: result.totalRequests,
+      uniqueDomains: result.uniqueDomains.length,
+      antiBotDetection: result.antiBotDetection,
+    });
+  }
+  analyses.reverse();
 
   return {
     content: [
       {
         type: 'text',
-        text: JSON.stringify(summary, null, 2),
+        text: JSON.stringify(
+          { totalAnalyses: analyses.length, analyses },
+          null,
+          2
+        ),
       },
     ],
   };
@@ -0,0 +1,122 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { HandlerContext } from './../handlers.js';
+import {
+  DiscoverApiEndpointsSchema,
+  GraphqlOperationsSchema,
+} from './schemas.js';
+import { readStoredText, resolveAnalysis } from './lookup.js';
+import { formatResult, paginate, selectFields } from './pagination.js';
+import { ApiDiscovery } from '../services/api_discovery.js';
+import { GraphqlInspector } from '../services/graphql_inspector.js';
+
+/** Operation fields kept by compact output when no fields are selected */
+const COMPACT_OPERATION_FIELDS = [
+  'label',
+  'endpoint',
+  'operationType',
+  'count',
+];
+
+/**
+ * Handle discovering the API endpoints of a stored analysis, returned as an
+ * OpenAPI 3.1 document or as the raw endpoint list
+ */
+export async function handleDiscoverApiEndpoints(
+  context: HandlerContext,
+  params: unknown
+): Promise<object> {
+  let validatedParams;
+  try {
+    validatedParams = DiscoverApiEndpointsSchema.parse(params);
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid parameters: ${
+        error instanceof Error ? error.message : 'Unknown validation error'
+      }`
+    );
+  }
+
+  const { analysisId, url, domain, format = 'openapi' } = validatedParams;
+  const result = resolveAnalysis(context, { analysisId, url });
+  const discovery = new ApiDiscovery();
+  const endpoints = await discovery.discoverEndpoints(
+    result,
+    domain,
+    (request) => readStoredText(context, request)
+  );
+
+  context.logger.info(
+    `[API] Discovered ${endpoints.length} endpoints in analysis of ${result.url}`
+  );
+
+  const output =
+    format === 'openapi'
+      ? discovery.toOpenApi(result, endpoints)
+      : {
+          analysisId: result.analysisId,
+          url: result.url,
+          totalEndpoints: endpoints.length,
+          endpoints,
+        };
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(output, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Handle listing the GraphQL operations of a stored analysis, grouped by
+ * endpoint, type and operation name
+ */
+export async function handleGetGraphqlOperations(
+  context: HandlerContext,
+  params: unknown
+): Promise<object> {
+  let validatedParams;
+  try {
+    validatedParams = GraphqlOperationsSchema.parse(params);
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid parameters: ${
+        error instanceof Error ? error.message : 'Unknown validation error'
+      }`
+    );
+  }
+
+  const { analysisId, url, operationName, operationType } = validatedParams;
+  const result = resolveAnalysis(context, { analysisId, url });
+  const summaries = await new GraphqlInspector().summarizeOperations(
+    result.requests,
+    (request) => readStoredText(context, request)
+  );
+  const operations = summaries.filter(
+    (operation) =>
+      (!operationName || operation.operationName === operationName) &&
+      (!operationType || operation.operationType === operationType)
+  );
+  const page = paginate(operations, validatedParams, 100);
+
+  const output = {
+    analysisId: result.analysisId,
+    url: result.url,
+    totalOperations: operations.reduce(
+      (sum, operation) => sum + operation.count,
+      0
+    ),
+    operations: selectFields(
+      page.items,
+      validatedParams,
+      COMPACT_OPERATION_FIELDS
+    ),
+    nextCursor: page.nextCursor,
+  };
+
+  return formatResult(output, validatedParams.compact);
+}
@@ -0,0 +1,63 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { HandlerContext } from './../handlers.js';
+import { PageContentSchema } from './schemas.js';
+import { AnalysisTimeoutError, InvalidUrlError } from '../errors.js';
+
+/**
+ * Handle loading a page and returning its readable content. The details
+ * come as JSON in a first text block, the content itself unescaped in a
+ * second one.
+ */
+export async function handleGetPageContent(
+  context: HandlerContext,
+  params: unknown
+): Promise<object> {
+  let validatedParams;
+  try {
+    validatedParams = PageContentSchema.parse(params);
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid parameters: ${
+        error instanceof Error ? error.message : 'Unknown validation error'
+      }`
+    );
+  }
+
+  const { url, ...options } = validatedParams;
+  context.logger.info(
+    `[Content] Getting ${options.format ?? 'markdown'} content of ${url}`
+  );
+
+  try {
+    const { content, ...details } = await context.analyzer.getPageContent(
+      url,
+      options
+    );
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(details, null, 2),
+        },
+        {
+          type: 'text',
+          text: content,
+        },
+      ],
+    };
+  } catch (error) {
+    if (error instanceof InvalidUrlError) {
+      throw new McpError(ErrorCode.InvalidParams, error.message);
+    } else if (error instanceof AnalysisTimeoutError) {
+      throw new McpError(ErrorCode.RequestTimeout, error.message);
+    }
+    context.logger.error(
+      `[Content] Unknown content error: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw new McpError(ErrorCode.InternalError, 'Unknown content error');
+  }
+}
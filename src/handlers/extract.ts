@@ -1,7 +1,29 @@
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import { HandlerContext } from './../handlers.js';
-import { ExtractHtmlElementsSchema } from './schemas.js';
-import { InvalidUrlError } from '../errors.js';
+import {
+  DetectListsSchema,
+  ExtractHtmlElementsSchema,
+  ExtractTablesSchema,
+  ExtractWithSchemaSchema,
+  StructuredDataSchema,
+  TestSelectorSchema,
+} from './schemas.js';
+import { resolveAnalysis } from './lookup.js';
+import { formatResult, paginate, selectFields } from './pagination.js';
+import {
+  AnalysisTimeoutError,
+  InvalidSelectorError,
+  InvalidUrlError,
+} from '../errors.js';
+
+/** Element fields kept by compact output when no fields are selected */
+const COMPACT_ELEMENT_FIELDS = ['tag', 'selector', 'content'];
+
+/** Table fields kept by compact output, leaving out the rows */
+const COMPACT_TABLE_FIELDS = ['selector', 'caption', 'headers', 'rowCount'];
+
+/** List fields kept by compact output, leaving out the inferred fields */
+const COMPACT_LIST_FIELDS = ['containerSelector', 'itemSelector', 'itemCount'];
 
 /**
  * Handle extraction of HTML elements from a URL
@@ -22,7 +44,7 @@ export async function handleExtractHtmlElements(
     );
   }
 
-  const { url, filterType } = validatedParams as any;
+  const { url, filterType, selectorCandidates } = validatedParams;
 
   context.logger.info(
     `[Extraction] Extracting elements from ${url} with filter '${filterType}'`
@@ -31,35 +53,366 @@ export async function handleExtractHtmlElements(
     `[Extraction] Params validated: ${JSON.stringify({ url, filterType })}`
   );
 
+  let elements;
   try {
-    const elements = await context.analyzer.extractHtmlElements(
+    elements = await context.analyzer.extractHtmlElements(
       url,
-      filterType
+      filterType,
+      selectorCandidates
     );
     context.logger.info(
       `[Extraction] Extracted ${
         Array.isArray(elements) ? elements.length : 0
       } elements from ${url}`
     );
+  } catch (error) {
+    context.logger.error(
+      `[Extraction] Failed to extract elements: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    if (error instanceof InvalidUrlError) {
+      throw new McpError(ErrorCode.InvalidParams, error.message);
+    } else if (error instanceof AnalysisTimeoutError) {
+      throw new McpError(ErrorCode.RequestTimeout, error.message);
+    } else {
+      throw new McpError(ErrorCode.InternalError, 'Unknown extraction error');
+    }
+  }
+
+  // Each page re-extracts the live page, so later pages may shift if it changed
+  const page = paginate(elements, validatedParams, 200);
+
+  return formatResult(
+    {
+      url,
+      filterType,
+      totalElements: elements.length,
+      elements: selectFields(
+        page.items,
+        validatedParams,
+        COMPACT_ELEMENT_FIELDS
+      ),
+      nextCursor: page.nextCursor,
+    },
+    validatedParams.compact
+  );
+}
+
+/**
+ * Handle extraction of tables from a URL as header-keyed rows
+ */
+export async function handleExtractTables(
+  context: HandlerContext,
+  params: unknown
+): Promise<object> {
+  let validatedParams;
+  try {
+    validatedParams = ExtractTablesSchema.parse(params);
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid parameters: ${
+        error instanceof Error ? error.message : 'Unknown validation error'
+      }`
+    );
+  }
+
+  const { url, minRows = 0 } = validatedParams;
+  context.logger.info(`[Extraction] Extracting tables from ${url}`);
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(elements, null, 2),
-        },
-      ],
+  let tables;
+  try {
+    tables = await context.analyzer.extractTables(url);
+  } catch (error) {
+    context.logger.error(
+      `[Extraction] Failed to extract tables: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    if (error instanceof InvalidUrlError) {
+      throw new McpError(ErrorCode.InvalidParams, error.message);
+    } else if (error instanceof AnalysisTimeoutError) {
+      throw new McpError(ErrorCode.RequestTimeout, error.message);
+    } else {
+      throw new McpError(ErrorCode.InternalError, 'Unknown extraction error');
+    }
+  }
+
+  const matching = tables.filter((table) => table.rowCount >= minRows);
+  const page = paginate(matching, validatedParams, 50);
+
+  return formatResult(
+    {
+      url,
+      totalTables: matching.length,
+      tables: selectFields(page.items, validatedParams, COMPACT_TABLE_FIELDS),
+      nextCursor: page.nextCursor,
+    },
+    validatedParams.compact
+  );
+}
+
+/**
+ * Handle extraction of JSON-LD, microdata and RDFa items and head metadata
+ * from a URL
+ */
+export async function handleExtractStructuredData(
+  context: HandlerContext,
+  params: unknown
+): Promise<object> {
+  let validatedParams;
+  try {
+    validatedParams = StructuredDataSchema.parse(params);
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid parameters: ${
+        error instanceof Error ? error.message : 'Unknown validation error'
+      }`
+    );
+  }
+
+  const { url, types } = validatedParams;
+  context.logger.info(`[Extraction] Extracting structured data from ${url}`);
+
+  let data;
+  try {
+    data = await context.analyzer.extractStructuredData(url);
+  } catch (error) {
+    context.logger.error(
+      `[Extraction] Failed to extract structured data: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    if (error instanceof InvalidUrlError) {
+      throw new McpError(ErrorCode.InvalidParams, error.message);
+    } else if (error instanceof AnalysisTimeoutError) {
+      throw new McpError(ErrorCode.RequestTimeout, error.message);
+    } else {
+      throw new McpError(ErrorCode.InternalError, 'Unknown extraction error');
+    }
+  }
+
+  if (types) {
+    const wanted = new Set(types.map((type) => type.toLowerCase()));
+    const items = Object.fromEntries(
+      Object.entries(data.items).filter(([type]) =>
+        wanted.has(type.toLowerCase())
+      )
+    );
+    data = {
+      ...data,
+      items,
+      itemCount: Object.values(items).reduce(
+        (count, group) => count + group.length,
+        0
+      ),
     };
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Handle extraction of typed records from a URL with a container selector
+ * and a field map
+ */
+export async function handleExtractWithSchema(
+  context: HandlerContext,
+  params: unknown
+): Promise<object> {
+  let validatedParams;
+  try {
+    validatedParams = ExtractWithSchemaSchema.parse(params);
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid parameters: ${
+        error instanceof Error ? error.message : 'Unknown validation error'
+      }`
+    );
+  }
+
+  const { url, containerSelector, containerXpath, fields } = validatedParams;
+  context.logger.info(`[Extraction] Extracting records from ${url}`);
+
+  let result;
+  try {
+    result = await context.analyzer.extractWithSchema(url, {
+      containerSelector,
+      containerXpath,
+      fields,
+    });
   } catch (error) {
     context.logger.error(
-      `[Extraction] Failed to extract elements: ${
+      `[Extraction] Failed to extract records: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    if (
+      error instanceof InvalidUrlError ||
+      error instanceof InvalidSelectorError
+    ) {
+      throw new McpError(ErrorCode.InvalidParams, error.message);
+    } else if (error instanceof AnalysisTimeoutError) {
+      throw new McpError(ErrorCode.RequestTimeout, error.message);
+    } else {
+      throw new McpError(ErrorCode.InternalError, 'Unknown extraction error');
+    }
+  }
+
+  // Page the records with their indexes, keeping the errors of the page's records
+  const page = paginate(
+    result.records.map((record, index) => ({ record, index })),
+    { limit: validatedParams.limit, cursor: validatedParams.cursor },
+    100
+  );
+  const indexes = new Set(page.items.map((item) => item.index));
+
+  return formatResult(
+    {
+      url: result.url,
+      totalRecords: result.records.length,
+      containerCount: result.containerCount,
+      truncated: result.truncated,
+      records: page.items.map((item) => item.record),
+      errors: result.errors.filter((error) => indexes.has(error.record)),
+      nextCursor: page.nextCursor,
+    },
+    validatedParams.compact
+  );
+}
+
+/**
+ * Handle detection of the repeated structures of a URL
+ */
+export async function handleDetectLists(
+  context: HandlerContext,
+  params: unknown
+): Promise<object> {
+  let validatedParams;
+  try {
+    validatedParams = DetectListsSchema.parse(params);
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid parameters: ${
+        error instanceof Error ? error.message : 'Unknown validation error'
+      }`
+    );
+  }
+
+  const { url, minItems = 3 } = validatedParams;
+  context.logger.info(`[Extraction] Detecting lists on ${url}`);
+
+  let lists;
+  try {
+    lists = await context.analyzer.detectLists(url);
+  } catch (error) {
+    context.logger.error(
+      `[Extraction] Failed to detect lists: ${
         error instanceof Error ? error.message : String(error)
       }`
     );
     if (error instanceof InvalidUrlError) {
       throw new McpError(ErrorCode.InvalidParams, error.message);
+    } else if (error instanceof AnalysisTimeoutError) {
+      throw new McpError(ErrorCode.RequestTimeout, error.message);
     } else {
       throw new McpError(ErrorCode.InternalError, 'Unknown extraction error');
     }
   }
+
+  const matching = lists.filter((list) => list.itemCount >= minItems);
+  const page = paginate(matching, validatedParams, 20);
+
+  return formatResult(
+    {
+      url,
+      totalLists: matching.length,
+      lists: selectFields(page.items, validatedParams, COMPACT_LIST_FIELDS),
+      nextCursor: page.nextCursor,
+    },
+    validatedParams.compact
+  );
+}
+
+/**
+ * Handle evaluation of selectors against a URL, or against the page an
+ * analysis kept open
+ */
+export async function handleTestSelector(
+  context: HandlerContext,
+  params: unknown
+): Promise<object> {
+  let validatedParams;
+  try {
+    validatedParams = TestSelectorSchema.parse(params);
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid parameters: ${
+        error instanceof Error ? error.message : 'Unknown validation error'
+      }`
+    );
+  }
+
+  const { analysisId, selectors, maxMatches } = validatedParams;
+  // Without an open page, the analysis URL is loaded in a new page instead
+  const url = analysisId
+    ? resolveAnalysis(context, { analysisId }).url
+    : validatedParams.url!;
+  context.logger.info(
+    `[Extraction] Testing ${selectors.length} selectors on ${url}`
+  );
+
+  let results;
+  let openPage = false;
+  try {
+    const openPageResults = analysisId
+      ? await context.analyzer.testSelectorsOnOpenPage(
+          analysisId,
+          selectors,
+          maxMatches
+        )
+      : undefined;
+    openPage = openPageResults !== undefined;
+    results =
+      openPageResults ??
+      (await context.analyzer.testSelectors(url, selectors, maxMatches));
+  } catch (error) {
+    context.logger.error(
+      `[Extraction] Failed to test selectors: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    if (error instanceof InvalidUrlError) {
+      throw new McpError(ErrorCode.InvalidParams, error.message);
+    } else if (error instanceof AnalysisTimeoutError) {
+      throw new McpError(ErrorCode.RequestTimeout, error.message);
+    } else {
+      throw new McpError(ErrorCode.InternalError, 'Unknown extraction error');
+    }
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(
+          { url, ...(analysisId ? { analysisId, openPage } : {}), results },
+          null,
+          2
+        ),
+      },
+    ],
+  };
 }
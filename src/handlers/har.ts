@@ -0,0 +1,245 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { promises as fsPromises } from 'fs';
+import path from 'path';
+import { HandlerContext } from './../handlers.js';
+import { randomUUID } from 'node:crypto';
+import { ExportHarSchema, ImportHarSchema } from './schemas.js';
+import { resolveAnalysis } from './lookup.js';
+import { generateAnalysisSummary } from './analysis.js';
+import { HarConverter } from '../services/har_converter.js';
+import { ReportGenerator } from '../services/report_generator.js';
+import { type HarDocument } from '../types.js';
+
+/**
+ * Handle exporting a stored analysis as a HAR 1.2 document, either inline
+ * or written to the configured output directory
+ */
+export async function handleExportHar(
+  context: HandlerContext,
+  params: unknown
+): Promise<object> {
+  let validatedParams;
+  try {
+    validatedParams = ExportHarSchema.parse(params);
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid parameters: ${
+        error instanceof Error ? error.message : 'Unknown validation error'
+      }`
+    );
+  }
+
+  const { analysisId, url, saveToFile = false } = validatedParams;
+  const result = resolveAnalysis(context, { analysisId, url });
+  const har = new HarConverter().toHar(result);
+
+  if (!saveToFile) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(har, null, 2),
+        },
+      ],
+    };
+  }
+
+  const directory = path.resolve(
+    process.cwd(),
+    context.config.output.directory
+  );
+  const baseName = result.analysisId ?? new URL(result.url).hostname;
+  const fileName = `${baseName.replace(/[^a-zA-Z0-9_.-]/g, '_')}.har`;
+  const filePath = path.join(directory, fileName);
+
+  try {
+    await fsPromises.mkdir(directory, { recursive: true });
+    await fsPromises.writeFile(filePath, JSON.stringify(har, null, 2));
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    context.logger.error(`[HAR] Failed to write ${filePath}: ${msg}`);
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Failed to write HAR file: ${msg}`
+    );
+  }
+
+  context.logger.info(
+    `[HAR] Exported ${har.log.entries.length} entries to ${filePath}`
+  );
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(
+          {
+            analysisId: result.analysisId,
+            url: result.url,
+            filePath,
+            entries: har.log.entries.length,
+          },
+          null,
+          2
+        ),
+      },
+    ],
+  };
+}
+
+/**
+ * Check that a parsed value has the HAR structure the converter relies on
+ */
+function isHarDocument(value: any): value is HarDocument {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    !!value.log &&
+    Array.isArray(value.log.entries) &&
+    value.log.entries.every(
+      (entry: any) =>
+        entry &&
+        typeof entry.startedDateTime === 'string' &&
+        typeof entry.request?.url === 'string' &&
+        typeof entry.request?.method === 'string' &&
+        typeof entry.response?.status === 'number' &&
+        !!entry.response?.content
+    )
+  );
+}
+
+/**
+ * Read a HAR file from the output directory, where export_har writes them.
+ * Paths are relative to that directory; paths leading out of it, also
+ * through symbolic links, are rejected so that no other file can be read.
+ */
+async function readHarFile(
+  context: HandlerContext,
+  filePath: string
+): Promise<string> {
+  const directory = path.resolve(
+    process.cwd(),
+    context.config.output.directory
+  );
+  const isInside = (root: string, target: string) => {
+    const relative = path.relative(root, target);
+    return (
+      relative !== '' &&
+      relative !== '..' &&
+      !relative.startsWith(`..${path.sep}`) &&
+      !path.isAbsolute(relative)
+    );
+  };
+
+  const resolved = path.resolve(directory, filePath);
+  if (!isInside(directory, resolved)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `HAR files can only be imported from the output directory ${directory}`
+    );
+  }
+
+  try {
+    const realPath = await fsPromises.realpath(resolved);
+    if (!isInside(await fsPromises.realpath(directory), realPath)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `HAR files can only be imported from the output directory ${directory}`
+      );
+    }
+    return await fsPromises.readFile(realPath, 'utf8');
+  } catch (error) {
+    if (error instanceof McpError) {
+      throw error;
+    }
+    context.logger.error(
+      `[HAR] Failed to read ${resolved}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Failed to read HAR file: ${filePath}`
+    );
+  }
+}
+
+/**
+ * Handle importing a HAR file as a stored analysis without launching a browser
+ */
+export async function handleImportHar(
+  context: HandlerContext,
+  params: unknown
+): Promise<object> {
+  let validatedParams;
+  try {
+    validatedParams = ImportHarSchema.parse(params);
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid parameters: ${
+        error instanceof Error ? error.message : 'Unknown validation error'
+      }`
+    );
+  }
+
+  const { filePath, url } = validatedParams;
+
+  let text = validatedParams.har;
+  if (filePath) {
+    text = await readHarFile(context, filePath);
+  }
+
+  let parsed: unknown = text;
+  if (typeof text === 'string') {
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      // The parser's message quotes the input, so it is not passed on
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Failed to parse HAR: the document is not valid JSON'
+      );
+    }
+  }
+
+  if (!isHarDocument(parsed)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      'Invalid HAR document: expected log.entries with request and response data'
+    );
+  }
+
+  const converter = new HarConverter();
+  const capturedRequests = converter.fromHar(parsed);
+  const pageInfo = converter.getPageInfo(parsed);
+  const pageUrl = url ?? pageInfo.url;
+
+  context.logger.info(
+    `[HAR] Importing ${capturedRequests.length} entries for ${pageUrl}`
+  );
+
+  // generateAnalysisResult also runs SecurityAnalyzer.detectAntiBotSystems
+  const analysisId = randomUUID();
+  const result = {
+    ...new ReportGenerator().generateAnalysisResult(
+      pageUrl,
+      pageInfo.title,
+      capturedRequests,
+      'unknown'
+    ),
+    analysisId,
+    importedFrom: filePath ?? 'inline',
+  };
+  context.analysisResults.set(analysisId, result);
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(generateAnalysisSummary(result), null, 2),
+      },
+    ],
+  };
+}
@@ -0,0 +1,60 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { HandlerContext } from './../handlers.js';
+import {
+  type AnalysisLookup,
+  type CapturedRequest,
+  type SiteAnalysisResult,
+} from '../types.js';
+
+/**
+ * Resolve a stored analysis by ID, or the most recent analysis of a URL
+ * when no ID is given
+ */
+export function resolveAnalysis(
+  context: HandlerContext,
+  lookup: AnalysisLookup
+): SiteAnalysisResult {
+  const { analysisId, url } = lookup;
+
+  if (analysisId) {
+    const result = context.analysisResults.get(analysisId);
+    if (!result) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `No analysis found with ID: ${analysisId}. Use list_analyses to see stored analyses.`
+      );
+    }
+    return result;
+  }
+
+  // Results are kept in insertion order, so the last match is the latest run
+  let latest: SiteAnalysisResult | undefined;
+  for (const result of context.analysisResults.values()) {
+    if (result.url === url) {
+      latest = result;
+    }
+  }
+
+  if (!latest) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `No analysis found for URL: ${url}. Please run analyze_website_requests first.`
+    );
+  }
+  return latest;
+}
+
+/**
+ * Read the complete text body of a request from the body store; undefined
+ * when only an inline body, or a binary one, was captured
+ */
+export async function readStoredText(
+  context: HandlerContext,
+  request: CapturedRequest
+): Promise<string | undefined> {
+  if (request.storedBody?.encoding !== 'utf8') {
+    return undefined;
+  }
+  const stored = await context.bodyStore.get(request.storedBody.sha256);
+  return stored?.toString('utf8');
+}
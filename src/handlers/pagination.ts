@@ -0,0 +1,93 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+export interface PaginationParams {
+  limit?: number;
+  cursor?: string;
+  compact?: boolean;
+  fields?: string[];
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor?: string;
+}
+
+/**
+ * Cursors are opaque to clients; they encode the offset of the next item
+ */
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8')
+    );
+    if (Number.isInteger(offset) && offset >= 0) {
+      return offset;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    'Invalid cursor. Pass the nextCursor value of a previous response.'
+  );
+}
+
+/**
+ * Return one page of items, with a cursor for the next page when more
+ * items remain
+ */
+export function paginate<T>(
+  items: T[],
+  params: PaginationParams,
+  defaultLimit: number
+): Page<T> {
+  const offset = params.cursor ? decodeCursor(params.cursor) : 0;
+  const end = offset + (params.limit ?? defaultLimit);
+  return {
+    items: items.slice(offset, end),
+    nextCursor: end < items.length ? encodeCursor(end) : undefined,
+  };
+}
+
+/**
+ * Keep only the requested fields of each item. Without explicit fields,
+ * compact output falls back to the tool's default compact fields.
+ */
+export function selectFields<T>(
+  items: T[],
+  params: PaginationParams,
+  compactFields: string[]
+): Array<Partial<T>> {
+  const fields = params.fields ?? (params.compact ? compactFields : undefined);
+  if (!fields) {
+    return items;
+  }
+  return items.map((item) => {
+    const record = item as Record<string, unknown>;
+    return Object.fromEntries(
+      fields
+        .filter((field) => field in record)
+        .map((field) => [field, record[field]])
+    ) as Partial<T>;
+  });
+}
+
+/**
+ * Build the tool response, pretty-printed unless compact output was requested
+ */
+export function formatResult(payload: unknown, compact = false): object {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: compact
+          ? JSON.stringify(payload)
+          : JSON.stringify(payload, null, 2),
+      },
+    ],
+  };
+}
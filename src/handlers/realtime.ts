@@ -0,0 +1,104 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { HandlerContext } from './../handlers.js';
+import { RealtimeMessagesSchema } from './schemas.js';
+import { resolveAnalysis } from './lookup.js';
+import { formatResult, paginate } from './pagination.js';
+
+/**
+ * Handle listing WebSocket and EventSource messages of a stored analysis,
+ * optionally filtered by connection, direction and payload substring
+ */
+export async function handleGetWebsocketMessages(
+  context: HandlerContext,
+  params: unknown
+): Promise<object> {
+  let validatedParams;
+  try {
+    validatedParams = RealtimeMessagesSchema.parse(params);
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid parameters: ${
+        error instanceof Error ? error.message : 'Unknown validation error'
+      }`
+    );
+  }
+
+  const {
+    analysisId,
+    url,
+    connectionId,
+    contains,
+    direction,
+    limit,
+    cursor,
+    compact,
+  } = validatedParams;
+  const result = resolveAnalysis(context, { analysisId, url });
+  const connections = (result.realtimeConnections ?? []).filter(
+    (connection) => !connectionId || connection.id === connectionId
+  );
+
+  if (connectionId && connections.length === 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Connection with ID ${connectionId} not found`
+    );
+  }
+
+  const matchesByConnection = connections.map((connection) =>
+    connection.messages.filter(
+      (message) =>
+        (!direction || message.direction === direction) &&
+        // Binary frames hold base64, which no text search should match
+        (!contains ||
+          (message.type !== 'binary' && message.data.includes(contains)))
+    )
+  );
+
+  // Pages run across all connections, in timestamp order
+  const timeline = matchesByConnection
+    .flatMap((matches, index) =>
+      matches.map((message) => ({ connection: index, message }))
+    )
+    .sort(
+      (a, b) =>
+        Date.parse(a.message.timestamp) - Date.parse(b.message.timestamp)
+    );
+  const page = paginate(timeline, { limit, cursor }, 100);
+  const output = connections.map((connection, index) => {
+    const matches = matchesByConnection[index]!;
+    const messages = page.items
+      .filter((item) => item.connection === index)
+      .map((item) => item.message);
+
+    return {
+      id: connection.id,
+      type: connection.type,
+      url: connection.url,
+      openedAt: connection.openedAt,
+      closedAt: connection.closedAt,
+      closeCode: connection.closeCode,
+      closeReason: connection.closeReason,
+      error: connection.error,
+      totalMessages: connection.messages.length,
+      droppedMessages: connection.droppedMessages,
+      matchingMessages: matches.length,
+      messages,
+    };
+  });
+
+  return formatResult(
+    {
+      analysisId: result.analysisId,
+      url: result.url,
+      totalMatches: matchesByConnection.reduce(
+        (sum, matches) => sum + matches.length,
+        0
+      ),
+      connections: output,
+      nextCursor: page.nextCursor,
+    },
+    compact
+  );
+}
@@ -1,6 +1,38 @@
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import { HandlerContext } from './../handlers.js';
-import { RequestFilterSchema } from './schemas.js';
+import {
+  QueryResponseSchema,
+  RequestFilterSchema,
+  RequestsByDomainSchema,
+  ResponseBodySchema,
+  SearchRequestsSchema,
+  SlowestRequestsSchema,
+} from './schemas.js';
+import { readStoredText, resolveAnalysis } from './lookup.js';
+import {
+  decodeCursor,
+  encodeCursor,
+  formatResult,
+  paginate,
+  selectFields,
+} from './pagination.js';
+import { GraphqlInspector } from '../services/graphql_inspector.js';
+import { RequestSearcher } from '../services/request_searcher.js';
+import { ResponseQuery } from '../services/response_query.js';
+import {
+  FAILED_BODY_MARKER,
+  TRUNCATED_BODY_MARKER,
+} from '../services/request_monitor.js';
+import { type CapturedRequest, type RequestSearchMatch } from '../types.js';
+
+/** Request fields kept by compact output when no fields are selected */
+const COMPACT_REQUEST_FIELDS = ['id', 'method', 'status', 'url'];
+
+/** Timing fields kept by compact output of get_slowest_requests */
+const COMPACT_TIMING_FIELDS = ['id', 'url', 'totalTime'];
+
+/** Search match fields kept by compact output of search_requests */
+const COMPACT_MATCH_FIELDS = ['id', 'url', 'matchCount'];
 
 /**
  * Handle getting requests filtered by domain
@@ -11,7 +43,7 @@ export async function handleGetRequestsByDomain(
 ): Promise<object> {
   let validatedFilter;
   try {
-    validatedFilter = RequestFilterSchema.parse(filter);
+    validatedFilter = RequestsByDomainSchema.parse(filter);
   } catch (error) {
     throw new McpError(
       ErrorCode.InvalidParams,
@@ -20,21 +52,14 @@ export async function handleGetRequestsByDomain(
       }`
     );
   }
-  const { url, domain } = validatedFilter as any;
+  const { analysisId, url, domain } = validatedFilter;
 
   // Domain parameter is required for this endpoint
   if (!domain || (typeof domain === 'string' && domain.trim() === '')) {
     throw new McpError(ErrorCode.InvalidParams, 'Domain parameter is required');
   }
 
-  const result = context.analysisResults.get(url);
-
-  if (!result) {
-    throw new McpError(
-      ErrorCode.InvalidParams,
-      `No analysis found for URL: ${url}. Please run analyze_website_requests first.`
-    );
-  }
+  const result = resolveAnalysis(context, { analysisId, url });
 
   const domainRequests = result.requests.filter((req: any) => {
     try {
@@ -44,28 +69,40 @@ export async function handleGetRequestsByDomain(
     }
   });
 
-  const summary = {
-    url: url,
-    domain: domain,
-    totalRequests: domainRequests.length,
-    requests: domainRequests.map((req: any) => ({
+  const page = paginate(domainRequests, validatedFilter, 100);
+
+  // Name GraphQL operations so identical endpoint URLs can be told apart
+  const graphqlInspector = new GraphqlInspector();
+
+  const requests = page.items.map((req: any) => {
+    const operations = graphqlInspector.parseRequest(req);
+    return {
       id: req.id,
       url: req.url,
       method: req.method,
       resourceType: req.resourceType,
       status: req.status,
+      failed: req.failed,
+      phase: req.phase,
+      intercepted: req.intercepted,
+      graphqlOperations:
+        operations.length > 0
+          ? operations.map((operation) => graphqlInspector.getLabel(operation))
+          : undefined,
       timestamp: req.timestamp,
-    })),
-  };
+    };
+  });
 
-  return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify(summary, null, 2),
-      },
-    ],
+  const summary = {
+    analysisId: result.analysisId,
+    url: result.url,
+    domain: domain,
+    totalRequests: domainRequests.length,
+    requests: selectFields(requests, validatedFilter, COMPACT_REQUEST_FIELDS),
+    nextCursor: page.nextCursor,
   };
+
+  return formatResult(summary, validatedFilter.compact);
 }
 
 /**
@@ -86,7 +123,7 @@ export async function handleGetRequestDetails(
       }`
     );
   }
-  const { url, requestId } = validatedFilter as any;
+  const { analysisId, url, requestId } = validatedFilter;
 
   // requestId is required for this endpoint
   if (
@@ -99,14 +136,7 @@ export async function handleGetRequestDetails(
     );
   }
 
-  const result = context.analysisResults.get(url);
-
-  if (!result) {
-    throw new McpError(
-      ErrorCode.InvalidParams,
-      `No analysis found for URL: ${url}. Please run analyze_website_requests first.`
-    );
-  }
+  const result = resolveAnalysis(context, { analysisId, url });
 
   const request = result.requests.find((req: any) => req.id === requestId);
 
@@ -128,6 +158,16 @@ export async function handleGetRequestDetails(
     postData: request.postData,
     responseHeaders: request.responseHeaders,
     responseBody: request.responseBody,
+    storedBody: request.storedBody,
+    redirectedFrom: request.redirectedFrom,
+    redirectedTo: request.redirectedTo,
+    failed: request.failed,
+    failureText: request.failureText,
+    timing: request.timing,
+    sizes: request.sizes,
+    phase: request.phase,
+    initiator: request.initiator,
+    intercepted: request.intercepted,
   };
 
   return {
@@ -139,3 +179,346 @@ export async function handleGetRequestDetails(
     ],
   };
 }
+
+/**
+ * Handle listing the slowest requests of a stored analysis by total time
+ */
+export async function handleGetSlowestRequests(
+  context: HandlerContext,
+  params: unknown
+): Promise<object> {
+  let validatedParams;
+  try {
+    validatedParams = SlowestRequestsSchema.parse(params);
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid parameters: ${
+        error instanceof Error ? error.message : 'Unknown validation error'
+      }`
+    );
+  }
+  const { analysisId, url, resourceType } = validatedParams;
+
+  const result = resolveAnalysis(context, { analysisId, url });
+
+  const timedRequests = result.requests.filter(
+    (req) =>
+      (req.timing?.total ?? -1) >= 0 &&
+      (!resourceType || req.resourceType === resourceType)
+  );
+  timedRequests.sort((a, b) => b.timing!.total - a.timing!.total);
+
+  const page = paginate(timedRequests, validatedParams, 10);
+  const requests = page.items.map((req) => ({
+    id: req.id,
+    url: req.url,
+    method: req.method,
+    resourceType: req.resourceType,
+    status: req.status,
+    totalTime: req.timing!.total,
+    ttfb: req.timing!.ttfb,
+    download: req.timing!.download,
+    transferSize: req.sizes?.transferSize ?? -1,
+  }));
+
+  const summary = {
+    analysisId: result.analysisId,
+    url: result.url,
+    timedRequests: timedRequests.length,
+    requests: selectFields(requests, validatedParams, COMPACT_TIMING_FIELDS),
+    nextCursor: page.nextCursor,
+  };
+
+  return formatResult(summary, validatedParams.compact);
+}
+
+/**
+ * Handle searching the captured requests of a stored analysis by text in
+ * their URL, headers and bodies, and by status, method, resource type and
+ * content type
+ */
+export async function handleSearchRequests(
+  context: HandlerContext,
+  params: unknown
+): Promise<object> {
+  let validatedParams;
+  try {
+    validatedParams = SearchRequestsSchema.parse(params);
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid parameters: ${
+        error instanceof Error ? error.message : 'Unknown validation error'
+      }`
+    );
+  }
+  const { analysisId, url, limit, cursor, compact, ...criteria } =
+    validatedParams;
+
+  const result = resolveAnalysis(context, { analysisId, url });
+  const searcher = new RequestSearcher();
+  const pageLimit = limit ?? 20;
+  // The cursor holds the index of the next matching request, so each page
+  // reads stored bodies one at a time and only as far as it needs to
+  const matches: RequestSearchMatch[] = [];
+  let nextCursor: string | undefined;
+  for (
+    let index = cursor ? decodeCursor(cursor) : 0;
+    index < result.requests.length;
+    index++
+  ) {
+    const match = await searcher.matchRequest(
+      result.requests[index]!,
+      criteria,
+      (request) => readStoredText(context, request)
+    );
+    if (!match) {
+      continue;
+    }
+    if (matches.length === pageLimit) {
+      nextCursor = encodeCursor(index);
+      break;
+    }
+    matches.push(match);
+  }
+
+  const summary = {
+    analysisId: result.analysisId,
+    url: result.url,
+    // fields selects the searched fields here, so only compact trims matches
+    requests: selectFields(matches, { compact }, COMPACT_MATCH_FIELDS),
+    nextCursor,
+  };
+
+  return formatResult(summary, compact);
+}
+
+/**
+ * Handle querying the JSON response body of a captured request with a
+ * JSONPath or JMESPath expression, or summarizing its structure
+ */
+export async function handleQueryResponse(
+  context: HandlerContext,
+  params: unknown
+): Promise<object> {
+  let validatedParams;
+  try {
+    validatedParams = QueryResponseSchema.parse(params);
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid parameters: ${
+        error instanceof Error ? error.message : 'Unknown validation error'
+      }`
+    );
+  }
+  const {
+    analysisId,
+    url,
+    requestId,
+    expression,
+    mode = 'query',
+    maxDepth = 5,
+    limit = 100,
+  } = validatedParams;
+
+  const result = resolveAnalysis(context, { analysisId, url });
+  const request = result.requests.find((req) => req.id === requestId);
+  if (!request) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `No request found with ID: ${requestId}`
+    );
+  }
+
+  const body = (await readStoredText(context, request)) ?? request.responseBody;
+  if (body === undefined || body === FAILED_BODY_MARKER) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Request ${requestId} has no captured response body`
+    );
+  }
+  if (body.endsWith(TRUNCATED_BODY_MARKER)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Response body of request ${requestId} was truncated during capture and cannot be parsed`
+    );
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Response body of request ${requestId} is not valid JSON`
+    );
+  }
+
+  // JSONPath expressions start at the root ($); anything else is JMESPath
+  const language =
+    validatedParams.language ??
+    (expression?.startsWith('$') ? 'jsonpath' : 'jmespath');
+  const responseQuery = new ResponseQuery();
+
+  let output: Record<string, unknown> = {
+    analysisId: result.analysisId,
+    requestId,
+    url: request.url,
+    mode,
+    ...(expression ? { language, expression } : {}),
+  };
+  try {
+    if (!expression) {
+      output.shape = responseQuery.summarizeShape(data, maxDepth);
+    } else if (language === 'jsonpath') {
+      const matches = responseQuery.evaluateJsonPath(data, expression);
+      output =
+        mode === 'schema'
+          ? {
+              ...output,
+              matchCount: matches.length,
+              shape: responseQuery.summarizeShape(
+                matches.map((match) => match.value),
+                maxDepth
+              ),
+            }
+          : {
+              ...output,
+              matchCount: matches.length,
+              truncated: matches.length > limit,
+              matches: matches.slice(0, limit),
+            };
+    } else {
+      const value = responseQuery.evaluateJmesPath(data, expression);
+      if (mode === 'schema') {
+        output.shape = responseQuery.summarizeShape(value, maxDepth);
+      } else if (Array.isArray(value) && value.length > limit) {
+        output = {
+          ...output,
+          resultLength: value.length,
+          truncated: true,
+          result: value.slice(0, limit),
+        };
+      } else {
+        output.result = value;
+      }
+    }
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid ${language} expression: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(output, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Handle reading a captured response body by range. Complete bodies come
+ * from the body store; otherwise the inline body is served and reported as
+ * incomplete when it was truncated. Ranges count characters for text bodies
+ * and bytes for binary bodies, which are returned base64-encoded.
+ */
+export async function handleGetResponseBody(
+  context: HandlerContext,
+  params: unknown
+): Promise<object> {
+  let validatedParams;
+  try {
+    validatedParams = ResponseBodySchema.parse(params);
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid parameters: ${
+        error instanceof Error ? error.message : 'Unknown validation error'
+      }`
+    );
+  }
+  const {
+    analysisId,
+    url,
+    requestId,
+    offset = 0,
+    length = context.config.limits.maxResponseBodySize,
+  } = validatedParams;
+
+  const result = resolveAnalysis(context, { analysisId, url });
+  const request = result.requests.find((req) => req.id === requestId);
+  if (!request) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `No request found with ID: ${requestId}`
+    );
+  }
+
+  let body: string | Buffer;
+  let complete = true;
+  if (request.storedBody) {
+    const stored = await context.bodyStore.get(request.storedBody.sha256);
+    if (!stored) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `The stored body of request ${requestId} is no longer available`
+      );
+    }
+    body =
+      request.storedBody.encoding === 'utf8' ? stored.toString('utf8') : stored;
+  } else if (
+    request.responseBody !== undefined &&
+    request.responseBody !== FAILED_BODY_MARKER
+  ) {
+    complete = !request.responseBody.endsWith(TRUNCATED_BODY_MARKER);
+    body = complete
+      ? request.responseBody
+      : request.responseBody.slice(0, -TRUNCATED_BODY_MARKER.length);
+  } else {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Request ${requestId} has no captured response body`
+    );
+  }
+
+  const chunk =
+    typeof body === 'string'
+      ? body.slice(offset, offset + length)
+      : body.subarray(offset, offset + length);
+  const end = offset + chunk.length;
+  const contentType = Object.entries(request.responseHeaders ?? {}).find(
+    ([name]) => name.toLowerCase() === 'content-type'
+  )?.[1];
+
+  const output = {
+    analysisId: result.analysisId,
+    requestId,
+    url: request.url,
+    contentType,
+    encoding: typeof body === 'string' ? 'utf8' : 'base64',
+    sha256: request.storedBody?.sha256,
+    complete,
+    totalLength: body.length,
+    offset,
+    length: chunk.length,
+    hasMore: end < body.length,
+    nextOffset: end < body.length ? end : undefined,
+    data: typeof chunk === 'string' ? chunk : chunk.toString('base64'),
+  };
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(output, null, 2),
+      },
+    ],
+  };
+}
@@ -1,25 +1,417 @@
 import { z } from 'zod';
+import { isValidUrlPattern } from '../services/url_pattern.js';
+
+const actionTimeout = z.number().int().min(0).max(60000).optional();
+const actionName = z.string().optional();
+
+export const PageActionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('click'),
+    name: actionName,
+    selector: z.string().min(1),
+    timeout: actionTimeout,
+  }),
+  z.object({
+    type: z.literal('fill'),
+    name: actionName,
+    selector: z.string().min(1),
+    value: z.string(),
+    timeout: actionTimeout,
+  }),
+  z.object({
+    type: z.literal('press'),
+    name: actionName,
+    key: z.string().min(1),
+    selector: z.string().min(1).optional(),
+    timeout: actionTimeout,
+  }),
+  z.object({
+    type: z.literal('select'),
+    name: actionName,
+    selector: z.string().min(1),
+    value: z.union([z.string(), z.array(z.string())]),
+    timeout: actionTimeout,
+  }),
+  z.object({
+    type: z.literal('hover'),
+    name: actionName,
+    selector: z.string().min(1),
+    timeout: actionTimeout,
+  }),
+  z.object({
+    type: z.literal('scrollToBottom'),
+    name: actionName,
+    maxScrolls: z.number().int().min(1).max(50).optional(),
+    delay: z.number().int().min(0).max(5000).optional(),
+  }),
+  z.object({
+    type: z.literal('waitForSelector'),
+    name: actionName,
+    selector: z.string().min(1),
+    state: z.enum(['attached', 'detached', 'visible', 'hidden']).optional(),
+    timeout: actionTimeout,
+  }),
+  z.object({
+    type: z.literal('waitForRequest'),
+    name: actionName,
+    urlPattern: z.string().min(1).refine(isValidUrlPattern, {
+      message: 'urlPattern is not a valid /regex/',
+    }),
+    timeout: actionTimeout,
+  }),
+  z.object({
+    type: z.literal('waitForTimeout'),
+    name: actionName,
+    duration: z.number().int().min(0).max(10000),
+  }),
+]);
+
+const routeBase = {
+  name: z.string().optional(),
+  url: z.string().min(1).refine(isValidUrlPattern, {
+    message: 'url is not a valid /regex/',
+  }),
+  resourceTypes: z.array(z.string().min(1)).min(1).optional(),
+};
+
+export const RouteRuleSchema = z.discriminatedUnion('action', [
+  z.object({
+    ...routeBase,
+    action: z.literal('block'),
+    errorCode: z
+      .enum([
+        'aborted',
+        'accessdenied',
+        'addressunreachable',
+        'blockedbyclient',
+        'blockedbyresponse',
+        'connectionaborted',
+        'connectionclosed',
+        'connectionfailed',
+        'connectionrefused',
+        'connectionreset',
+        'internetdisconnected',
+        'namenotresolved',
+        'timedout',
+        'failed',
+      ])
+      .optional(),
+  }),
+  z.object({
+    ...routeBase,
+    action: z.literal('fulfill'),
+    status: z.number().int().min(100).max(599).optional(),
+    headers: z.record(z.string()).optional(),
+    contentType: z.string().optional(),
+    body: z.string().optional(),
+  }),
+  z.object({
+    ...routeBase,
+    action: z.literal('modifyHeaders'),
+    headers: z.record(z.string()).optional(),
+    removeHeaders: z.array(z.string().min(1)).optional(),
+  }),
+  z.object({
+    ...routeBase,
+    action: z.literal('delay'),
+    delay: z.number().int().min(0).max(30000),
+  }),
+]);
+
+export const BodyCaptureSchema = z.object({
+  maxBodySize: z.number().int().min(1000).max(10000000).optional(),
+  contentTypes: z.array(z.string().min(1)).min(1).optional(),
+  retainFullBodies: z.boolean().optional(),
+});
+
+export const ScreenshotOptionsSchema = z
+  .object({
+    type: z.enum(['fullPage', 'viewport', 'element']).optional(),
+    selector: z.string().min(1).optional(),
+  })
+  .refine((options) => options.type !== 'element' || !!options.selector, {
+    message: "selector is required when type is 'element'",
+  });
 
 export const AnalysisOptionsSchema = z.object({
   url: z.string().url('URL must be a valid URL with http:// or https://'),
   waitTime: z.number().min(0).max(10000).optional(),
   includeImages: z.boolean().optional(),
   quickMode: z.boolean().optional(),
+  actions: z.array(PageActionSchema).max(50).optional(),
+  routes: z.array(RouteRuleSchema).max(50).optional(),
+  bodyCapture: BodyCaptureSchema.optional(),
+  screenshot: ScreenshotOptionsSchema.optional(),
+  keepPageOpen: z.boolean().optional(),
 });
 
-export const RequestFilterSchema = z.object({
-  url: z.string().url('URL must be a valid URL with http:// or https://'),
+/** Cursor pagination and compact output fields shared by list tools */
+const PaginationFields = {
+  limit: z.number().int().min(1).max(500).optional(),
+  cursor: z.string().min(1).optional(),
+  compact: z.boolean().optional(),
+  fields: z.array(z.string().min(1)).min(1).max(50).optional(),
+};
+
+/** Fields naming the stored analysis a tool reads */
+const AnalysisLookupFields = {
+  analysisId: z.string().optional(),
+  url: z
+    .string()
+    .url('URL must be a valid URL with http:// or https://')
+    .optional(),
+};
+
+/**
+ * Schema of a tool reading a stored analysis: the lookup fields and the
+ * tool's own, with analysisId or url required
+ */
+function withAnalysisLookup<Shape extends z.ZodRawShape>(shape: Shape) {
+  return z
+    .object({ ...AnalysisLookupFields, ...shape })
+    .refine((params) => !!params.analysisId || !!params.url, {
+      message: 'Either analysisId or url must be provided',
+    });
+}
+
+export const RequestFilterSchema = withAnalysisLookup({
   domain: z.string().optional(),
   requestId: z.string().optional(),
 });
 
+export const RequestsByDomainSchema = withAnalysisLookup({
+  domain: z.string().optional(),
+  ...PaginationFields,
+});
+
+export const SlowestRequestsSchema = withAnalysisLookup({
+  resourceType: z.string().optional(),
+  ...PaginationFields,
+});
+
+export const RequestSummarySchema = withAnalysisLookup({
+  ...PaginationFields,
+});
+
+export const ExportHarSchema = withAnalysisLookup({
+  saveToFile: z.boolean().optional(),
+});
+
+export const ImportHarSchema = z
+  .object({
+    filePath: z.string().min(1).optional(),
+    har: z.union([z.string().min(1), z.record(z.unknown())]).optional(),
+    url: z
+      .string()
+      .url('URL must be a valid URL with http:// or https://')
+      .optional(),
+  })
+  .refine((params) => !!params.filePath !== !!params.har, {
+    message: 'Exactly one of filePath or har must be provided',
+  });
+
+export const DiscoverApiEndpointsSchema = withAnalysisLookup({
+  domain: z.string().optional(),
+  format: z.enum(['openapi', 'endpoints']).optional(),
+});
+
+export const GraphqlOperationsSchema = withAnalysisLookup({
+  operationName: z.string().optional(),
+  operationType: z.enum(['query', 'mutation', 'subscription']).optional(),
+  ...PaginationFields,
+});
+
+export const RealtimeMessagesSchema = withAnalysisLookup({
+  connectionId: z.string().optional(),
+  contains: z.string().optional(),
+  direction: z.enum(['sent', 'received']).optional(),
+  limit: z.number().int().min(1).max(1000).optional(),
+  cursor: PaginationFields.cursor,
+  compact: PaginationFields.compact,
+});
+
+export const SearchRequestsSchema = withAnalysisLookup({
+  query: z.string().min(1).optional(),
+  caseSensitive: z.boolean().optional(),
+  fields: z
+    .array(z.enum(['url', 'requestHeaders', 'postData', 'responseBody']))
+    .optional(),
+  method: z.string().optional(),
+  resourceType: z.string().optional(),
+  contentType: z.string().optional(),
+  statusMin: z.number().int().min(100).max(599).optional(),
+  statusMax: z.number().int().min(100).max(599).optional(),
+  // fields names the searched fields, in place of the pagination field selection
+  limit: PaginationFields.limit,
+  cursor: PaginationFields.cursor,
+  compact: PaginationFields.compact,
+}).refine((params) => isValidQuery(params.query), {
+  message: 'query is not a valid /regex/',
+});
+
+export const QueryResponseSchema = withAnalysisLookup({
+  requestId: z.string().min(1),
+  expression: z.string().min(1).optional(),
+  language: z.enum(['jsonpath', 'jmespath']).optional(),
+  mode: z.enum(['query', 'schema']).optional(),
+  maxDepth: z.number().int().min(1).max(20).optional(),
+  limit: z.number().int().min(1).max(500).optional(),
+}).refine((params) => params.mode === 'schema' || !!params.expression, {
+  message: "expression is required unless mode is 'schema'",
+});
+
+export const ResponseBodySchema = withAnalysisLookup({
+  requestId: z.string().min(1),
+  offset: z.number().int().min(0).optional(),
+  length: z.number().int().min(1).max(1000000).optional(),
+});
+
+/**
+ * Check that a /regex/flags query compiles; substring queries always do
+ */
+function isValidQuery(query: string | undefined): boolean {
+  const regexMatch = query ? /^\/(.+)\/([a-z]*)$/.exec(query) : null;
+  if (!regexMatch) {
+    return true;
+  }
+  try {
+    new RegExp(regexMatch[1]!, regexMatch[2]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const ListAnalysesSchema = z.object({
+  url: z
+    .string()
+    .url('URL must be a valid URL with http:// or https://')
+    .optional(),
+});
+
 export const UrlSchema = z
   .string()
   .url('URL must be a valid URL with http:// or https://');
 
 export const ExtractHtmlElementsSchema = z.object({
   url: z.string().url('URL must be a valid URL with http:// or https://'),
-  filterType: z.enum(['text', 'image', 'link', 'script']),
+  filterType: z.enum(['text', 'image', 'link', 'script', 'table', 'form']),
+  selectorCandidates: z.boolean().optional().default(false),
+  ...PaginationFields,
+});
+
+export const ExtractTablesSchema = z.object({
+  url: z.string().url('URL must be a valid URL with http:// or https://'),
+  minRows: z.number().int().min(0).optional(),
+  ...PaginationFields,
+});
+
+export const StructuredDataSchema = z.object({
+  url: z.string().url('URL must be a valid URL with http:// or https://'),
+  types: z.array(z.string().min(1)).optional(),
+});
+
+export const DetectListsSchema = z.object({
+  url: z.string().url('URL must be a valid URL with http:// or https://'),
+  minItems: z.number().int().min(3).optional(),
+  ...PaginationFields,
+});
+
+// analysisId tests the page that analysis kept open; url alone loads a new page
+export const TestSelectorSchema = withAnalysisLookup({
+  selectors: z
+    .array(z.string().trim().min(1, 'Selectors cannot be empty'))
+    .min(1, 'At least one selector is required')
+    .max(20, 'At most 20 selectors can be tested at once'),
+  maxMatches: z.number().int().min(1).max(20).optional().default(5),
+});
+
+const SchemaFieldTransformSchema = z.enum([
+  'trim',
+  'number',
+  'url-resolve',
+  'regex',
+]);
+
+const SchemaFieldSchema = z
+  .object({
+    selector: z.string().min(1).optional(),
+    xpath: z.string().min(1).optional(),
+    source: z.enum(['text', 'html', 'attribute']).optional(),
+    attribute: z.string().min(1).optional(),
+    transform: z
+      .union([SchemaFieldTransformSchema, z.array(SchemaFieldTransformSchema)])
+      .optional(),
+    pattern: z.string().optional(),
+    multiple: z.boolean().optional(),
+  })
+  .refine((field) => !!field.selector !== !!field.xpath, {
+    message: 'Each field needs exactly one of selector or xpath',
+  })
+  .refine((field) => field.source !== 'attribute' || !!field.attribute, {
+    message: "attribute is required when source is 'attribute'",
+  })
+  .refine(
+    (field) =>
+      !usesTransform(field.transform, 'regex') ||
+      (field.pattern !== undefined && isValidPattern(field.pattern)),
+    { message: 'regex transform needs a valid pattern' }
+  );
+
+export const ExtractWithSchemaSchema = z
+  .object({
+    url: z.string().url('URL must be a valid URL with http:// or https://'),
+    containerSelector: z.string().min(1).optional(),
+    containerXpath: z.string().min(1).optional(),
+    fields: z
+      .record(SchemaFieldSchema)
+      .refine((fields) => Object.keys(fields).length > 0, {
+        message: 'At least one field is required',
+      }),
+    // The field map takes the place of the pagination field selection
+    limit: PaginationFields.limit,
+    cursor: PaginationFields.cursor,
+    compact: PaginationFields.compact,
+  })
+  .refine((params) => !(params.containerSelector && params.containerXpath), {
+    message: 'Use either containerSelector or containerXpath, not both',
+  });
+
+function usesTransform(
+  transform: string | string[] | undefined,
+  name: string
+): boolean {
+  return Array.isArray(transform)
+    ? transform.includes(name)
+    : transform === name;
+}
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const TakeScreenshotSchema = z
+  .object({
+    url: z.string().url('URL must be a valid URL with http:// or https://'),
+    type: z.enum(['fullPage', 'viewport', 'element']).optional(),
+    selector: z.string().min(1).optional(),
+  })
+  .refine((params) => params.type !== 'element' || !!params.selector, {
+    message: "selector is required when type is 'element'",
+  });
+
+export const PageContentSchema = z.object({
+  url: z.string().url('URL must be a valid URL with http:// or https://'),
+  format: z.enum(['markdown', 'text', 'html']).optional(),
+  mainContentOnly: z.boolean().optional(),
+  maxTokens: z.number().int().min(100).max(1000000).optional(),
+  waitTime: z.number().min(0).max(10000).optional(),
+  quickMode: z.boolean().optional(),
 });
 
 export const FetchOptionsSchema = z.object({
@@ -0,0 +1,95 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { HandlerContext } from './../handlers.js';
+import { TakeScreenshotSchema } from './schemas.js';
+import {
+  AnalysisTimeoutError,
+  InvalidSelectorError,
+  InvalidUrlError,
+  ResourceNotFoundError,
+} from '../errors.js';
+import { type ScreenshotInfo } from '../types.js';
+
+/**
+ * Build the MCP content block of a screenshot: the PNG image, or a note
+ * pointing at the stored file when the image is over the inline limits
+ */
+export function screenshotContent(
+  context: HandlerContext,
+  screenshot: ScreenshotInfo,
+  data: Buffer
+): object {
+  const { maxInlineScreenshotBytes, maxInlineScreenshotDimension } =
+    context.config.output;
+  if (
+    data.length > maxInlineScreenshotBytes ||
+    (screenshot.width ?? 0) > maxInlineScreenshotDimension ||
+    (screenshot.height ?? 0) > maxInlineScreenshotDimension
+  ) {
+    return {
+      type: 'text',
+      text: `Screenshot not returned inline: ${screenshot.width}x${screenshot.height} px and ${data.length} bytes exceed the limits of ${maxInlineScreenshotDimension} px per side and ${maxInlineScreenshotBytes} bytes. The PNG file is at ${screenshot.path}`,
+    };
+  }
+  return {
+    type: 'image',
+    data: data.toString('base64'),
+    mimeType: 'image/png',
+  };
+}
+
+/**
+ * Handle taking a screenshot of a page or element, returned as an MCP image
+ * content block unless it is too large, and stored as a PNG file
+ */
+export async function handleTakeScreenshot(
+  context: HandlerContext,
+  params: unknown
+): Promise<object> {
+  let validatedParams;
+  try {
+    validatedParams = TakeScreenshotSchema.parse(params);
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid parameters: ${
+        error instanceof Error ? error.message : 'Unknown validation error'
+      }`
+    );
+  }
+
+  const { url, type, selector } = validatedParams;
+  context.logger.info(`[Screenshot] Taking screenshot of ${url}`);
+
+  try {
+    const { screenshot, data } = await context.analyzer.takeScreenshot(url, {
+      type,
+      selector,
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ url, screenshot }, null, 2),
+        },
+        screenshotContent(context, screenshot, data),
+      ],
+    };
+  } catch (error) {
+    if (
+      error instanceof InvalidUrlError ||
+      error instanceof InvalidSelectorError ||
+      error instanceof ResourceNotFoundError
+    ) {
+      throw new McpError(ErrorCode.InvalidParams, error.message);
+    } else if (error instanceof AnalysisTimeoutError) {
+      throw new McpError(ErrorCode.RequestTimeout, error.message);
+    }
+    context.logger.error(
+      `[Screenshot] Unknown screenshot error: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    throw new McpError(ErrorCode.InternalError, 'Unknown screenshot error');
+  }
+}
@@ -1,6 +1,21 @@
 #!/usr/bin/env node
 import { WebScraperMCPServer } from './server.js';
 import { Logger } from './logger.js';
+import { type AnalysisStoreLimits } from './services/analysis_store.js';
+
+/**
+ * Flags overriding the analysis store limits of config.storage, with the
+ * smallest accepted value. A TTL of 0 disables expiry; no entries or bytes
+ * at all would evict every analysis.
+ */
+const STORE_LIMIT_FLAGS: Record<
+  string,
+  { limit: keyof AnalysisStoreLimits; min: number }
+> = {
+  '--store-max-entries': { limit: 'maxEntries', min: 1 },
+  '--store-max-bytes': { limit: 'maxBytes', min: 1 },
+  '--store-ttl': { limit: 'ttl', min: 0 },
+};
 
 /**
  * Main entry point for the Web Scraper MCP Server
@@ -26,10 +41,34 @@ async function main(): Promise<void> {
     }
   }
 
+  // Persist analyses to disk when a store directory is given
+  let storeDir: string | undefined;
+  const storeDirIndex = argv.indexOf('--store-dir');
+  if (storeDirIndex !== -1 && storeDirIndex + 1 < argv.length) {
+    storeDir = argv[storeDirIndex + 1];
+  }
+
   const logger = new Logger({ verbose, logFile: 'logs/server.log' });
 
+  const storeLimits: Partial<AnalysisStoreLimits> = {};
+  for (const [flag, { limit, min }] of Object.entries(STORE_LIMIT_FLAGS)) {
+    const flagIndex = argv.indexOf(flag);
+    if (flagIndex === -1) {
+      continue;
+    }
+    const valueStr = argv[flagIndex + 1];
+    const value = Number(valueStr);
+    if (valueStr && Number.isSafeInteger(value) && value >= min) {
+      storeLimits[limit] = value;
+    } else {
+      logger.warn(
+        `[Main] Ignoring ${flag} ${valueStr ?? '(missing value)'}: expected a whole number of at least ${min}. Using the default ${limit} from config.storage.`
+      );
+    }
+  }
+
   try {
-    const server = new WebScraperMCPServer(logger);
+    const server = new WebScraperMCPServer(logger, { storeDir, storeLimits });
     if (useHttp) {
       await server.runHttp(port);
     } else {
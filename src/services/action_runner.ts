@@ -0,0 +1,178 @@
+import { type Page } from "patchright";
+import { type ActionResult, type CapturedRequest, type PageAction, type RequestPhase } from "../types.js";
+import { Logger } from "../logger.js";
+import { config } from "../config.js";
+import { parseRegexPattern } from "./url_pattern.js";
+
+const DEFAULT_MAX_SCROLLS = 10;
+const DEFAULT_SCROLL_DELAY = 500;
+
+/**
+ * Action types that interact with the page and may trigger requests after
+ * the step itself resolves
+ */
+const INTERACTION_TYPES: ReadonlySet<PageAction["type"]> = new Set([
+  "click",
+  "fill",
+  "press",
+  "select",
+  "hover",
+  "scrollToBottom",
+]);
+
+/**
+ * Service responsible for running scripted page interactions and attributing
+ * the requests they trigger
+ */
+export class ActionRunner {
+  private logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  /**
+   * Run actions in order while request monitoring keeps recording. Requests
+   * started during a step get the phase `action:<name>`, where name defaults
+   * to `<step number>-<type>`. Once a step fails the remaining steps are
+   * reported as skipped.
+   * @param {Page} page - The loaded browser page
+   * @param {PageAction[]} actions - Steps to run
+   * @param {CapturedRequest[]} capturedRequests - Array the request monitor records into
+   * @returns {Promise<ActionResult[]>} One result per action
+   */
+  async runActions(page: Page, actions: PageAction[], capturedRequests: CapturedRequest[]): Promise<ActionResult[]> {
+    const results: ActionResult[] = [];
+    let previousStart = capturedRequests.length;
+    let failed = false;
+
+    for (const [index, action] of actions.entries()) {
+      const result: ActionResult = {
+        index,
+        type: action.type,
+        name: action.name,
+        success: false,
+        duration: 0,
+        requestIds: [],
+      };
+      results.push(result);
+
+      if (failed) {
+        result.skipped = true;
+        result.error = "Skipped because a previous action failed";
+        continue;
+      }
+
+      const label = action.name ? `${action.type} (${action.name})` : action.type;
+      const start = capturedRequests.length;
+      const startedAt = Date.now();
+      this.logger.info(`[Action] Running step ${index + 1}/${actions.length}: ${label}`);
+
+      try {
+        await this.runAction(page, action, capturedRequests.slice(previousStart));
+        if (INTERACTION_TYPES.has(action.type)) {
+          // Give requests fired by event handlers a moment to start
+          await page.waitForTimeout(config.timeouts.actionSettle);
+        }
+        result.success = true;
+      } catch (error) {
+        failed = true;
+        result.error = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`[Action] Step ${index + 1} (${label}) failed: ${result.error}`);
+      }
+
+      result.duration = Date.now() - startedAt;
+      const phase: RequestPhase = `action:${action.name ?? `${index + 1}-${action.type}`}`;
+      result.requestIds = capturedRequests.slice(start).map((request) => {
+        request.phase = phase;
+        return request.id;
+      });
+      previousStart = start;
+    }
+
+    return results;
+  }
+
+  /**
+   * Run a single action
+   * @param {Page} page - The browser page
+   * @param {PageAction} action - The step to run
+   * @param {CapturedRequest[]} recentRequests - Requests captured since the previous step started
+   */
+  private async runAction(page: Page, action: PageAction, recentRequests: CapturedRequest[]): Promise<void> {
+    const timeout = "timeout" in action && action.timeout !== undefined ? action.timeout : config.timeouts.action;
+
+    switch (action.type) {
+      case "click":
+        await page.click(action.selector, { timeout });
+        break;
+      case "fill":
+        await page.fill(action.selector, action.value, { timeout });
+        break;
+      case "press":
+        if (action.selector) {
+          await page.press(action.selector, action.key, { timeout });
+        } else {
+          await page.keyboard.press(action.key);
+        }
+        break;
+      case "select":
+        await page.selectOption(action.selector, action.value, { timeout });
+        break;
+      case "hover":
+        await page.hover(action.selector, { timeout });
+        break;
+      case "scrollToBottom":
+        await this.scrollToBottom(page, action.maxScrolls ?? DEFAULT_MAX_SCROLLS, action.delay ?? DEFAULT_SCROLL_DELAY);
+        break;
+      case "waitForSelector":
+        await page.waitForSelector(action.selector, { state: action.state ?? "visible", timeout });
+        break;
+      case "waitForRequest": {
+        const matches = this.createUrlMatcher(action.urlPattern);
+        // The request may already have been fired by the previous step
+        if (recentRequests.some((request) => matches(request.url))) {
+          break;
+        }
+        await page.waitForRequest((request) => matches(request.url()), { timeout });
+        break;
+      }
+      case "waitForTimeout":
+        await page.waitForTimeout(action.duration);
+        break;
+    }
+  }
+
+  /**
+   * Scroll until the page height stops growing or maxScrolls is reached,
+   * so lazy-loaded content gets a chance to fetch
+   */
+  private async scrollToBottom(page: Page, maxScrolls: number, delay: number): Promise<void> {
+    let previousHeight = -1;
+    for (let i = 0; i < maxScrolls; i++) {
+      const height = await page.evaluate(() => {
+        window.scrollTo(0, document.body.scrollHeight);
+        return document.body.scrollHeight;
+      });
+      if (height === previousHeight) {
+        break;
+      }
+      previousHeight = height;
+      await page.waitForTimeout(delay);
+    }
+  }
+
+  /**
+   * Build a URL matcher: substring match, or a regular expression when the
+   * pattern is written as /pattern/flags
+   * @param {string} pattern - The URL pattern
+   * @returns {(url: string) => boolean} The matcher
+   */
+  private createUrlMatcher(pattern: string): (url: string) => boolean {
+    const regex = parseRegexPattern(pattern);
+    if (regex) {
+      return (url) => regex.test(url);
+    }
+    return (url) => url.includes(pattern);
+  }
+}
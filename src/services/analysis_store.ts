@@ -0,0 +1,328 @@
+import fs from "fs";
+import path from "path";
+import { type SiteAnalysisResult } from "../types.js";
+import { Logger } from "../logger.js";
+import { config } from "../config.js";
+
+/**
+ * Limits applied to a result store. Oldest (least recently used) captures
+ * are evicted once any limit is exceeded.
+ */
+export interface AnalysisStoreLimits {
+  maxEntries: number;
+  maxBytes: number;
+  ttl: number;
+}
+
+/**
+ * Map-compatible store of analysis results keyed by analysis ID
+ */
+export interface AnalysisStore {
+  readonly size: number;
+  get(analysisId: string): SiteAnalysisResult | undefined;
+  set(analysisId: string, result: SiteAnalysisResult): this;
+  has(analysisId: string): boolean;
+  delete(analysisId: string): boolean;
+  clear(): void;
+  keys(): IterableIterator<string>;
+  values(): IterableIterator<SiteAnalysisResult>;
+  entries(): IterableIterator<[string, SiteAnalysisResult]>;
+  close(): void;
+}
+
+interface StoredEntry {
+  result: SiteAnalysisResult;
+  bytes: number;
+  storedAt: number;
+  lastAccessedAt: number;
+}
+
+/**
+ * In-memory result store with TTL expiry and LRU eviction.
+ * Iteration order is insertion order, so the latest capture of a URL is
+ * always the last one returned.
+ */
+export class MemoryAnalysisStore implements AnalysisStore {
+  protected logger: Logger;
+  protected limits: AnalysisStoreLimits;
+  protected store = new Map<string, StoredEntry>();
+  protected totalBytes = 0;
+
+  constructor(logger: Logger, limits: Partial<AnalysisStoreLimits> = {}) {
+    this.logger = logger;
+    this.limits = { ...config.storage, ...limits };
+  }
+
+  get size(): number {
+    this.purgeExpired();
+    return this.store.size;
+  }
+
+  /**
+   * Get total serialized size of the stored results in bytes
+   * @returns {number} Stored bytes
+   */
+  getTotalBytes(): number {
+    this.purgeExpired();
+    return this.totalBytes;
+  }
+
+  get(analysisId: string): SiteAnalysisResult | undefined {
+    this.purgeExpired();
+    const entry = this.store.get(analysisId);
+    if (!entry) {
+      return undefined;
+    }
+    entry.lastAccessedAt = Date.now();
+    return entry.result;
+  }
+
+  has(analysisId: string): boolean {
+    this.purgeExpired();
+    return this.store.has(analysisId);
+  }
+
+  set(analysisId: string, result: SiteAnalysisResult): this {
+    const now = Date.now();
+    this.addEntry(analysisId, {
+      result,
+      bytes: Buffer.byteLength(JSON.stringify(result)),
+      storedAt: now,
+      lastAccessedAt: now,
+    });
+    this.enforceLimits(analysisId);
+    return this;
+  }
+
+  delete(analysisId: string): boolean {
+    if (!this.store.has(analysisId)) {
+      return false;
+    }
+    this.removeEntry(analysisId);
+    return true;
+  }
+
+  clear(): void {
+    for (const analysisId of Array.from(this.store.keys())) {
+      this.removeEntry(analysisId);
+    }
+  }
+
+  /**
+   * Release the store for shutdown. The in-memory store simply drops its data.
+   */
+  close(): void {
+    this.clear();
+  }
+
+  keys(): IterableIterator<string> {
+    this.purgeExpired();
+    return Array.from(this.store.keys()).values();
+  }
+
+  values(): IterableIterator<SiteAnalysisResult> {
+    this.purgeExpired();
+    return Array.from(this.store.values(), (entry) => entry.result).values();
+  }
+
+  entries(): IterableIterator<[string, SiteAnalysisResult]> {
+    this.purgeExpired();
+    return Array.from(
+      this.store.entries(),
+      ([analysisId, entry]): [string, SiteAnalysisResult] => [
+        analysisId,
+        entry.result,
+      ]
+    ).values();
+  }
+
+  /**
+   * Insert an entry, replacing any previous entry with the same ID
+   * @param {string} analysisId - The analysis ID
+   * @param {StoredEntry} entry - The entry to store
+   */
+  protected addEntry(analysisId: string, entry: StoredEntry): void {
+    if (this.store.has(analysisId)) {
+      this.removeEntry(analysisId);
+    }
+    this.store.set(analysisId, entry);
+    this.totalBytes += entry.bytes;
+    this.persistEntry(analysisId, entry);
+  }
+
+  /**
+   * Remove an entry from memory and from any backing storage
+   * @param {string} analysisId - The analysis ID
+   */
+  protected removeEntry(analysisId: string): void {
+    const entry = this.store.get(analysisId);
+    if (!entry) {
+      return;
+    }
+    this.store.delete(analysisId);
+    this.totalBytes -= entry.bytes;
+    this.removePersistedEntry(analysisId);
+  }
+
+  /**
+   * Persist an entry to backing storage (no-op for the in-memory store)
+   */
+  protected persistEntry(_analysisId: string, _entry: StoredEntry): void {}
+
+  /**
+   * Remove an entry from backing storage (no-op for the in-memory store)
+   */
+  protected removePersistedEntry(_analysisId: string): void {}
+
+  /**
+   * Drop entries older than the configured TTL
+   */
+  protected purgeExpired(): void {
+    if (this.limits.ttl <= 0) {
+      return;
+    }
+    const cutoff = Date.now() - this.limits.ttl;
+    for (const [analysisId, entry] of Array.from(this.store.entries())) {
+      if (entry.storedAt < cutoff) {
+        this.logger.debug(`[Store] Expired analysis ${analysisId}`);
+        this.removeEntry(analysisId);
+      }
+    }
+  }
+
+  /**
+   * Evict least recently used entries until the store fits its limits.
+   * The entry that was just stored is never evicted.
+   * @param {string} keepId - ID of the entry being stored
+   */
+  protected enforceLimits(keepId?: string): void {
+    this.purgeExpired();
+    while (
+      this.store.size > this.limits.maxEntries ||
+      this.totalBytes > this.limits.maxBytes
+    ) {
+      let victimId: string | undefined;
+      let oldestAccess = Infinity;
+      for (const [analysisId, entry] of this.store.entries()) {
+        if (analysisId !== keepId && entry.lastAccessedAt < oldestAccess) {
+          victimId = analysisId;
+          oldestAccess = entry.lastAccessedAt;
+        }
+      }
+      if (!victimId) {
+        break;
+      }
+      this.logger.info(`[Store] Evicting analysis ${victimId}`);
+      this.removeEntry(victimId);
+    }
+  }
+}
+
+/**
+ * Result store that mirrors every capture to a JSON file in a local
+ * directory and reloads the directory on startup.
+ */
+export class FileAnalysisStore extends MemoryAnalysisStore {
+  private directory: string;
+
+  constructor(
+    logger: Logger,
+    directory: string,
+    limits: Partial<AnalysisStoreLimits> = {}
+  ) {
+    super(logger, limits);
+    this.directory = path.isAbsolute(directory)
+      ? directory
+      : path.resolve(process.cwd(), directory);
+    fs.mkdirSync(this.directory, { recursive: true });
+    this.load();
+  }
+
+  /**
+   * Keep the files on disk so the captures survive a restart
+   */
+  close(): void {
+    this.store.clear();
+    this.totalBytes = 0;
+  }
+
+  protected persistEntry(analysisId: string, entry: StoredEntry): void {
+    try {
+      fs.writeFileSync(
+        this.filePath(analysisId),
+        JSON.stringify({ storedAt: entry.storedAt, result: entry.result })
+      );
+    } catch (error) {
+      this.logger.error(
+        `[Store] Failed to persist analysis ${analysisId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  protected removePersistedEntry(analysisId: string): void {
+    try {
+      fs.rmSync(this.filePath(analysisId), { force: true });
+    } catch (error) {
+      this.logger.error(
+        `[Store] Failed to remove analysis ${analysisId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Reload persisted captures, oldest first, then apply TTL and limits
+   */
+  private load(): void {
+    const loaded: Array<[string, StoredEntry]> = [];
+
+    for (const file of fs.readdirSync(this.directory)) {
+      if (!file.endsWith(".json")) {
+        continue;
+      }
+      const analysisId = file.slice(0, -".json".length);
+      try {
+        const raw = fs.readFileSync(path.join(this.directory, file), "utf8");
+        const { storedAt, result } = JSON.parse(raw);
+        loaded.push([
+          analysisId,
+          {
+            result,
+            bytes: Buffer.byteLength(JSON.stringify(result)),
+            storedAt,
+            lastAccessedAt: storedAt,
+          },
+        ]);
+      } catch (error) {
+        this.logger.warn(
+          `[Store] Skipping unreadable analysis file ${file}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }
+
+    // Insert directly: the files are already on disk
+    loaded.sort((a, b) => a[1].storedAt - b[1].storedAt);
+    for (const [analysisId, entry] of loaded) {
+      this.store.set(analysisId, entry);
+      this.totalBytes += entry.bytes;
+    }
+    this.enforceLimits();
+
+    this.logger.info(
+      `[Store] Loaded ${this.store.size} analyses from ${this.directory}`
+    );
+  }
+
+  private filePath(analysisId: string): string {
+    // Analysis IDs are generated UUIDs; strip anything that could escape the directory
+    return path.join(
+      this.directory,
+      `${analysisId.replace(/[^a-zA-Z0-9_-]/g, "_")}.json`
+    );
+  }
+}
@@ -0,0 +1,406 @@
+import {
+  type ApiEndpoint,
+  type ApiPathParam,
+  type CapturedRequest,
+  type JsonSchema,
+  type OpenApiDocument,
+  type ResponseBodyReader,
+  type SiteAnalysisResult,
+} from "../types.js";
+import { SchemaInferrer } from "./schema_inferrer.js";
+import { TRUNCATED_BODY_MARKER, FAILED_BODY_MARKER } from "./request_monitor.js";
+
+/** Resource types treated as API calls */
+const API_RESOURCE_TYPES = new Set(["xhr", "fetch"]);
+
+/** Distinct values kept per path parameter */
+const MAX_PARAM_EXAMPLES = 5;
+
+const UUID_SEGMENT = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const HEX_SEGMENT = /^[0-9a-f]{16,}$/i;
+const SLUG_SEGMENT = /^[a-z0-9]+(?:[-_][a-z0-9]+)+$/i;
+
+interface EndpointGroup {
+  method: string;
+  origin: string;
+  pathTemplate: string;
+  pathParams: ApiPathParam[];
+  requests: CapturedRequest[];
+}
+
+/**
+ * Service responsible for discovering API endpoints in captured xhr/fetch
+ * traffic and describing them as an OpenAPI 3.1 document
+ */
+export class ApiDiscovery {
+  private schemaInferrer = new SchemaInferrer();
+
+  /**
+   * Group the API requests of an analysis into endpoints by method, origin
+   * and path template, inferring query, body and response schemas
+   * @param {SiteAnalysisResult} result - The analysis to inspect
+   * @param {string} domain - Optional hostname to restrict discovery to
+   * @param {ResponseBodyReader} readBody - Optional reader for response bodies kept in the body store
+   * @returns {Promise<ApiEndpoint[]>} Endpoints sorted by origin, path and method
+   */
+  async discoverEndpoints(result: SiteAnalysisResult, domain?: string, readBody?: ResponseBodyReader): Promise<ApiEndpoint[]> {
+    const groups = new Map<string, EndpointGroup>();
+
+    for (const request of result.requests) {
+      if (!API_RESOURCE_TYPES.has(request.resourceType)) {
+        continue;
+      }
+      let url: URL;
+      try {
+        url = new URL(request.url);
+      } catch {
+        continue;
+      }
+      if (domain && url.hostname !== domain) {
+        continue;
+      }
+
+      const { pathTemplate, params } = this.templatePath(url.pathname);
+      const key = `${request.method} ${url.origin}${pathTemplate}`;
+      let group = groups.get(key);
+      if (!group) {
+        group = {
+          method: request.method,
+          origin: url.origin,
+          pathTemplate,
+          pathParams: params.map(({ name, kind }) => ({ name, kind, examples: [] })),
+          requests: [],
+        };
+        groups.set(key, group);
+      }
+      group.requests.push(request);
+      params.forEach(({ value }, index) => {
+        const examples = group!.pathParams[index]!.examples;
+        if (examples.length < MAX_PARAM_EXAMPLES && !examples.includes(value)) {
+          examples.push(value);
+        }
+      });
+    }
+
+    // One group at a time, so stored bodies are read one after another
+    const endpoints: ApiEndpoint[] = [];
+    for (const group of groups.values()) {
+      endpoints.push(await this.toEndpoint(group, readBody));
+    }
+    return endpoints.sort((a, b) =>
+      a.origin.localeCompare(b.origin) ||
+      a.pathTemplate.localeCompare(b.pathTemplate) ||
+      a.method.localeCompare(b.method)
+    );
+  }
+
+  /**
+   * Build an OpenAPI 3.1 document from discovered endpoints. The analyzed
+   * site's origin (or the most common one) is the default server; endpoints
+   * on other origins carry operation-level servers.
+   * @param {SiteAnalysisResult} result - The analysis the endpoints came from
+   * @param {ApiEndpoint[]} endpoints - The discovered endpoints
+   * @returns {OpenApiDocument} The OpenAPI document
+   */
+  toOpenApi(result: SiteAnalysisResult, endpoints: ApiEndpoint[]): OpenApiDocument {
+    const primaryOrigin = this.selectPrimaryOrigin(result, endpoints);
+    const paths: OpenApiDocument["paths"] = {};
+    const operationIds = new Set<string>();
+    const observedRequests = endpoints.reduce((sum, endpoint) => sum + endpoint.requestIds.length, 0);
+
+    for (const endpoint of endpoints) {
+      const pathItem = (paths[endpoint.pathTemplate] ??= {});
+      const method = endpoint.method.toLowerCase();
+      const existing = pathItem[method] as Record<string, any> | undefined;
+
+      // Same method and path on another origin: record the extra server only
+      if (existing) {
+        existing.servers = [...(existing.servers ?? [{ url: primaryOrigin }]), { url: endpoint.origin }];
+        existing["x-request-ids"] = [...existing["x-request-ids"], ...endpoint.requestIds];
+        continue;
+      }
+
+      const operation: Record<string, unknown> = {
+        operationId: this.uniqueOperationId(endpoint, operationIds),
+        summary: `${endpoint.method} ${endpoint.pathTemplate}`,
+      };
+      if (endpoint.origin !== primaryOrigin) {
+        operation.servers = [{ url: endpoint.origin }];
+      }
+
+      const parameters = [
+        ...endpoint.pathParams.map((param) => ({
+          name: param.name,
+          in: "path",
+          required: true,
+          schema: param.kind === "integer"
+            ? { type: "integer" }
+            : param.kind === "uuid"
+              ? { type: "string", format: "uuid" }
+              : { type: "string" },
+          example: param.examples[0],
+        })),
+        ...Object.entries(endpoint.querySchema?.properties ?? {}).map(([name, schema]) => ({
+          name,
+          in: "query",
+          required: endpoint.querySchema?.required?.includes(name) ?? false,
+          schema,
+        })),
+      ];
+      if (parameters.length > 0) {
+        operation.parameters = parameters;
+      }
+
+      if (endpoint.requestBody) {
+        operation.requestBody = {
+          content: {
+            [endpoint.requestBody.contentType]: endpoint.requestBody.schema ? { schema: endpoint.requestBody.schema } : {},
+          },
+        };
+      }
+
+      const responses: Record<string, unknown> = {};
+      for (const [status, response] of Object.entries(endpoint.responses)) {
+        responses[status] = {
+          description: `Observed ${response.count} time${response.count === 1 ? "" : "s"}`,
+          ...(response.contentType
+            ? { content: { [response.contentType]: response.schema ? { schema: response.schema } : {} } }
+            : {}),
+        };
+      }
+      operation.responses = Object.keys(responses).length > 0
+        ? responses
+        : { default: { description: "No response observed" } };
+      operation["x-request-ids"] = endpoint.requestIds;
+
+      pathItem[method] = operation;
+    }
+
+    return {
+      openapi: "3.1.0",
+      info: {
+        title: `API discovered from ${result.url}`,
+        version: "1.0.0",
+        description: `Generated from ${observedRequests} xhr/fetch requests captured at ${result.analysisTimestamp}${
+          result.analysisId ? ` (analysis ${result.analysisId})` : ""
+        }. Schemas are inferred from observed traffic and may be incomplete.`,
+      },
+      servers: [{ url: primaryOrigin }],
+      paths,
+    };
+  }
+
+  /**
+   * Replace variable path segments (numeric IDs, UUIDs, hashes, slugs) with
+   * {param} placeholders named after the preceding segment
+   * @param {string} pathname - The URL path
+   * @returns {{ pathTemplate: string; params: Array<{ name: string; kind: ApiPathParam["kind"]; value: string }> }} The template and its parameters
+   */
+  templatePath(pathname: string): {
+    pathTemplate: string;
+    params: Array<{ name: string; kind: ApiPathParam["kind"]; value: string }>;
+  } {
+    const params: Array<{ name: string; kind: ApiPathParam["kind"]; value: string }> = [];
+    const usedNames = new Set<string>();
+    let previous: string | undefined;
+
+    const segments = pathname.split("/").map((segment) => {
+      const kind = segment ? this.classifySegment(segment) : undefined;
+      if (!kind) {
+        previous = segment || previous;
+        return segment;
+      }
+
+      const base = previous ? this.toIdentifier(previous) : "";
+      let name = base ? `${base}${kind === "slug" ? "Slug" : "Id"}` : kind === "slug" ? "slug" : "id";
+      for (let suffix = 2; usedNames.has(name); suffix++) {
+        name = `${name.replace(/\d+$/, "")}${suffix}`;
+      }
+      usedNames.add(name);
+      params.push({ name, kind, value: this.decodeSegment(segment) });
+      previous = undefined;
+      return `{${name}}`;
+    });
+
+    return { pathTemplate: segments.join("/") || "/", params };
+  }
+
+  private async toEndpoint(group: EndpointGroup, readBody?: ResponseBodyReader): Promise<ApiEndpoint> {
+    const endpoint: ApiEndpoint = {
+      method: group.method,
+      origin: group.origin,
+      pathTemplate: group.pathTemplate,
+      pathParams: group.pathParams,
+      requestIds: group.requests.map((request) => request.id),
+      responses: {},
+    };
+
+    endpoint.querySchema = this.inferQuerySchema(group.requests);
+
+    const bodies = group.requests.filter((request) => request.postData !== undefined);
+    if (bodies.length > 0) {
+      const contentType = this.mediaType(this.findHeader(bodies[0]!.headers, "content-type")) ?? "application/octet-stream";
+      const values = bodies
+        .map((request) => this.parseRequestBody(request.postData!, contentType))
+        .filter((value) => value !== undefined);
+      endpoint.requestBody = { contentType, schema: this.schemaInferrer.inferAll(values) };
+    }
+
+    const byStatus = new Map<number, CapturedRequest[]>();
+    for (const request of group.requests) {
+      if (request.status !== undefined) {
+        byStatus.set(request.status, [...(byStatus.get(request.status) ?? []), request]);
+      }
+    }
+    for (const [status, requests] of Array.from(byStatus.entries()).sort((a, b) => a[0] - b[0])) {
+      const contentType = requests
+        .map((request) => this.mediaType(this.findHeader(request.responseHeaders ?? {}, "content-type")))
+        .find((type) => type !== undefined);
+      let schema: JsonSchema | undefined;
+      for (const request of requests) {
+        const storedBody = readBody ? await readBody(request) : undefined;
+        const value = this.parseResponseBody(storedBody ?? request.responseBody);
+        if (value !== undefined) {
+          const inferred = this.schemaInferrer.infer(value);
+          schema = schema ? this.schemaInferrer.merge(schema, inferred) : inferred;
+        }
+      }
+      endpoint.responses[String(status)] = { count: requests.length, contentType, schema };
+    }
+
+    return endpoint;
+  }
+
+  /**
+   * Infer an object schema of the query parameters, with numeric and
+   * boolean strings typed accordingly and repeated keys as arrays
+   */
+  private inferQuerySchema(requests: CapturedRequest[]): JsonSchema | undefined {
+    const queries: Array<Record<string, unknown>> = [];
+    for (const request of requests) {
+      const query: Record<string, unknown> = {};
+      for (const [name, value] of new URL(request.url).searchParams.entries()) {
+        const coerced = this.coerceQueryValue(value);
+        const current = query[name];
+        query[name] = current === undefined ? coerced : [...(Array.isArray(current) ? current : [current]), coerced];
+      }
+      queries.push(query);
+    }
+    if (queries.every((query) => Object.keys(query).length === 0)) {
+      return undefined;
+    }
+    return this.schemaInferrer.inferAll(queries);
+  }
+
+  private coerceQueryValue(value: string): unknown {
+    if (/^-?\d+$/.test(value) && Number.isSafeInteger(Number(value))) return Number(value);
+    if (/^-?\d+\.\d+$/.test(value)) return Number(value);
+    if (value === "true" || value === "false") return value === "true";
+    return value;
+  }
+
+  private parseRequestBody(postData: string, contentType: string): unknown {
+    if (contentType === "application/x-www-form-urlencoded") {
+      return Object.fromEntries(new URLSearchParams(postData).entries());
+    }
+    return this.parseJson(postData);
+  }
+
+  private parseResponseBody(responseBody: string | undefined): unknown {
+    // Truncated bodies are not valid JSON and unreadable ones carry no data
+    if (responseBody === undefined || responseBody === FAILED_BODY_MARKER || responseBody.endsWith(TRUNCATED_BODY_MARKER)) {
+      return undefined;
+    }
+    return this.parseJson(responseBody);
+  }
+
+  private parseJson(text: string): unknown {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private classifySegment(segment: string): ApiPathParam["kind"] | undefined {
+    const value = this.decodeSegment(segment);
+    if (/^\d+$/.test(value)) return "integer";
+    if (UUID_SEGMENT.test(value)) return "uuid";
+    if (HEX_SEGMENT.test(value)) return "hash";
+    // Long mixed tokens such as base64url IDs
+    if (value.length >= 20 && /^[A-Za-z0-9_-]+$/.test(value) && /\d/.test(value) && /[A-Za-z]/.test(value) && !value.includes("-")) {
+      return "hash";
+    }
+    // Slugs: hyphenated words that include a number, or four or more words
+    if (SLUG_SEGMENT.test(value) && (/\d/.test(value) || value.split(/[-_]/).length >= 4)) {
+      return "slug";
+    }
+    return undefined;
+  }
+
+  private decodeSegment(segment: string): string {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  }
+
+  /**
+   * Turn a static path segment into a singular camelCase identifier,
+   * e.g. "user-groups" becomes "userGroup"
+   */
+  private toIdentifier(segment: string): string {
+    const words = segment.split(/[^a-zA-Z0-9]+/).filter(Boolean);
+    const identifier = words
+      .map((word, index) => (index === 0 ? word.toLowerCase() : word[0]!.toUpperCase() + word.slice(1).toLowerCase()))
+      .join("");
+    const singular = identifier.length > 3 && identifier.endsWith("s") && !identifier.endsWith("ss")
+      ? identifier.slice(0, -1)
+      : identifier;
+    return /^[a-zA-Z]/.test(singular) ? singular : "";
+  }
+
+  private uniqueOperationId(endpoint: ApiEndpoint, used: Set<string>): string {
+    const parts = endpoint.pathTemplate
+      .replace(/[{}]/g, "")
+      .split("/")
+      .filter(Boolean)
+      .map((part) => part.replace(/[^a-zA-Z0-9]+/g, "_"));
+    const base = `${endpoint.method.toLowerCase()}_${parts.join("_") || "root"}`;
+    let operationId = base;
+    for (let suffix = 2; used.has(operationId); suffix++) {
+      operationId = `${base}_${suffix}`;
+    }
+    used.add(operationId);
+    return operationId;
+  }
+
+  private selectPrimaryOrigin(result: SiteAnalysisResult, endpoints: ApiEndpoint[]): string {
+    let siteOrigin: string | undefined;
+    try {
+      siteOrigin = new URL(result.url).origin;
+    } catch {
+      siteOrigin = undefined;
+    }
+    if (siteOrigin && (endpoints.length === 0 || endpoints.some((endpoint) => endpoint.origin === siteOrigin))) {
+      return siteOrigin;
+    }
+
+    const counts = new Map<string, number>();
+    for (const endpoint of endpoints) {
+      counts.set(endpoint.origin, (counts.get(endpoint.origin) ?? 0) + endpoint.requestIds.length);
+    }
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? siteOrigin ?? "/";
+  }
+
+  private mediaType(contentType: string | undefined): string | undefined {
+    const type = contentType?.split(";")[0]?.trim().toLowerCase();
+    return type || undefined;
+  }
+
+  private findHeader(headers: Record<string, string>, name: string): string | undefined {
+    const match = Object.keys(headers).find((key) => key.toLowerCase() === name);
+    return match !== undefined ? headers[match] : undefined;
+  }
+}
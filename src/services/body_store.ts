@@ -0,0 +1,127 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { Logger } from "../logger.js";
+import { config } from "../config.js";
+
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Content-addressed store of response bodies on disk. Bodies are written
+ * under their sha256, so identical bodies are stored once; the oldest
+ * bodies are removed once the directory exceeds its size limit. The sizes
+ * are read from disk once, then tracked in memory.
+ */
+export class BodyStore {
+  private logger: Logger;
+  private directory: string;
+  private maxBytes: number;
+  /** Stored body sizes by hash, oldest first */
+  private index?: Promise<Map<string, number>>;
+  private totalBytes = 0;
+
+  constructor(logger: Logger, directory: string = config.storage.bodyDirectory, maxBytes: number = config.storage.maxBodyBytes) {
+    this.logger = logger;
+    this.directory = path.isAbsolute(directory) ? directory : path.resolve(process.cwd(), directory);
+    this.maxBytes = maxBytes;
+  }
+
+  /**
+   * Store a body unless an identical one is already stored
+   * @param {Buffer} data - The body bytes
+   * @returns {Promise<{ sha256: string; size: number }>} The body's hash and size
+   */
+  async put(data: Buffer): Promise<{ sha256: string; size: number }> {
+    const sha256 = createHash("sha256").update(data).digest("hex");
+    const filePath = path.join(this.directory, sha256);
+    const index = await this.loadIndex();
+
+    if (index.has(sha256)) {
+      try {
+        // Refresh the age of a body that is already stored
+        const now = new Date();
+        await fs.promises.utimes(filePath, now, now);
+        this.track(index, sha256, data.length);
+        return { sha256, size: data.length };
+      } catch {
+        // Removed from the directory by someone else: store it again
+      }
+    }
+    await fs.promises.writeFile(filePath, data);
+    this.track(index, sha256, data.length);
+    await this.enforceLimit(index, sha256);
+    return { sha256, size: data.length };
+  }
+
+  /**
+   * Read a stored body
+   * @param {string} sha256 - The body's hash
+   * @returns {Promise<Buffer | undefined>} The body, or undefined when it is not stored
+   */
+  async get(sha256: string): Promise<Buffer | undefined> {
+    if (!SHA256_PATTERN.test(sha256)) {
+      return undefined;
+    }
+    try {
+      return await fs.promises.readFile(path.join(this.directory, sha256));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Read the sizes of the bodies already in the directory, oldest first,
+   * on first use
+   * @returns {Promise<Map<string, number>>} Body sizes by hash
+   */
+  private loadIndex(): Promise<Map<string, number>> {
+    this.index ??= (async () => {
+      await fs.promises.mkdir(this.directory, { recursive: true });
+      const files: Array<{ name: string; size: number; mtime: number }> = [];
+      for (const name of await fs.promises.readdir(this.directory)) {
+        if (!SHA256_PATTERN.test(name)) {
+          continue;
+        }
+        const stats = await fs.promises.stat(path.join(this.directory, name));
+        files.push({ name, size: stats.size, mtime: stats.mtimeMs });
+      }
+      files.sort((a, b) => a.mtime - b.mtime);
+      this.totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+      return new Map(files.map((file) => [file.name, file.size]));
+    })();
+    return this.index;
+  }
+
+  /**
+   * Record a body as the most recently stored one
+   * @param {Map<string, number>} index - Body sizes by hash
+   * @param {string} sha256 - The body's hash
+   * @param {number} size - The body's size in bytes
+   */
+  private track(index: Map<string, number>, sha256: string, size: number): void {
+    this.totalBytes += size - (index.get(sha256) ?? 0);
+    index.delete(sha256);
+    index.set(sha256, size);
+  }
+
+  /**
+   * Remove the oldest bodies until the directory fits the size limit. The
+   * body that was just stored is never removed.
+   * @param {Map<string, number>} index - Body sizes by hash
+   * @param {string} keepSha256 - Hash of the body being stored
+   */
+  private async enforceLimit(index: Map<string, number>, keepSha256: string): Promise<void> {
+    for (const [name, size] of index) {
+      if (this.totalBytes <= this.maxBytes) {
+        break;
+      }
+      if (name === keepSha256) {
+        continue;
+      }
+      index.delete(name);
+      this.totalBytes -= size;
+      await fs.promises.rm(path.join(this.directory, name), { force: true });
+      this.logger.info(`[BodyStore] Evicted body ${name}`);
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { type Page } from "patchright";
+import { type ContentElement, type ContentNode } from "../types.js";
+import { Logger } from "../logger.js";
+
+/** Elements serialized per page, bounding the size of huge documents */
+const MAX_NODES = 20000;
+
+/**
+ * Service responsible for capturing the readable content of a rendered
+ * page as a compact node tree
+ */
+export class ContentExtractor {
+  private logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  /**
+   * Serialize the visible DOM, skipping scripts, media and form controls.
+   * With mainContentOnly, only the main content is kept: the main element,
+   * a single article, or the container holding the most paragraph text,
+   * without navigation, page headers and footers, sidebars, dialogs and
+   * elements whose class or ID marks them as ads, share bars or cookie
+   * banners.
+   * @param {Page} page - The browser page to capture
+   * @param {boolean} mainContentOnly - Whether to keep only the main content
+   * @returns {Promise<ContentNode[]>} The serialized nodes
+   */
+  async captureContent(page: Page, mainContentOnly: boolean): Promise<ContentNode[]> {
+    const nodes = await page.evaluate(
+      ({ mainContentOnly, maxNodes }) => {
+        const SKIPPED_TAGS = new Set([
+          "script", "style", "noscript", "template", "svg", "canvas", "iframe", "object", "embed",
+          "video", "audio", "input", "select", "textarea", "button", "link", "meta",
+        ]);
+        const BOILERPLATE_TAGS = new Set(["nav", "aside", "dialog"]);
+        const BOILERPLATE_ROLES = new Set(["navigation", "banner", "contentinfo", "complementary", "search", "dialog", "alertdialog"]);
+        const BOILERPLATE_PATTERN =
+          /(^|[\s_-])(ads?|advert\w*|sponsor\w*|promo\w*|banner|cookie\w*|consent|newsletter|popup|modal|share|sharing|social|related|breadcrumbs?|sidebar|comments?)([\s_-]|$)/i;
+        const BLOCK_DISPLAYS = new Set(["block", "flex", "grid", "list-item", "table", "flow-root"]);
+
+        const findMainRoot = (): Element => {
+          const main = document.querySelector("main, [role='main']");
+          if (main) {
+            return main;
+          }
+          const articles = document.querySelectorAll("article");
+          if (articles.length === 1) {
+            return articles[0]!;
+          }
+          // Score containers by the paragraph text they hold, half for grandparents
+          const scores = new Map<Element, number>();
+          for (const paragraph of Array.from(document.querySelectorAll("p"))) {
+            const length = (paragraph.textContent ?? "").trim().length;
+            const parent = paragraph.parentElement;
+            if (length < 25 || !parent) {
+              continue;
+            }
+            scores.set(parent, (scores.get(parent) ?? 0) + length);
+            if (parent.parentElement) {
+              scores.set(parent.parentElement, (scores.get(parent.parentElement) ?? 0) + length / 2);
+            }
+          }
+          let best: Element = document.body;
+          let bestScore = 200;
+          for (const [element, score] of scores) {
+            if (score > bestScore) {
+              best = element;
+              bestScore = score;
+            }
+          }
+          return best;
+        };
+
+        const isBoilerplate = (element: Element, tag: string): boolean => {
+          if (BOILERPLATE_TAGS.has(tag)) {
+            return true;
+          }
+          // Page-level headers and footers; those of articles and sections are content
+          if ((tag === "header" || tag === "footer") && !element.parentElement?.closest("article, main, section")) {
+            return true;
+          }
+          const role = element.getAttribute("role");
+          if (role && BOILERPLATE_ROLES.has(role)) {
+            return true;
+          }
+          const className = typeof element.className === "string" ? element.className : "";
+          return BOILERPLATE_PATTERN.test(`${element.id} ${className}`);
+        };
+
+        let count = 0;
+        const serialize = (parent: Element): ContentNode[] => {
+          const children: ContentNode[] = [];
+          for (const child of Array.from(parent.childNodes)) {
+            if (child.nodeType === Node.TEXT_NODE) {
+              if (child.textContent) {
+                children.push(child.textContent);
+              }
+              continue;
+            }
+            if (child.nodeType !== Node.ELEMENT_NODE || count >= maxNodes) {
+              continue;
+            }
+
+            const element = child as Element;
+            const tag = element.tagName.toLowerCase();
+            if (SKIPPED_TAGS.has(tag) || (mainContentOnly && isBoilerplate(element, tag))) {
+              continue;
+            }
+            const style = getComputedStyle(element);
+            if (style.display === "none" || style.visibility === "hidden" || element.getAttribute("aria-hidden") === "true") {
+              continue;
+            }
+
+            count++;
+            const node: ContentElement = { tag, children: serialize(element) };
+            if (element instanceof HTMLAnchorElement && element.href) {
+              node.href = element.href;
+            }
+            if (element instanceof HTMLImageElement) {
+              node.src = element.currentSrc || element.src;
+              node.alt = element.alt;
+            }
+            if (BLOCK_DISPLAYS.has(style.display)) {
+              node.block = true;
+            }
+            children.push(node);
+          }
+          return children;
+        };
+
+        return serialize(mainContentOnly ? findMainRoot() : document.body);
+      },
+      { mainContentOnly, maxNodes: MAX_NODES }
+    );
+
+    this.logger.debug(`[Content] Captured ${nodes.length} top-level nodes (mainContentOnly=${mainContentOnly})`);
+    return nodes;
+  }
+}
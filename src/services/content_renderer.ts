@@ -0,0 +1,351 @@
+import { type ContentElement, type ContentNode } from "../types.js";
+
+/** Approximate characters per token, used to estimate token counts */
+const CHARS_PER_TOKEN = 4;
+
+/** Appended to content cut down to its token budget */
+export const TRUNCATED_CONTENT_MARKER = "[... content truncated to fit the token budget ...]";
+
+const BLOCK_TAGS = new Set([
+  "address", "article", "aside", "blockquote", "body", "dd", "details", "div", "dl", "dt", "fieldset",
+  "figcaption", "figure", "footer", "form", "h1", "h2", "h3", "h4", "h5", "h6", "header", "hr", "li",
+  "main", "nav", "ol", "p", "pre", "section", "summary", "table", "tbody", "td", "tfoot", "th", "thead",
+  "tr", "ul",
+]);
+
+/** Formatting elements kept inline even when styled as blocks */
+const INLINE_TAGS = new Set(["a", "b", "br", "code", "em", "i", "img", "strong"]);
+
+interface ContentBlock {
+  text: string;
+  /** Heading text, set on heading blocks */
+  heading?: string;
+}
+
+export interface RenderedContent {
+  content: string;
+  tokens: number;
+  totalTokens: number;
+  truncated: boolean;
+  omittedSections?: string[];
+}
+
+/**
+ * Service responsible for converting captured page content to Markdown or
+ * plain text and fitting it to a token budget
+ */
+export class ContentRenderer {
+  /**
+   * Render captured DOM nodes as Markdown or plain text. Over budget, whole
+   * sections (a heading and the blocks up to the next heading) are kept in
+   * document order; the first section that does not fit is cut between blocks.
+   * @param {ContentNode[]} nodes - The captured DOM nodes
+   * @param {"markdown" | "text"} format - The output format
+   * @param {number} maxTokens - Approximate token budget, unlimited when omitted
+   * @returns {RenderedContent} The rendered content with token estimates
+   */
+  render(nodes: ContentNode[], format: "markdown" | "text", maxTokens?: number): RenderedContent {
+    const blocks: ContentBlock[] = [];
+    this.renderBlocks(nodes, blocks, format === "text");
+    return this.fitToBudget(blocks, maxTokens);
+  }
+
+  /**
+   * Cut rendered HTML to a token budget at the end of a tag
+   * @param {string} html - The rendered HTML document
+   * @param {number} maxTokens - Approximate token budget, unlimited when omitted
+   * @returns {RenderedContent} The HTML with token estimates
+   */
+  renderHtml(html: string, maxTokens?: number): RenderedContent {
+    const totalTokens = this.estimateTokens(html);
+    if (maxTokens === undefined || totalTokens <= maxTokens) {
+      return { content: html, tokens: totalTokens, totalTokens, truncated: false };
+    }
+    const marker = `<!-- ${TRUNCATED_CONTENT_MARKER} -->`;
+    const cut = html.slice(0, this.budgetChars(maxTokens) - (marker.length - TRUNCATED_CONTENT_MARKER.length));
+    const content = `${cut.slice(0, cut.lastIndexOf(">") + 1)}\n${marker}`;
+    return { content, tokens: this.estimateTokens(content), totalTokens, truncated: true };
+  }
+
+  /**
+   * Estimate the tokens of a text
+   * @param {string} text - The text
+   * @returns {number} The estimated token count
+   */
+  estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+  }
+
+  private fitToBudget(blocks: ContentBlock[], maxTokens?: number): RenderedContent {
+    const full = blocks.map((block) => block.text).join("\n\n");
+    const totalTokens = this.estimateTokens(full);
+    if (maxTokens === undefined || totalTokens <= maxTokens) {
+      return { content: full, tokens: totalTokens, totalTokens, truncated: false };
+    }
+
+    const budget = this.budgetChars(maxTokens);
+    const kept: string[] = [];
+    const omittedSections: string[] = [];
+    let used = 0;
+    let stopped = false;
+    const fits = (text: string) => used + text.length + (kept.length > 0 ? 2 : 0) <= budget;
+    const keep = (text: string) => {
+      used += text.length + (kept.length > 0 ? 2 : 0);
+      kept.push(text);
+    };
+
+    for (const section of this.toSections(blocks)) {
+      if (!stopped) {
+        const text = section.blocks.map((block) => block.text).join("\n\n");
+        if (fits(text)) {
+          keep(text);
+          continue;
+        }
+        stopped = true;
+
+        // Keep the leading blocks of the first section that does not fit,
+        // unless nothing but its heading would be left
+        const keptBefore = kept.length;
+        const usedBefore = used;
+        for (const block of section.blocks) {
+          if (!fits(block.text)) {
+            if (kept.length === 0) {
+              // A single oversized block: cut it at a word boundary
+              const cut = block.text.slice(0, budget);
+              keep(cut.slice(0, Math.max(cut.lastIndexOf(" "), 0)) || cut);
+            }
+            break;
+          }
+          keep(block.text);
+        }
+        if (kept.length - keptBefore === 1 && section.blocks.length > 1 && section.blocks[0]!.heading !== undefined) {
+          kept.pop();
+          used = usedBefore;
+        }
+        if (kept.length > keptBefore) {
+          continue;
+        }
+      }
+      if (section.title) {
+        omittedSections.push(section.title);
+      }
+    }
+
+    kept.push(TRUNCATED_CONTENT_MARKER);
+    const content = kept.join("\n\n");
+    return {
+      content,
+      tokens: this.estimateTokens(content),
+      totalTokens,
+      truncated: true,
+      omittedSections,
+    };
+  }
+
+  /** Characters available for content, leaving room for the truncation marker */
+  private budgetChars(maxTokens: number): number {
+    return Math.max(maxTokens * CHARS_PER_TOKEN - TRUNCATED_CONTENT_MARKER.length - 2, 0);
+  }
+
+  private toSections(blocks: ContentBlock[]): Array<{ title?: string; blocks: ContentBlock[] }> {
+    const sections: Array<{ title?: string; blocks: ContentBlock[] }> = [];
+    for (const block of blocks) {
+      if (block.heading !== undefined || sections.length === 0) {
+        sections.push({ title: block.heading, blocks: [] });
+      }
+      sections[sections.length - 1]!.blocks.push(block);
+    }
+    return sections;
+  }
+
+  private renderBlocks(nodes: ContentNode[], blocks: ContentBlock[], plain: boolean): void {
+    let inline = "";
+    const flush = () => {
+      const text = this.cleanInline(inline);
+      if (text) {
+        blocks.push({ text });
+      }
+      inline = "";
+    };
+
+    for (const node of nodes) {
+      if (typeof node === "string" || !this.isBlock(node)) {
+        inline += this.renderInline(node, plain);
+        continue;
+      }
+      flush();
+      this.renderBlock(node, blocks, plain);
+    }
+    flush();
+  }
+
+  private renderBlock(element: ContentElement, blocks: ContentBlock[], plain: boolean): void {
+    const heading = /^h([1-6])$/.exec(element.tag);
+    if (heading) {
+      const title = this.cleanInline(this.renderChildren(element, plain)).replace(/\n/g, " ");
+      if (title) {
+        blocks.push({ text: plain ? title : `${"#".repeat(Number(heading[1]))} ${title}`, heading: title });
+      }
+      return;
+    }
+
+    let text = "";
+    switch (element.tag) {
+      case "ul":
+      case "ol":
+        text = this.renderList(element, plain, "");
+        break;
+      case "table":
+        text = this.renderTable(element, plain);
+        break;
+      case "pre": {
+        const code = this.textContent(element).replace(/^\n+|\s+$/g, "");
+        text = code && !plain ? "```\n" + code + "\n```" : code;
+        break;
+      }
+      case "blockquote": {
+        const inner: ContentBlock[] = [];
+        this.renderBlocks(element.children, inner, plain);
+        text = inner.map((block) => block.text).join("\n\n");
+        if (text && !plain) {
+          text = text.split("\n").map((line) => (line ? `> ${line}` : ">")).join("\n");
+        }
+        break;
+      }
+      case "hr":
+        text = plain ? "" : "---";
+        break;
+      default:
+        this.renderBlocks(element.children, blocks, plain);
+        return;
+    }
+    if (text) {
+      blocks.push({ text });
+    }
+  }
+
+  private renderList(list: ContentElement, plain: boolean, indent: string): string {
+    const lines: string[] = [];
+    let index = 1;
+    for (const item of list.children) {
+      if (typeof item === "string" || item.tag !== "li") {
+        continue;
+      }
+      const marker = list.tag === "ol" ? `${index++}.` : "-";
+      const nested: string[] = [];
+      let inline = "";
+      for (const node of item.children) {
+        if (typeof node !== "string" && (node.tag === "ul" || node.tag === "ol")) {
+          nested.push(this.renderList(node, plain, indent + " ".repeat(marker.length + 1)));
+        } else {
+          inline += this.renderInline(node, plain);
+        }
+      }
+      const text = this.cleanInline(inline).replace(/\n/g, " ");
+      if (text) {
+        lines.push(`${indent}${marker} ${text}`);
+      }
+      lines.push(...nested.filter(Boolean));
+    }
+    return lines.join("\n");
+  }
+
+  private renderTable(table: ContentElement, plain: boolean): string {
+    const rows: string[][] = [];
+    const collectRows = (element: ContentElement) => {
+      for (const child of element.children) {
+        if (typeof child === "string" || child.tag === "table") {
+          continue;
+        }
+        if (child.tag !== "tr") {
+          collectRows(child);
+          continue;
+        }
+        const cells = child.children
+          .filter((cell): cell is ContentElement => typeof cell !== "string" && (cell.tag === "th" || cell.tag === "td"))
+          .map((cell) => {
+            const text = this.cleanInline(this.renderChildren(cell, plain)).replace(/\n/g, " ");
+            return plain ? text : text.replace(/\|/g, "\\|");
+          });
+        if (cells.length > 0) {
+          rows.push(cells);
+        }
+      }
+    };
+    collectRows(table);
+    if (rows.length === 0) {
+      return "";
+    }
+    if (plain) {
+      return rows.map((row) => row.join("\t")).join("\n");
+    }
+
+    const width = Math.max(...rows.map((row) => row.length));
+    const line = (row: string[]) =>
+      `| ${Array.from({ length: width }, (_, column) => row[column] ?? "").join(" | ")} |`;
+    return [line(rows[0]!), line(new Array(width).fill("---")), ...rows.slice(1).map(line)].join("\n");
+  }
+
+  private renderInline(node: ContentNode, plain: boolean): string {
+    if (typeof node === "string") {
+      return node.replace(/\s+/g, " ");
+    }
+    switch (node.tag) {
+      case "br":
+        return "\n";
+      case "img":
+        return plain || !node.src ? node.alt ?? "" : `![${node.alt ?? ""}](${node.src})`;
+      case "a": {
+        const text = this.renderChildren(node, plain);
+        const label = this.cleanInline(text).replace(/\n/g, " ");
+        if (plain || !node.href || !label || /^javascript:/i.test(node.href)) {
+          return text;
+        }
+        return `[${label}](${node.href})`;
+      }
+      case "strong":
+      case "b":
+        return plain ? this.renderChildren(node, plain) : this.wrap(this.renderChildren(node, plain), "**");
+      case "em":
+      case "i":
+        return plain ? this.renderChildren(node, plain) : this.wrap(this.renderChildren(node, plain), "*");
+      case "code":
+        return plain ? this.textContent(node) : this.wrap(this.textContent(node).replace(/\s+/g, " "), "`");
+      default: {
+        const text = this.renderChildren(node, plain);
+        // Keep words of adjacent blocks apart, e.g. paragraphs inside a list item
+        return this.isBlock(node) ? ` ${text} ` : text;
+      }
+    }
+  }
+
+  private renderChildren(element: ContentElement, plain: boolean): string {
+    return element.children.map((child) => this.renderInline(child, plain)).join("");
+  }
+
+  /** Raw text of an element, keeping whitespace as in preformatted text */
+  private textContent(node: ContentNode): string {
+    if (typeof node === "string") {
+      return node;
+    }
+    return node.tag === "br" ? "\n" : node.children.map((child) => this.textContent(child)).join("");
+  }
+
+  /** Wrap text in a Markdown marker, leaving surrounding whitespace outside */
+  private wrap(text: string, marker: string): string {
+    const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(text)!;
+    return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text;
+  }
+
+  private cleanInline(text: string): string {
+    return text
+      .replace(/[ \t]*\n[ \t]*/g, "\n")
+      .replace(/[ \t]{2,}/g, " ")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  }
+
+  private isBlock(node: ContentElement): boolean {
+    return !INLINE_TAGS.has(node.tag) && (BLOCK_TAGS.has(node.tag) || node.block === true);
+  }
+}
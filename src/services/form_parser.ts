@@ -0,0 +1,177 @@
+import {
+  type CsrfToken,
+  type FormFetchRequest,
+  type FormField,
+  type FormInfo,
+  type RawForm,
+  type RawFormField,
+} from "../types.js";
+
+/** Names of hidden fields holding anti-forgery tokens across common frameworks */
+const CSRF_FIELD_PATTERN = /csrf|xsrf|authenticity_token|requestverificationtoken|^_token$|nonce|form_key/i;
+
+/** Controls that are never part of a form submission built from current values */
+const UNSUBMITTED_TYPES = new Set(["submit", "button", "reset", "image", "file"]);
+
+/** Boundary of multipart bodies built for forms */
+const MULTIPART_BOUNDARY = "----FormBoundaryMcpScraper";
+
+/**
+ * Service responsible for turning forms read from a page into field
+ * descriptions, CSRF tokens and a ready-to-send request
+ */
+export class FormParser {
+  /**
+   * Parse a form read from the page
+   * @param {RawForm} form - The form as read from the page
+   * @returns {FormInfo} The form with its fields, CSRF tokens and the request it submits
+   */
+  parse(form: RawForm): FormInfo {
+    const method = form.method.toUpperCase() || "GET";
+    return {
+      name: form.name || undefined,
+      action: form.action,
+      method,
+      enctype: form.enctype || "application/x-www-form-urlencoded",
+      fields: this.toFields(form.fields),
+      csrfTokens: this.findCsrfTokens(form),
+      submitSelector: form.submitSelector,
+      fetch: method === "DIALOG" ? undefined : this.buildRequest(form, method === "POST" ? "POST" : "GET"),
+    };
+  }
+
+  private toFields(rawFields: RawFormField[]): FormField[] {
+    const fields: FormField[] = [];
+    const radioGroups = new Map<string, FormField>();
+
+    for (const raw of rawFields) {
+      if (raw.type === "radio" && raw.name) {
+        // Radio buttons sharing a name are one choice
+        let group = radioGroups.get(raw.name);
+        if (!group) {
+          group = { name: raw.name, type: "radio", tag: raw.tag, selector: raw.selector, required: false, options: [] };
+          radioGroups.set(raw.name, group);
+          fields.push(group);
+        }
+        group.required = group.required || raw.required;
+        group.options!.push({ value: raw.value, label: raw.label ?? "", selected: raw.checked, selector: raw.selector });
+        if (raw.checked) {
+          group.value = raw.value;
+        }
+        continue;
+      }
+
+      const field: FormField = {
+        name: raw.name,
+        type: raw.type,
+        tag: raw.tag,
+        selector: raw.selector,
+        label: raw.label || undefined,
+        placeholder: raw.placeholder || undefined,
+        required: raw.required,
+        disabled: raw.disabled || undefined,
+        value: raw.value,
+      };
+      if (raw.type === "checkbox") {
+        field.checked = raw.checked;
+      }
+      if (raw.options) {
+        field.options = raw.options;
+        field.multiple = raw.multiple || undefined;
+        field.value = raw.multiple ? this.selectedValues(raw) : this.selectedValues(raw)[0];
+      }
+      fields.push(field);
+    }
+    return fields;
+  }
+
+  private findCsrfTokens(form: RawForm): CsrfToken[] {
+    const tokens: CsrfToken[] = form.fields
+      .filter((field) => field.type === "hidden" && CSRF_FIELD_PATTERN.test(field.name))
+      .map((field) => ({ name: field.name, value: field.value, source: "field", selector: field.selector }));
+    for (const meta of form.metaTokens) {
+      tokens.push({ name: meta.name, value: meta.value, source: "meta" });
+    }
+    return tokens;
+  }
+
+  /**
+   * Build the request the browser would send for the form's current values.
+   * File inputs are left out.
+   */
+  private buildRequest(form: RawForm, method: "GET" | "POST"): FormFetchRequest {
+    const entries = this.submittedEntries(form.fields);
+
+    if (method === "GET") {
+      // GET forms replace the query of their action URL
+      let url: URL;
+      try {
+        url = new URL(form.action);
+      } catch {
+        return { url: form.action, method };
+      }
+      url.search = new URLSearchParams(entries).toString();
+      url.hash = "";
+      return { url: url.toString(), method };
+    }
+
+    switch (form.enctype) {
+      case "multipart/form-data":
+        return {
+          url: form.action,
+          method,
+          headers: { "Content-Type": `multipart/form-data; boundary=${MULTIPART_BOUNDARY}` },
+          body:
+            entries
+              .map(([name, value]) => `--${MULTIPART_BOUNDARY}\r\nContent-Disposition: form-data; name="${name.replace(/"/g, "%22")}"\r\n\r\n${value}\r\n`)
+              .join("") + `--${MULTIPART_BOUNDARY}--\r\n`,
+        };
+      case "text/plain":
+        return {
+          url: form.action,
+          method,
+          headers: { "Content-Type": "text/plain" },
+          body: entries.map(([name, value]) => `${name}=${value}\r\n`).join(""),
+        };
+      default:
+        return {
+          url: form.action,
+          method,
+          headers: { "Content-Type": "application/x-www-form-urlencoded" },
+          body: new URLSearchParams(entries).toString(),
+        };
+    }
+  }
+
+  /** Name/value pairs of a submission, following the browser's rules */
+  private submittedEntries(fields: RawFormField[]): Array<[string, string]> {
+    const entries: Array<[string, string]> = [];
+    for (const field of fields) {
+      if (!field.name || field.disabled || UNSUBMITTED_TYPES.has(field.type)) {
+        continue;
+      }
+      if (field.type === "checkbox" || field.type === "radio") {
+        if (field.checked) {
+          entries.push([field.name, field.value || "on"]);
+        }
+      } else if (field.options) {
+        for (const value of this.selectedValues(field)) {
+          entries.push([field.name, value]);
+        }
+      } else {
+        entries.push([field.name, field.value]);
+      }
+    }
+    return entries;
+  }
+
+  /** Selected option values; a single select without a selection submits its first option */
+  private selectedValues(field: RawFormField): string[] {
+    const options = field.options ?? [];
+    const selected = options.filter((option) => option.selected).map((option) => option.value);
+    if (selected.length === 0 && !field.multiple && options.length > 0) {
+      return [options[0]!.value];
+    }
+    return field.multiple ? selected : selected.slice(0, 1);
+  }
+}
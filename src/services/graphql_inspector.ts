@@ -0,0 +1,321 @@
+import {
+  type CapturedRequest,
+  type GraphqlOperation,
+  type GraphqlOperationSummary,
+  type ResponseBodyReader,
+} from "../types.js";
+import { SchemaInferrer } from "./schema_inferrer.js";
+import { TRUNCATED_BODY_MARKER, FAILED_BODY_MARKER } from "./request_monitor.js";
+
+const OPERATION_TYPES = new Set(["query", "mutation", "subscription"]);
+
+/** Distinct variable sets and error messages kept per operation summary */
+const MAX_SAMPLES = 5;
+
+interface GraphqlPayload {
+  query?: unknown;
+  operationName?: unknown;
+  variables?: unknown;
+  extensions?: { persistedQuery?: { sha256Hash?: unknown } };
+  id?: unknown;
+  documentId?: unknown;
+  queryId?: unknown;
+}
+
+/**
+ * Service responsible for recognising GraphQL traffic in captured requests
+ * and describing its operations
+ */
+export class GraphqlInspector {
+  private schemaInferrer = new SchemaInferrer();
+
+  /**
+   * Extract the GraphQL operations of a request from its JSON body (single
+   * or batched) or, for GET requests, from its query string
+   * @param {CapturedRequest} request - The captured request
+   * @param {string} responseBody - The response body to read results from, the inline one by default
+   * @returns {GraphqlOperation[]} Operations found, empty for non-GraphQL requests
+   */
+  parseRequest(request: CapturedRequest, responseBody: string | undefined = request.responseBody): GraphqlOperation[] {
+    let url: URL;
+    try {
+      url = new URL(request.url);
+    } catch {
+      return [];
+    }
+    const endpoint = `${url.origin}${url.pathname}`;
+    const looksLikeGraphqlUrl = /graphql|gql/i.test(url.pathname);
+
+    const body = request.postData !== undefined ? this.parseJson(request.postData) : this.payloadFromQueryString(url);
+    const batched = Array.isArray(body);
+    const payloads: unknown[] = batched ? body : [body];
+    if (payloads.length === 0 || !payloads.every((payload) => this.isGraphqlPayload(payload, looksLikeGraphqlUrl))) {
+      return [];
+    }
+
+    const response = this.parseResponse(responseBody);
+    const responses: unknown[] = Array.isArray(response) ? response : [response];
+
+    return (payloads as GraphqlPayload[]).map((payload, batchIndex) => {
+      const operationName = typeof payload.operationName === "string" && payload.operationName ? payload.operationName : undefined;
+      const query = typeof payload.query === "string" ? payload.query : undefined;
+      const definition = query ? this.findOperation(query, operationName) : undefined;
+
+      const operation: GraphqlOperation = {
+        requestId: request.id,
+        batchIndex,
+        batched,
+        endpoint,
+        operationName: operationName ?? definition?.name,
+        operationType: definition?.type ?? "unknown",
+        variables: this.isRecord(payload.variables) ? payload.variables : undefined,
+        persistedQueryHash: this.persistedQueryHash(payload),
+        query,
+      };
+
+      const entry = responses[batched ? batchIndex : 0];
+      if (this.isRecord(entry)) {
+        operation.data = entry.data;
+        if (Array.isArray(entry.errors)) {
+          operation.errors = entry.errors.map((error) =>
+            this.isRecord(error) && typeof error.message === "string" ? error.message : JSON.stringify(error)
+          );
+        }
+      }
+      return operation;
+    });
+  }
+
+  /**
+   * Group the GraphQL operations of a set of requests by endpoint, type and
+   * name, merging response shapes and sampling variables
+   * @param {CapturedRequest[]} requests - The captured requests
+   * @param {ResponseBodyReader} readBody - Optional reader for response bodies kept in the body store
+   * @returns {Promise<GraphqlOperationSummary[]>} Summaries in order of first appearance
+   */
+  async summarizeOperations(requests: CapturedRequest[], readBody?: ResponseBodyReader): Promise<GraphqlOperationSummary[]> {
+    const summaries = new Map<string, GraphqlOperationSummary>();
+
+    for (const request of requests) {
+      let operations = this.parseRequest(request);
+      // Only GraphQL requests have their stored body read, one at a time
+      const storedBody = operations.length > 0 && readBody ? await readBody(request) : undefined;
+      if (storedBody !== undefined) {
+        operations = this.parseRequest(request, storedBody);
+      }
+      for (const operation of operations) {
+        const label = this.getLabel(operation);
+        const key = `${operation.endpoint} ${operation.operationType} ${label}`;
+        let summary = summaries.get(key);
+        if (!summary) {
+          summary = {
+            label,
+            endpoint: operation.endpoint,
+            operationName: operation.operationName,
+            operationType: operation.operationType,
+            count: 0,
+            requestIds: [],
+            persistedQueryHash: operation.persistedQueryHash,
+            query: operation.query,
+            variables: [],
+            errors: [],
+          };
+          summaries.set(key, summary);
+        }
+
+        summary.count++;
+        if (!summary.requestIds.includes(operation.requestId)) {
+          summary.requestIds.push(operation.requestId);
+        }
+        summary.query ??= operation.query;
+        if (operation.variables && summary.variables.length < MAX_SAMPLES) {
+          const serialized = JSON.stringify(operation.variables);
+          if (!summary.variables.some((variables) => JSON.stringify(variables) === serialized)) {
+            summary.variables.push(operation.variables);
+          }
+        }
+        if (operation.data !== undefined && operation.data !== null) {
+          const shape = this.schemaInferrer.infer(operation.data);
+          summary.responseShape = summary.responseShape ? this.schemaInferrer.merge(summary.responseShape, shape) : shape;
+        }
+        for (const message of operation.errors ?? []) {
+          if (summary.errors.length < MAX_SAMPLES && !summary.errors.includes(message)) {
+            summary.errors.push(message);
+          }
+        }
+      }
+    }
+
+    return Array.from(summaries.values());
+  }
+
+  /**
+   * Label an operation by name, falling back to its persisted query hash
+   * @param {GraphqlOperation} operation - The operation
+   * @returns {string} The label
+   */
+  getLabel(operation: GraphqlOperation): string {
+    if (operation.operationName) {
+      return operation.operationName;
+    }
+    if (operation.persistedQueryHash) {
+      return `persisted:${operation.persistedQueryHash.slice(0, 12)}`;
+    }
+    return "(anonymous)";
+  }
+
+  /**
+   * Find the type and name of the operation to execute in a GraphQL
+   * document: the one named operationName, else the first. Only top-level
+   * definitions are considered, so fields named "query" are ignored.
+   * @param {string} document - The GraphQL document
+   * @param {string} operationName - The requested operation name
+   * @returns {{ type: GraphqlOperation["operationType"]; name?: string } | undefined} The operation definition
+   */
+  findOperation(document: string, operationName?: string): { type: GraphqlOperation["operationType"]; name?: string } | undefined {
+    const operations: Array<{ type: GraphqlOperation["operationType"]; name?: string }> = [];
+    let pending: { type: GraphqlOperation["operationType"]; name?: string } | undefined;
+    let expectName = false;
+    let inFragment = false;
+    let braces = 0;
+    let parens = 0;
+    let i = 0;
+
+    while (i < document.length) {
+      const ch = document[i]!;
+      if (ch === "#") {
+        const end = document.indexOf("\n", i);
+        i = end === -1 ? document.length : end + 1;
+        continue;
+      }
+      if (ch === '"') {
+        i = this.skipString(document, i);
+        continue;
+      }
+      const topLevel = braces === 0 && parens === 0;
+      if (/[_A-Za-z]/.test(ch)) {
+        const word = /^[_A-Za-z][_0-9A-Za-z]*/.exec(document.slice(i))![0];
+        i += word.length;
+        if (!topLevel) {
+          continue;
+        }
+        if (expectName) {
+          pending!.name = word;
+          expectName = false;
+        } else if (OPERATION_TYPES.has(word)) {
+          pending = { type: word as GraphqlOperation["operationType"] };
+          expectName = true;
+        } else if (word === "fragment") {
+          inFragment = true;
+        }
+        continue;
+      }
+
+      if (ch === "@" || ch === "(") {
+        expectName = false;
+      }
+      if (ch === "@" && topLevel) {
+        // Skip the directive name so it is not taken for an operation name
+        i++;
+        const directive = /^[_A-Za-z][_0-9A-Za-z]*/.exec(document.slice(i));
+        i += directive ? directive[0].length : 0;
+        continue;
+      }
+      if (ch === "(") {
+        parens++;
+      } else if (ch === ")") {
+        parens = Math.max(parens - 1, 0);
+      } else if (ch === "{") {
+        if (topLevel) {
+          if (pending) {
+            operations.push(pending);
+          } else if (!inFragment) {
+            // Shorthand "{ ... }" is an anonymous query
+            operations.push({ type: "query" });
+          }
+          pending = undefined;
+          expectName = false;
+          inFragment = false;
+        }
+        braces++;
+      } else if (ch === "}") {
+        braces = Math.max(braces - 1, 0);
+      }
+      i++;
+    }
+
+    return operations.find((operation) => operationName && operation.name === operationName) ?? operations[0];
+  }
+
+  private isGraphqlPayload(payload: unknown, looksLikeGraphqlUrl: boolean): boolean {
+    if (!this.isRecord(payload)) {
+      return false;
+    }
+    const graphqlPayload = payload as GraphqlPayload;
+    if (typeof graphqlPayload.query === "string" && graphqlPayload.query.includes("{")) {
+      return true;
+    }
+    if (typeof graphqlPayload.extensions?.persistedQuery?.sha256Hash === "string") {
+      return true;
+    }
+    if (typeof graphqlPayload.operationName === "string" && "variables" in graphqlPayload) {
+      return true;
+    }
+    // Stored document IDs (e.g. Relay) are only trusted on GraphQL-looking URLs
+    return looksLikeGraphqlUrl && this.persistedQueryHash(graphqlPayload) !== undefined && "variables" in graphqlPayload;
+  }
+
+  private persistedQueryHash(payload: GraphqlPayload): string | undefined {
+    const candidates = [payload.extensions?.persistedQuery?.sha256Hash, payload.documentId, payload.queryId, payload.id];
+    const hash = candidates.find((candidate) => typeof candidate === "string" || typeof candidate === "number");
+    return hash !== undefined ? String(hash) : undefined;
+  }
+
+  /**
+   * Build a payload from GET query parameters, where variables and
+   * extensions are JSON-encoded
+   */
+  private payloadFromQueryString(url: URL): GraphqlPayload | undefined {
+    const params = url.searchParams;
+    if (!params.has("query") && !params.has("extensions") && !params.has("operationName")) {
+      return undefined;
+    }
+    return {
+      query: params.get("query") ?? undefined,
+      operationName: params.get("operationName") ?? undefined,
+      variables: params.has("variables") ? this.parseJson(params.get("variables")!) : undefined,
+      extensions: params.has("extensions") ? (this.parseJson(params.get("extensions")!) as GraphqlPayload["extensions"]) : undefined,
+    };
+  }
+
+  private parseResponse(responseBody: string | undefined): unknown {
+    if (responseBody === undefined || responseBody === FAILED_BODY_MARKER || responseBody.endsWith(TRUNCATED_BODY_MARKER)) {
+      return undefined;
+    }
+    return this.parseJson(responseBody);
+  }
+
+  private skipString(document: string, start: number): number {
+    if (document.startsWith('"""', start)) {
+      const end = document.indexOf('"""', start + 3);
+      return end === -1 ? document.length : end + 3;
+    }
+    let i = start + 1;
+    while (i < document.length && document[i] !== '"' && document[i] !== "\n") {
+      i += document[i] === "\\" ? 2 : 1;
+    }
+    return i + 1;
+  }
+
+  private parseJson(text: string): unknown {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,345 @@
+import {
+  type CapturedRequest,
+  type HarDocument,
+  type HarEntry,
+  type HarNameValue,
+  type RequestSizes,
+  type RequestTiming,
+  type SiteAnalysisResult,
+} from "../types.js";
+import { randomUUID } from "crypto";
+import { TRUNCATED_BODY_MARKER, FAILED_BODY_MARKER } from "./request_monitor.js";
+import { config } from "../config.js";
+
+const HAR_VERSION = "1.2";
+const HTTP_VERSION = "HTTP/1.1";
+const PAGE_ID = "page_1";
+
+/**
+ * Service responsible for converting analyses to and from HAR 1.2 documents
+ */
+export class HarConverter {
+  /**
+   * Convert a stored analysis into a HAR 1.2 document
+   * @param {SiteAnalysisResult} result - The analysis to convert
+   * @returns {HarDocument} The HAR document
+   */
+  toHar(result: SiteAnalysisResult): HarDocument {
+    const firstTimestamp = result.requests[0]?.timestamp ?? result.analysisTimestamp;
+
+    return {
+      log: {
+        version: HAR_VERSION,
+        creator: {
+          name: "web-scraper-analytics",
+          version: "1.0.0",
+        },
+        pages: [
+          {
+            startedDateTime: firstTimestamp,
+            id: PAGE_ID,
+            title: result.title || result.url,
+            pageTimings: {
+              onContentLoad: -1,
+              onLoad: -1,
+            },
+          },
+        ],
+        entries: result.requests.map((request) => this.toHarEntry(request)),
+        comment: result.analysisId ? `Analysis ${result.analysisId} of ${result.url}` : `Analysis of ${result.url}`,
+      },
+    };
+  }
+
+  /**
+   * Convert the entries of a HAR document into captured requests
+   * @param {HarDocument} har - The parsed HAR document
+   * @returns {CapturedRequest[]} Captured requests in HAR entry order
+   */
+  fromHar(har: HarDocument): CapturedRequest[] {
+    return har.log.entries.map((entry) => this.fromHarEntry(entry));
+  }
+
+  /**
+   * Determine the analyzed page of a HAR document: the first page title that
+   * is a URL, else the first document request, else the first request
+   * @param {HarDocument} har - The parsed HAR document
+   * @returns {{ url: string; title: string }} Page URL and title
+   */
+  getPageInfo(har: HarDocument): { url: string; title: string } {
+    const pageTitle = har.log.pages?.[0]?.title ?? "";
+    const documentEntry = har.log.entries.find((entry) => entry._resourceType === "document");
+    let url = documentEntry?.request.url ?? har.log.entries[0]?.request.url ?? "";
+    try {
+      if (/^https?:$/.test(new URL(pageTitle).protocol)) {
+        url = pageTitle;
+      }
+    } catch {
+      // Page title is not a URL
+    }
+    return { url, title: pageTitle };
+  }
+
+  /**
+   * Convert a HAR entry into a captured request, applying the same body
+   * handling as live capture
+   * @param {HarEntry} entry - The HAR entry
+   * @returns {CapturedRequest} The captured request
+   */
+  private fromHarEntry(entry: HarEntry): CapturedRequest {
+    const request: CapturedRequest = {
+      id: randomUUID(),
+      url: entry.request.url,
+      method: entry.request.method,
+      headers: this.fromNameValueList(entry.request.headers),
+      postData: entry.request.postData?.text,
+      timestamp: entry.startedDateTime,
+      resourceType: entry._resourceType || this.inferResourceType(entry.response.content.mimeType),
+    };
+
+    if (entry._phase) {
+      request.phase = entry._phase;
+    }
+    if (entry._initiator) {
+      request.initiator = entry._initiator;
+    }
+
+    request.timing = this.fromHarTimings(entry);
+    request.sizes = this.fromHarSizes(entry);
+
+    if (entry.response._error) {
+      request.failed = true;
+      request.failureText = entry.response._error;
+    }
+
+    // Status 0 marks a request that never got a response
+    if (entry.response.status > 0) {
+      request.status = entry.response.status;
+      request.responseHeaders = this.fromNameValueList(entry.response.headers);
+
+      const { text, encoding } = entry.response.content;
+      if (text !== undefined && encoding !== "base64") {
+        request.responseBody = text.length > config.limits.maxResponseBodySize
+          ? text.substring(0, config.limits.maxResponseBodySize) + TRUNCATED_BODY_MARKER
+          : text;
+      }
+    }
+
+    return request;
+  }
+
+  /**
+   * Convert a captured request into a HAR entry
+   * @param {CapturedRequest} request - The captured request
+   * @returns {HarEntry} The HAR entry
+   */
+  private toHarEntry(request: CapturedRequest): HarEntry {
+    const requestHeaders = this.toNameValueList(request.headers);
+    const responseHeaders = this.toNameValueList(request.responseHeaders ?? {});
+    const requestContentType = this.findHeader(request.headers, "content-type");
+    const responseContentType = this.findHeader(request.responseHeaders ?? {}, "content-type");
+
+    const entry: HarEntry = {
+      pageref: PAGE_ID,
+      startedDateTime: request.timestamp,
+      time: 0,
+      request: {
+        method: request.method,
+        url: request.url,
+        httpVersion: HTTP_VERSION,
+        cookies: this.parseCookieHeader(this.findHeader(request.headers, "cookie")),
+        headers: requestHeaders,
+        queryString: this.parseQueryString(request.url),
+        headersSize: -1,
+        bodySize: request.postData ? Buffer.byteLength(request.postData) : 0,
+      },
+      response: {
+        status: request.status ?? 0,
+        statusText: "",
+        httpVersion: HTTP_VERSION,
+        cookies: [],
+        headers: responseHeaders,
+        content: this.toHarContent(request.responseBody, responseContentType, request.responseHeaders),
+        redirectURL: this.findHeader(request.responseHeaders ?? {}, "location") ?? "",
+        headersSize: -1,
+        bodySize: -1,
+      },
+      cache: {},
+      timings: this.toHarTimings(request.timing),
+      _resourceType: request.resourceType,
+      _phase: request.phase,
+      _initiator: request.initiator,
+    };
+
+    if (request.timing && request.timing.total >= 0) {
+      entry.time = request.timing.total;
+    }
+
+    if (request.sizes) {
+      entry.request.headersSize = request.sizes.requestHeaders;
+      entry.request.bodySize = request.sizes.requestBody;
+      entry.response.headersSize = request.sizes.responseHeaders;
+      entry.response.bodySize = request.sizes.responseBody;
+      entry.response._transferSize = request.sizes.transferSize;
+      if (request.sizes.decodedBodySize >= 0) {
+        entry.response.content.size = request.sizes.decodedBodySize;
+      }
+    }
+
+    if (request.postData !== undefined) {
+      entry.request.postData = {
+        mimeType: requestContentType ?? "",
+        text: request.postData,
+      };
+    }
+
+    if (request.failed) {
+      entry.response._error = request.failureText;
+      entry.response.comment = `Request failed: ${request.failureText}`;
+    } else if (request.status === undefined) {
+      entry.response.comment = "No response captured";
+    }
+
+    return entry;
+  }
+
+  /**
+   * Map captured timing phases onto HAR timings. HAR counts TLS time as part
+   * of connect, which matches how the browser reports connectEnd.
+   */
+  private toHarTimings(timing: RequestTiming | undefined): HarEntry["timings"] {
+    if (!timing) {
+      return { blocked: -1, dns: -1, connect: -1, send: 0, wait: 0, receive: 0, ssl: -1 };
+    }
+    return {
+      blocked: -1,
+      dns: timing.dns,
+      connect: timing.connect,
+      send: 0,
+      wait: Math.max(timing.ttfb, 0),
+      receive: Math.max(timing.download, 0),
+      ssl: timing.tls,
+    };
+  }
+
+  /**
+   * Build the HAR content object, translating the capture markers for
+   * truncated and unreadable bodies into HAR comments
+   */
+  private toHarContent(
+    responseBody: string | undefined,
+    mimeType: string | undefined,
+    responseHeaders: Record<string, string> | undefined
+  ): HarEntry["response"]["content"] {
+    const content: HarEntry["response"]["content"] = {
+      size: 0,
+      mimeType: mimeType ?? "",
+    };
+
+    if (responseBody === undefined) {
+      return content;
+    }
+
+    if (responseBody === FAILED_BODY_MARKER) {
+      content.comment = "Response body could not be captured";
+      return content;
+    }
+
+    if (responseBody.endsWith(TRUNCATED_BODY_MARKER)) {
+      const text = responseBody.slice(0, -TRUNCATED_BODY_MARKER.length);
+      const contentLength = Number(this.findHeader(responseHeaders ?? {}, "content-length"));
+      content.text = text;
+      content.size = Number.isFinite(contentLength) && contentLength > 0 ? contentLength : Buffer.byteLength(text);
+      content.comment = `Response body truncated to ${text.length} characters`;
+      return content;
+    }
+
+    content.text = responseBody;
+    content.size = Buffer.byteLength(responseBody);
+    return content;
+  }
+
+  private fromHarTimings(entry: HarEntry): RequestTiming | undefined {
+    if (!entry.timings) {
+      return undefined;
+    }
+    const { dns = -1, connect = -1, ssl = -1, wait, receive } = entry.timings;
+    return {
+      startTime: Date.parse(entry.startedDateTime),
+      dns,
+      connect,
+      tls: ssl,
+      ttfb: wait,
+      download: receive,
+      total: entry.time,
+    };
+  }
+
+  private fromHarSizes(entry: HarEntry): RequestSizes {
+    const { headersSize = -1, bodySize = -1 } = entry.response;
+    const transferSize = headersSize >= 0 && bodySize >= 0
+      ? headersSize + bodySize
+      : entry.response._transferSize ?? -1;
+    return {
+      requestHeaders: entry.request.headersSize ?? -1,
+      requestBody: entry.request.bodySize ?? -1,
+      responseHeaders: headersSize,
+      responseBody: bodySize,
+      transferSize,
+      decodedBodySize: entry.response.content.size ?? -1,
+    };
+  }
+
+  private toNameValueList(headers: Record<string, string>): HarNameValue[] {
+    return Object.entries(headers).map(([name, value]) => ({ name, value }));
+  }
+
+  private fromNameValueList(list: HarNameValue[] | undefined): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const { name, value } of list ?? []) {
+      headers[name] = headers[name] !== undefined ? `${headers[name]}, ${value}` : value;
+    }
+    return headers;
+  }
+
+  private inferResourceType(mimeType: string | undefined): string {
+    const type = (mimeType ?? "").toLowerCase();
+    if (type.includes("html")) return "document";
+    if (type.includes("javascript") || type.includes("ecmascript")) return "script";
+    if (type.includes("css")) return "stylesheet";
+    if (type.includes("json")) return "fetch";
+    if (type.startsWith("image/")) return "image";
+    if (type.startsWith("font/") || type.includes("font")) return "font";
+    if (type.startsWith("video/") || type.startsWith("audio/")) return "media";
+    return "other";
+  }
+
+  private findHeader(headers: Record<string, string>, name: string): string | undefined {
+    const match = Object.keys(headers).find((key) => key.toLowerCase() === name);
+    return match !== undefined ? headers[match] : undefined;
+  }
+
+  private parseQueryString(url: string): HarNameValue[] {
+    try {
+      return Array.from(new URL(url).searchParams.entries()).map(([name, value]) => ({ name, value }));
+    } catch {
+      return [];
+    }
+  }
+
+  private parseCookieHeader(cookieHeader: string | undefined): HarNameValue[] {
+    if (!cookieHeader) {
+      return [];
+    }
+    return cookieHeader
+      .split(";")
+      .map((pair) => pair.trim())
+      .filter((pair) => pair.length > 0)
+      .map((pair) => {
+        const separator = pair.indexOf("=");
+        return separator === -1
+          ? { name: pair, value: "" }
+          : { name: pair.slice(0, separator), value: pair.slice(separator + 1) };
+      });
+  }
+}
@@ -0,0 +1,123 @@
+import { type DetectedList, type InferredListField, type RawList, type RawListField } from "../types.js";
+
+/** Fields returned per list, keeping the output readable for wide items */
+const MAX_FIELDS = 12;
+
+/** Sample values returned per field */
+const MAX_SAMPLES = 3;
+
+/** Values read as numbers, such as prices, ratings and counts */
+const NUMERIC_VALUE = /^[^\d-]{0,4}-?\d[\d.,\s ]*(?:%|[^\d\s]{0,4})?$/;
+
+/** Field names of tags whose class names do not describe them */
+const TAG_NAMES: Record<string, string> = {
+  h1: "title",
+  h2: "title",
+  h3: "title",
+  h4: "title",
+  h5: "title",
+  h6: "title",
+  p: "description",
+  time: "date",
+  img: "image",
+  a: "link_text",
+};
+
+/**
+ * Service responsible for turning repeated sibling groups read from a page
+ * into lists with inferred fields
+ */
+export class ListDetector {
+  /**
+   * Infer the fields of a list from its sampled items: a candidate field is
+   * kept when at least half of the samples have it
+   * @param {string} containerSelector - Selector of the element holding the items
+   * @param {RawList} list - The group as read from the page
+   * @returns {DetectedList} The list with its inferred fields
+   */
+  analyze(containerSelector: string, list: RawList): DetectedList {
+    return {
+      containerSelector,
+      itemSelector: list.itemSelector,
+      itemTag: list.itemTag,
+      itemCount: list.itemCount,
+      area: list.area,
+      fields: this.inferFields(list.samples),
+    };
+  }
+
+  /**
+   * Order lists by the area their items cover, then by their item count
+   * @param {DetectedList[]} lists - The lists of a page
+   * @returns {DetectedList[]} The lists, largest first
+   */
+  rank(lists: DetectedList[]): DetectedList[] {
+    return [...lists].sort((a, b) => b.area - a.area || b.itemCount - a.itemCount);
+  }
+
+  private inferFields(samples: RawListField[][]): InferredListField[] {
+    const candidates = new Map<string, { field: RawListField; values: string[] }>();
+    for (const sample of samples) {
+      const seen = new Set<string>();
+      for (const field of sample) {
+        const key = `${field.selector ?? ""}|${field.attribute ?? ""}`;
+        // Count each candidate once per item, keeping its first value
+        if (seen.has(key)) {
+          continue;
+        }
+        seen.add(key);
+        const candidate = candidates.get(key) ?? { field, values: [] };
+        candidate.values.push(field.value);
+        candidates.set(key, candidate);
+      }
+    }
+
+    const names = new Map<string, number>();
+    return [...candidates.values()]
+      .filter(({ values }) => values.length >= Math.ceil(samples.length / 2))
+      .slice(0, MAX_FIELDS)
+      .map(({ field, values }) => {
+        const base = this.fieldName(field);
+        const count = (names.get(base) ?? 0) + 1;
+        names.set(base, count);
+        const transform = this.inferTransform(field, values);
+        return {
+          name: count === 1 ? base : `${base}_${count}`,
+          ...(field.selector ? { selector: field.selector } : { xpath: "." }),
+          ...(field.attribute ? { attribute: field.attribute } : {}),
+          ...(transform ? { transform } : {}),
+          samples: values.slice(0, MAX_SAMPLES),
+        };
+      });
+  }
+
+  private inferTransform(field: RawListField, values: string[]): InferredListField["transform"] {
+    if (field.attribute === "href" || field.attribute === "src") {
+      return "url-resolve";
+    }
+    return values.every((value) => NUMERIC_VALUE.test(value.trim())) ? "number" : undefined;
+  }
+
+  /**
+   * Name a field after the last class of its element, without BEM blocks and
+   * modifiers (e.g. "product-card__price--sale" -> "price"), else after its tag
+   */
+  private fieldName(field: RawListField): string {
+    if (field.attribute === "src") {
+      return "image";
+    }
+    if (field.attribute === "href") {
+      return "link";
+    }
+    const last = (field.selector ?? "").split(/\s*>\s*/).pop() ?? "";
+    const [tag = "", ...classes] = last.replace(/\\/g, "").split(".");
+    const className = classes[classes.length - 1];
+    if (className) {
+      const name = className.split("--")[0]!.split("__").pop()!.replace(/-/g, "_").toLowerCase();
+      if (/^[a-z][a-z0-9_]*$/.test(name)) {
+        return name;
+      }
+    }
+    return TAG_NAMES[tag] ?? "text";
+  }
+}
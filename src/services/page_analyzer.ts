@@ -1,14 +1,39 @@
 import { type Page } from 'patchright';
 import { Logger } from '../logger.js';
+import { TableParser } from './table_parser.js';
+import { FormParser } from './form_parser.js';
+import { ListDetector } from './list_detector.js';
+import { config } from '../config.js';
+import {
+  type DetectedList,
+  type ExtractedTable,
+  type FormInfo,
+  type RawForm,
+  type RawFormField,
+  type RawList,
+  type RawListField,
+  type RawTable,
+  type RawTableCell,
+  type SelectorCandidate,
+  type SelectorOptions,
+  type SelectorStrategy,
+  type TableData,
+} from '../types.js';
 
 /**
  * Service responsible for analyzing the page itself (detecting rendering method)
  */
 export class PageAnalyzer {
   private logger: Logger;
+  private tableParser: TableParser;
+  private formParser: FormParser;
+  private listDetector: ListDetector;
 
   constructor(logger: Logger) {
     this.logger = logger;
+    this.tableParser = new TableParser();
+    this.formParser = new FormParser();
+    this.listDetector = new ListDetector();
   }
 
   /**
@@ -78,15 +103,53 @@ export class PageAnalyzer {
     }
   }
 
+  /**
+   * Extract the tables of a page, including ARIA table and grid layouts,
+   * as header-keyed rows
+   * @param {Page} page - The browser page to analyze
+   * @returns {Promise<ExtractedTable[]>} The tables in document order
+   */
+  async extractTables(page: Page): Promise<ExtractedTable[]> {
+    const elements = await this.extractImportantElements(page, 'table');
+    return elements
+      .filter((element) => element.table)
+      .map(({ selector, tag, table }) => ({ selector, tag, ...table! }));
+  }
+
+  /**
+   * Detect the repeated structures of a page: groups of at least three
+   * sibling elements sharing a tag and class signature, such as product
+   * grids, search results and comments
+   * @param {Page} page - The browser page to analyze
+   * @returns {Promise<DetectedList[]>} The lists, largest visual area first
+   */
+  async detectLists(page: Page): Promise<DetectedList[]> {
+    const elements = await this.extractImportantElements(page, 'list');
+    return this.listDetector.rank(
+      elements.flatMap((element) => element.lists ?? [])
+    );
+  }
+
   /**
    * Extract important elements from a page filtered by type and return selector information.
+   * Tables come with their rows parsed by TableParser in `table`, forms
+   * with their fields, CSRF tokens and submission request in `form`, and
+   * elements holding repeated items with their groups in `lists`. With
+   * `withCandidates`, every element also gets its selector candidates by the
+   * strategies of `config.selectors` in `selectors`, and `selector` (as well
+   * as the form, table and list selectors) is the most stable unique CSS one
+   * among them. Candidates query the whole document several times per
+   * element, so they are only built when asked for.
    * @param {Page} page - The browser page to analyze
-   * @param {'text'|'image'|'link'|'script'} filterType - The type of elements to extract
-   * @returns {Promise<Array<{ content: string, selector: string, type: string, tag: string, attributes: Record<string, string> }>>}
+   * @param {'text'|'image'|'link'|'script'|'table'|'form'|'list'} filterType - The type of elements to extract
+   * @param {boolean} withCandidates - Whether to build selector candidates
+   * @returns {Promise<Array<{ content: string, selector: string, type: string, tag: string, attributes: Record<string, string>, table?: TableData, form?: FormInfo, lists?: DetectedList[], selectors?: SelectorCandidate[] }>>}
    */
   async extractImportantElements(
     page: Page,
-    filterType: 'text' | 'image' | 'link' | 'script'
+    filterType:
+      'text' | 'image' | 'link' | 'script' | 'table' | 'form' | 'list',
+    withCandidates = false
   ): Promise<
     Array<{
       content: string;
@@ -94,14 +157,47 @@ export class PageAnalyzer {
       type: string;
       tag: string;
       attributes: Record<string, string>;
+      table?: TableData;
+      form?: FormInfo;
+      lists?: DetectedList[];
+      selectors?: SelectorCandidate[];
     }>
   > {
     this.logger.debug?.(
       `[PageAnalyzer] Starting extraction type=${filterType}`
     );
     try {
-      const result = await page.evaluate((type) => {
+      const evaluateArgs = [
+        filterType,
+        config.selectors as SelectorOptions,
+        withCandidates,
+      ] as const;
+      const result = await page.evaluate((args) => {
+        const [type, selectorOptions, withCandidates] = args;
         const elements: any[] = [];
+        // Tables and ARIA table layouts, without presentational layout tables
+        const tableSelector =
+          'table:not([role="presentation"]):not([role="none"]), [role="table"], [role="grid"], [role="treegrid"]';
+        // Sibling groups found by the list filter, by the element holding them
+        const listGroups = new Map<any, any[][]>();
+        const minListItems = 3;
+        const listSampleSize = 5;
+        const listFieldDepth = 6;
+        const maxListFields = 30;
+        const listSkippedTags = new Set([
+          'script',
+          'style',
+          'template',
+          'noscript',
+          'link',
+          'meta',
+          'br',
+          'hr',
+          'option',
+          'source',
+          'track',
+          'svg',
+        ]);
         switch (type) {
           case 'text': {
             const candidates = Array.from(
@@ -122,16 +218,659 @@ export class PageAnalyzer {
             elements.push(...Array.from(document.querySelectorAll('script')));
             break;
           }
+          case 'table': {
+            elements.push(
+              ...Array.from(document.querySelectorAll(tableSelector))
+            );
+            break;
+          }
+          case 'form': {
+            elements.push(...Array.from(document.querySelectorAll('form')));
+            break;
+          }
+          case 'list': {
+            const body = document.body;
+            [body, ...Array.from(body?.querySelectorAll('*') ?? [])].forEach(
+              (el: any) => {
+                const groups = el ? findItemGroups(el) : [];
+                if (groups.length > 0) {
+                  listGroups.set(el, groups);
+                  elements.push(el);
+                }
+              }
+            );
+            break;
+          }
           default:
             break;
         }
 
+        function cellText(cell: any): string {
+          // Leave out the text of nested tables, which are extracted on their own
+          let text = '';
+          Array.from(cell.childNodes ?? []).forEach((child: any) => {
+            if (child.nodeType === 3) {
+              text += child.textContent ?? '';
+            } else if (
+              child.nodeType === 1 &&
+              !(child.matches && child.matches(tableSelector))
+            ) {
+              text += ` ${cellText(child)} `;
+            }
+          });
+          return text;
+        }
+
+        function readCell(cell: any, header: boolean): RawTableCell {
+          return {
+            text: cellText(cell).replace(/\s+/g, ' ').trim(),
+            header,
+            colSpan: Number(
+              cell.colSpan ?? cell.getAttribute?.('aria-colspan') ?? 1
+            ),
+            rowSpan: Number(
+              cell.rowSpan ?? cell.getAttribute?.('aria-rowspan') ?? 1
+            ),
+          };
+        }
+
+        function readTable(table: any): RawTable {
+          const label =
+            (table.caption ? cellText(table.caption) : '') ||
+            (table.getAttribute && table.getAttribute('aria-label')) ||
+            '';
+          const raw: RawTable = {
+            caption: label.replace(/\s+/g, ' ').trim() || undefined,
+            rows: [],
+          };
+
+          if ((table.tagName || '').toString().toUpperCase() === 'TABLE') {
+            // table.rows holds the rows of this table only, not of nested ones
+            Array.from(table.rows ?? []).forEach((row: any) => {
+              raw.rows.push({
+                head:
+                  (row.parentElement?.tagName || '').toUpperCase() === 'THEAD',
+                cells: Array.from(row.cells ?? []).map((cell: any) =>
+                  readCell(
+                    cell,
+                    (cell.tagName || '').toString().toUpperCase() === 'TH'
+                  )
+                ),
+              });
+            });
+            return raw;
+          }
+
+          // ARIA layouts: only the rows and cells of this table, not of nested ones
+          Array.from(table.querySelectorAll('[role="row"]'))
+            .filter(
+              (row: any) => row.parentElement?.closest(tableSelector) === table
+            )
+            .forEach((row: any) => {
+              raw.rows.push({
+                head: false,
+                cells: Array.from(
+                  row.querySelectorAll(
+                    '[role="cell"], [role="gridcell"], [role="columnheader"], [role="rowheader"]'
+                  )
+                )
+                  .filter((cell: any) => cell.closest('[role="row"]') === row)
+                  .map((cell: any) =>
+                    readCell(
+                      cell,
+                      /header$/.test(cell.getAttribute('role') || '')
+                    )
+                  ),
+              });
+            });
+          return raw;
+        }
+
+        function labelText(field: any): string {
+          const labels = Array.from(field.labels ?? [])
+            .map((label: any) => (label.textContent ?? '').trim())
+            .filter(Boolean);
+          const labelledBy = (field.getAttribute?.('aria-labelledby') ?? '')
+            .split(/\s+/)
+            .map((id: string) =>
+              id ? (document.getElementById?.(id)?.textContent ?? '') : ''
+            )
+            .join(' ');
+          return (
+            labels.join(' ') ||
+            field.getAttribute?.('aria-label') ||
+            labelledBy ||
+            field.getAttribute?.('title') ||
+            ''
+          )
+            .replace(/\s+/g, ' ')
+            .trim();
+        }
+
+        function readForm(form: any): RawForm {
+          const fields: RawFormField[] = [];
+          let submitSelector: string | undefined;
+          // form.elements also holds controls tied to the form by their form attribute
+          Array.from(form.elements ?? []).forEach((field: any) => {
+            const tag = (field.tagName || '').toString().toLowerCase();
+            const type = (
+              tag === 'input'
+                ? field.type || field.getAttribute?.('type') || 'text'
+                : tag === 'button'
+                  ? field.type || 'submit'
+                  : tag
+            ).toLowerCase();
+            if (tag === 'button' || type === 'submit' || type === 'image') {
+              if (!submitSelector && (type === 'submit' || type === 'image')) {
+                submitSelector = bestSelector(field) || undefined;
+              }
+              return;
+            }
+            if (tag === 'fieldset' || tag === 'output' || tag === 'object') {
+              return;
+            }
+            fields.push({
+              tag,
+              type,
+              name: field.name ?? field.getAttribute?.('name') ?? '',
+              required: Boolean(field.required),
+              disabled: Boolean(field.disabled),
+              value: field.value ?? '',
+              checked: Boolean(field.checked),
+              multiple: Boolean(field.multiple),
+              options:
+                tag === 'select'
+                  ? Array.from(field.options ?? []).map((option: any) => ({
+                      value: option.value ?? '',
+                      label: (option.label || option.textContent || '').trim(),
+                      selected: Boolean(option.selected),
+                    }))
+                  : undefined,
+              label: labelText(field) || undefined,
+              placeholder: field.getAttribute?.('placeholder') || undefined,
+              selector: bestSelector(field),
+            });
+          });
+
+          const metaTokens = Array.from(
+            document.querySelectorAll(
+              'meta[name*="csrf" i], meta[name*="xsrf" i]'
+            )
+          ).map((meta: any) => ({
+            name: meta.getAttribute('name') ?? '',
+            value: meta.getAttribute('content') ?? '',
+          }));
+
+          // Read attributes rather than form.action and form.method, which
+          // fields named "action" or "method" would shadow
+          const attribute = (name: string) =>
+            (form.getAttribute?.(name) ?? '').trim();
+          const method = attribute('method').toLowerCase();
+          const enctype = attribute('enctype').toLowerCase();
+          let action = attribute('action');
+          try {
+            action = new URL(action, document.baseURI).href;
+          } catch (e) {
+            // keep the attribute as written
+          }
+
+          return {
+            name: attribute('name') || undefined,
+            action,
+            method: ['post', 'dialog'].includes(method) ? method : 'get',
+            enctype: ['multipart/form-data', 'text/plain'].includes(enctype)
+              ? enctype
+              : 'application/x-www-form-urlencoded',
+            fields,
+            submitSelector,
+            metaTokens,
+          };
+        }
+
+        function stableClasses(el: any): string[] {
+          // Leave out state and modifier classes that differ between items
+          return Array.from(el.classList ?? []).filter(
+            (name: any) =>
+              typeof name === 'string' &&
+              name !== '' &&
+              !isGeneratedClass(name) &&
+              !/^(is|has)-|active|selected|current|first|last|odd|even|--/i.test(
+                name
+              )
+          ) as string[];
+        }
+
+        function itemPart(el: any): string {
+          return [
+            (el.tagName || '').toString().toLowerCase(),
+            ...stableClasses(el).map(escapeIdentifier),
+          ].join('.');
+        }
+
+        function isListItem(item: any): boolean {
+          // Rendered items with text or an image
+          const rect = item.getBoundingClientRect?.();
+          return (
+            (!rect || (rect.width > 0 && rect.height > 0)) &&
+            ((item.textContent ?? '').trim() !== '' ||
+              (item.tagName || '').toString().toLowerCase() === 'img' ||
+              !!item.querySelector?.('img'))
+          );
+        }
+
+        function findItemGroups(parent: any): any[][] {
+          const byTag = new Map<string, any[]>();
+          Array.from(parent.children ?? []).forEach((child: any) => {
+            const tag = (child.tagName || '').toString().toLowerCase();
+            if (listSkippedTags.has(tag)) {
+              return;
+            }
+            const members = byTag.get(tag);
+            if (members) {
+              members.push(child);
+            } else {
+              byTag.set(tag, [child]);
+            }
+          });
+
+          const groups: any[][] = [];
+          byTag.forEach((members) => {
+            if (members.length < minListItems) {
+              return;
+            }
+            // Items usually share their classes; fall back to the tag when they do not
+            const byClasses = new Map<string, any[]>();
+            members.forEach((member) => {
+              const key = stableClasses(member).sort().join('.');
+              byClasses.set(key, [...(byClasses.get(key) ?? []), member]);
+            });
+            const largest = Array.from(byClasses.values()).sort(
+              (a, b) => b.length - a.length
+            )[0]!;
+            const items = (
+              largest.length >= minListItems ? largest : members
+            ).filter(isListItem);
+            if (items.length >= minListItems) {
+              groups.push(items);
+            }
+          });
+          return groups;
+        }
+
+        function readListItem(item: any): RawListField[] {
+          const fields: RawListField[] = [];
+          const squash = (text: string) => text.replace(/\s+/g, ' ').trim();
+          const read = (el: any, selector: string | undefined) => {
+            const tag = (el.tagName || '').toString().toLowerCase();
+            if (tag === 'img') {
+              fields.push({
+                selector,
+                attribute: 'src',
+                value: el.getAttribute?.('src') ?? '',
+              });
+              return;
+            }
+            const href = tag === 'a' ? el.getAttribute?.('href') : null;
+            if (href) {
+              fields.push({ selector, attribute: 'href', value: href });
+            }
+            const ownText = Array.from(el.childNodes ?? [])
+              .filter((node: any) => node.nodeType === 3)
+              .map((node: any) => node.textContent ?? '')
+              .join(' ');
+            if (squash(ownText)) {
+              fields.push({ selector, value: squash(el.textContent ?? '') });
+            }
+          };
+          const visit = (el: any, path: string[]) => {
+            Array.from(el.children ?? []).forEach((child: any) => {
+              const tag = (child.tagName || '').toString().toLowerCase();
+              if (fields.length >= maxListFields || listSkippedTags.has(tag)) {
+                return;
+              }
+              const childPath = [...path, itemPart(child)];
+              // The element's own part when it picks the element, else the path from the item
+              const own = childPath[childPath.length - 1]!;
+              let selector = `:scope > ${childPath.join(' > ')}`;
+              try {
+                if (item.querySelector(own) === child) {
+                  selector = own;
+                }
+              } catch (e) {
+                // keep the path
+              }
+              read(child, selector);
+              if (childPath.length < listFieldDepth) {
+                visit(child, childPath);
+              }
+            });
+          };
+          read(item, undefined);
+          visit(item, []);
+          return fields;
+        }
+
+        function readLists(container: any, selector: string): RawList[] {
+          return (listGroups.get(container) ?? []).map((items) => {
+            const tag = (items[0].tagName || '').toString().toLowerCase();
+            const shared = stableClasses(items[0]).filter((name) =>
+              items.every((item) => stableClasses(item).includes(name))
+            );
+            let area = 0;
+            items.forEach((item) => {
+              const rect = item.getBoundingClientRect?.();
+              area += rect ? rect.width * rect.height : 0;
+            });
+            return {
+              itemSelector: `${selector} > ${[tag, ...shared.map(escapeIdentifier)].join('.')}`,
+              itemTag: tag,
+              itemCount: items.length,
+              area: Math.round(area),
+              samples: items.slice(0, listSampleSize).map(readListItem),
+            };
+          });
+        }
+
         function escapeIdentifier(str: string): string {
           // Escape any character not a-z, A-Z, 0-9, underscore, or hyphen
           // This covers all CSS special characters, including @ and %
           return str.replace(/[^a-zA-Z0-9_-]/g, '\\$&');
         }
 
+        /**
+         * Class names generated by CSS modules, styled-components, emotion,
+         * styled-jsx and JSS, which change between builds: known prefixes,
+         * short mixed-case hashes such as "kGbXyZ", and hash suffixes such as
+         * the "3xK9a" of "Button_primary__3xK9a"
+         */
+        function isGeneratedClass(name: string): boolean {
+          const suffix = name.split(/[_-]/).pop() ?? '';
+          return (
+            /^(sc-[a-zA-Z]|css-[a-z0-9]*\d|jsx-\d+$|jss\d+$|makeStyles-)/.test(
+              name
+            ) ||
+            (/^[a-zA-Z]{5,8}$/.test(name) && /[A-Z][a-z]?[A-Z]/.test(name)) ||
+            (suffix.length >= 5 &&
+              /^[a-zA-Z0-9]+$/.test(suffix) &&
+              /[a-zA-Z]/.test(suffix) &&
+              /\d[a-zA-Z]*\d|\d[a-zA-Z]*[A-Z]|[A-Z][a-zA-Z]*\d/.test(suffix))
+          );
+        }
+
+        /** IDs generated by frameworks, such as React's useId, and UUIDs */
+        function isGeneratedId(id: string): boolean {
+          return (
+            /^:r[0-9a-z]*:$|^(ember|ext-gen|yui_|mui-|react-select-|headlessui-[\w-]+-)\d+|[0-9a-f]{8}-[0-9a-f]{4}-/i.test(
+              id
+            ) || isGeneratedClass(id)
+          );
+        }
+
+        function quoteValue(value: string): string {
+          return `"${value.replace(/["\\]/g, '\\$&')}"`;
+        }
+
+        // Matches per selector, shared by the candidates of all elements
+        const matchCache = new Map<string, any[] | null>();
+        function matchesOnly(selector: string, element: any): boolean {
+          if (!matchCache.has(selector)) {
+            try {
+              matchCache.set(
+                selector,
+                Array.from(document.querySelectorAll(selector))
+              );
+            } catch (e) {
+              matchCache.set(selector, null);
+            }
+          }
+          const matches = matchCache.get(selector);
+          return !!matches && matches.length === 1 && matches[0] === element;
+        }
+
+        // Element counts by tag and normalized text, built on first use
+        let textIndex: Map<string, number> | undefined;
+        function normalizedText(el: any): string {
+          const raw = (el.textContent ?? '').toString();
+          return raw.length > 200 ? '' : raw.replace(/\s+/g, ' ').trim();
+        }
+        function countByText(tag: string, text: string): number {
+          if (!textIndex) {
+            textIndex = new Map();
+            Array.from(document.body?.querySelectorAll?.('*') ?? []).forEach(
+              (el: any) => {
+                const key = `${(el.tagName || '').toString().toLowerCase()}|${normalizedText(el)}`;
+                textIndex!.set(key, (textIndex!.get(key) ?? 0) + 1);
+              }
+            );
+          }
+          return textIndex.get(`${tag}|${text}`) ?? 0;
+        }
+
+        /**
+         * Positional path from the nearest ancestor with a unique, stable id
+         * (or the root), one part per level; unique by construction
+         */
+        function positionalPath(
+          element: any,
+          part: (tag: string, index: number, count: number) => string,
+          anchor: (id: string) => string,
+          root: string
+        ): string {
+          const parts: string[] = [];
+          let current: any = element;
+          while (current) {
+            const tag = (current.tagName || '').toString().toLowerCase();
+            const id = typeof current.id === 'string' ? current.id : '';
+            if (
+              current !== element &&
+              id &&
+              !isGeneratedId(id) &&
+              matchesOnly(`#${escapeIdentifier(id)}`, current)
+            ) {
+              return [anchor(id), ...parts].join('');
+            }
+            if (tag === 'html') {
+              return [root, ...parts].join('');
+            }
+            const parent = current.parentElement;
+            const siblings = Array.from(parent?.children ?? []).filter(
+              (sibling: any) => sibling.tagName === current.tagName
+            );
+            const index = siblings.indexOf(current);
+            if (!tag || index < 0) {
+              // Detached element
+              return '';
+            }
+            parts.unshift(part(tag, index + 1, siblings.length));
+            current = parent;
+          }
+          return '';
+        }
+
+        /**
+         * Selector candidates of an element by the configured strategies,
+         * unique ones first, then by stability
+         */
+        function selectorCandidates(element: any): SelectorCandidate[] {
+          const candidates: SelectorCandidate[] = [];
+          const add = (
+            strategy: SelectorStrategy,
+            selector: string,
+            unique: boolean,
+            stability: number
+          ) => {
+            if (
+              selector &&
+              !candidates.some((candidate) => candidate.selector === selector)
+            ) {
+              candidates.push({
+                selector,
+                strategy,
+                unique,
+                stability: Math.round(stability * 100) / 100,
+              });
+            }
+          };
+          const tag = (element.tagName || '').toString().toLowerCase();
+          const attribute = (name: string): string =>
+            (element.getAttribute?.(name) ?? '').toString();
+
+          selectorOptions.strategies.forEach((strategy) => {
+            try {
+              switch (strategy) {
+                case 'test-id': {
+                  const name = selectorOptions.testIdAttributes.find((name) =>
+                    attribute(name)
+                  );
+                  if (name) {
+                    const selector = `[${name}=${quoteValue(attribute(name))}]`;
+                    add(
+                      strategy,
+                      selector,
+                      matchesOnly(selector, element),
+                      0.95
+                    );
+                  }
+                  break;
+                }
+                case 'id': {
+                  const id = typeof element.id === 'string' ? element.id : '';
+                  if (id.trim()) {
+                    const selector = `#${escapeIdentifier(id)}`;
+                    add(
+                      strategy,
+                      selector,
+                      matchesOnly(selector, element),
+                      isGeneratedId(id) ? 0.3 : 0.9
+                    );
+                  }
+                  break;
+                }
+                case 'aria': {
+                  const label = attribute('aria-label');
+                  const role = attribute('role');
+                  if (label) {
+                    const selector = `${tag}[aria-label=${quoteValue(label)}]`;
+                    add(
+                      strategy,
+                      selector,
+                      matchesOnly(selector, element),
+                      0.8
+                    );
+                  } else if (role) {
+                    const selector = `${tag}[role=${quoteValue(role)}]`;
+                    add(
+                      strategy,
+                      selector,
+                      matchesOnly(selector, element),
+                      0.5
+                    );
+                  }
+                  break;
+                }
+                case 'data-attribute': {
+                  // Other data attributes, without framework and state ones
+                  const names = (element.getAttributeNames?.() ?? []).filter(
+                    (name: string) =>
+                      name.startsWith('data-') &&
+                      !selectorOptions.testIdAttributes.includes(name) &&
+                      !/^data-(v-|react|reactid|styled|emotion|state|active|selected|open|index|focus|hover|headlessui)/.test(
+                        name
+                      ) &&
+                      attribute(name).length > 0 &&
+                      attribute(name).length <= 60
+                  );
+                  names.slice(0, 2).forEach((name: string) => {
+                    const selector = `${tag}[${name}=${quoteValue(attribute(name))}]`;
+                    add(
+                      strategy,
+                      selector,
+                      matchesOnly(selector, element),
+                      0.7
+                    );
+                  });
+                  break;
+                }
+                case 'css': {
+                  const selector = getUniqueSelector(element);
+                  const levels = selector.split(' > ').length;
+                  const base = /[#.]/.test(selector) ? 0.65 : 0.3;
+                  add(
+                    strategy,
+                    selector,
+                    matchesOnly(selector, element),
+                    Math.max(0.1, base - 0.08 * (levels - 1))
+                  );
+                  break;
+                }
+                case 'nth-of-type': {
+                  const selector = positionalPath(
+                    element,
+                    (tag, index, count) =>
+                      ` > ${count > 1 ? `${tag}:nth-of-type(${index})` : tag}`,
+                    (id) => `#${escapeIdentifier(id)}`,
+                    'html'
+                  );
+                  add(strategy, selector, true, 0.35);
+                  break;
+                }
+                case 'text': {
+                  const text = normalizedText(element);
+                  if (text && text.length <= 60) {
+                    add(
+                      strategy,
+                      `${tag}:text-is(${quoteValue(text)})`,
+                      countByText(tag, text) === 1,
+                      0.5
+                    );
+                  }
+                  break;
+                }
+                case 'xpath': {
+                  const path = positionalPath(
+                    element,
+                    (tag, index, count) =>
+                      `/${tag}${count > 1 ? `[${index}]` : ''}`,
+                    (id) => `//*[@id=${quoteValue(id)}]`,
+                    '/html'
+                  );
+                  add(strategy, path && `xpath=${path}`, true, 0.2);
+                  break;
+                }
+              }
+            } catch (e) {
+              // A strategy that fails yields no candidate
+            }
+          });
+
+          return candidates
+            .sort(
+              (a, b) =>
+                Number(b.unique) - Number(a.unique) || b.stability - a.stability
+            )
+            .slice(0, selectorOptions.maxCandidates);
+        }
+
+        /**
+         * The most stable unique CSS candidate, else (and without candidates)
+         * the class and hierarchy selector of getUniqueSelector
+         */
+        function bestSelector(
+          element: any,
+          candidates?: SelectorCandidate[]
+        ): string {
+          if (!withCandidates) {
+            return getUniqueSelector(element);
+          }
+          const best = (candidates ?? selectorCandidates(element)).find(
+            (candidate) =>
+              candidate.unique &&
+              candidate.strategy !== 'text' &&
+              candidate.strategy !== 'xpath'
+          );
+          return best ? best.selector : getUniqueSelector(element);
+        }
+
         /**
          * Safer getUniqueSelector that works in browser and in lightweight test fakes.
          * Prioritize: id -> class list (joined) -> tag, with hierarchical fallback when non-unique
@@ -217,15 +956,26 @@ export class PageAnalyzer {
               }
             }
 
+            function stableId(el: any): boolean {
+              return (
+                !!el.id &&
+                typeof el.id === 'string' &&
+                !!el.id.trim() &&
+                !isGeneratedId(el.id)
+              );
+            }
+
             function partFor(el: any): string {
               try {
-                if (el.id && typeof el.id === 'string' && el.id.trim()) {
+                if (stableId(el)) {
                   return `#${escapeIdentifier(el.id)}`;
                 }
                 const tag = (el.tagName || el.nodeName || '')
                   .toString()
                   .toLowerCase();
-                const classes = getClassArray(el);
+                const classes = getClassArray(el).filter(
+                  (name) => !isGeneratedClass(name)
+                );
                 if (classes.length > 0) {
                   const joined = classes.map(escapeIdentifier).join('.');
                   return `${tag}.${joined}`;
@@ -237,16 +987,14 @@ export class PageAnalyzer {
             }
 
             // Prefer id when present
-            if (
-              element.id &&
-              typeof element.id === 'string' &&
-              element.id.trim()
-            ) {
+            if (stableId(element)) {
               return `#${escapeIdentifier(element.id)}`;
             }
 
-            // Compute class-only base if classes exist
-            const classes = getClassArray(element);
+            // Compute class-only base if classes exist, without generated ones
+            const classes = getClassArray(element).filter(
+              (name) => !isGeneratedClass(name)
+            );
             let baseCandidate = '';
             if (classes.length > 0) {
               const joined = classes.map(escapeIdentifier).join('.');
@@ -278,11 +1026,7 @@ export class PageAnalyzer {
                 parts.unshift(part);
               }
               // Stop if we hit an id (strong anchor)
-              if (
-                current.id &&
-                typeof current.id === 'string' &&
-                current.id.trim()
-              ) {
+              if (stableId(current)) {
                 break;
               }
               current = current.parentElement || current.parentNode;
@@ -297,7 +1041,18 @@ export class PageAnalyzer {
               }
             }
 
-            // If no clearly unique candidate found, return original simple candidate
+            // No class or hierarchy selector is unique: number the elements
+            // of each level with :nth-of-type, up to an id anchor or the root
+            const positional = positionalPath(
+              element,
+              (tag, index, count) =>
+                ` > ${count > 1 ? `${tag}:nth-of-type(${index})` : tag}`,
+              (id) => `#${escapeIdentifier(id)}`,
+              'html'
+            );
+            if (positional && isClearlyUnique(positional, element)) {
+              return positional;
+            }
             return baseCandidate || tagCandidate;
           } catch (err) {
             try {
@@ -330,8 +1085,10 @@ export class PageAnalyzer {
             .toString()
             .toLowerCase();
           let selector = '';
+          let selectors: SelectorCandidate[] | undefined;
           try {
-            selector = getUniqueSelector(el);
+            selectors = withCandidates ? selectorCandidates(el) : undefined;
+            selector = bestSelector(el, selectors);
             // Ensure selector is a non-empty string; fallback to tag when empty
             if (!selector || selector.trim() === '') {
               selector = tag || '';
@@ -346,6 +1103,9 @@ export class PageAnalyzer {
 
           // Content depending on type
           let content = '';
+          let rawTable: RawTable | undefined;
+          let rawForm: RawForm | undefined;
+          let rawLists: RawList[] | undefined;
           try {
             if (type === 'text') {
               content = (el && (el.textContent ?? '')).toString().trim();
@@ -358,6 +1118,13 @@ export class PageAnalyzer {
               const src = el && el.getAttribute && el.getAttribute('src');
               content =
                 src ?? (el && (el.textContent ?? '')).toString().trim() ?? '';
+            } else if (type === 'table') {
+              rawTable = readTable(el);
+              content = rawTable.caption ?? '';
+            } else if (type === 'form') {
+              rawForm = readForm(el);
+            } else if (type === 'list') {
+              rawLists = readLists(el, selector);
             }
           } catch (e) {
             try {
@@ -397,22 +1164,71 @@ export class PageAnalyzer {
             // ignore attributes extraction errors
           }
 
+          // Nested tables point to the table that holds them
+          let parentSelector: string | undefined;
+          if (rawTable) {
+            const parent = el.parentElement?.closest?.(tableSelector);
+            parentSelector = parent ? bestSelector(parent) : undefined;
+          }
+
           return {
             content,
             selector,
             type,
             tag,
             attributes: attrs,
+            rawTable,
+            rawForm,
+            rawLists,
+            parentSelector,
+            ...(selectors ? { selectors } : {}),
           };
         });
-      }, filterType);
+      }, evaluateArgs);
 
       const count = Array.isArray(result) ? result.length : 0;
       this.logger.debug?.(
         `[PageAnalyzer] Extracted ${count} elements for type=${filterType}`
       );
 
-      return Array.isArray(result) ? (result as any) : [];
+      if (!Array.isArray(result)) {
+        return [];
+      }
+      return result.map(
+        ({ rawTable, rawForm, rawLists, parentSelector, ...element }: any) => {
+          if (rawTable) {
+            const table: TableData = {
+              ...this.tableParser.parse(rawTable),
+              parentSelector,
+            };
+            // Untitled tables are described by their headers
+            return {
+              ...element,
+              content: element.content || table.headers.join(', '),
+              table,
+            };
+          }
+          if (rawForm) {
+            const form = this.formParser.parse(rawForm);
+            return {
+              ...element,
+              content: `${form.method} ${form.action}`,
+              form,
+            };
+          }
+          if (rawLists) {
+            const lists: DetectedList[] = rawLists.map((list: RawList) =>
+              this.listDetector.analyze(element.selector, list)
+            );
+            return {
+              ...element,
+              content: lists.map((list) => list.itemSelector).join(', '),
+              lists,
+            };
+          }
+          return element;
+        }
+      );
     } catch (error) {
       this.logger.error(
         `[PageAnalyzer] Failed to extract elements: ${
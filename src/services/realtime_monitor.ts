@@ -0,0 +1,171 @@
+import { type Page, type WebSocket } from "patchright";
+import { randomUUID } from "crypto";
+import { type RealtimeConnection, type RealtimeMessage } from "../types.js";
+import { Logger } from "../logger.js";
+import { config } from "../config.js";
+
+/** Name of the page binding that reports WebSocket close events */
+const WEBSOCKET_CLOSE_BINDING = "__mcpScraperWebSocketClosed";
+
+/**
+ * Service responsible for capturing WebSocket frames and EventSource
+ * messages of a page
+ */
+export class RealtimeMonitor {
+  private logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  /**
+   * Record WebSocket connections through Playwright and EventSource streams
+   * through a CDP session, which must be set up before navigation. Close
+   * codes and reasons come from a page-side hook because neither Playwright
+   * nor CDP reports them. Streams are skipped when CDP is unavailable.
+   * @param {Page} page - The browser page to monitor
+   * @param {RealtimeConnection[]} connections - Array to store captured connections
+   */
+  async setupRealtimeMonitoring(page: Page, connections: RealtimeConnection[]): Promise<void> {
+    page.on("websocket", (webSocket) => {
+      connections.push(this.monitorWebSocket(webSocket));
+      this.logger.info(`[WebSocket] Opened ${webSocket.url()}`);
+    });
+
+    try {
+      await this.setupCloseReporting(page, connections);
+    } catch (error) {
+      this.logger.debug(`[WebSocket] Close code capture unavailable: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    try {
+      const streams = new Map<string, RealtimeConnection>();
+      const session = await page.context().newCDPSession(page);
+
+      session.on("Network.requestWillBeSent", (event) => {
+        if (event.type === "EventSource" && !streams.has(event.requestId)) {
+          const connection = this.createConnection("eventsource", event.request.url);
+          streams.set(event.requestId, connection);
+          connections.push(connection);
+          this.logger.info(`[EventSource] Opened ${event.request.url}`);
+        }
+      });
+      session.on("Network.eventSourceMessageReceived", (event) => {
+        const connection = streams.get(event.requestId);
+        if (connection) {
+          this.addMessage(connection, {
+            direction: "received",
+            type: "event",
+            data: event.data,
+            eventName: event.eventName || undefined,
+            eventId: event.eventId || undefined,
+          });
+        }
+      });
+      session.on("Network.loadingFinished", (event) => this.closeStream(streams, event.requestId));
+      session.on("Network.loadingFailed", (event) => this.closeStream(streams, event.requestId, event.errorText));
+
+      await session.send("Network.enable");
+    } catch (error) {
+      this.logger.debug(`[EventSource] Stream capture unavailable: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Capture the frames and lifecycle of a WebSocket. Binary frames are
+   * stored base64-encoded.
+   * @param {WebSocket} webSocket - The WebSocket opened by the page
+   * @returns {RealtimeConnection} The connection being recorded
+   */
+  private monitorWebSocket(webSocket: WebSocket): RealtimeConnection {
+    const connection = this.createConnection("websocket", webSocket.url());
+    const toMessage = (direction: RealtimeMessage["direction"], payload: string | Buffer): Omit<RealtimeMessage, "timestamp"> =>
+      typeof payload === "string"
+        ? { direction, type: "text", data: payload }
+        : { direction, type: "binary", data: payload.toString("base64") };
+
+    webSocket.on("framesent", ({ payload }) => this.addMessage(connection, toMessage("sent", payload)));
+    webSocket.on("framereceived", ({ payload }) => this.addMessage(connection, toMessage("received", payload)));
+    webSocket.on("socketerror", (error) => {
+      connection.error = error;
+      this.logger.warn(`[WebSocket] Error on ${connection.url}: ${error}`);
+    });
+    webSocket.on("close", () => {
+      connection.closedAt = new Date().toISOString();
+    });
+
+    return connection;
+  }
+
+  /**
+   * Wrap the page's WebSocket constructor so each close event reports its
+   * code and reason. Reports are matched to the oldest connection with the
+   * same URL that has no close code yet.
+   * @param {Page} page - The browser page to monitor
+   * @param {RealtimeConnection[]} connections - Array holding captured connections
+   */
+  private async setupCloseReporting(page: Page, connections: RealtimeConnection[]): Promise<void> {
+    await page.exposeFunction(WEBSOCKET_CLOSE_BINDING, (url: string, code: number, reason: string) => {
+      const connection = connections.find(
+        (candidate) => candidate.type === "websocket" && candidate.url === url && candidate.closeCode === undefined
+      );
+      if (connection) {
+        connection.closedAt ??= new Date().toISOString();
+        connection.closeCode = code;
+        connection.closeReason = reason || undefined;
+      }
+    });
+
+    await page.addInitScript((binding: string) => {
+      const NativeWebSocket = window.WebSocket;
+      const bindings = window as unknown as Record<string, ((url: string, code: number, reason: string) => void) | undefined>;
+      if (!NativeWebSocket) {
+        return;
+      }
+      window.WebSocket = class extends NativeWebSocket {
+        constructor(url: string | URL, protocols?: string | string[]) {
+          super(url, protocols);
+          this.addEventListener("close", (event) => bindings[binding]?.(this.url, event.code, event.reason));
+        }
+      };
+    }, WEBSOCKET_CLOSE_BINDING);
+  }
+
+  private createConnection(type: RealtimeConnection["type"], url: string): RealtimeConnection {
+    return {
+      id: randomUUID(),
+      type,
+      url,
+      openedAt: new Date().toISOString(),
+      messages: [],
+      droppedMessages: 0,
+    };
+  }
+
+  /**
+   * Store a message, truncating large payloads and counting messages past
+   * the per-connection limit
+   */
+  private addMessage(connection: RealtimeConnection, message: Omit<RealtimeMessage, "timestamp">): void {
+    if (connection.messages.length >= config.limits.maxRealtimeMessages) {
+      connection.droppedMessages++;
+      return;
+    }
+    const stored: RealtimeMessage = { ...message, timestamp: new Date().toISOString() };
+    if (stored.data.length > config.limits.maxRealtimeMessageSize) {
+      stored.data = stored.data.substring(0, config.limits.maxRealtimeMessageSize);
+      stored.truncated = true;
+    }
+    connection.messages.push(stored);
+  }
+
+  private closeStream(streams: Map<string, RealtimeConnection>, requestId: string, error?: string): void {
+    const connection = streams.get(requestId);
+    if (connection && !connection.closedAt) {
+      connection.closedAt = new Date().toISOString();
+      if (error) {
+        connection.error = error;
+      }
+    }
+  }
+}
@@ -1,26 +1,121 @@
-import { type Page, type Response } from "patchright";
+import { type CDPSession, type Page, type Request, type Response } from "patchright";
 import { randomUUID } from "crypto";
-import { type CapturedRequest } from "../types.js";
+import {
+  type BodyCaptureOptions,
+  type CapturedRequest,
+  type RequestInitiator,
+  type RequestInterception,
+  type RequestPhase,
+  type RequestSizes,
+} from "../types.js";
 import { Logger } from "../logger.js";
 import { config } from "../config.js";
+import { BodyStore } from "./body_store.js";
+
+/** Marker appended to response bodies cut at the configured size limit */
+export const TRUNCATED_BODY_MARKER = "\n... [Response body truncated - too large]";
+
+/** Placeholder stored when a response body could not be read */
+export const FAILED_BODY_MARKER = "[Failed to capture response body]";
+
+const UNKNOWN_SIZES: RequestSizes = {
+  requestHeaders: -1,
+  requestBody: -1,
+  responseHeaders: -1,
+  responseBody: -1,
+  transferSize: -1,
+  decodedBodySize: -1,
+};
+
+/** Lifecycle phases that page load events may advance from */
+const LOADING_PHASES: ReadonlySet<RequestPhase> = new Set(["navigation", "domcontentloaded"]);
+
+/** Page events the monitoring listens to */
+const MONITORED_PAGE_EVENTS = ["domcontentloaded", "load", "request", "response", "requestfinished", "requestfailed"] as const;
+
+/**
+ * Per-page capture state. Initiators reported over CDP and requests seen by
+ * Playwright arrive in no guaranteed order, so whichever side comes first
+ * waits in a queue keyed by method and URL.
+ */
+interface PageCaptureState {
+  phase: RequestPhase;
+  requestMap: WeakMap<Request, CapturedRequest>;
+  pendingInitiators: Map<string, RequestInitiator[]>;
+  awaitingInitiator: Map<string, CapturedRequest[]>;
+  /** Interceptions reported before the request event fired */
+  pendingInterceptions: WeakMap<Request, RequestInterception>;
+  /** CDP session reporting initiators, when tracking is available */
+  session?: CDPSession;
+}
+
+/**
+ * Minimal shape of the CDP Network.requestWillBeSent initiator
+ */
+interface CdpInitiator {
+  type: string;
+  url?: string;
+  lineNumber?: number;
+  columnNumber?: number;
+  stack?: CdpStackTrace;
+}
+
+interface CdpStackTrace {
+  callFrames: Array<{ functionName: string; url: string; lineNumber: number; columnNumber: number }>;
+  parent?: CdpStackTrace;
+}
 
 /**
  * Service responsible for setting up listeners on a page to capture request and response data
  */
 export class RequestMonitor {
   private logger: Logger;
+  private bodyStore: BodyStore;
+  private pageStates = new WeakMap<Page, PageCaptureState>();
 
-  constructor(logger: Logger) {
+  constructor(logger: Logger, bodyStore?: BodyStore) {
     this.logger = logger;
+    this.bodyStore = bodyStore ?? new BodyStore(logger);
   }
 
   /**
-   * Set up request and response monitoring for the page
+   * Set up request and response monitoring for the page.
+   * Responses and failures are paired with their request through the
+   * underlying Playwright Request object, so parallel requests to the same
+   * URL, redirect hops and repeated POSTs each keep their own response.
    * @param {Page} page - The browser page to monitor
    * @param {CapturedRequest[]} capturedRequests - Array to store captured requests
    * @param {boolean} includeImages - Whether to include image and media requests
+   * @param {BodyCaptureOptions} bodyCapture - Body size cap, captured content types and full body retention
    */
-  setupRequestMonitoring(page: Page, capturedRequests: CapturedRequest[], includeImages: boolean): void {
+  setupRequestMonitoring(
+    page: Page,
+    capturedRequests: CapturedRequest[],
+    includeImages: boolean,
+    bodyCapture: BodyCaptureOptions = {}
+  ): void {
+    const requestMap = new WeakMap<Request, CapturedRequest>();
+    const state: PageCaptureState = {
+      phase: "navigation",
+      requestMap,
+      pendingInitiators: new Map(),
+      awaitingInitiator: new Map(),
+      pendingInterceptions: new WeakMap(),
+    };
+    this.pageStates.set(page, state);
+
+    // Advance the lifecycle phase on main frame load events
+    page.on("domcontentloaded", () => {
+      if (LOADING_PHASES.has(state.phase)) {
+        state.phase = "domcontentloaded";
+      }
+    });
+    page.on("load", () => {
+      if (LOADING_PHASES.has(state.phase)) {
+        state.phase = "load";
+      }
+    });
+
     // Monitor outgoing requests
     page.on("request", (request) => {
       const resourceType = request.resourceType();
@@ -38,59 +133,305 @@ export class RequestMonitor {
         postData: request.postData() || undefined,
         timestamp: new Date().toISOString(),
         resourceType: resourceType,
+        phase: state.phase,
+        intercepted: state.pendingInterceptions.get(request),
       };
 
+      // Link redirect hops in both directions
+      const redirectedFrom = request.redirectedFrom();
+      const previousRequest = redirectedFrom ? requestMap.get(redirectedFrom) : undefined;
+      if (previousRequest) {
+        capturedRequest.redirectedFrom = previousRequest.id;
+        previousRequest.redirectedTo = capturedRequest.id;
+      }
+
+      if (redirectedFrom) {
+        capturedRequest.initiator = { type: "redirect", url: redirectedFrom.url() };
+      } else {
+        this.assignInitiator(state, capturedRequest);
+      }
+
+      requestMap.set(request, capturedRequest);
       capturedRequests.push(capturedRequest);
       this.logger.info(`[Request] ${request.method()} ${request.url()}`);
     });
 
     // Monitor incoming responses
     page.on("response", async (response) => {
-      await this.captureResponseData(capturedRequests, response);
+      const capturedRequest = requestMap.get(response.request());
+      if (capturedRequest) {
+        await this.captureResponseData(capturedRequest, response, bodyCapture);
+      }
+    });
+
+    // Record timing and transfer sizes once the response has fully arrived
+    page.on("requestfinished", async (request) => {
+      const capturedRequest = requestMap.get(request);
+      if (capturedRequest) {
+        await this.captureTimingData(capturedRequest, request);
+      }
+    });
+
+    // Monitor requests that never got a response
+    page.on("requestfailed", (request) => {
+      const capturedRequest = requestMap.get(request);
+      if (capturedRequest) {
+        capturedRequest.failed = true;
+        capturedRequest.failureText = request.failure()?.errorText ?? "Unknown error";
+        this.logger.warn(`[RequestFailed] ${request.method()} ${request.url()}: ${capturedRequest.failureText}`);
+      }
     });
   }
 
   /**
-   * Capture response data and associate it with the corresponding request
-   * @param {CapturedRequest[]} capturedRequests - Array of captured requests
-   * @param {Response} response - The response object from the browser
+   * Set the phase stamped on requests the page starts from now on
+   * @param {Page} page - A page set up with setupRequestMonitoring
+   * @param {RequestPhase} phase - The new phase
    */
-  private async captureResponseData(capturedRequests: CapturedRequest[], response: Response): Promise<void> {
-    // Find the corresponding request and add response data
-    const requestIndex = capturedRequests.findIndex(
-      (req) => req.url === response.url() && !req.status
-    );
+  setPhase(page: Page, phase: RequestPhase): void {
+    const state = this.pageStates.get(page);
+    if (state) {
+      state.phase = phase;
+    }
+  }
+
+  /**
+   * Mark the captured request of a browser request as handled by an
+   * interception rule. Interceptions reported before the request event are
+   * applied once the request is captured.
+   * @param {Page} page - A page set up with setupRequestMonitoring
+   * @param {Request} request - The intercepted browser request
+   * @param {RequestInterception} interception - The rule that handled it
+   */
+  markIntercepted(page: Page, request: Request, interception: RequestInterception): void {
+    const state = this.pageStates.get(page);
+    if (!state) {
+      return;
+    }
+    const capturedRequest = state.requestMap.get(request);
+    if (capturedRequest) {
+      capturedRequest.intercepted = interception;
+    } else {
+      state.pendingInterceptions.set(request, interception);
+    }
+  }
+
+  /**
+   * Record request initiators (parser, script stack, preload, preflight)
+   * through a CDP session. Must be awaited before navigation so the first
+   * requests are covered. Initiators are left unset when CDP is unavailable.
+   * @param {Page} page - A page set up with setupRequestMonitoring
+   */
+  async trackInitiators(page: Page): Promise<void> {
+    const state = this.pageStates.get(page);
+    if (!state) {
+      return;
+    }
+
+    try {
+      const session = await page.context().newCDPSession(page);
+      state.session = session;
+      session.on("Network.requestWillBeSent", (event) => {
+        // Redirect hops are linked through Playwright instead
+        if (event.redirectResponse) {
+          return;
+        }
+        const key = this.initiatorKey(event.request.method, event.request.url);
+        const initiator = this.toRequestInitiator(event.initiator as CdpInitiator);
+        const awaiting = state.awaitingInitiator.get(key);
+        const capturedRequest = awaiting?.shift();
+        if (capturedRequest) {
+          capturedRequest.initiator = initiator;
+        } else {
+          this.enqueue(state.pendingInitiators, key, initiator);
+        }
+      });
+      await session.send("Network.enable");
+    } catch (error) {
+      this.logger.debug(`[Initiator] Initiator tracking unavailable: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
 
-    if (requestIndex >= 0 && requestIndex < capturedRequests.length) {
-      const request = capturedRequests[requestIndex];
-      if (request) {
-        request.status = response.status();
-        request.responseHeaders = response.headers();
+  /**
+   * Stop capturing the requests of a page that stays open after its
+   * analysis, so that later traffic neither alters the captured requests nor
+   * queues initiators
+   * @param {Page} page - A page set up with setupRequestMonitoring
+   */
+  async stopMonitoring(page: Page): Promise<void> {
+    const state = this.pageStates.get(page);
+    this.pageStates.delete(page);
+    for (const event of MONITORED_PAGE_EVENTS) {
+      page.removeAllListeners(event);
+    }
+    await state?.session?.detach().catch(() => undefined);
+  }
 
-        // Capture response body for text-based content only
-        try {
-          const contentType = response.headers()["content-type"] || "";
-          const resourceType = request.resourceType;
+  /**
+   * Give a new request the initiator CDP already reported for it, or queue
+   * it until the initiator arrives
+   */
+  private assignInitiator(state: PageCaptureState, capturedRequest: CapturedRequest): void {
+    const key = this.initiatorKey(capturedRequest.method, capturedRequest.url);
+    const initiator = state.pendingInitiators.get(key)?.shift();
+    if (initiator) {
+      capturedRequest.initiator = initiator;
+    } else {
+      this.enqueue(state.awaitingInitiator, key, capturedRequest);
+    }
+  }
 
-          if (this.shouldCaptureResponseBody(resourceType, contentType)) {
-            const responseBody = await response.text();
-            request.responseBody = this.truncateResponseBody(responseBody);
+  private enqueue<T>(queues: Map<string, T[]>, key: string, item: T): void {
+    const queue = queues.get(key);
+    if (queue) {
+      queue.push(item);
+    } else {
+      queues.set(key, [item]);
+    }
+  }
+
+  private initiatorKey(method: string, url: string): string {
+    const hashIndex = url.indexOf("#");
+    return `${method} ${hashIndex === -1 ? url : url.slice(0, hashIndex)}`;
+  }
+
+  /**
+   * Convert a CDP initiator into a RequestInitiator. Script initiators point
+   * at the innermost stack frame with a URL, following async parents.
+   * @param {CdpInitiator} initiator - The initiator reported by CDP
+   * @returns {RequestInitiator} The request initiator
+   */
+  private toRequestInitiator(initiator: CdpInitiator): RequestInitiator {
+    switch (initiator.type) {
+      case "parser":
+      case "preload":
+      case "preflight":
+        return {
+          type: initiator.type,
+          url: initiator.url,
+          lineNumber: initiator.lineNumber !== undefined ? initiator.lineNumber + 1 : undefined,
+          columnNumber: initiator.columnNumber !== undefined ? initiator.columnNumber + 1 : undefined,
+        };
+      case "script": {
+        for (let stack = initiator.stack; stack; stack = stack.parent) {
+          const frame = stack.callFrames.find((callFrame) => callFrame.url);
+          if (frame) {
+            return {
+              type: "script",
+              url: frame.url,
+              lineNumber: frame.lineNumber + 1,
+              columnNumber: frame.columnNumber + 1,
+              functionName: frame.functionName || undefined,
+            };
           }
-        } catch (error) {
-          this.logger.error(`[Response] Failed to capture response body for ${response.url()}: ${error instanceof Error ? error.message : String(error)}`);
-          request.responseBody = "[Failed to capture response body]";
         }
+        return { type: "script", url: initiator.url };
+      }
+      default:
+        return { type: "other", url: initiator.url };
+    }
+  }
+
+  /**
+   * Capture timing phases and transfer sizes for a finished request
+   * @param {CapturedRequest} capturedRequest - The captured request to update
+   * @param {Request} request - The finished browser request
+   */
+  private async captureTimingData(capturedRequest: CapturedRequest, request: Request): Promise<void> {
+    const timing = request.timing();
+    const span = (start: number, end: number) => (start >= 0 && end >= 0 ? end - start : -1);
+
+    capturedRequest.timing = {
+      startTime: timing.startTime,
+      dns: span(timing.domainLookupStart, timing.domainLookupEnd),
+      connect: span(timing.connectStart, timing.connectEnd),
+      tls: span(timing.secureConnectionStart, timing.connectEnd),
+      ttfb: span(timing.requestStart, timing.responseStart),
+      download: span(timing.responseStart, timing.responseEnd),
+      total: timing.responseEnd >= 0 ? timing.responseEnd : -1,
+    };
+
+    try {
+      const sizes = await request.sizes();
+      capturedRequest.sizes = {
+        requestHeaders: sizes.requestHeadersSize,
+        requestBody: sizes.requestBodySize,
+        responseHeaders: sizes.responseHeadersSize,
+        responseBody: sizes.responseBodySize,
+        transferSize: sizes.responseHeadersSize + sizes.responseBodySize,
+        decodedBodySize: capturedRequest.sizes?.decodedBodySize ?? -1,
+      };
+    } catch (error) {
+      this.logger.debug(`[Timing] Failed to read sizes for ${request.url()}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Capture response data into the captured request it belongs to. Text
+   * bodies are kept inline up to the size cap; with retainFullBodies, longer
+   * text bodies and binary bodies go to the body store in full.
+   * @param {CapturedRequest} request - The captured request paired with the response
+   * @param {Response} response - The response object from the browser
+   * @param {BodyCaptureOptions} bodyCapture - Body capture settings
+   */
+  private async captureResponseData(request: CapturedRequest, response: Response, bodyCapture: BodyCaptureOptions): Promise<void> {
+    request.status = response.status();
+    request.responseHeaders = response.headers();
+
+    // Redirect responses carry no readable body
+    if (request.status >= 300 && request.status < 400) {
+      return;
+    }
+
+    const contentType = response.headers()["content-type"] || "";
+    const resourceType = request.resourceType;
+    // Event streams stay open, so their body never completes
+    if (resourceType === "eventsource") {
+      return;
+    }
+
+    const isText = this.isTextBody(resourceType, contentType);
+    const retainFullBodies = bodyCapture.retainFullBodies ?? false;
+    const wanted = bodyCapture.contentTypes
+      ? this.matchesContentType(contentType, bodyCapture.contentTypes)
+      : isText || retainFullBodies;
+    if (!wanted || (!isText && !retainFullBodies)) {
+      return;
+    }
+
+    try {
+      if (isText) {
+        const maxBodySize = bodyCapture.maxBodySize ?? config.limits.maxResponseBodySize;
+        const responseBody = await response.text();
+        request.responseBody = this.truncateResponseBody(responseBody, maxBodySize);
+        request.sizes = {
+          ...(request.sizes ?? UNKNOWN_SIZES),
+          decodedBodySize: Buffer.byteLength(responseBody),
+        };
+        if (retainFullBodies && responseBody.length > maxBodySize) {
+          request.storedBody = { ...(await this.bodyStore.put(Buffer.from(responseBody))), encoding: "utf8" };
+        }
+      } else {
+        const body = await response.body();
+        request.storedBody = { ...(await this.bodyStore.put(body)), encoding: "base64" };
+        request.sizes = {
+          ...(request.sizes ?? UNKNOWN_SIZES),
+          decodedBodySize: body.length,
+        };
       }
+    } catch (error) {
+      this.logger.error(`[Response] Failed to capture response body for ${response.url()}: ${error instanceof Error ? error.message : String(error)}`);
+      request.responseBody = FAILED_BODY_MARKER;
     }
   }
 
   /**
-   * Determine if response body should be captured based on content type and resource type
+   * Determine if a response body is text based on content type and resource type
    * @param {string} resourceType - The resource type from the request
    * @param {string} contentType - The content type from the response headers
-   * @returns {boolean} True if response body should be captured
+   * @returns {boolean} True if the body is text
    */
-  private shouldCaptureResponseBody(resourceType: string, contentType: string): boolean {
+  private isTextBody(resourceType: string, contentType: string): boolean {
     return (
       resourceType !== "image" &&
       resourceType !== "media" &&
@@ -102,14 +443,29 @@ export class RequestMonitor {
     );
   }
 
+  /**
+   * Match a content type against patterns such as "application/json" or "image/*"
+   * @param {string} contentType - The content type from the response headers
+   * @param {string[]} patterns - Content type patterns
+   * @returns {boolean} True if any pattern matches
+   */
+  private matchesContentType(contentType: string, patterns: string[]): boolean {
+    const mimeType = contentType.split(";")[0]!.trim().toLowerCase();
+    return patterns.some((pattern) => {
+      const normalized = pattern.trim().toLowerCase();
+      return normalized.endsWith("/*") ? mimeType.startsWith(normalized.slice(0, -1)) : mimeType === normalized;
+    });
+  }
+
   /**
    * Truncate response body if it exceeds size limit
    * @param {string} responseBody - The response body content
+   * @param {number} maxBodySize - Characters to keep
    * @returns {string} Truncated response body or original if within limit
    */
-  private truncateResponseBody(responseBody: string): string {
-    return responseBody.length > config.limits.maxResponseBodySize
-      ? responseBody.substring(0, config.limits.maxResponseBodySize) + "\n... [Response body truncated - too large]"
+  private truncateResponseBody(responseBody: string, maxBodySize: number): string {
+    return responseBody.length > maxBodySize
+      ? responseBody.substring(0, maxBodySize) + TRUNCATED_BODY_MARKER
       : responseBody;
   }
 }
\ No newline at end of file
@@ -0,0 +1,190 @@
+import {
+  type CapturedRequest,
+  type RequestSearchCriteria,
+  type RequestSearchMatch,
+  type ResponseBodyReader,
+  type SearchField,
+  type SearchSnippet,
+} from "../types.js";
+
+const ALL_FIELDS: SearchField[] = ["url", "requestHeaders", "postData", "responseBody"];
+
+/** Characters of context kept on each side of a match */
+const SNIPPET_CONTEXT = 60;
+
+/** Snippets returned per request; further matches are only counted */
+const MAX_SNIPPETS = 5;
+
+/** Matches counted per field before giving up on very repetitive bodies */
+const MAX_MATCHES_PER_FIELD = 1000;
+
+/**
+ * Service responsible for full-text and structured search over captured
+ * requests
+ */
+export class RequestSearcher {
+  /**
+   * Find the requests passing the filters whose searched fields match the
+   * query, in capture order
+   * @param {CapturedRequest[]} requests - The captured requests
+   * @param {RequestSearchCriteria} criteria - Query and filters
+   * @returns {RequestSearchMatch[]} Matching requests with snippets
+   */
+  search(requests: CapturedRequest[], criteria: RequestSearchCriteria): RequestSearchMatch[] {
+    const pattern = criteria.query ? this.createPattern(criteria.query, criteria.caseSensitive ?? false) : undefined;
+    return requests
+      .filter((request) => this.passesFilters(request, criteria))
+      .map((request) => this.collectRequest(request, criteria, pattern))
+      .filter((match): match is RequestSearchMatch => match !== undefined);
+  }
+
+  /**
+   * Match a single request against the query and filters, reading its
+   * stored body only once the filters pass
+   * @param {CapturedRequest} request - The captured request
+   * @param {RequestSearchCriteria} criteria - Query and filters
+   * @param {ResponseBodyReader} readBody - Optional reader for response bodies kept in the body store
+   * @returns {Promise<RequestSearchMatch | undefined>} The match, or undefined when the request does not match
+   */
+  async matchRequest(
+    request: CapturedRequest,
+    criteria: RequestSearchCriteria,
+    readBody?: ResponseBodyReader
+  ): Promise<RequestSearchMatch | undefined> {
+    if (!this.passesFilters(request, criteria)) {
+      return undefined;
+    }
+    const pattern = criteria.query ? this.createPattern(criteria.query, criteria.caseSensitive ?? false) : undefined;
+    // Search the complete stored body rather than its truncated inline copy
+    const storedBody = pattern && readBody && this.searchedFields(criteria).includes("responseBody") ? await readBody(request) : undefined;
+    return this.collectRequest(storedBody === undefined ? request : { ...request, responseBody: storedBody }, criteria, pattern);
+  }
+
+  /**
+   * Build a global regex from a query: /regex/flags as written, otherwise
+   * the escaped substring
+   * @param {string} query - The query
+   * @param {boolean} caseSensitive - Whether substring queries match case
+   * @returns {RegExp} The pattern
+   * @throws {SyntaxError} If a /regex/ query is not a valid regular expression
+   */
+  createPattern(query: string, caseSensitive: boolean): RegExp {
+    const regexMatch = /^\/(.+)\/([a-z]*)$/.exec(query);
+    if (regexMatch) {
+      const flags = regexMatch[2]!.includes("g") ? regexMatch[2]! : `${regexMatch[2]}g`;
+      return new RegExp(regexMatch[1]!, flags);
+    }
+    const escaped = query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    return new RegExp(escaped, caseSensitive ? "g" : "gi");
+  }
+
+  private collectRequest(request: CapturedRequest, criteria: RequestSearchCriteria, pattern: RegExp | undefined): RequestSearchMatch | undefined {
+    const match: RequestSearchMatch = {
+      id: request.id,
+      url: request.url,
+      method: request.method,
+      resourceType: request.resourceType,
+      status: request.status,
+      matchCount: 0,
+      snippets: [],
+    };
+
+    if (pattern) {
+      for (const field of this.searchedFields(criteria)) {
+        const text = this.fieldText(request, field);
+        if (text) {
+          this.collectMatches(pattern, field, text, match);
+        }
+      }
+      if (match.matchCount === 0) {
+        return undefined;
+      }
+    }
+    return match;
+  }
+
+  private searchedFields(criteria: RequestSearchCriteria): SearchField[] {
+    return criteria.fields && criteria.fields.length > 0 ? criteria.fields : ALL_FIELDS;
+  }
+
+  private passesFilters(request: CapturedRequest, criteria: RequestSearchCriteria): boolean {
+    if (criteria.method && request.method.toUpperCase() !== criteria.method.toUpperCase()) {
+      return false;
+    }
+    if (criteria.resourceType && request.resourceType !== criteria.resourceType) {
+      return false;
+    }
+    if (criteria.statusMin !== undefined || criteria.statusMax !== undefined) {
+      if (request.status === undefined) {
+        return false;
+      }
+      if (criteria.statusMin !== undefined && request.status < criteria.statusMin) {
+        return false;
+      }
+      if (criteria.statusMax !== undefined && request.status > criteria.statusMax) {
+        return false;
+      }
+    }
+    if (criteria.contentType) {
+      const contentType = this.headerValue(request.responseHeaders, "content-type");
+      if (!contentType?.toLowerCase().includes(criteria.contentType.toLowerCase())) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private fieldText(request: CapturedRequest, field: SearchField): string | undefined {
+    switch (field) {
+      case "url":
+        return request.url;
+      case "requestHeaders":
+        return Object.entries(request.headers)
+          .map(([name, value]) => `${name}: ${value}`)
+          .join("\n");
+      case "postData":
+        return request.postData;
+      case "responseBody":
+        return request.responseBody;
+    }
+  }
+
+  /**
+   * Count the matches of a field and keep snippets while there is room
+   */
+  private collectMatches(pattern: RegExp, field: SearchField, text: string, match: RequestSearchMatch): void {
+    pattern.lastIndex = 0;
+    let count = 0;
+    let result: RegExpExecArray | null;
+
+    while (count < MAX_MATCHES_PER_FIELD && (result = pattern.exec(text)) !== null) {
+      if (result[0].length === 0) {
+        // Empty matches would never advance
+        pattern.lastIndex++;
+        continue;
+      }
+      count++;
+      if (match.snippets.length < MAX_SNIPPETS) {
+        match.snippets.push(this.createSnippet(field, text, result.index, result[0].length));
+      }
+    }
+    match.matchCount += count;
+  }
+
+  private createSnippet(field: SearchField, text: string, offset: number, length: number): SearchSnippet {
+    const start = Math.max(0, offset - SNIPPET_CONTEXT);
+    const end = Math.min(text.length, offset + length + SNIPPET_CONTEXT);
+    const snippet =
+      (start > 0 ? "..." : "") +
+      text.slice(start, offset) +
+      `**${text.slice(offset, offset + length)}**` +
+      text.slice(offset + length, end) +
+      (end < text.length ? "..." : "");
+    return { field, snippet, offset };
+  }
+
+  private headerValue(headers: Record<string, string> | undefined, name: string): string | undefined {
+    const entry = Object.entries(headers ?? {}).find(([key]) => key.toLowerCase() === name);
+    return entry?.[1];
+  }
+}
@@ -0,0 +1,130 @@
+import { JSONPath } from "jsonpath-plus";
+import jmespath from "jmespath";
+import { type JsonPathMatch, type JsonSchemaType, type ShapeSummary } from "../types.js";
+
+/** Array items sampled when summarizing an item shape */
+const MAX_ARRAY_SAMPLES = 50;
+
+/**
+ * Service responsible for querying parsed JSON responses with JSONPath or
+ * JMESPath and for summarizing their structure
+ */
+export class ResponseQuery {
+  /**
+   * Evaluate a JSONPath expression. Filter expressions run in the
+   * library's safe evaluator, never through eval.
+   * @param {unknown} data - The parsed JSON document
+   * @param {string} expression - The JSONPath expression, e.g. $.items[*].price
+   * @returns {JsonPathMatch[]} Matched nodes in document order
+   * @throws {Error} If the expression is invalid
+   */
+  evaluateJsonPath(data: unknown, expression: string): JsonPathMatch[] {
+    const results = JSONPath({
+      path: expression,
+      json: data as object,
+      resultType: "all",
+      eval: "safe",
+      wrap: true,
+    }) as Array<{ path: string; value: unknown }>;
+    return results.map(({ path, value }) => ({ path, value }));
+  }
+
+  /**
+   * Evaluate a JMESPath expression
+   * @param {unknown} data - The parsed JSON document
+   * @param {string} expression - The JMESPath expression, e.g. items[?price > `10`].name
+   * @returns {unknown} The expression result, null when nothing matched
+   * @throws {Error} If the expression is invalid
+   */
+  evaluateJmesPath(data: unknown, expression: string): unknown {
+    return jmespath.search(data, expression);
+  }
+
+  /**
+   * Summarize the structure of a JSON value
+   * @param {unknown} value - The parsed JSON value
+   * @param {number} maxDepth - Nesting levels to expand; deeper objects only report keyCount
+   * @returns {ShapeSummary} The shape summary
+   */
+  summarizeShape(value: unknown, maxDepth: number): ShapeSummary {
+    return this.summarize(value, 0, maxDepth);
+  }
+
+  private summarize(value: unknown, depth: number, maxDepth: number): ShapeSummary {
+    if (value === null || value === undefined) {
+      return { type: "null" };
+    }
+    if (typeof value === "boolean" || typeof value === "string") {
+      return { type: typeof value as JsonSchemaType };
+    }
+    if (typeof value === "number") {
+      return { type: Number.isInteger(value) ? "integer" : "number" };
+    }
+    if (Array.isArray(value)) {
+      const summary: ShapeSummary = { type: "array", length: value.length };
+      if (depth < maxDepth && value.length > 0) {
+        summary.items = value
+          .slice(0, MAX_ARRAY_SAMPLES)
+          .map((item) => this.summarize(item, depth + 1, maxDepth))
+          .reduce((merged, item) => this.merge(merged, item));
+      }
+      return summary;
+    }
+
+    const entries = Object.entries(value as Record<string, unknown>);
+    if (depth >= maxDepth) {
+      return { type: "object", keyCount: entries.length };
+    }
+    const keys: Record<string, ShapeSummary> = {};
+    for (const [key, propertyValue] of entries) {
+      keys[key] = this.summarize(propertyValue, depth + 1, maxDepth);
+    }
+    return { type: "object", keys };
+  }
+
+  /**
+   * Merge the summaries of two sibling values, e.g. two items of an array
+   */
+  private merge(a: ShapeSummary, b: ShapeSummary): ShapeSummary {
+    let types = Array.from(new Set([...this.typesOf(a), ...this.typesOf(b)]));
+    if (types.includes("number")) {
+      types = types.filter((type) => type !== "integer");
+    }
+    const merged: ShapeSummary = { type: types.length === 1 ? types[0]! : types };
+
+    const lengths = [a, b]
+      .flatMap((summary) => [summary.length, summary.minLength, summary.maxLength])
+      .filter((length): length is number => length !== undefined);
+    if (lengths.length > 0) {
+      const min = Math.min(...lengths);
+      const max = Math.max(...lengths);
+      if (min === max) {
+        merged.length = min;
+      } else {
+        merged.minLength = min;
+        merged.maxLength = max;
+      }
+    }
+
+    if (a.keys || b.keys) {
+      const keys: Record<string, ShapeSummary> = { ...a.keys };
+      for (const [key, summary] of Object.entries(b.keys ?? {})) {
+        keys[key] = keys[key] ? this.merge(keys[key]!, summary) : summary;
+      }
+      merged.keys = keys;
+    } else if (a.keyCount !== undefined || b.keyCount !== undefined) {
+      merged.keyCount = Math.max(a.keyCount ?? 0, b.keyCount ?? 0);
+    }
+
+    if (a.items && b.items) {
+      merged.items = this.merge(a.items, b.items);
+    } else if (a.items || b.items) {
+      merged.items = a.items ?? b.items;
+    }
+    return merged;
+  }
+
+  private typesOf(summary: ShapeSummary): JsonSchemaType[] {
+    return Array.isArray(summary.type) ? summary.type : [summary.type];
+  }
+}
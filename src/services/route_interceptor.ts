@@ -0,0 +1,100 @@
+import { type Page, type Request, type Route } from "patchright";
+import { type RequestInterception, type RouteRule } from "../types.js";
+import { Logger } from "../logger.js";
+import { parseRegexPattern } from "./url_pattern.js";
+
+const DEFAULT_BLOCK_ERROR = "blockedbyclient";
+
+/**
+ * Service responsible for installing request interception rules on a page
+ */
+export class RouteInterceptor {
+  private logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  /**
+   * Install interception rules on the page. Must be awaited before
+   * navigation. Rules are tried in order and the first one matching the URL
+   * and resource type handles the request; other requests continue
+   * unchanged.
+   * @param {Page} page - The browser page to intercept requests of
+   * @param {RouteRule[]} routes - Rules to install
+   * @param {(request: Request, interception: RequestInterception) => void} onIntercept - Called before a rule handles a request
+   */
+  async installRoutes(
+    page: Page,
+    routes: RouteRule[],
+    onIntercept: (request: Request, interception: RequestInterception) => void
+  ): Promise<void> {
+    // The most recently registered handler runs first, so register in reverse
+    for (let ruleIndex = routes.length - 1; ruleIndex >= 0; ruleIndex--) {
+      const rule = routes[ruleIndex]!;
+      await page.route(this.createUrlMatcher(rule.url), async (route) => {
+        const request = route.request();
+        if (rule.resourceTypes && !rule.resourceTypes.includes(request.resourceType())) {
+          await route.fallback();
+          return;
+        }
+
+        onIntercept(request, { ruleIndex, name: rule.name, action: rule.action, pattern: rule.url });
+        this.logger.info(`[Route] ${rule.action} ${request.method()} ${request.url()}`);
+        try {
+          await this.applyRule(route, rule);
+        } catch (error) {
+          // The page may close while a delayed request is held
+          this.logger.debug(`[Route] Failed to ${rule.action} ${request.url()}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      });
+    }
+  }
+
+  /**
+   * Handle an intercepted request according to the rule's action
+   * @param {Route} route - The intercepted route
+   * @param {RouteRule} rule - The matching rule
+   */
+  private async applyRule(route: Route, rule: RouteRule): Promise<void> {
+    switch (rule.action) {
+      case "block":
+        await route.abort(rule.errorCode ?? DEFAULT_BLOCK_ERROR);
+        return;
+      case "fulfill":
+        await route.fulfill({
+          status: rule.status ?? 200,
+          headers: rule.headers,
+          contentType: rule.contentType,
+          body: rule.body ?? "",
+        });
+        return;
+      case "modifyHeaders": {
+        const removed = new Set((rule.removeHeaders ?? []).map((name) => name.toLowerCase()));
+        const headers: Record<string, string> = {};
+        for (const [name, value] of Object.entries(route.request().headers())) {
+          if (!removed.has(name.toLowerCase())) {
+            headers[name] = value;
+          }
+        }
+        for (const [name, value] of Object.entries(rule.headers ?? {})) {
+          headers[name.toLowerCase()] = value;
+        }
+        await route.continue({ headers });
+        return;
+      }
+      case "delay":
+        await new Promise((resolve) => setTimeout(resolve, rule.delay));
+        await route.continue();
+        return;
+    }
+  }
+
+  /**
+   * Build a page.route matcher: a RegExp for /regex/ patterns, otherwise the
+   * glob itself
+   */
+  private createUrlMatcher(pattern: string): string | RegExp {
+    return parseRegexPattern(pattern) ?? pattern;
+  }
+}
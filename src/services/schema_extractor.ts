@@ -0,0 +1,250 @@
+import { type Page } from "patchright";
+import {
+  type ExtractionSchema,
+  type SchemaExtractionResult,
+  type SchemaField,
+  type SchemaFieldError,
+  type SchemaFieldTransform,
+  type SchemaFieldValue,
+} from "../types.js";
+import { InvalidSelectorError } from "../errors.js";
+import { Logger } from "../logger.js";
+
+/** Containers read per page, bounding the size of huge listings */
+const MAX_RECORDS = 5000;
+
+/** Values read for one field of one record: null where a matched element lacks the attribute */
+type RawFieldValues = Array<string | null>;
+
+/** Values read from the page, before transforms */
+interface RawSchemaRecords {
+  /** Selectors and XPath expressions that could not be parsed */
+  invalid: string[];
+  records: Array<Record<string, RawFieldValues>>;
+  /** Containers on the page, including those past the record limit */
+  containerCount: number;
+}
+
+/**
+ * Service responsible for reading typed records from a rendered page with a
+ * field map of CSS selectors or XPath expressions
+ */
+export class SchemaExtractor {
+  private logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  /**
+   * Read one record per container, then apply each field's transforms. A field
+   * whose selector misses, or whose transform fails, is null in its record and
+   * reported in the errors; fields with multiple matches may be empty. Field
+   * selectors are anchored at their container, and absolute field XPaths are
+   * read relative to it. Containers past the first 5000 are not read, which
+   * the result flags as truncated.
+   * @param {Page} page - The browser page to read
+   * @param {ExtractionSchema} schema - The containers and fields to read
+   * @returns {Promise<SchemaExtractionResult>} The records and the fields that could not be read
+   * @throws {InvalidSelectorError} If a selector or XPath of the schema cannot be parsed
+   */
+  async extract(page: Page, schema: ExtractionSchema): Promise<SchemaExtractionResult> {
+    const raw: RawSchemaRecords = await page.evaluate(
+      ({ schema, maxRecords }) => {
+        type Spec = { selector?: string; xpath?: string };
+
+        // Anchor each selector of a list at :scope, so that a selector such as "div > h2"
+        // cannot match through an ancestor outside the container
+        const scoped = (selector: string): string => {
+          const parts: string[] = [];
+          let depth = 0;
+          let quote = "";
+          let start = 0;
+          for (let index = 0; index < selector.length; index++) {
+            const char = selector[index];
+            if (char === "\\") {
+              index++;
+            } else if (quote) {
+              quote = char === quote ? "" : quote;
+            } else if (char === '"' || char === "'") {
+              quote = char;
+            } else if (char === "(" || char === "[") {
+              depth++;
+            } else if (char === ")" || char === "]") {
+              depth--;
+            } else if (char === "," && depth === 0) {
+              parts.push(selector.slice(start, index));
+              start = index + 1;
+            }
+          }
+          parts.push(selector.slice(start));
+          return parts.map((part) => (part.trim().startsWith(":scope") ? part.trim() : `:scope ${part.trim()}`)).join(", ");
+        };
+
+        const query = (root: Node, spec: Spec): Node[] => {
+          const inContainer = root !== document;
+          if (spec.xpath) {
+            // An absolute path would read the whole document from every container
+            const xpath = inContainer && spec.xpath.startsWith("/") ? `.${spec.xpath}` : spec.xpath;
+            const result = document.evaluate(xpath, root, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
+            return Array.from({ length: result.snapshotLength }, (_, index) => result.snapshotItem(index)!);
+          }
+          const selector = spec.selector ?? "";
+          return Array.from((root as ParentNode).querySelectorAll(inContainer ? scoped(selector) : selector));
+        };
+
+        // Check every selector once up front, so that syntax errors fail the request
+        const invalid: string[] = [];
+        const check = (spec: Spec, label: string) => {
+          try {
+            query(document, spec);
+          } catch (error) {
+            const expression = spec.xpath ? `XPath '${spec.xpath}'` : `selector '${spec.selector}'`;
+            invalid.push(`${label}: invalid ${expression} (${error instanceof Error ? error.message : String(error)})`);
+          }
+        };
+        if (schema.containerSelector || schema.containerXpath) {
+          check({ selector: schema.containerSelector, xpath: schema.containerXpath }, "container");
+        }
+        Object.entries(schema.fields).forEach(([name, field]) => check(field, `field '${name}'`));
+        if (invalid.length > 0) {
+          return { invalid, records: [], containerCount: 0 };
+        }
+
+        // XPath may select attribute and text nodes as well as elements
+        const read = (node: Node, field: SchemaField): string | null => {
+          if (node.nodeType !== Node.ELEMENT_NODE) {
+            return node.nodeType === Node.ATTRIBUTE_NODE ? (node as Attr).value : node.textContent ?? "";
+          }
+          const element = node as HTMLElement;
+          const source = field.source ?? (field.attribute ? "attribute" : "text");
+          if (source === "attribute") {
+            return element.getAttribute(field.attribute ?? "");
+          }
+          if (source === "html") {
+            return element.innerHTML;
+          }
+          return (element.innerText ?? element.textContent ?? "").replace(/\s+/g, " ").trim();
+        };
+
+        const containers: Node[] =
+          schema.containerSelector || schema.containerXpath
+            ? query(document, { selector: schema.containerSelector, xpath: schema.containerXpath })
+            : [document];
+
+        return {
+          invalid,
+          records: containers.slice(0, maxRecords).map((container) =>
+            Object.fromEntries(
+              Object.entries(schema.fields).map(([name, field]) => {
+                const nodes = query(container, field);
+                return [name, (field.multiple ? nodes : nodes.slice(0, 1)).map((node) => read(node, field))];
+              })
+            )
+          ),
+          containerCount: containers.length,
+        };
+      },
+      { schema, maxRecords: MAX_RECORDS }
+    );
+
+    if (raw.invalid.length > 0) {
+      throw new InvalidSelectorError(raw.invalid.join("; "));
+    }
+
+    const baseUrl = page.url();
+    const errors: SchemaFieldError[] = [];
+    const records = raw.records.map((rawRecord, index) =>
+      Object.fromEntries(
+        Object.entries(schema.fields).map(([name, field]) => {
+          const report = (message: string) => errors.push({ record: index, field: name, message });
+          const values = (rawRecord[name] ?? []).map((value) => this.toValue(value, field, baseUrl, report));
+          // An empty list is a valid result for fields with multiple matches
+          if (values.length === 0 && !field.multiple) {
+            report(`No match for ${field.xpath ? `XPath '${field.xpath}'` : `selector '${field.selector}'`}`);
+          }
+          return [name, field.multiple ? values : values[0] ?? null];
+        })
+      )
+    );
+
+    const truncated = raw.containerCount > records.length;
+    if (truncated) {
+      this.logger.warn(`[Schema] Read the first ${records.length} of ${raw.containerCount} containers`);
+    }
+    this.logger.debug(`[Schema] Read ${records.length} records with ${errors.length} field errors`);
+    return { url: baseUrl, records, errors, containerCount: raw.containerCount, truncated };
+  }
+
+  /** Apply a field's transforms to one value read from the page */
+  private toValue(
+    value: string | null,
+    field: SchemaField,
+    baseUrl: string,
+    report: (message: string) => void
+  ): SchemaFieldValue {
+    if (value === null) {
+      report(`Attribute '${field.attribute}' missing on the matched element`);
+      return null;
+    }
+    const transforms = field.transform === undefined ? [] : Array.isArray(field.transform) ? field.transform : [field.transform];
+    let result: string | number = value;
+    for (const transform of transforms) {
+      try {
+        result = this.applyTransform(transform, String(result), field, baseUrl);
+      } catch (error) {
+        report(`Transform '${transform}' failed: ${error instanceof Error ? error.message : String(error)}`);
+        return null;
+      }
+    }
+    return result;
+  }
+
+  private applyTransform(transform: SchemaFieldTransform, value: string, field: SchemaField, baseUrl: string): string | number {
+    switch (transform) {
+      case "trim":
+        return value.replace(/\s+/g, " ").trim();
+      case "number":
+        return this.parseNumber(value);
+      case "url-resolve":
+        return new URL(value.trim(), baseUrl).href;
+      case "regex": {
+        const match = new RegExp(field.pattern ?? "").exec(value);
+        if (!match) {
+          throw new Error(`pattern '${field.pattern}' does not match '${value}'`);
+        }
+        return match[1] ?? match[0];
+      }
+    }
+  }
+
+  /**
+   * Parse the first number of a text such as "$1,299.99", "4.5 out of 5" or
+   * "1.299,99 €", telling decimal from thousands separators by their position
+   */
+  private parseNumber(value: string): number {
+    const token = /-?\d+(?:[.,]\d+|[ \u00a0\u202f]\d{3}(?!\d))*/.exec(value)?.[0].replace(/[ \u00a0\u202f]/g, "");
+    if (!token) {
+      throw new Error(`no number in '${value}'`);
+    }
+    const lastComma = token.lastIndexOf(",");
+    const lastDot = token.lastIndexOf(".");
+    let normalized: string;
+    if (lastComma >= 0 && lastDot >= 0) {
+      // Both separators: the last one is the decimal separator
+      normalized = lastComma > lastDot ? token.replace(/\./g, "").replace(",", ".") : token.replace(/,/g, "");
+    } else if (lastComma >= 0) {
+      // A lone comma followed by other than three digits is a decimal comma
+      const commas = token.split(",").length - 1;
+      normalized = commas === 1 && token.length - lastComma - 1 !== 3 ? token.replace(",", ".") : token.replace(/,/g, "");
+    } else {
+      // Several dots can only be thousands separators
+      normalized = token.split(".").length > 2 ? token.replace(/\./g, "") : token;
+    }
+    const parsed = Number(normalized);
+    if (!Number.isFinite(parsed)) {
+      throw new Error(`no number in '${value}'`);
+    }
+    return parsed;
+  }
+}
@@ -0,0 +1,118 @@
+import { type JsonSchema, type JsonSchemaType } from "../types.js";
+
+/** Array items sampled when inferring an item schema */
+const MAX_ARRAY_SAMPLES = 50;
+
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Service responsible for inferring JSON schemas from observed values and
+ * merging the schemas of several observations
+ */
+export class SchemaInferrer {
+  /**
+   * Infer a schema describing a single JSON value
+   * @param {unknown} value - The parsed JSON value
+   * @returns {JsonSchema} The inferred schema
+   */
+  infer(value: unknown): JsonSchema {
+    if (value === null || value === undefined) {
+      return { type: "null" };
+    }
+    if (typeof value === "boolean") {
+      return { type: "boolean" };
+    }
+    if (typeof value === "number") {
+      return { type: Number.isInteger(value) ? "integer" : "number" };
+    }
+    if (typeof value === "string") {
+      const format = this.detectFormat(value);
+      return format ? { type: "string", format } : { type: "string" };
+    }
+    if (Array.isArray(value)) {
+      const items = value.slice(0, MAX_ARRAY_SAMPLES).map((item) => this.infer(item));
+      return items.length > 0
+        ? { type: "array", items: items.reduce((merged, item) => this.merge(merged, item)) }
+        : { type: "array" };
+    }
+
+    const properties: Record<string, JsonSchema> = {};
+    for (const [key, propertyValue] of Object.entries(value as Record<string, unknown>)) {
+      properties[key] = this.infer(propertyValue);
+    }
+    return { type: "object", properties, required: Object.keys(properties) };
+  }
+
+  /**
+   * Infer a merged schema describing all observed values
+   * @param {unknown[]} values - The parsed JSON values
+   * @returns {JsonSchema | undefined} The merged schema, or undefined without values
+   */
+  inferAll(values: unknown[]): JsonSchema | undefined {
+    return values.map((value) => this.infer(value)).reduce<JsonSchema | undefined>(
+      (merged, schema) => (merged ? this.merge(merged, schema) : schema),
+      undefined
+    );
+  }
+
+  /**
+   * Merge two schemas into one accepting both. Object properties missing
+   * from either side stop being required; integer widens to number.
+   * @param {JsonSchema} a - First schema
+   * @param {JsonSchema} b - Second schema
+   * @returns {JsonSchema} The merged schema
+   */
+  merge(a: JsonSchema, b: JsonSchema): JsonSchema {
+    let types = Array.from(new Set([...this.typesOf(a), ...this.typesOf(b)]));
+    if (types.includes("number")) {
+      types = types.filter((type) => type !== "integer");
+    }
+
+    const merged: JsonSchema = {};
+    if (types.length > 0) {
+      merged.type = types.length === 1 ? types[0] : types;
+    }
+    if (a.format && a.format === b.format) {
+      merged.format = a.format;
+    }
+
+    if (a.properties && b.properties) {
+      const properties: Record<string, JsonSchema> = { ...a.properties };
+      for (const [key, schema] of Object.entries(b.properties)) {
+        properties[key] = properties[key] ? this.merge(properties[key]!, schema) : schema;
+      }
+      merged.properties = properties;
+      merged.required = (a.required ?? []).filter((key) => (b.required ?? []).includes(key));
+    } else if (a.properties || b.properties) {
+      merged.properties = a.properties ?? b.properties;
+      merged.required = a.properties ? a.required : b.required;
+    }
+
+    if (a.items && b.items) {
+      merged.items = this.merge(a.items, b.items);
+    } else if (a.items || b.items) {
+      merged.items = a.items ?? b.items;
+    }
+
+    return merged;
+  }
+
+  private typesOf(schema: JsonSchema): JsonSchemaType[] {
+    if (schema.type === undefined) {
+      return [];
+    }
+    return Array.isArray(schema.type) ? schema.type : [schema.type];
+  }
+
+  private detectFormat(value: string): string | undefined {
+    if (DATE_TIME_PATTERN.test(value)) return "date-time";
+    if (DATE_PATTERN.test(value)) return "date";
+    if (UUID_PATTERN.test(value)) return "uuid";
+    if (EMAIL_PATTERN.test(value)) return "email";
+    if (/^https?:\/\//.test(value)) return "uri";
+    return undefined;
+  }
+}
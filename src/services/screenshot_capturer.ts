@@ -0,0 +1,163 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { type Locator, type Page } from "patchright";
+import { type ScreenshotInfo, type ScreenshotOptions } from "../types.js";
+import { Logger } from "../logger.js";
+import { config } from "../config.js";
+import { InvalidSelectorError, ResourceNotFoundError } from "../errors.js";
+
+const SCREENSHOT_FILE_PATTERN = /^[0-9a-f-]{36}\.png$/;
+
+/**
+ * Service responsible for taking page and element screenshots and storing
+ * them as PNG files. The oldest files are removed once the directory
+ * exceeds its size limit.
+ */
+export class ScreenshotCapturer {
+  private logger: Logger;
+  private directory: string;
+  private maxBytes: number;
+  /** Stored file sizes by name, oldest first */
+  private index?: Promise<Map<string, number>>;
+  private totalBytes = 0;
+
+  constructor(logger: Logger, directory: string = config.output.screenshotDirectory, maxBytes: number = config.output.maxScreenshotBytes) {
+    this.logger = logger;
+    this.directory = path.isAbsolute(directory) ? directory : path.resolve(process.cwd(), directory);
+    this.maxBytes = maxBytes;
+  }
+
+  /**
+   * Take a screenshot and write it to the screenshot directory
+   * @param {Page} page - The browser page to capture
+   * @param {ScreenshotOptions} options - What to capture
+   * @returns {Promise<{ screenshot: ScreenshotInfo; data: Buffer }>} The stored screenshot and its PNG bytes
+   * @throws {InvalidSelectorError} If the selector cannot be parsed
+   * @throws {ResourceNotFoundError} If no element matches the selector
+   */
+  async capture(page: Page, options: ScreenshotOptions = {}): Promise<{ screenshot: ScreenshotInfo; data: Buffer }> {
+    const type = options.type ?? (options.selector ? "element" : "fullPage");
+    let data: Buffer;
+
+    if (type === "element") {
+      const locator = page.locator(options.selector!).first();
+      if ((await this.countMatches(locator, options.selector!)) === 0) {
+        throw new ResourceNotFoundError(`No element matches selector: ${options.selector}`);
+      }
+      data = await locator.screenshot({ type: "png", timeout: config.timeouts.screenshot });
+    } else {
+      data = await page.screenshot({ type: "png", fullPage: type === "fullPage", timeout: config.timeouts.screenshot });
+    }
+
+    const name = `${randomUUID()}.png`;
+    const filePath = path.join(this.directory, name);
+    const index = await this.loadIndex();
+    await fs.promises.writeFile(filePath, data);
+    this.logger.info(`[Screenshot] Saved ${type} screenshot to ${filePath}`);
+    index.set(name, data.length);
+    this.totalBytes += data.length;
+    await this.enforceLimit(index, name);
+
+    const screenshot: ScreenshotInfo = {
+      type,
+      selector: type === "element" ? options.selector : undefined,
+      path: filePath,
+      ...this.readDimensions(data),
+      size: data.length,
+      capturedAt: new Date().toISOString(),
+    };
+    return { screenshot, data };
+  }
+
+  /**
+   * Read a stored screenshot
+   * @param {ScreenshotInfo} screenshot - The stored screenshot
+   * @returns {Promise<Buffer | undefined>} The PNG bytes, or undefined when the file is gone
+   */
+  async read(screenshot: ScreenshotInfo): Promise<Buffer | undefined> {
+    if (!screenshot.path) {
+      return undefined;
+    }
+    try {
+      return await fs.promises.readFile(screenshot.path);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Count the elements a locator matches, reporting selectors Playwright
+   * cannot parse as invalid rather than as a capture failure
+   * @param {Locator} locator - The element locator
+   * @param {string} selector - The selector it was built from
+   * @returns {Promise<number>} The number of matching elements
+   * @throws {InvalidSelectorError} If the selector cannot be parsed
+   */
+  private async countMatches(locator: Locator, selector: string): Promise<number> {
+    try {
+      return await locator.count();
+    } catch (error) {
+      const message = error instanceof Error ? error.message.split("\n")[0]! : String(error);
+      if (/while parsing|not a valid selector/i.test(message)) {
+        throw new InvalidSelectorError(`Invalid selector '${selector}': ${message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read the sizes of the screenshots already in the directory, oldest
+   * first, on first use
+   * @returns {Promise<Map<string, number>>} File sizes by name
+   */
+  private loadIndex(): Promise<Map<string, number>> {
+    this.index ??= (async () => {
+      await fs.promises.mkdir(this.directory, { recursive: true });
+      const files: Array<{ name: string; size: number; mtime: number }> = [];
+      for (const name of await fs.promises.readdir(this.directory)) {
+        if (!SCREENSHOT_FILE_PATTERN.test(name)) {
+          continue;
+        }
+        const stats = await fs.promises.stat(path.join(this.directory, name));
+        files.push({ name, size: stats.size, mtime: stats.mtimeMs });
+      }
+      files.sort((a, b) => a.mtime - b.mtime);
+      this.totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+      return new Map(files.map((file) => [file.name, file.size]));
+    })();
+    return this.index;
+  }
+
+  /**
+   * Remove the oldest screenshots until the directory fits the size limit.
+   * Analyses keep the path of a removed screenshot, which then reads as
+   * missing. The screenshot just taken is never removed.
+   * @param {Map<string, number>} index - File sizes by name
+   * @param {string} keepName - File name of the screenshot just taken
+   */
+  private async enforceLimit(index: Map<string, number>, keepName: string): Promise<void> {
+    for (const [name, size] of index) {
+      if (this.totalBytes <= this.maxBytes) {
+        break;
+      }
+      if (name === keepName) {
+        continue;
+      }
+      index.delete(name);
+      this.totalBytes -= size;
+      await fs.promises.rm(path.join(this.directory, name), { force: true });
+      this.logger.info(`[Screenshot] Evicted screenshot ${name}`);
+    }
+  }
+
+  /**
+   * Read the image size from the IHDR chunk that starts every PNG
+   */
+  private readDimensions(data: Buffer): { width?: number; height?: number } {
+    if (data.length < 24 || data.toString("ascii", 12, 16) !== "IHDR") {
+      return {};
+    }
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+}
@@ -0,0 +1,104 @@
+import { type Page } from "patchright";
+import { type SelectorKind, type SelectorMatch, type SelectorTestResult } from "../types.js";
+import { Logger } from "../logger.js";
+
+/** Characters of text, outer HTML and attribute values returned per match */
+const SNIPPET_LENGTH = 300;
+
+/** Bare XPath, as Playwright reads selectors starting with // or .. */
+const XPATH_SELECTOR = /^(xpath=|\(*\.{0,2}\/)/;
+
+/** Selector engines and pseudo-classes that only Playwright understands */
+const PLAYWRIGHT_SELECTOR =
+  /^(text|role|id|data-testid|data-test-id|data-test|internal:[a-z-]+|nth|visible)=|^["']|>>|:(text|text-is|text-matches|has-text|visible|nth-match|left-of|right-of|above|below|near)\b/;
+
+/** Matches read from the page for one selector */
+interface RawSelectorMatches {
+  matchCount: number;
+  matches: SelectorMatch[];
+}
+
+/**
+ * Service responsible for evaluating selectors against a rendered page, to
+ * check that a proposed selector matches the intended elements
+ */
+export class SelectorTester {
+  private logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  /**
+   * Evaluate each selector with Playwright's selector engines. An invalid
+   * selector does not fail the others: its result carries the parse error.
+   * @param {Page} page - The browser page to query
+   * @param {string[]} selectors - CSS, XPath or Playwright selectors
+   * @param {number} maxMatches - Matches described per selector
+   * @returns {Promise<SelectorTestResult[]>} One result per selector, in the given order
+   */
+  async test(page: Page, selectors: string[], maxMatches: number): Promise<SelectorTestResult[]> {
+    const results: SelectorTestResult[] = [];
+    for (const selector of selectors) {
+      const kind = this.kindOf(selector);
+      let raw: RawSelectorMatches;
+      try {
+        raw = await page.locator(selector).evaluateAll(
+          (elements, { maxMatches, snippetLength }) => {
+            const cut = (value: string) => (value.length > snippetLength ? `${value.slice(0, snippetLength)}...` : value);
+            const matches = elements.slice(0, maxMatches).map((element, index) => {
+              const rect = element.getBoundingClientRect();
+              const rendered = rect.width > 0 || rect.height > 0;
+              const text = ((element as HTMLElement).innerText ?? element.textContent ?? "").replace(/\s+/g, " ").trim();
+              return {
+                index,
+                tag: element.tagName.toLowerCase(),
+                text: cut(text),
+                attributes: Object.fromEntries(Array.from(element.attributes, (attribute) => [attribute.name, cut(attribute.value)])),
+                html: cut(element.outerHTML),
+                boundingBox: rendered
+                  ? { x: rect.x + window.scrollX, y: rect.y + window.scrollY, width: rect.width, height: rect.height }
+                  : null,
+                visible: rendered && getComputedStyle(element).visibility !== "hidden",
+              };
+            });
+            return { matchCount: elements.length, matches };
+          },
+          { maxMatches, snippetLength: SNIPPET_LENGTH }
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message.split("\n")[0]! : String(error);
+        this.logger.debug(`[Selector] Invalid ${kind} selector '${selector}': ${message}`);
+        results.push({ selector, kind, matchCount: 0, matches: [], warnings: [], error: message });
+        continue;
+      }
+      results.push({ selector, kind, ...raw, warnings: this.warningsFor(raw, maxMatches) });
+    }
+    this.logger.debug(`[Selector] Tested ${selectors.length} selectors`);
+    return results;
+  }
+
+  private kindOf(selector: string): SelectorKind {
+    const trimmed = selector.trim();
+    if (XPATH_SELECTOR.test(trimmed)) {
+      return "xpath";
+    }
+    return PLAYWRIGHT_SELECTOR.test(trimmed) ? "playwright" : "css";
+  }
+
+  private warningsFor({ matchCount, matches }: RawSelectorMatches, maxMatches: number): string[] {
+    const warnings: string[] = [];
+    if (matchCount === 0) {
+      warnings.push("Matches no element");
+    } else if (matchCount > 1) {
+      warnings.push(`Matches ${matchCount} elements, not a single one; narrow it with an attribute or an ancestor`);
+    }
+    if (matchCount > maxMatches) {
+      warnings.push(`Describes the first ${maxMatches} of ${matchCount} matches`);
+    }
+    if (matches.length > 0 && matches.every((match) => !match.visible)) {
+      warnings.push(matches.length === 1 ? "The match is not visible" : "None of the described matches is visible");
+    }
+    return warnings;
+  }
+}
@@ -0,0 +1,288 @@
+import { type Page } from "patchright";
+import {
+  type PageMetadata,
+  type StructuredData,
+  type StructuredDataItem,
+  type StructuredDataSource,
+} from "../types.js";
+import { Logger } from "../logger.js";
+
+/** Nesting depth of microdata and RDFa items, guarding against itemref cycles */
+const MAX_ITEM_DEPTH = 10;
+
+/** Prefixes of schema.org types and properties, removed for readability */
+const SCHEMA_ORG_PREFIX = /^(?:https?:\/\/schema\.org\/|schema:)/i;
+
+/** A microdata or RDFa item as read from the page */
+interface RawItem {
+  types: string[];
+  id?: string;
+  properties: Array<{ name: string; value: string | RawItem }>;
+}
+
+/** Structured data as read from the page, before normalization */
+interface RawStructuredData {
+  jsonLd: string[];
+  microdata: RawItem[];
+  rdfa: RawItem[];
+  title: string;
+  description?: string;
+  canonical?: string;
+  robots: string[];
+  openGraph: Array<[string, string]>;
+  twitter: Array<[string, string]>;
+  hreflang: Array<{ hreflang: string; href: string }>;
+}
+
+/**
+ * Service responsible for reading JSON-LD, microdata, RDFa and head metadata
+ * from a rendered page
+ */
+export class StructuredDataExtractor {
+  private logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  /**
+   * Read the structured data of a page and group its items by schema.org type
+   * @param {Page} page - The browser page to read
+   * @param {string} xRobotsTag - The X-Robots-Tag header of the page's response, if any
+   * @returns {Promise<StructuredData>} The items grouped by type and the page metadata
+   */
+  async extract(page: Page, xRobotsTag?: string): Promise<StructuredData> {
+    const raw: RawStructuredData = await page.evaluate((maxDepth) => {
+      const text = (element: Element | null | undefined) => (element?.textContent ?? "").replace(/\s+/g, " ").trim();
+      const splitTokens = (value: string | null) => (value ?? "").split(/\s+/).filter(Boolean);
+
+      // Value of an itemprop or RDFa property, following the microdata rules
+      const propertyValue = (element: Element): string => {
+        const content = element.getAttribute("content");
+        if (content !== null) {
+          return content;
+        }
+        const tag = element.tagName.toLowerCase();
+        if (["audio", "embed", "iframe", "img", "source", "track", "video"].includes(tag)) {
+          return (element as HTMLImageElement).src || (element.getAttribute("src") ?? "");
+        }
+        if (["a", "area", "link"].includes(tag)) {
+          return (element as HTMLAnchorElement).href || (element.getAttribute("href") ?? "");
+        }
+        if (tag === "object") {
+          return (element as HTMLObjectElement).data || (element.getAttribute("data") ?? "");
+        }
+        if (tag === "data" || tag === "meter") {
+          return element.getAttribute("value") ?? "";
+        }
+        if (tag === "time" && element.hasAttribute("datetime")) {
+          return element.getAttribute("datetime")!;
+        }
+        return element.getAttribute("resource") ?? text(element);
+      };
+
+      const readMicrodata = (scope: Element, depth: number): RawItem => {
+        const item: RawItem = {
+          types: splitTokens(scope.getAttribute("itemtype")),
+          id: scope.getAttribute("itemid") ?? undefined,
+          properties: [],
+        };
+        const visit = (element: Element) => {
+          const names = splitTokens(element.getAttribute("itemprop"));
+          const nested = element.hasAttribute("itemscope");
+          if (names.length > 0) {
+            const value = nested ? (depth < maxDepth ? readMicrodata(element, depth + 1) : text(element)) : propertyValue(element);
+            names.forEach((name) => item.properties.push({ name, value }));
+          }
+          if (!nested) {
+            Array.from(element.children).forEach(visit);
+          }
+        };
+        Array.from(scope.children).forEach(visit);
+        // itemref pulls in properties declared elsewhere in the document
+        splitTokens(scope.getAttribute("itemref")).forEach((id) => {
+          const referenced = document.getElementById(id);
+          if (referenced && referenced !== scope) {
+            visit(referenced);
+          }
+        });
+        return item;
+      };
+
+      const readRdfa = (scope: Element, depth: number): RawItem => {
+        const vocab = scope.closest("[vocab]")?.getAttribute("vocab") ?? "";
+        const item: RawItem = {
+          types: splitTokens(scope.getAttribute("typeof")).map((type) => (type.includes(":") ? type : vocab + type)),
+          id: scope.getAttribute("resource") ?? scope.getAttribute("about") ?? undefined,
+          properties: [],
+        };
+        const visit = (element: Element) => {
+          const names = splitTokens(element.getAttribute("property"));
+          const nested = element.hasAttribute("typeof");
+          if (names.length > 0) {
+            const value = nested ? (depth < maxDepth ? readRdfa(element, depth + 1) : text(element)) : propertyValue(element);
+            names.forEach((name) => item.properties.push({ name, value }));
+          }
+          if (!nested) {
+            Array.from(element.children).forEach(visit);
+          }
+        };
+        Array.from(scope.children).forEach(visit);
+        return item;
+      };
+
+      const metaEntries = (selector: string, key: string): Array<[string, string]> =>
+        Array.from(document.querySelectorAll(selector)).map((meta) => [
+          (meta.getAttribute(key) ?? "").toLowerCase(),
+          meta.getAttribute("content") ?? "",
+        ]);
+
+      return {
+        jsonLd: Array.from(document.querySelectorAll('script[type="application/ld+json" i]')).map((script) => script.textContent ?? ""),
+        microdata: Array.from(document.querySelectorAll("[itemscope]:not([itemprop])")).map((scope) => readMicrodata(scope, 0)),
+        rdfa: Array.from(document.querySelectorAll("[typeof]:not([property])")).map((scope) => readRdfa(scope, 0)),
+        title: document.title,
+        description: document.querySelector('meta[name="description" i]')?.getAttribute("content") ?? undefined,
+        canonical: (document.querySelector('link[rel~="canonical" i]') as HTMLLinkElement | null)?.href || undefined,
+        robots: Array.from(document.querySelectorAll('meta[name="robots" i], meta[name="googlebot" i]')).map(
+          (meta) => meta.getAttribute("content") ?? ""
+        ),
+        openGraph: metaEntries('meta[property^="og:" i], meta[property^="article:" i], meta[property^="product:" i]', "property"),
+        twitter: [...metaEntries('meta[name^="twitter:" i]', "name"), ...metaEntries('meta[property^="twitter:" i]', "property")],
+        hreflang: Array.from(document.querySelectorAll('link[rel~="alternate" i][hreflang]')).map((link) => ({
+          hreflang: link.getAttribute("hreflang") ?? "",
+          href: (link as HTMLLinkElement).href,
+        })),
+      };
+    }, MAX_ITEM_DEPTH);
+
+    const errors: string[] = [];
+    const items: StructuredDataItem[] = [
+      ...this.parseJsonLd(raw.jsonLd, errors),
+      ...raw.microdata.map((item) => this.toItem(item, "microdata")),
+      ...raw.rdfa.map((item) => this.toItem(item, "rdfa")),
+    ];
+
+    const grouped: Record<string, StructuredDataItem[]> = {};
+    for (const item of items) {
+      const type = Array.isArray(item["@type"]) ? item["@type"][0] : item["@type"];
+      (grouped[type ?? "Thing"] ??= []).push(item);
+    }
+
+    this.logger.debug(`[StructuredData] Found ${items.length} items of ${Object.keys(grouped).length} types`);
+    return {
+      url: page.url(),
+      items: grouped,
+      itemCount: items.length,
+      meta: this.toMetadata(raw, xRobotsTag),
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  /**
+   * Parse JSON-LD blocks, splitting top-level arrays and `@graph` lists into
+   * their items
+   */
+  private parseJsonLd(blocks: string[], errors: string[]): StructuredDataItem[] {
+    const items: StructuredDataItem[] = [];
+    blocks.forEach((block, index) => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(block);
+      } catch (error) {
+        errors.push(`JSON-LD block ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+      }
+      const collect = (value: unknown) => {
+        if (Array.isArray(value)) {
+          value.forEach(collect);
+        } else if (value && typeof value === "object") {
+          const { "@graph": graph, "@context": _context, ...rest } = value as Record<string, unknown>;
+          if (graph !== undefined) {
+            collect(graph);
+            // A block holding only a graph is not an item of its own
+            if (Object.keys(rest).length === 0) {
+              return;
+            }
+          }
+          items.push({ ...(this.normalizeTypes(rest) as Record<string, unknown>), "@source": "json-ld" });
+        }
+      };
+      collect(parsed);
+    });
+    return items;
+  }
+
+  /** Strip schema.org prefixes from `@type` values throughout a JSON-LD value */
+  private normalizeTypes(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((entry) => this.normalizeTypes(entry));
+    }
+    if (!value || typeof value !== "object") {
+      return value;
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        key === "@type" ? this.normalizeType(entry) : this.normalizeTypes(entry),
+      ])
+    );
+  }
+
+  private normalizeType(type: unknown): unknown {
+    if (Array.isArray(type)) {
+      return type.map((entry) => this.normalizeType(entry));
+    }
+    return typeof type === "string" ? type.replace(SCHEMA_ORG_PREFIX, "") : type;
+  }
+
+  /** Convert a microdata or RDFa item to JSON-LD shape */
+  private toItem(raw: RawItem, source: StructuredDataSource): StructuredDataItem {
+    const item: StructuredDataItem = { "@source": source };
+    const types = raw.types.map((type) => type.replace(SCHEMA_ORG_PREFIX, ""));
+    if (types.length > 0) {
+      item["@type"] = types.length === 1 ? types[0] : types;
+    }
+    if (raw.id) {
+      item["@id"] = raw.id;
+    }
+    for (const { name, value } of raw.properties) {
+      const key = name.replace(SCHEMA_ORG_PREFIX, "");
+      const converted = typeof value === "string" ? value : this.toItem(value, source);
+      const existing = item[key];
+      item[key] = existing === undefined ? converted : Array.isArray(existing) ? [...existing, converted] : [existing, converted];
+    }
+    return item;
+  }
+
+  private toMetadata(raw: RawStructuredData, xRobotsTag?: string): PageMetadata {
+    const directives = [...raw.robots, ...(xRobotsTag ? [xRobotsTag] : [])]
+      .flatMap((value) => value.split(","))
+      .map((directive) => directive.trim().toLowerCase())
+      .filter(Boolean);
+
+    return {
+      title: raw.title || undefined,
+      description: raw.description,
+      canonical: raw.canonical,
+      robots: {
+        meta: raw.robots,
+        header: xRobotsTag,
+        directives: [...new Set(directives)],
+      },
+      openGraph: this.groupEntries(raw.openGraph),
+      twitter: this.groupEntries(raw.twitter),
+      hreflang: raw.hreflang,
+    };
+  }
+
+  /** Collect name/value pairs, turning repeated names (e.g. several og:image) into arrays */
+  private groupEntries(entries: Array<[string, string]>): Record<string, string | string[]> {
+    const grouped: Record<string, string | string[]> = {};
+    for (const [name, value] of entries) {
+      const existing = grouped[name];
+      grouped[name] = existing === undefined ? value : Array.isArray(existing) ? [...existing, value] : [existing, value];
+    }
+    return grouped;
+  }
+}
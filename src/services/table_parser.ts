@@ -0,0 +1,134 @@
+import { type RawTable, type TableData, type TableHeaderSource } from "../types.js";
+
+/** Upper bound for spans, guarding against absurd colspan/rowspan values */
+const MAX_SPAN = 1000;
+
+interface GridCell {
+  text: string;
+  header: boolean;
+}
+
+/**
+ * Service responsible for turning tables read from a page into header-keyed rows
+ */
+export class TableParser {
+  /**
+   * Parse a table: expand row and column spans into a grid, find the header
+   * rows and key each body row by its column headers
+   * @param {RawTable} table - The table as read from the page
+   * @returns {TableData} The parsed table
+   */
+  parse(table: RawTable): TableData {
+    const grid = this.expandSpans(table);
+    const columnCount = Math.max(0, ...grid.map((row) => row.length));
+    const { headerRowCount, headerSource } = this.findHeaderRows(table, grid);
+    const headers = this.buildHeaders(grid.slice(0, headerRowCount), columnCount);
+
+    const rows: Array<Record<string, string>> = [];
+    for (const row of grid.slice(headerRowCount)) {
+      const texts = Array.from({ length: columnCount }, (_, column) => row[column]?.text ?? "");
+      // Skip empty spacer rows and header rows repeated in the body
+      if (texts.every((text) => text === "") || (headerRowCount > 0 && this.repeatsHeaders(row, texts, grid[headerRowCount - 1]!))) {
+        continue;
+      }
+      rows.push(Object.fromEntries(headers.map((header, column) => [header, texts[column]!])));
+    }
+
+    return {
+      caption: table.caption || undefined,
+      headers,
+      headerSource,
+      rows,
+      rowCount: rows.length,
+      columnCount,
+    };
+  }
+
+  /**
+   * Lay out cells on a grid, copying spanned cells into every slot they cover
+   */
+  private expandSpans(table: RawTable): GridCell[][] {
+    const grid: GridCell[][] = table.rows.map(() => []);
+    table.rows.forEach((row, rowIndex) => {
+      let column = 0;
+      for (const cell of row.cells) {
+        // Skip slots taken by row spans from the rows above
+        while (grid[rowIndex]![column]) {
+          column++;
+        }
+        const colSpan = this.clampSpan(cell.colSpan, MAX_SPAN);
+        // A rowspan of 0 spans the rest of the table
+        const rowSpan = cell.rowSpan === 0 ? table.rows.length - rowIndex : this.clampSpan(cell.rowSpan, table.rows.length - rowIndex);
+        for (let r = rowIndex; r < rowIndex + rowSpan; r++) {
+          for (let c = column; c < column + colSpan; c++) {
+            grid[r]![c] = { text: cell.text, header: cell.header };
+          }
+        }
+        column += colSpan;
+      }
+    });
+    return grid;
+  }
+
+  private clampSpan(span: number, max: number): number {
+    return Number.isFinite(span) && span >= 1 ? Math.min(Math.floor(span), Math.max(max, 1)) : 1;
+  }
+
+  /**
+   * Header rows are the thead rows, else the leading rows of header cells,
+   * else a first row that reads like labels
+   */
+  private findHeaderRows(table: RawTable, grid: GridCell[][]): { headerRowCount: number; headerSource: TableHeaderSource } {
+    const leading = (matches: (rowIndex: number) => boolean) => {
+      let count = 0;
+      // Keep at least one body row
+      while (count < grid.length - 1 && matches(count)) {
+        count++;
+      }
+      return count;
+    };
+
+    const headRows = leading((rowIndex) => table.rows[rowIndex]!.head);
+    if (headRows > 0) {
+      return { headerRowCount: headRows, headerSource: "thead" };
+    }
+    const headerCellRows = leading((rowIndex) => grid[rowIndex]!.length > 0 && grid[rowIndex]!.every((cell) => cell?.header));
+    if (headerCellRows > 0) {
+      return { headerRowCount: headerCellRows, headerSource: "th" };
+    }
+
+    const first = grid[0] ?? [];
+    const texts = first.map((cell) => cell?.text ?? "");
+    const looksLikeLabels =
+      grid.length > 1 &&
+      texts.length > 1 &&
+      texts.every((text) => text !== "" && !/^[\d\s.,%$€£+-]+$/.test(text)) &&
+      new Set(texts).size === texts.length;
+    return looksLikeLabels ? { headerRowCount: 1, headerSource: "inferred" } : { headerRowCount: 0, headerSource: "none" };
+  }
+
+  /**
+   * Build one unique key per column, joining the distinct texts of stacked
+   * header rows (e.g. "Q1 / Revenue")
+   */
+  private buildHeaders(headerRows: GridCell[][], columnCount: number): string[] {
+    const seen = new Map<string, number>();
+    return Array.from({ length: columnCount }, (_, column) => {
+      const parts: string[] = [];
+      for (const row of headerRows) {
+        const text = row[column]?.text ?? "";
+        if (text && parts[parts.length - 1] !== text) {
+          parts.push(text);
+        }
+      }
+      const base = parts.join(" / ") || `Column ${column + 1}`;
+      const count = (seen.get(base) ?? 0) + 1;
+      seen.set(base, count);
+      return count === 1 ? base : `${base} (${count})`;
+    });
+  }
+
+  private repeatsHeaders(row: GridCell[], texts: string[], lastHeaderRow: GridCell[]): boolean {
+    return row.every((cell) => cell?.header) && texts.every((text, column) => text === (lastHeaderRow[column]?.text ?? ""));
+  }
+}
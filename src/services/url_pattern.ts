@@ -0,0 +1,24 @@
+/**
+ * Parse a URL pattern written as /regex/flags
+ * @param {string} pattern - The URL pattern
+ * @returns {RegExp | undefined} The regular expression, or undefined when the pattern is not written as /regex/
+ * @throws {SyntaxError} If the /regex/ is not a valid regular expression
+ */
+export function parseRegexPattern(pattern: string): RegExp | undefined {
+  const regexMatch = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  return regexMatch ? new RegExp(regexMatch[1]!, regexMatch[2]) : undefined;
+}
+
+/**
+ * Check that a /regex/flags pattern compiles; other patterns always do
+ * @param {string} pattern - The URL pattern
+ * @returns {boolean} Whether the pattern is usable
+ */
+export function isValidUrlPattern(pattern: string): boolean {
+  try {
+    parseRegexPattern(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -1,3 +1,60 @@
+/**
+ * Per-request timing phases in milliseconds (-1 when not available)
+ */
+export interface RequestTiming {
+  /** Request start time in milliseconds since the epoch */
+  startTime: number;
+  dns: number;
+  connect: number;
+  tls: number;
+  /** Time from sending the request to the first response byte */
+  ttfb: number;
+  download: number;
+  /** Time from request start to the end of the response */
+  total: number;
+}
+
+/**
+ * Request and response sizes in bytes (-1 when not available)
+ */
+export interface RequestSizes {
+  requestHeaders: number;
+  requestBody: number;
+  responseHeaders: number;
+  /** Encoded response body size as received over the network */
+  responseBody: number;
+  /** Encoded response headers plus body */
+  transferSize: number;
+  /** Decoded response body size */
+  decodedBodySize: number;
+}
+
+/**
+ * Stage of the analysis in which a request started: page lifecycle phases in
+ * order, then `action:<step>` for requests triggered by a scripted action
+ */
+export type RequestPhase =
+  | "navigation"
+  | "domcontentloaded"
+  | "load"
+  | "networkidle"
+  | "post-wait"
+  | `action:${string}`;
+
+/**
+ * What started a request, as reported by the browser
+ */
+export interface RequestInitiator {
+  type: "parser" | "script" | "preload" | "preflight" | "redirect" | "other";
+  /** Document or script that issued the request, or the URL that redirected to it */
+  url?: string;
+  /** 1-based line number in url */
+  lineNumber?: number;
+  /** 1-based column number in url */
+  columnNumber?: number;
+  functionName?: string;
+}
+
 /**
  * Interface for captured HTTP request data
  */
@@ -11,13 +68,73 @@ export interface CapturedRequest {
   status?: number;
   responseHeaders?: Record<string, string>;
   responseBody?: string;
+  /** Complete response body kept in the body store when it could not be kept inline */
+  storedBody?: StoredBody;
   resourceType: string;
+  /** ID of the captured request this one was redirected from */
+  redirectedFrom?: string;
+  /** ID of the captured request this one was redirected to */
+  redirectedTo?: string;
+  /** True when the request failed without receiving a response */
+  failed?: boolean;
+  /** Error text reported by the browser for a failed request */
+  failureText?: string;
+  timing?: RequestTiming;
+  sizes?: RequestSizes;
+  phase?: RequestPhase;
+  initiator?: RequestInitiator;
+  /** Set when an interception rule from the routes option handled the request */
+  intercepted?: RequestInterception;
+}
+
+/**
+ * Reads the complete text response body of a captured request from the body
+ * store; resolves undefined when none was stored
+ */
+export type ResponseBodyReader = (request: CapturedRequest) => Promise<string | undefined>;
+
+/**
+ * Message sent or received over a WebSocket or EventSource connection
+ */
+export interface RealtimeMessage {
+  direction: "sent" | "received";
+  timestamp: string;
+  /** "text" or "binary" (base64 data) for WebSocket frames, "event" for EventSource messages */
+  type: "text" | "binary" | "event";
+  data: string;
+  /** EventSource event name */
+  eventName?: string;
+  /** EventSource event ID */
+  eventId?: string;
+  /** True when data was cut at the configured message size limit */
+  truncated?: boolean;
+}
+
+/**
+ * WebSocket connection or EventSource stream captured during analysis
+ */
+export interface RealtimeConnection {
+  id: string;
+  type: "websocket" | "eventsource";
+  url: string;
+  openedAt: string;
+  /** Unset when the connection was still open at the end of the capture */
+  closedAt?: string;
+  /** WebSocket close code, as reported by the page's close event */
+  closeCode?: number;
+  /** WebSocket close reason; unset when the server sent none */
+  closeReason?: string;
+  error?: string;
+  messages: RealtimeMessage[];
+  /** Messages not stored after the per-connection limit was reached */
+  droppedMessages: number;
 }
 
 /**
  * Interface for the site analysis result
  */
 export interface SiteAnalysisResult {
+  analysisId?: string;
   url: string;
   title: string;
   requests: CapturedRequest[];
@@ -26,6 +143,13 @@ export interface SiteAnalysisResult {
   requestsByType: Record<string, number>;
   analysisTimestamp: string;
   renderMethod: "client" | "server" | "unknown";
+  importedFrom?: string;
+  /** Outcome of each scripted page action, in the order they ran */
+  actionResults?: ActionResult[];
+  /** WebSocket connections and EventSource streams opened by the page */
+  realtimeConnections?: RealtimeConnection[];
+  /** Screenshot taken at the end of the analysis, when requested */
+  screenshot?: ScreenshotInfo;
   antiBotDetection: {
     detected: boolean;
     type?: "captcha" | "rate-limiting" | "behavioral-analysis" | "other" | "unknown";
@@ -55,29 +179,633 @@ export interface AnalysisOptions {
   waitTime?: number;
   includeImages?: boolean;
   quickMode?: boolean;
+  actions?: PageAction[];
+  routes?: RouteRule[];
+  bodyCapture?: BodyCaptureOptions;
+  screenshot?: ScreenshotOptions;
+  /** Keep the page open after the analysis under this ID, for testing selectors against it */
+  openPageId?: string;
 }
 
 /**
- * Request filter options
+ * What to capture in a screenshot: the full scrollable page, the visible
+ * viewport, or the first element matching a CSS selector. The type defaults
+ * to element when a selector is given, else to fullPage.
+ */
+export interface ScreenshotOptions {
+  type?: "fullPage" | "viewport" | "element";
+  /** CSS selector of the element, required for the element type */
+  selector?: string;
+}
+
+/**
+ * A screenshot stored as a PNG file. Failed captures keep only the
+ * requested type, selector and error.
+ */
+export interface ScreenshotInfo {
+  type: NonNullable<ScreenshotOptions["type"]>;
+  selector?: string;
+  /** Absolute path of the PNG file */
+  path?: string;
+  width?: number;
+  height?: number;
+  /** File size in bytes */
+  size?: number;
+  capturedAt: string;
+  error?: string;
+}
+
+/**
+ * Response body capture settings of an analysis
+ */
+export interface BodyCaptureOptions {
+  /** Characters of a text body kept inline (default: config.limits.maxResponseBodySize) */
+  maxBodySize?: number;
+  /**
+   * Content types whose bodies are captured, e.g. "application/json" or
+   * "image/*". Defaults to text-based content.
+   */
+  contentTypes?: string[];
+  /**
+   * Keep complete bodies in the body store: text bodies longer than
+   * maxBodySize and binary bodies, which are never kept inline
+   */
+  retainFullBodies?: boolean;
+}
+
+/**
+ * Reference to a response body in the body store
+ */
+export interface StoredBody {
+  sha256: string;
+  /** Size in bytes */
+  size: number;
+  /** How get_response_body returns the body: utf8 text or base64-encoded bytes */
+  encoding: "utf8" | "base64";
+}
+
+/**
+ * Interception rule installed before navigation. url is a glob, or a regex
+ * when written as /regex/; resourceTypes narrows the rule to those types.
+ * The first matching rule in order handles the request.
+ */
+export type RouteRule = { name?: string; url: string; resourceTypes?: string[] } & (
+  /** Abort the request; errorCode defaults to "blockedbyclient" */
+  | { action: "block"; errorCode?: string }
+  /** Answer with a mocked response without contacting the server */
+  | { action: "fulfill"; status?: number; headers?: Record<string, string>; contentType?: string; body?: string }
+  /** Send the request with headers set or removed */
+  | { action: "modifyHeaders"; headers?: Record<string, string>; removeHeaders?: string[] }
+  /** Hold the request for delay milliseconds before sending it */
+  | { action: "delay"; delay: number }
+);
+
+/**
+ * Interception rule that handled a captured request
+ */
+export interface RequestInterception {
+  /** Position of the rule in the routes option */
+  ruleIndex: number;
+  name?: string;
+  action: RouteRule["action"];
+  /** URL glob or /regex/ of the rule */
+  pattern: string;
+}
+
+/**
+ * Scripted page interaction run after the page has loaded. Selector steps
+ * accept an optional timeout in milliseconds; an optional name labels the
+ * step in the results.
+ */
+export type PageAction = { name?: string } & (
+  | { type: "click"; selector: string; timeout?: number }
+  | { type: "fill"; selector: string; value: string; timeout?: number }
+  | { type: "press"; key: string; selector?: string; timeout?: number }
+  | { type: "select"; selector: string; value: string | string[]; timeout?: number }
+  | { type: "hover"; selector: string; timeout?: number }
+  | { type: "scrollToBottom"; maxScrolls?: number; delay?: number }
+  | {
+      type: "waitForSelector";
+      selector: string;
+      state?: "attached" | "detached" | "visible" | "hidden";
+      timeout?: number;
+    }
+  /** Wait for a request whose URL contains urlPattern, or matches it when written as /regex/ */
+  | { type: "waitForRequest"; urlPattern: string; timeout?: number }
+  | { type: "waitForTimeout"; duration: number }
+);
+
+/**
+ * Outcome of a scripted page action
+ */
+export interface ActionResult {
+  index: number;
+  type: PageAction["type"];
+  name?: string;
+  success: boolean;
+  /** True when the step did not run because an earlier step failed */
+  skipped?: boolean;
+  error?: string;
+  /** Time spent on the step in milliseconds */
+  duration: number;
+  /** IDs of the captured requests started while the step ran */
+  requestIds: string[];
+}
+
+/**
+ * Output format of get_page_content
+ */
+export type ContentFormat = "html" | "markdown" | "text";
+
+/**
+ * Rendered DOM captured for content conversion: text nodes are strings,
+ * elements keep only the attributes the converters use
+ */
+export type ContentNode = string | ContentElement;
+
+export interface ContentElement {
+  tag: string;
+  /** Absolute link target of an anchor */
+  href?: string;
+  /** Absolute source of an image */
+  src?: string;
+  alt?: string;
+  /** True when the element is displayed as a block, e.g. a styled custom element */
+  block?: boolean;
+  children: ContentNode[];
+}
+
+/**
+ * Options of get_page_content
+ */
+export interface PageContentOptions {
+  format?: ContentFormat;
+  /** Keep only the main content, without navigation, footers, sidebars and ads (default: true) */
+  mainContentOnly?: boolean;
+  /** Approximate token budget of the returned content */
+  maxTokens?: number;
+  waitTime?: number;
+  quickMode?: boolean;
+}
+
+/**
+ * Readable content of a rendered page
+ */
+export interface PageContent {
+  url: string;
+  /** URL after redirects */
+  finalUrl: string;
+  title: string;
+  format: ContentFormat;
+  content: string;
+  /** Estimated tokens of the returned content */
+  tokens: number;
+  /** Estimated tokens of the full content before truncation */
+  totalTokens: number;
+  truncated: boolean;
+  /** Headings of the sections left out by the token budget */
+  omittedSections?: string[];
+}
+
+/**
+ * A table cell as read from the page, before row and column spans are expanded
+ */
+export interface RawTableCell {
+  text: string;
+  /** Whether the cell is a header cell (th, or role columnheader/rowheader) */
+  header: boolean;
+  colSpan: number;
+  rowSpan: number;
+}
+
+/**
+ * A table or ARIA table layout as read from the page
+ */
+export interface RawTable {
+  caption?: string;
+  rows: Array<{
+    cells: RawTableCell[];
+    /** Whether the row belongs to the table's thead */
+    head: boolean;
+  }>;
+}
+
+/**
+ * Where the column headers of a parsed table come from. `inferred` headers
+ * are taken from a first row of distinct, non-numeric labels; with `none`,
+ * columns are keyed "Column 1", "Column 2", ...
+ */
+export type TableHeaderSource = "thead" | "th" | "inferred" | "none";
+
+/**
+ * A table parsed into header-keyed rows
+ */
+export interface TableData {
+  caption?: string;
+  headers: string[];
+  headerSource: TableHeaderSource;
+  /** Body rows keyed by header; spanned cells repeat their value */
+  rows: Array<Record<string, string>>;
+  rowCount: number;
+  columnCount: number;
+  /** Selector of the enclosing table, for tables nested in another table */
+  parentSelector?: string;
+}
+
+/**
+ * Way of building a selector for an element. text and xpath selectors use
+ * Playwright syntax; the others are CSS.
+ */
+export type SelectorStrategy =
+  | "test-id"
+  | "id"
+  | "aria"
+  | "data-attribute"
+  | "css"
+  | "nth-of-type"
+  | "text"
+  | "xpath";
+
+/**
+ * A selector for an element, with whether it matches only that element and
+ * how likely it is to survive changes to the page
+ */
+export interface SelectorCandidate {
+  selector: string;
+  strategy: SelectorStrategy;
+  unique: boolean;
+  /** From 0 (positional, breaks on any layout change) to 1 (test IDs) */
+  stability: number;
+}
+
+/**
+ * Options of selector generation
  */
-export interface RequestFilter {
+export interface SelectorOptions {
+  /** Strategies to try, in order */
+  strategies: SelectorStrategy[];
+  /** Attributes holding test IDs, e.g. data-testid */
+  testIdAttributes: string[];
+  /** Candidates returned per element */
+  maxCandidates: number;
+}
+
+/**
+ * A table extracted from a page
+ */
+export interface ExtractedTable extends TableData {
+  selector: string;
+  tag: string;
+}
+
+/**
+ * A form control as read from the page
+ */
+export interface RawFormField {
+  tag: string;
+  type: string;
+  name: string;
+  required: boolean;
+  disabled: boolean;
+  value: string;
+  checked: boolean;
+  multiple: boolean;
+  /** Options of a select */
+  options?: FormFieldOption[];
+  /** Text of the field's label, aria-label or title */
+  label?: string;
+  placeholder?: string;
+  selector: string;
+}
+
+/**
+ * A form as read from the page
+ */
+export interface RawForm {
+  name?: string;
+  /** Absolute URL the form submits to */
+  action: string;
+  method: string;
+  enctype: string;
+  fields: RawFormField[];
+  /** Selector of the first submit button */
+  submitSelector?: string;
+  /** CSRF tokens of the page's meta tags, e.g. `<meta name="csrf-token">` */
+  metaTokens: Array<{ name: string; value: string }>;
+}
+
+/**
+ * An option of a select or of a radio group
+ */
+export interface FormFieldOption {
+  value: string;
+  label: string;
+  selected: boolean;
+  /** Selector of the radio button */
+  selector?: string;
+}
+
+/**
+ * A form field; radio buttons sharing a name are one field with options
+ */
+export interface FormField {
+  name: string;
+  /** Input type, or `select`/`textarea` */
+  type: string;
+  tag: string;
+  selector: string;
+  label?: string;
+  placeholder?: string;
+  required: boolean;
+  disabled?: boolean;
+  /** Current value; the selected values for multiple selects */
+  value?: string | string[];
+  checked?: boolean;
+  multiple?: boolean;
+  options?: FormFieldOption[];
+}
+
+/**
+ * A CSRF token found in a hidden form field or a meta tag
+ */
+export interface CsrfToken {
+  name: string;
+  value: string;
+  source: "field" | "meta";
+  selector?: string;
+}
+
+/**
+ * The request a form submits with its current values, in the shape of the
+ * fetch tool's input
+ */
+export interface FormFetchRequest {
   url: string;
+  method: "GET" | "POST";
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+/**
+ * A form parsed from a page
+ */
+export interface FormInfo {
+  name?: string;
+  action: string;
+  method: string;
+  enctype: string;
+  fields: FormField[];
+  csrfTokens: CsrfToken[];
+  submitSelector?: string;
+  /** Omitted for dialog forms, which are not submitted over the network */
+  fetch?: FormFetchRequest;
+}
+
+/**
+ * Syntax a structured data item was read from
+ */
+export type StructuredDataSource = "json-ld" | "microdata" | "rdfa";
+
+/**
+ * A structured data item in JSON-LD shape: `@type` with the schema.org
+ * prefix removed, `@source`, and its properties, repeated ones as arrays
+ */
+export type StructuredDataItem = Record<string, unknown> & {
+  "@type"?: string | string[];
+  "@source": StructuredDataSource;
+};
+
+/**
+ * Page-level metadata from the head of a page
+ */
+export interface PageMetadata {
+  title?: string;
+  description?: string;
+  canonical?: string;
+  robots: {
+    /** Content of the robots and googlebot meta tags */
+    meta: string[];
+    /** X-Robots-Tag response header */
+    header?: string;
+    /** All directives, lowercased and deduplicated */
+    directives: string[];
+  };
+  /** OpenGraph (og:, article:, product:) properties; repeated ones as arrays */
+  openGraph: Record<string, string | string[]>;
+  /** Twitter card properties */
+  twitter: Record<string, string | string[]>;
+  /** Alternate language versions of the page */
+  hreflang: Array<{ hreflang: string; href: string }>;
+}
+
+/**
+ * Structured data of a page grouped by schema.org type
+ */
+export interface StructuredData {
+  url: string;
+  /** Items grouped by their first type; untyped items are grouped as Thing */
+  items: Record<string, StructuredDataItem[]>;
+  itemCount: number;
+  meta: PageMetadata;
+  /** JSON-LD blocks that could not be parsed */
+  errors?: string[];
+}
+
+/**
+ * Transform applied to an extracted value
+ */
+export type SchemaFieldTransform = "trim" | "number" | "url-resolve" | "regex";
+
+/**
+ * How to read one field of each record. The selector or XPath is relative to
+ * the record's container: a CSS selector is anchored at it as with :scope, and
+ * an absolute XPath such as //h2 is read as .//h2.
+ */
+export interface SchemaField {
+  selector?: string;
+  xpath?: string;
+  /** What to read from the matched element (default: text, or attribute when one is named) */
+  source?: "text" | "html" | "attribute";
+  attribute?: string;
+  /** Transforms applied in order */
+  transform?: SchemaFieldTransform | SchemaFieldTransform[];
+  /** Regular expression of the regex transform; its first group, else the whole match, is kept */
+  pattern?: string;
+  /** Return every match as an array instead of the first one */
+  multiple?: boolean;
+}
+
+/**
+ * Records to extract: one per container, with one value per field
+ */
+export interface ExtractionSchema {
+  containerSelector?: string;
+  containerXpath?: string;
+  fields: Record<string, SchemaField>;
+}
+
+export type SchemaFieldValue = string | number | null;
+
+/**
+ * A field that could not be read for a record
+ */
+export interface SchemaFieldError {
+  /** Index of the record */
+  record: number;
+  field: string;
+  message: string;
+}
+
+/**
+ * Records extracted from a page with a schema
+ */
+export interface SchemaExtractionResult {
+  url: string;
+  records: Array<Record<string, SchemaFieldValue | SchemaFieldValue[]>>;
+  errors: SchemaFieldError[];
+  /** Containers matched on the page */
+  containerCount: number;
+  /** Whether containers past the record limit were left unread */
+  truncated: boolean;
+}
+
+/**
+ * A candidate field of a list item as read from the page
+ */
+export interface RawListField {
+  /** Selector relative to the item; unset when the item itself is read */
+  selector?: string;
+  attribute?: string;
+  value: string;
+}
+
+/**
+ * A group of sibling elements sharing a tag and class signature, as read
+ * from the page
+ */
+export interface RawList {
+  itemSelector: string;
+  itemTag: string;
+  itemCount: number;
+  /** Area covered by the items, in square CSS pixels */
+  area: number;
+  /** Candidate fields of the first items */
+  samples: RawListField[][];
+}
+
+/**
+ * A field inferred from the sampled items of a list, usable as a field of
+ * extract_with_schema
+ */
+export interface InferredListField {
+  name: string;
+  selector?: string;
+  /** "." when the item itself is read */
+  xpath?: string;
+  attribute?: string;
+  transform?: SchemaFieldTransform;
+  /** Values of the sampled items */
+  samples: string[];
+}
+
+/**
+ * A repeated structure of a page, such as a product grid or a result list
+ */
+export interface DetectedList {
+  containerSelector: string;
+  /** Selector matching every item, usable as the container of extract_with_schema */
+  itemSelector: string;
+  itemTag: string;
+  itemCount: number;
+  area: number;
+  fields: InferredListField[];
+}
+
+/**
+ * Syntax of a tested selector: CSS, XPath (bare or with the xpath= prefix),
+ * or a Playwright selector such as text=, role= or :has-text()
+ */
+export type SelectorKind = "css" | "xpath" | "playwright";
+
+/**
+ * Element matched by a tested selector
+ */
+export interface SelectorMatch {
+  index: number;
+  tag: string;
+  /** Whitespace-collapsed text, cut to the snippet length */
+  text: string;
+  attributes: Record<string, string>;
+  /** Outer HTML, cut to the snippet length */
+  html: string;
+  /** Position and size in page coordinates, null when the element is not rendered */
+  boundingBox: { x: number; y: number; width: number; height: number } | null;
+  visible: boolean;
+}
+
+/**
+ * Outcome of evaluating one selector against a page
+ */
+export interface SelectorTestResult {
+  selector: string;
+  kind: SelectorKind;
+  matchCount: number;
+  /** The first matches, in document order */
+  matches: SelectorMatch[];
+  /** Reasons the selector may not be fit for use, e.g. no or many matches */
+  warnings: string[];
+  /** Parse error when the selector is invalid, in which case there are no matches */
+  error?: string;
+}
+
+/**
+ * Lookup of a stored analysis, either by ID or by the latest run of a URL
+ */
+export interface AnalysisLookup {
+  analysisId?: string;
+  url?: string;
+}
+
+/**
+ * Request filter options
+ */
+export interface RequestFilter extends AnalysisLookup {
   domain?: string;
   requestId?: string;
 }
 
+/**
+ * Entry describing a stored analysis in list_analyses output
+ */
+export interface AnalysisListEntry {
+  analysisId: string;
+  url: string;
+  title: string;
+  analysisTimestamp: string;
+  totalRequests: number;
+  uniqueDomains: number;
+  antiBotDetection: SiteAnalysisResult["antiBotDetection"];
+}
+
 /**
  * Domain summary for analysis results
  */
 export interface DomainSummary {
   domain: string;
   requestCount: number;
+  /** Sum of transfer sizes of the domain's requests in bytes */
+  totalBytes: number;
+  /** Sum of total request times of the domain's requests in milliseconds */
+  totalTime: number;
+  /** GraphQL operation counts by operation name, when the domain serves GraphQL */
+  graphqlOperations?: Record<string, number>;
 }
 
 /**
  * Analysis summary returned to client
  */
 export interface AnalysisSummary {
+  analysisId?: string;
   websiteInfo: {
     url: string;
     title: string;
@@ -88,6 +816,8 @@ export interface AnalysisSummary {
     totalRequests: number;
     uniqueDomains: number;
     requestsByType: Record<string, number>;
+    /** Request counts per phase, in the order the phases occurred */
+    requestsByPhase?: Record<string, number>;
   };
   domains: DomainSummary[];
   antiBotDetection: {
@@ -109,4 +839,280 @@ export interface AnalysisSummary {
     localStorage?: Record<string, string>;
     sessionStorage?: Record<string, string>;
   };
-}
\ No newline at end of file
+  actionResults?: ActionResult[];
+  realtimeConnections?: Array<{
+    id: string;
+    type: RealtimeConnection["type"];
+    url: string;
+    /** Messages seen, including those past the storage limit */
+    messageCount: number;
+  }>;
+}
+
+/**
+ * Name/value pair used for HAR headers, query strings and cookies
+ */
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+/**
+ * HAR 1.2 entry timings in milliseconds (-1 when not applicable)
+ */
+export interface HarTimings {
+  blocked?: number;
+  dns?: number;
+  connect?: number;
+  send: number;
+  wait: number;
+  receive: number;
+  ssl?: number;
+}
+
+/**
+ * HAR 1.2 request/response entry
+ */
+export interface HarEntry {
+  pageref?: string;
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    postData?: {
+      mimeType: string;
+      text: string;
+    };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    content: {
+      size: number;
+      mimeType: string;
+      text?: string;
+      encoding?: string;
+      comment?: string;
+    };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+    comment?: string;
+    _error?: string;
+    _transferSize?: number;
+  };
+  cache: Record<string, unknown>;
+  timings: HarTimings;
+  _resourceType?: string;
+  _phase?: RequestPhase;
+  _initiator?: RequestInitiator;
+}
+
+/**
+ * HAR 1.2 document
+ */
+export interface HarDocument {
+  log: {
+    version: string;
+    creator: {
+      name: string;
+      version: string;
+    };
+    pages: Array<{
+      startedDateTime: string;
+      id: string;
+      title: string;
+      pageTimings: {
+        onContentLoad?: number;
+        onLoad?: number;
+      };
+    }>;
+    entries: HarEntry[];
+    comment?: string;
+  };
+}
+
+
+export type JsonSchemaType = "null" | "boolean" | "integer" | "number" | "string" | "array" | "object";
+
+/**
+ * JSON Schema (draft 2020-12 subset) inferred from observed values
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  format?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+}
+
+/**
+ * Variable path segment of a discovered API endpoint
+ */
+export interface ApiPathParam {
+  name: string;
+  kind: "integer" | "uuid" | "hash" | "slug";
+  /** Distinct observed values, up to a small sample */
+  examples: string[];
+}
+
+/**
+ * API endpoint discovered from captured xhr/fetch requests, grouped by
+ * method, origin and path template
+ */
+export interface ApiEndpoint {
+  method: string;
+  origin: string;
+  /** Path with variable segments replaced by {param} placeholders */
+  pathTemplate: string;
+  pathParams: ApiPathParam[];
+  requestIds: string[];
+  querySchema?: JsonSchema;
+  requestBody?: {
+    contentType: string;
+    schema?: JsonSchema;
+  };
+  /** Observed responses keyed by status code */
+  responses: Record<string, {
+    count: number;
+    contentType?: string;
+    schema?: JsonSchema;
+  }>;
+}
+
+/**
+ * OpenAPI 3.1 document generated from discovered endpoints
+ */
+export interface OpenApiDocument {
+  openapi: string;
+  info: {
+    title: string;
+    version: string;
+    description?: string;
+  };
+  servers: Array<{ url: string }>;
+  paths: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * Single GraphQL operation found in a captured request. Batched requests
+ * yield one operation per array element.
+ */
+export interface GraphqlOperation {
+  requestId: string;
+  /** Position in a batched request, 0 when not batched */
+  batchIndex: number;
+  batched: boolean;
+  /** Request URL without query string */
+  endpoint: string;
+  operationName?: string;
+  operationType: "query" | "mutation" | "subscription" | "unknown";
+  variables?: Record<string, unknown>;
+  /** SHA-256 hash of an automatic persisted query, or a stored document ID */
+  persistedQueryHash?: string;
+  query?: string;
+  /** Parsed `data` of the matching response entry */
+  data?: unknown;
+  /** Error messages of the matching response entry */
+  errors?: string[];
+}
+
+/**
+ * GraphQL operations of an analysis grouped by endpoint, type and name
+ */
+export interface GraphqlOperationSummary {
+  /** Operation name, or a persisted:/anonymous label when unnamed */
+  label: string;
+  endpoint: string;
+  operationName?: string;
+  operationType: GraphqlOperation["operationType"];
+  count: number;
+  requestIds: string[];
+  persistedQueryHash?: string;
+  query?: string;
+  /** Distinct variable sets, up to a small sample */
+  variables: Array<Record<string, unknown>>;
+  responseShape?: JsonSchema;
+  errors: string[];
+}
+
+/**
+ * Request fields searched by search_requests
+ */
+export type SearchField = "url" | "requestHeaders" | "postData" | "responseBody";
+
+/**
+ * Criteria for searching captured requests. query is a substring, or a
+ * regex when written as /regex/flags; without a query only the filters
+ * apply.
+ */
+export interface RequestSearchCriteria {
+  query?: string;
+  caseSensitive?: boolean;
+  fields?: SearchField[];
+  method?: string;
+  resourceType?: string;
+  /** Substring of the response content-type header */
+  contentType?: string;
+  statusMin?: number;
+  statusMax?: number;
+}
+
+/**
+ * Excerpt around a search match, with the match wrapped in ** markers
+ */
+export interface SearchSnippet {
+  field: SearchField;
+  snippet: string;
+  /** Position of the match in the field's text */
+  offset: number;
+}
+
+/**
+ * Captured request matched by a search
+ */
+export interface RequestSearchMatch {
+  id: string;
+  url: string;
+  method: string;
+  resourceType: string;
+  status?: number;
+  /** Number of matches across the searched fields */
+  matchCount: number;
+  snippets: SearchSnippet[];
+}
+
+/**
+ * Structure of a JSON value without its data: types, object keys and array
+ * lengths. Arrays describe their items with one merged summary; when
+ * merged arrays differ in length, minLength and maxLength replace length.
+ */
+export interface ShapeSummary {
+  type: JsonSchemaType | JsonSchemaType[];
+  length?: number;
+  minLength?: number;
+  maxLength?: number;
+  keys?: Record<string, ShapeSummary>;
+  items?: ShapeSummary;
+  /** Number of keys of an object beyond the depth limit, which is not expanded */
+  keyCount?: number;
+}
+
+/**
+ * Node matched by a JSONPath expression
+ */
+export interface JsonPathMatch {
+  /** Normalized JSONPath of the node, e.g. $['items'][0]['price'] */
+  path: string;
+  value: unknown;
+}